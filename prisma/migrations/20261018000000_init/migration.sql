@@ -0,0 +1,102 @@
+-- Tables that predate prisma/migrations (created with `prisma db push`)
+--
+-- Every statement is idempotent, so this is a no-op on an existing database
+-- and creates the baseline schema on a fresh one. Later migrations add the
+-- columns and tables each feature needs.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "transcripts" (
+    "id" TEXT NOT NULL,
+    "vendor_call_key" TEXT NOT NULL,
+    "call_start" TIMESTAMP(3),
+    "call_end" TIMESTAMP(3),
+    "duration_seconds" INTEGER,
+    "disposition" TEXT,
+    "number_of_holds" INTEGER,
+    "hold_duration" INTEGER,
+    "department" TEXT,
+    "status" TEXT,
+    "agent_name" TEXT,
+    "agent_role" TEXT,
+    "agent_profile" TEXT,
+    "agent_email" TEXT,
+    "messages" JSONB,
+
+    CONSTRAINT "transcripts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "TranscriptAnalysis" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "vendorCallKey" TEXT NOT NULL,
+    "agentName" TEXT,
+    "agentSentiment" TEXT,
+    "agentSentimentScore" DOUBLE PRECISION,
+    "agentSentimentReason" TEXT,
+    "customerSentiment" TEXT,
+    "customerSentimentScore" DOUBLE PRECISION,
+    "customerSentimentReason" TEXT,
+    "aiDiscoveredTopic" TEXT,
+    "aiDiscoveredSubcategory" TEXT,
+    "topicConfidence" DOUBLE PRECISION,
+    "keyIssues" TEXT[],
+    "resolution" TEXT,
+    "tags" TEXT[],
+    "analyzedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "model" TEXT,
+
+    CONSTRAINT "TranscriptAnalysis_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "auth_otp" (
+    "email" VARCHAR(255) NOT NULL,
+    "code" VARCHAR(10) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auth_otp_pkey" PRIMARY KEY ("email")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "auth_rate_limit" (
+    "email" VARCHAR(255) NOT NULL,
+    "request_count" INTEGER NOT NULL DEFAULT 1,
+    "window_start" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auth_rate_limit_pkey" PRIMARY KEY ("email")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "transcripts_vendor_call_key_key" ON "transcripts"("vendor_call_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "TranscriptAnalysis_vendorCallKey_key" ON "TranscriptAnalysis"("vendorCallKey");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "TranscriptAnalysis_vendorCallKey_idx" ON "TranscriptAnalysis"("vendorCallKey");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "TranscriptAnalysis_agentSentiment_idx" ON "TranscriptAnalysis"("agentSentiment");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "TranscriptAnalysis_customerSentiment_idx" ON "TranscriptAnalysis"("customerSentiment");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "TranscriptAnalysis_aiDiscoveredTopic_idx" ON "TranscriptAnalysis"("aiDiscoveredTopic");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "auth_otp_expires_at_idx" ON "auth_otp"("expires_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "auth_rate_limit_expires_at_idx" ON "auth_rate_limit"("expires_at");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "TranscriptAnalysis" ADD CONSTRAINT "TranscriptAnalysis_vendorCallKey_fkey" FOREIGN KEY ("vendorCallKey") REFERENCES "transcripts"("vendor_call_key") ON DELETE RESTRICT ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
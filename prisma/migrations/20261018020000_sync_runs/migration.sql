@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "sync_runs" (
+    "id" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'running',
+    "trigger" VARCHAR(20),
+    "source" VARCHAR(50),
+    "window_start" VARCHAR(10),
+    "window_end" VARCHAR(10),
+    "fetched" INTEGER NOT NULL DEFAULT 0,
+    "imported" INTEGER NOT NULL DEFAULT 0,
+    "analyzed" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "failures" JSONB,
+    "error" TEXT,
+    "duration_ms" INTEGER,
+
+    CONSTRAINT "sync_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "sync_runs_started_at_idx" ON "sync_runs"("started_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "sync_runs_status_idx" ON "sync_runs"("status");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "sync_runs" ADD COLUMN IF NOT EXISTS "checkpoint" JSONB;
+ALTER TABLE "sync_runs" ADD COLUMN IF NOT EXISTS "resumed_from" TEXT;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "analysis_jobs" (
+    "id" TEXT NOT NULL,
+    "vendor_call_key" TEXT NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "last_error" TEXT,
+    "last_status_code" INTEGER,
+    "next_run_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "analysis_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "analysis_jobs_vendor_call_key_key" ON "analysis_jobs"("vendor_call_key");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "analysis_jobs_status_next_run_at_idx" ON "analysis_jobs"("status", "next_run_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "analysis_jobs_locked_at_idx" ON "analysis_jobs"("locked_at");
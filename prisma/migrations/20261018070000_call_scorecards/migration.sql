@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CallScorecard" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "vendorCallKey" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "analysis" JSONB NOT NULL,
+    "overallCallImpact" DOUBLE PRECISION,
+    "model" TEXT,
+
+    CONSTRAINT "CallScorecard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "CallScorecard_vendorCallKey_promptVersion_key" ON "CallScorecard"("vendorCallKey", "promptVersion");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CallScorecard_vendorCallKey_idx" ON "CallScorecard"("vendorCallKey");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "CallScorecard" ADD CONSTRAINT "CallScorecard_vendorCallKey_fkey" FOREIGN KEY ("vendorCallKey") REFERENCES "transcripts"("vendor_call_key") ON DELETE RESTRICT ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "SentimentTimeline" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "vendorCallKey" TEXT NOT NULL,
+    "sentiments" JSONB NOT NULL,
+    "messageCount" INTEGER NOT NULL,
+    "customerStartScore" DOUBLE PRECISION,
+    "customerEndScore" DOUBLE PRECISION,
+    "customerMinScore" DOUBLE PRECISION,
+    "largestDrop" DOUBLE PRECISION,
+    "dropPosition" DOUBLE PRECISION,
+    "model" TEXT,
+
+    CONSTRAINT "SentimentTimeline_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "SentimentTimeline_vendorCallKey_key" ON "SentimentTimeline"("vendorCallKey");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "SentimentTimeline_largestDrop_idx" ON "SentimentTimeline"("largestDrop");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "SentimentTimeline" ADD CONSTRAINT "SentimentTimeline_vendorCallKey_fkey" FOREIGN KEY ("vendorCallKey") REFERENCES "transcripts"("vendor_call_key") ON DELETE RESTRICT ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
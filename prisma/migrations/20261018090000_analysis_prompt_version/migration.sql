@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TranscriptAnalysis" ADD COLUMN IF NOT EXISTS "promptVersion" TEXT;
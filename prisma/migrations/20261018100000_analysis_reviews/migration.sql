@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "TranscriptAnalysis" ADD COLUMN IF NOT EXISTS "reviewedAt" TIMESTAMP(3);
+ALTER TABLE "TranscriptAnalysis" ADD COLUMN IF NOT EXISTS "reviewedBy" TEXT;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "AnalysisReview" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "vendorCallKey" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "originalValue" TEXT,
+    "newValue" TEXT,
+    "reviewer" TEXT NOT NULL,
+    "note" TEXT,
+    "supersededAt" TIMESTAMP(3),
+
+    CONSTRAINT "AnalysisReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "TranscriptAnalysis_reviewedAt_idx" ON "TranscriptAnalysis"("reviewedAt");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "AnalysisReview_vendorCallKey_idx" ON "AnalysisReview"("vendorCallKey");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "AnalysisReview_field_supersededAt_idx" ON "AnalysisReview"("field", "supersededAt");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "AnalysisReview" ADD CONSTRAINT "AnalysisReview_vendorCallKey_fkey" FOREIGN KEY ("vendorCallKey") REFERENCES "TranscriptAnalysis"("vendorCallKey") ON DELETE RESTRICT ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
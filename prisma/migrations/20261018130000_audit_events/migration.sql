@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "audit_events" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "actor" VARCHAR(255),
+    "action" VARCHAR(50) NOT NULL,
+    "resource" VARCHAR(255) NOT NULL,
+    "resource_ids" TEXT[],
+    "ip" VARCHAR(64),
+    "user_agent" TEXT,
+    "details" JSONB,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "audit_events_created_at_idx" ON "audit_events"("created_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "audit_events_actor_created_at_idx" ON "audit_events"("actor", "created_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "audit_events_action_created_at_idx" ON "audit_events"("action", "created_at");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "sessions" (
+    "id" VARCHAR(64) NOT NULL,
+    "email" VARCHAR(255) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "revoked_by" VARCHAR(255),
+    "user_agent" TEXT,
+    "ip" VARCHAR(64),
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "sessions_email_idx" ON "sessions"("email");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "sessions_expires_at_idx" ON "sessions"("expires_at");
@@ -0,0 +1,73 @@
+-- Tickets table (model Ticket)
+--
+-- Production databases already have a `tickets` table created by
+-- scripts/import-to-neon.mjs, so every statement is idempotent: the table is
+-- created on a fresh database, and only the categorization columns and
+-- indexes are added to an existing one.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "tickets" (
+    "id" BIGSERIAL NOT NULL,
+    "ticket_key" TEXT NOT NULL,
+    "ticket_uuid" TEXT,
+    "ticket_title" TEXT,
+    "ticket_description" TEXT,
+    "ticket_priority" TEXT,
+    "ticket_status" TEXT,
+    "ticket_type" TEXT,
+    "org_id" TEXT,
+    "org_name" TEXT,
+    "org_status_id" TEXT,
+    "org_status_name" TEXT,
+    "project_name" TEXT,
+    "ticket_reporter_email" TEXT,
+    "ticket_reporter_name" TEXT,
+    "assigned_user_name" TEXT,
+    "assigned_user_email" TEXT,
+    "first_response_sent_utc" TIMESTAMP(3),
+    "time_to_first_response_in_minutes" INTEGER,
+    "first_responder_email" TEXT,
+    "first_responder_name" TEXT,
+    "latest_response_sent_utc" TIMESTAMP(3),
+    "latest_responder_email" TEXT,
+    "latest_responder_name" TEXT,
+    "due_date_utc" TIMESTAMP(3),
+    "sla_ever_breached" BOOLEAN NOT NULL DEFAULT false,
+    "first_sla_breached_at_utc" TIMESTAMP(3),
+    "latest_sla_breached_at_utc" TIMESTAMP(3),
+    "deleted_at" TIMESTAMP(3),
+    "delete_reason_name" TEXT,
+    "is_ticket_complete" BOOLEAN NOT NULL DEFAULT false,
+    "ticket_completed_at_utc" TIMESTAMP(3),
+    "time_to_resolution_in_minutes" INTEGER,
+    "assigned_user_email_when_ticket_completed" TEXT,
+    "assigned_user_name_when_ticket_completed" TEXT,
+    "ticket_tags" TEXT,
+    "custom_fields" TEXT,
+    "category" TEXT,
+    "subcategory" TEXT,
+    "all_issues" TEXT,
+    "categorization_confidence" DOUBLE PRECISION,
+    "ticket_created_at_utc" TIMESTAMP(3) NOT NULL,
+    "ticket_updated_at_utc" TIMESTAMP(3),
+
+    CONSTRAINT "tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable (tables created before categorization was stored)
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "category" TEXT;
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "subcategory" TEXT;
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "all_issues" TEXT;
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "categorization_confidence" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "tickets_ticket_key_key" ON "tickets"("ticket_key");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_project_name_ticket_created_at_utc_idx" ON "tickets"("project_name", "ticket_created_at_utc");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_ticket_status_idx" ON "tickets"("ticket_status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_assigned_user_name_idx" ON "tickets"("assigned_user_name");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "category_version" TEXT;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_category_idx" ON "tickets"("category");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_category_version_idx" ON "tickets"("category_version");
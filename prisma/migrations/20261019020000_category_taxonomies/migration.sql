@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "category_taxonomies" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "rules_version" TEXT NOT NULL,
+    "definitions" JSONB NOT NULL,
+    "note" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "activated_at" TIMESTAMP(3),
+    "activated_by" TEXT,
+    "retired_at" TIMESTAMP(3),
+
+    CONSTRAINT "category_taxonomies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "category_taxonomies_version_key" ON "category_taxonomies"("version");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "category_taxonomies_status_idx" ON "category_taxonomies"("status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "category_taxonomies_activated_at_idx" ON "category_taxonomies"("activated_at");
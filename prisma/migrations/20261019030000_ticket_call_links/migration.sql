@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ticket_call_links" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ticket_key" TEXT NOT NULL,
+    "vendor_call_key" TEXT NOT NULL,
+    "matched_on" TEXT NOT NULL,
+    "minutes_from_ticket" INTEGER NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "ticket_call_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "ticket_call_links_ticket_key_vendor_call_key_key" ON "ticket_call_links"("ticket_key", "vendor_call_key");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ticket_call_links_vendor_call_key_idx" ON "ticket_call_links"("vendor_call_key");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "ticket_call_links" ADD CONSTRAINT "ticket_call_links_ticket_key_fkey" FOREIGN KEY ("ticket_key") REFERENCES "tickets"("ticket_key") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "ticket_call_links" ADD CONSTRAINT "ticket_call_links_vendor_call_key_fkey" FOREIGN KEY ("vendor_call_key") REFERENCES "transcripts"("vendor_call_key") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
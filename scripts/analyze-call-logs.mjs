@@ -204,6 +204,8 @@ Return ONLY valid JSON (no markdown):
       tags = EXCLUDED.tags,
       model = EXCLUDED.model,
       "updatedAt" = NOW()
+    -- QA-reviewed analyses keep their labels (src/lib/analysis-reviews.ts)
+    WHERE "TranscriptAnalysis"."reviewedAt" IS NULL
   `, [
     transcript.vendor_call_key,
     transcript.agent_name,
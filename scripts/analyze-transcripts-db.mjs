@@ -83,6 +83,16 @@ async function getAnalyzedTranscripts() {
  */
 async function saveToDatabase(analysis) {
   try {
+    // QA-reviewed analyses keep their labels (src/lib/analysis-reviews.ts)
+    const existing = await prisma.transcriptAnalysis.findUnique({
+      where: { vendorCallKey: analysis.vendorCallKey },
+      select: { reviewedAt: true },
+    });
+    if (existing?.reviewedAt) {
+      console.log(`⏭️  Kept QA-reviewed analysis for ${analysis.vendorCallKey}`);
+      return true;
+    }
+
     await prisma.transcriptAnalysis.upsert({
       where: { vendorCallKey: analysis.vendorCallKey },
       update: {
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+
+/**
+ * Categorization Backtest
+ *
+ * Scores the keyword categorizer under one or two taxonomy versions, and the
+ * stored AI topics, against the labeled evaluation set via
+ * /api/cron/category-eval. Prints per-category precision / recall, the
+ * confusion matrix, and what changed between the two versions.
+ *
+ * Usage:
+ *   node scripts/eval-categories.mjs --a active --b draft [--limit 200] [--eval-set data/fixtures/category-eval-set.json]
+ *   node scripts/eval-categories.mjs --a 0 --b 3 --fail-on-regression
+ *   node scripts/eval-categories.mjs --base-url https://<your-domain> --a 2 --b 3
+ *
+ * Versions are numbers, "active" or "draft" (0 is the built-in rules). With
+ * --fail-on-regression the script exits 2 when any item or category got worse
+ * from --a to --b. Run the dev server first (npm run dev).
+ */
+
+import dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+
+function formatPercent(value) {
+  return value === null || value === undefined ? '   -  ' : `${value.toFixed(1).padStart(5)}%`;
+}
+
+function formatDelta(value) {
+  if (value === null || value === undefined) return '     -';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`.padStart(6);
+}
+
+function printEngine(engine) {
+  console.log(`\n📊 ${engine.engine}: accuracy ${formatPercent(engine.accuracy).trim()}, ` +
+    `macro precision ${formatPercent(engine.macroPrecision).trim()}, macro recall ${formatPercent(engine.macroRecall).trim()} ` +
+    `(${engine.evaluated} evaluated, ${engine.missing} missing)`);
+  if (engine.evaluated === 0) return;
+
+  console.log(`${'Category'.padEnd(32)}${'Support'.padStart(8)}${'Precision'.padStart(11)}${'Recall'.padStart(9)}${'F1'.padStart(9)}`);
+  console.log('-'.repeat(69));
+  for (const category of engine.categories) {
+    console.log(
+      `${category.label.slice(0, 31).padEnd(32)}${String(category.support).padStart(8)}` +
+      `${formatPercent(category.precision).padStart(11)}${formatPercent(category.recall).padStart(9)}${formatPercent(category.f1).padStart(9)}`
+    );
+  }
+
+  // Confusion matrix, rows = expected, columns = predicted (numbered to fit)
+  if (engine.confusion && engine.confusion.labels.length <= 20) {
+    const { labels, counts } = engine.confusion;
+    console.log(`\n  Confusion (rows expected, columns predicted):`);
+    console.log(`  ${''.padEnd(30)}${labels.map((_, i) => String(i + 1).padStart(4)).join('')}`);
+    labels.forEach((label, i) => {
+      const row = counts[i].map((count) => (count === 0 ? '   .' : String(count).padStart(4))).join('');
+      console.log(`  ${`${i + 1}. ${label}`.slice(0, 29).padEnd(30)}${row}`);
+    });
+  }
+}
+
+async function evalCategories(options) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('❌ ERROR: CRON_SECRET not found in environment');
+    process.exit(1);
+  }
+
+  const params = new URLSearchParams({ a: options.a });
+  if (options.b) params.set('b', options.b);
+  if (options.limit) params.set('limit', String(options.limit));
+  if (options.evalSet) params.set('evalSet', options.evalSet);
+
+  const url = `${options.baseUrl}/api/cron/category-eval?${params}`;
+  console.log(`🧪 Backtesting taxonomy ${options.a}${options.b ? ` vs ${options.b}` : ''}`);
+  console.log(`📡 ${url}\n`);
+
+  const response = await fetch(url, {
+    headers: { 'Authorization': `Bearer ${cronSecret}` }
+  });
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+
+  console.log(`Evaluation set: ${data.evalSet} (${data.sampleSize} items)`);
+  for (const taxonomy of data.taxonomies) {
+    console.log(`  v${taxonomy.version} (${taxonomy.status}) ${taxonomy.rulesVersion}`);
+  }
+
+  for (const engine of data.engines) {
+    printEngine(engine);
+  }
+
+  const diff = data.diff;
+  if (!diff) return 0;
+
+  console.log(`\n🔀 v${diff.from} → v${diff.to} (percentage points)`);
+  console.log(`${'Category'.padEnd(32)}${'Precision'.padStart(10)}${'Recall'.padStart(8)}${'F1'.padStart(8)}`);
+  console.log('-'.repeat(58));
+  for (const category of diff.categories) {
+    console.log(
+      `${category.label.slice(0, 31).padEnd(32)}${formatDelta(category.precision).padStart(10)}` +
+      `${formatDelta(category.recall).padStart(8)}${formatDelta(category.f1).padStart(8)}`
+    );
+  }
+
+  for (const item of diff.fixed) {
+    console.log(`  ✅ ${item.id}: ${item.from} → ${item.to} (expected ${item.expected})`);
+  }
+  for (const item of diff.regressed) {
+    console.log(`  ❌ ${item.id}: ${item.from} → ${item.to} (expected ${item.expected})`);
+  }
+
+  if (diff.regressed.length > 0 || diff.regressedCategories.length > 0) {
+    console.log(`\n⚠️  Regressions: ${diff.regressed.length} item(s); categories: ${diff.regressedCategories.join(', ') || 'none'}`);
+    return options.failOnRegression ? 2 : 0;
+  }
+  console.log(`\n✅ No regressions (${diff.fixed.length} item(s) fixed)`);
+  return 0;
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const options = { a: 'active', baseUrl: 'http://localhost:3000', failOnRegression: false };
+
+  // Parse command line arguments
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--a' && args[i + 1]) {
+      options.a = args[i + 1];
+      i++;
+    } else if (args[i] === '--b' && args[i + 1]) {
+      options.b = args[i + 1];
+      i++;
+    } else if (args[i] === '--limit' && args[i + 1]) {
+      options.limit = parseInt(args[i + 1]);
+      i++;
+    } else if (args[i] === '--eval-set' && args[i + 1]) {
+      options.evalSet = args[i + 1];
+      i++;
+    } else if (args[i] === '--base-url' && args[i + 1]) {
+      options.baseUrl = args[i + 1];
+      i++;
+    } else if (args[i] === '--fail-on-regression') {
+      options.failOnRegression = true;
+    }
+  }
+
+  evalCategories(options)
+    .then((code) => process.exit(code))
+    .catch(error => {
+      console.error('❌', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Prompt A/B Evaluation
+ *
+ * Runs two transcript-analysis prompt versions over the gold set via
+ * /api/cron/prompt-eval and prints agreement with the gold labels.
+ *
+ * Usage:
+ *   node scripts/eval-prompts.mjs --a v1 --b v2 [--limit 20] [--gold-set data/fixtures/analysis-gold-set.json]
+ *   node scripts/eval-prompts.mjs --base-url https://<your-domain> --a v1 --b v2
+ *
+ * Run the dev server first (npm run dev). Set LLM_PROVIDER=mock to check
+ * the plumbing without API calls.
+ */
+
+import dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+
+const FIELDS = ['agentSentiment', 'customerSentiment', 'topic', 'subcategory'];
+
+function formatPercent(value) {
+  return value === null || value === undefined ? '   -  ' : `${value.toFixed(1).padStart(5)}%`;
+}
+
+async function evalPrompts(options) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('❌ ERROR: CRON_SECRET not found in environment');
+    process.exit(1);
+  }
+
+  const params = new URLSearchParams({ a: options.a, b: options.b });
+  if (options.limit) params.set('limit', String(options.limit));
+  if (options.goldSet) params.set('goldSet', options.goldSet);
+
+  const url = `${options.baseUrl}/api/cron/prompt-eval?${params}`;
+  console.log(`🧪 Comparing prompt ${options.a} vs ${options.b}`);
+  console.log(`📡 ${url}\n`);
+
+  const response = await fetch(url, {
+    headers: { 'Authorization': `Bearer ${cronSecret}` }
+  });
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+
+  console.log(`Gold set: ${data.goldSet} (${data.sampleSize} transcripts)\n`);
+  console.log(`${'Field'.padEnd(20)}${data.versions.map((v) => v.padStart(9)).join('')}   A vs B`);
+  console.log('-'.repeat(48));
+  for (const field of FIELDS) {
+    const columns = data.summaries.map((s) => formatPercent(s.agreement[field]).padStart(9)).join('');
+    console.log(`${field.padEnd(20)}${columns}   ${formatPercent(data.versionAgreement[field])}`);
+  }
+  console.log('-'.repeat(48));
+  for (const summary of data.summaries) {
+    console.log(`${summary.version}: ${summary.evaluated} evaluated, ${summary.failed} failed`);
+  }
+
+  // List disagreements with the gold labels for review
+  const misses = data.items.filter((item) =>
+    data.versions.some((v) => Object.values(item.predictions[v].matches).includes(false) || item.predictions[v].error)
+  );
+  if (misses.length > 0) {
+    console.log(`\n⚠️  ${misses.length} transcript(s) with a miss or error:`);
+    for (const item of misses) {
+      console.log(`\n  ${item.vendorCallKey}`);
+      console.log(`    gold: ${JSON.stringify(item.expected)}`);
+      for (const version of data.versions) {
+        const prediction = item.predictions[version];
+        console.log(`    ${version}:   ${prediction.error ? `ERROR ${prediction.error}` : JSON.stringify(prediction.labels)}`);
+      }
+    }
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const options = { a: 'v1', b: 'v2', baseUrl: 'http://localhost:3000' };
+
+  // Parse command line arguments
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--a' && args[i + 1]) {
+      options.a = args[i + 1];
+      i++;
+    } else if (args[i] === '--b' && args[i + 1]) {
+      options.b = args[i + 1];
+      i++;
+    } else if (args[i] === '--limit' && args[i + 1]) {
+      options.limit = parseInt(args[i + 1]);
+      i++;
+    } else if (args[i] === '--gold-set' && args[i + 1]) {
+      options.goldSet = args[i + 1];
+      i++;
+    } else if (args[i] === '--base-url' && args[i + 1]) {
+      options.baseUrl = args[i + 1];
+      i++;
+    }
+  }
+
+  evalPrompts(options)
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('❌', error.message);
+      process.exit(1);
+    });
+}
@@ -372,504 +372,8 @@ const ticketSample = tickets.slice(0, 100).map((t) => ({
   is_ticket_complete: t.is_ticket_complete,
 }));
 
-// ========================================
-// SERVICING ANALYSIS (Filtered Data)
-// ========================================
-const servicingProjects = ['Servicing Help', 'Servicing Escalations WG', 'ServApp Support', 'CMG Servicing Oversight'];
-const servicingTickets = tickets.filter(t => servicingProjects.includes(t.project_name));
-
-// Category keywords for classification
-const categoryKeywords = {
-  'Automated System Messages': ['automatic reply', 'unmonitored mailbox', 'sagentsupport', 'auto-reply'],
-  'Payment Issues': ['payment', 'pay ', 'ach', 'autopay', 'draft', 'misapplied', 'overpayment', 'underpayment', 'double draft'],
-  'Escrow': ['escrow', 'tax bill', 'tax ', 'insurance', 'hoi ', 'pmi', 'shortage', 'surplus', 'flood', 'hazard'],
-  'Documentation': ['statement', 'letter', 'document', '1098', 'payoff', 'release', 'mortgage release', 'amortization', 'confirmation'],
-  'Transfer/Boarding': ['transfer', 'board', 'cenlar', 'sold', 'subservicer', 'lakeview', 'servicemac', 'notice of servicing'],
-  'Voice/Alert Requests': ['voice mail', 'voicemail', 'alert', 'interim'],
-  'Account Access': ['login', 'password', 'access', 'portal', 'locked out', 'reset', 'website link', 'online'],
-  'Loan Info Request': ['loan number', 'loan info', 'balance', 'rate', 'mailing address', 'wire', 'reimbursement'],
-  'Insurance/Coverage': ['mycoverageinfo', 'covius', 'coverage', 'policy'],
-  'Loan Changes': ['recast', 'buyout', 'assumption', 'modification', 'forbearance', 'hardship', 'loss mitigation', 'deferment'],
-  'Complaints/Escalations': ['complaint', 'escalat', 'elevated', 'urgent', 'mess', 'facebook', 'issue'],
-  'General Inquiry': ['help', 'question', 'request', 'information', 'needed', 'assistance'],
-  'Communication/Forwarded': ['fw:', 'fwd:', 're:', 'follow up', 'call back'],
-};
-const loanNumberPattern = /\b(r[a-z]{2}\d{7,}|0\d{9}|\d{10,}|loan\s*#?\s*\d+)/i;
-
-// Categorize tickets
-function categorizeTicket(title) {
-  const lowerTitle = String(title || '').toLowerCase();
-  for (const [cat, terms] of Object.entries(categoryKeywords)) {
-    if (terms.some(term => lowerTitle.includes(term))) {
-      return cat;
-    }
-  }
-  if (loanNumberPattern.test(String(title || ''))) {
-    return 'Loan-Specific Inquiry';
-  }
-  return 'Other';
-}
-
-// Calculate servicing stats
-const servicingCategories = {};
-const servicingByMonth = {};
-const servicingByWeek = {};
-const servicingByDay = {};
-const servicingCategoryByMonth = {};
-
-servicingTickets.forEach(t => {
-  const category = categorizeTicket(t.ticket_title);
-  servicingCategories[category] = (servicingCategories[category] || 0) + 1;
-
-  if (t.ticket_created_at_utc) {
-    const date = new Date(t.ticket_created_at_utc);
-    if (!isNaN(date.getTime())) {
-      // Monthly
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      servicingByMonth[monthKey] = (servicingByMonth[monthKey] || 0) + 1;
-
-      // Weekly (week starting Sunday)
-      const weekStart = new Date(date);
-      weekStart.setDate(date.getDate() - date.getDay());
-      const weekKey = weekStart.toISOString().slice(0, 10);
-      servicingByWeek[weekKey] = (servicingByWeek[weekKey] || 0) + 1;
-
-      // Daily
-      const dayKey = date.toISOString().slice(0, 10);
-      servicingByDay[dayKey] = (servicingByDay[dayKey] || 0) + 1;
-
-      // Category by month (for trend analysis)
-      if (!servicingCategoryByMonth[monthKey]) {
-        servicingCategoryByMonth[monthKey] = {};
-      }
-      servicingCategoryByMonth[monthKey][category] = (servicingCategoryByMonth[monthKey][category] || 0) + 1;
-    }
-  }
-});
-
-// Top 6 categories
-const topCategories = Object.entries(servicingCategories)
-  .sort((a, b) => b[1] - a[1])
-  .slice(0, 6)
-  .map(([name, count]) => ({ name, count, percent: Math.round(count / servicingTickets.length * 100) }));
-
-// Find the last date with actual ticket data (moved up to use in categoryTrends)
-const allDates = servicingTickets
-  .map(t => new Date(t.ticket_created_at_utc))
-  .filter(d => !isNaN(d.getTime()))
-  .sort((a, b) => b - a);
-const lastTicketDate = allDates[0];
-console.log(`📅 Last ticket date: ${lastTicketDate.toISOString().slice(0, 10)}`);
-
-// Helper to check if a period is complete (has ended before last ticket date)
-const isCompletePeriod = (periodStart, periodType) => {
-  // Parse date string directly to avoid timezone issues
-  const parts = periodStart.split('-').map(Number);
-  const year = parts[0];
-  const month = parts[1]; // 1-indexed from string (1=Jan, 12=Dec)
-  const day = parts[2] || 1;
-
-  let periodEnd;
-
-  if (periodType === 'monthly') {
-    // Period ends at the last day of the month
-    // new Date(year, month, 0) gives last day of month (month is 1-indexed here)
-    periodEnd = new Date(year, month, 0); // month is already 1-indexed, so this gives last day
-  } else if (periodType === 'weekly') {
-    // Period ends 6 days after start (week = 7 days)
-    periodEnd = new Date(year, month - 1, day + 6);
-  } else {
-    // Daily - period is complete if it's before or equal to last ticket date
-    periodEnd = new Date(year, month - 1, day);
-  }
-
-  return periodEnd <= lastTicketDate;
-};
-
-// Category trends by month - only include complete months
-const categoryTrends = Object.entries(servicingCategoryByMonth)
-  .sort(([a], [b]) => a.localeCompare(b))
-  .filter(([month]) => isCompletePeriod(month + '-01', 'monthly'))
-  .map(([month, cats]) => ({
-    month,
-    ...Object.fromEntries(topCategories.map(c => [c.name, cats[c.name] || 0]))
-  }));
-
-// Format time series data - only include complete periods to avoid misleading downward slopes
-const servicingTimeSeries = {
-  monthly: Object.entries(servicingByMonth)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .filter(([date]) => isCompletePeriod(date + '-01', 'monthly'))
-    .map(([date, count]) => ({ date, count })),
-  weekly: Object.entries(servicingByWeek)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .filter(([date]) => isCompletePeriod(date, 'weekly'))
-    .slice(-12)
-    .map(([date, count]) => ({ date, count })),
-  daily: Object.entries(servicingByDay)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .filter(([date]) => isCompletePeriod(date, 'daily'))
-    .slice(-30)
-    .map(([date, count]) => ({ date, count })),
-};
-
-console.log(`📊 Time series: ${servicingTimeSeries.monthly.length} months, ${servicingTimeSeries.weekly.length} weeks, ${servicingTimeSeries.daily.length} days`);
-
-// Servicing analysis object
-const servicingAnalysis = {
-  totalTickets: servicingTickets.length,
-  projects: servicingProjects.map(p => ({
-    name: p,
-    count: servicingTickets.filter(t => t.project_name === p).length
-  })).sort((a, b) => b.count - a.count),
-  categories: Object.entries(servicingCategories)
-    .sort((a, b) => b[1] - a[1])
-    .map(([name, count]) => ({ name, count, percent: Math.round(count / servicingTickets.length * 100) })),
-  topCategories,
-  categoryTrends,
-  timeSeries: servicingTimeSeries,
-};
-
-console.log(`📊 Servicing Analysis: ${servicingTickets.length.toLocaleString()} tickets in ${topCategories.length} top categories`);
-
-// ========================================
-// CATEGORIZED TICKET ANALYSIS (NEW)
-// Categorize tickets directly from the parsed ticket data
-// ========================================
-console.log('📊 Categorizing tickets...');
-
-// Simple categorization function (inline)
-function categorizeTicket(title, description) {
-  const combined = `${title} ${description}`.toLowerCase();
-
-  const categoryKeywords = {
-    'Payment Issues': ['payment', 'pay', 'autopay', 'ach', 'draft', 'first payment', 'where do i send'],
-    'Account Access': ['login', 'password', 'access', 'locked out', 'reset', 'portal'],
-    'Loan Transfer': ['transfer', 'sold', 'servicer', 'boarding', 'cenlar', 'lakeview'],
-    'Document Requests': ['statement', 'payoff', '1098', 'letter', 'document', 'release'],
-    'Escrow': ['escrow', 'tax', 'insurance', 'impound', 'shortage', 'surplus'],
-    'Escalation': ['complaint', 'escalat', 'urgent', 'supervisor', 'legal'],
-    'Voice/Alert Requests': ['voice', 'alert', 'voicemail'],
-    'Loan Information': ['balance', 'rate', 'loan number', 'loan info'],
-    'Loan Modifications': ['modification', 'forbearance', 'hardship', 'recast'],
-    'Communication': ['fw:', 'fwd:', 're:', 'follow up']
-  };
-
-  for (const [category, keywords] of Object.entries(categoryKeywords)) {
-    for (const keyword of keywords) {
-      if (combined.includes(keyword)) {
-        return { category, subcategory: `General ${category}`, confidence: 0.7 };
-      }
-    }
-  }
-
-  return { category: 'Other', subcategory: 'Uncategorized', confidence: 0.3 };
-}
-
-// Enhanced subcategorization based on title/description keywords
-function detectSubcategory(category, title, description) {
-  const text = `${title} ${description}`.toLowerCase();
-
-  // Payment subcategories
-  if (category === 'Payment' || category === 'Payment Issues') {
-    if (text.match(/first payment|initial payment|where.*send|payment address|where.*pay/i)) return 'First Payment Inquiry';
-    if (text.match(/autopay|automatic|recurring|scheduled payment/i)) return 'Autopay Setup/Issues';
-    if (text.match(/declined|failed|bounced|rejected|nsf|insufficient/i)) return 'Payment Failure';
-    if (text.match(/duplicate|double|twice|charged.*again/i)) return 'Duplicate Payment';
-    if (text.match(/confirmation|receipt|proof.*payment/i)) return 'Payment Confirmation';
-    if (text.match(/how much|amount due|balance|payment.*amount/i)) return 'Payment Amount Inquiry';
-    if (text.match(/missing|didn.*receive|not.*apply|where.*payment/i)) return 'Missing Payment';
-    if (text.match(/refund|overpayment|return/i)) return 'Payment Refund Request';
-    if (text.match(/ach|wire|check|method|how.*pay/i)) return 'Payment Method Questions';
-    return 'General Payment Inquiry';
-  }
-
-  // Escrow subcategories
-  if (category === 'Escrow') {
-    if (text.match(/shortage|increase|analysis/i)) return 'Escrow Shortage/Analysis';
-    if (text.match(/refund|surplus|excess/i)) return 'Escrow Refund';
-    if (text.match(/waiver|remove|cancel/i)) return 'Escrow Waiver Request';
-    return 'General Escrow Inquiry';
-  }
-
-  // Insurance subcategories
-  if (category.includes('Insurance')) {
-    if (text.match(/lapse|cancel|expired/i)) return 'Insurance Lapse/Cancellation';
-    if (text.match(/force.*place|fip/i)) return 'Force-Placed Insurance';
-    if (text.match(/evidence|proof|declaration/i)) return 'Insurance Evidence Request';
-    if (text.match(/add.*insurance|new.*insurance/i)) return 'Insurance Addition';
-    return 'General Insurance Inquiry';
-  }
-
-  // Property Tax subcategories
-  if (category === 'Property Tax') {
-    if (text.match(/duplicate|double.*pay/i)) return 'Duplicate Tax Payment';
-    if (text.match(/delinquent|past.*due|late/i)) return 'Delinquent Tax Issue';
-    if (text.match(/certification|tax.*cert/i)) return 'Tax Certification';
-    return 'General Tax Inquiry';
-  }
-
-  // Document subcategories
-  if (category === 'Documents' || category === 'Document Requests') {
-    if (text.match(/statement|billing/i)) return 'Statement Request';
-    if (text.match(/1098|tax.*form/i)) return 'Tax Form Request';
-    if (text.match(/payoff|satisfaction/i)) return 'Payoff Statement';
-    if (text.match(/welcome.*packet|loan.*packet/i)) return 'Welcome Packet';
-    if (text.match(/authorization|consent/i)) return 'Authorization Form';
-    return 'General Document Request';
-  }
-
-  // Payoff subcategories
-  if (category.includes('Payoff')) {
-    if (text.match(/quote|request|amount/i)) return 'Payoff Quote Request';
-    if (text.match(/satisfaction|release|lien/i)) return 'Satisfaction/Lien Release';
-    if (text.match(/partial|curtailment/i)) return 'Partial Payoff';
-    return 'General Payoff Inquiry';
-  }
-
-  // Account Access subcategories
-  if (category === 'Account Maintenance' || category === 'General Account Inquiry') {
-    if (text.match(/login|password|access|locked|portal/i)) return 'Login/Access Issues';
-    if (text.match(/address.*change|move|relocation/i)) return 'Address Change';
-    if (text.match(/name.*change|marriage|divorce/i)) return 'Name Change';
-    if (text.match(/phone|email|contact/i)) return 'Contact Info Update';
-    if (text.match(/balance|principal|interest.*rate/i)) return 'Account Balance Inquiry';
-    return 'General Account Maintenance';
-  }
-
-  // Service Transfer subcategories
-  if (category === 'Service Transfer' || category === 'Loan Transfer') {
-    if (text.match(/sold|transfer.*servicing|new.*servicer/i)) return 'Loan Sold/Transferred';
-    if (text.match(/assumption|assume/i)) return 'Loan Assumption';
-    return 'Transfer Inquiry';
-  }
-
-  // Default: use category as subcategory
-  return category;
-}
-
-// Categorize all servicing tickets
-const categorizedTickets = tickets.map(t => {
-  // Try to use the actual custom_fields.Category first
-  let category = 'Other';
-  let subcategory = 'Uncategorized';
-  let confidence = 0.3;
-
-  try {
-    if (t.custom_fields) {
-      const customFields = JSON.parse(t.custom_fields);
-      if (customFields.Category) {
-        category = customFields.Category;
-        confidence = 1.0; // High confidence since it's from the actual data
-      }
-    }
-  } catch (e) {
-    // If custom_fields parsing fails, fall back to keyword categorization
-  }
-
-  // Fall back to keyword-based categorization if no custom field
-  if (category === 'Other') {
-    const result = categorizeTicket(t.ticket_title || '', t.ticket_description || '');
-    category = result.category;
-    subcategory = result.subcategory;
-    confidence = result.confidence;
-  } else {
-    // Detect subcategory from title and description
-    subcategory = detectSubcategory(category, t.ticket_title || '', t.ticket_description || '');
-  }
-
-  return {
-    category,
-    subcategory,
-    categorization_confidence: confidence,
-    ticket_created_at_utc: t.ticket_created_at_utc,
-  };
-});
-
-console.log(`✅ Categorized ${categorizedTickets.length.toLocaleString()} tickets`);
-
-// Category statistics
-let categorizedAnalytics = null;
-let baselineAnalytics = null;
-
-const categoryStats = {};
-const subcategoryStats = {};
-let totalConfidence = 0;
-let confidenceCount = 0;
-
-categorizedTickets.forEach(t => {
-    const category = t.category || 'Other';
-    const subcategory = t.subcategory || 'Uncategorized';
-    const confidence = parseFloat(t.categorization_confidence) || 0;
-
-    // Category totals
-    if (!categoryStats[category]) {
-      categoryStats[category] = { count: 0, confidenceSum: 0, confidenceCount: 0, subcategories: {} };
-    }
-    categoryStats[category].count++;
-    if (confidence > 0) {
-      categoryStats[category].confidenceSum += confidence;
-      categoryStats[category].confidenceCount++;
-      totalConfidence += confidence;
-      confidenceCount++;
-    }
-
-    // Subcategory totals
-    const key = `${category}::${subcategory}`;
-    if (!subcategoryStats[key]) {
-      subcategoryStats[key] = { category, subcategory, count: 0, confidenceSum: 0, confidenceCount: 0 };
-    }
-    subcategoryStats[key].count++;
-    if (confidence > 0) {
-      subcategoryStats[key].confidenceSum += confidence;
-      subcategoryStats[key].confidenceCount++;
-    }
-
-    // Subcategories within category
-    if (!categoryStats[category].subcategories[subcategory]) {
-      categoryStats[category].subcategories[subcategory] = 0;
-    }
-    categoryStats[category].subcategories[subcategory]++;
-  });
-
-  // Format category statistics
-  const categories = Object.entries(categoryStats).map(([name, data]) => ({
-    category: name,
-    count: data.count,
-    percentage: Math.round((data.count / categorizedTickets.length) * 100),
-    avgConfidence: data.confidenceCount > 0
-      ? parseFloat((data.confidenceSum / data.confidenceCount).toFixed(3))
-      : 0,
-    subcategories: Object.entries(data.subcategories).map(([subName, count]) => ({
-      name: subName,
-      count,
-      percentage: Math.round((count / categorizedTickets.length) * 100),
-    })).sort((a, b) => b.count - a.count),
-  })).sort((a, b) => b.count - a.count);
-
-  // Format all subcategories
-  const subcategories = Object.values(subcategoryStats).map(data => ({
-    category: data.category,
-    subcategory: data.subcategory,
-    count: data.count,
-    percentage: Math.round((data.count / categorizedTickets.length) * 100),
-    avgConfidence: data.confidenceCount > 0
-      ? parseFloat((data.confidenceSum / data.confidenceCount).toFixed(3))
-      : 0,
-  })).sort((a, b) => b.count - a.count);
-
-  categorizedAnalytics = {
-    summary: {
-      totalCategorized: categorizedTickets.length,
-      totalCategories: Object.keys(categoryStats).length,
-      totalSubcategories: Object.keys(subcategoryStats).length,
-      avgConfidence: confidenceCount > 0
-        ? parseFloat((totalConfidence / confidenceCount).toFixed(3))
-        : 0,
-    },
-    categories,
-    subcategories,
-  };
-
-  console.log(`📊 Categorization: ${categories.length} categories, ${subcategories.length} subcategories`);
-
-  // Baseline vs Recent Analysis (for Trends tab)
-  const ticketsWithDates = categorizedTickets.filter(t => {
-    const date = t.ticket_created_at_utc || t.created_date || t.callDate || t.call_date;
-    return date && date.trim() !== '';
-  }).map(t => ({
-    ...t,
-    parsedDate: new Date(t.ticket_created_at_utc || t.created_date || t.callDate || t.call_date),
-  })).filter(t => !isNaN(t.parsedDate.getTime()));
-
-  if (ticketsWithDates.length > 0) {
-    // Sort by date descending
-    ticketsWithDates.sort((a, b) => b.parsedDate - a.parsedDate);
-
-    // Generate baseline comparisons for multiple time windows
-    const timeWindows = [7, 14, 21, 30, 60, 90];
-    const baselineComparisons = {};
-
-    timeWindows.forEach(daysRecent => {
-      const daysBaseline = daysRecent; // Same window size for baseline
-      const now = ticketsWithDates[0].parsedDate; // Use most recent ticket date
-
-      const recentStart = new Date(now.getTime() - daysRecent * 24 * 60 * 60 * 1000);
-      const baselineStart = new Date(recentStart.getTime() - daysBaseline * 24 * 60 * 60 * 1000);
-      const baselineEnd = recentStart;
-
-      const recentTickets = ticketsWithDates.filter(t => t.parsedDate >= recentStart);
-      const baselineTickets = ticketsWithDates.filter(t =>
-        t.parsedDate >= baselineStart && t.parsedDate < baselineEnd
-      );
-
-      // Count by category+subcategory
-      const recentCounts = {};
-      const baselineCounts = {};
-
-      recentTickets.forEach(t => {
-        const key = `${t.category}::${t.subcategory}`;
-        recentCounts[key] = (recentCounts[key] || 0) + 1;
-      });
-
-      baselineTickets.forEach(t => {
-        const key = `${t.category}::${t.subcategory}`;
-        baselineCounts[key] = (baselineCounts[key] || 0) + 1;
-      });
-
-      // Combine all keys
-      const allKeys = new Set([...Object.keys(recentCounts), ...Object.keys(baselineCounts)]);
-
-      const trends = Array.from(allKeys).map(key => {
-        const [category, subcategory] = key.split('::');
-        const baseline = baselineCounts[key] || 0;
-        const recent = recentCounts[key] || 0;
-        const change = recent - baseline;
-        const percentChange = baseline > 0
-          ? Math.round((change / baseline) * 100)
-          : recent > 0 ? 100 : 0;
-
-        let trend = 'stable';
-        if (Math.abs(percentChange) >= 20) {
-          trend = percentChange > 0 ? 'increasing' : 'decreasing';
-        }
-
-        return {
-          category,
-          subcategory,
-          baseline,
-          recent,
-          change,
-          percentChange,
-          trend,
-        };
-      }).sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
-
-      baselineComparisons[daysRecent] = {
-        daysRecent,
-        daysBaseline,
-        recentPeriod: {
-          start: recentStart.toISOString().split('T')[0],
-          end: now.toISOString().split('T')[0],
-          total: recentTickets.length,
-        },
-        baselinePeriod: {
-          start: baselineStart.toISOString().split('T')[0],
-          end: baselineEnd.toISOString().split('T')[0],
-          total: baselineTickets.length,
-        },
-        trends,
-        summary: {
-          increasing: trends.filter(t => t.trend === 'increasing').length,
-          decreasing: trends.filter(t => t.trend === 'decreasing').length,
-          stable: trends.filter(t => t.trend === 'stable').length,
-        },
-      };
-    });
-
-  baselineAnalytics = baselineComparisons;
-  console.log(`📊 Generated baseline comparisons for ${Object.keys(baselineComparisons).length} time windows`);
-}
+// Ticket categories and the servicing/category analytics come from the
+// tickets table (src/lib/data-loader.ts); this script does not categorize.
 
 // ========================================
 // ALL TICKETS FOR RAW DATA TABLE
@@ -893,8 +397,8 @@ const allTickets = tickets.map((t) => ({
   responseTime: t.time_to_first_response_in_minutes,
   resolutionTime: t.time_to_resolution_in_minutes,
   complete: isComplete(t),
-  // Add category for drill-down filtering (uses same categorization as analytics)
-  category: categorizeTicket(t.ticket_title),
+  // Category stored by the shared categorizer at ingest (src/lib/tickets.ts)
+  category: String(t.category || 'Other'),
 }));
 
 // Write minified JSON without formatting to save space
@@ -912,8 +416,6 @@ const output = {
   statusBreakdown,
   priorityBreakdown,
   ticketSample,
-  // Servicing-only analysis
-  servicingAnalysis,
   // New analytics data
   heatmaps: {
     dayHour: {
@@ -929,9 +431,6 @@ const output = {
   },
   issues,
   trends,
-  // Enhanced categorization analytics
-  categorizedAnalytics,
-  baselineAnalytics,
   processedAt: new Date().toISOString(),
 };
 
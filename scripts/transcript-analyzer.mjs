@@ -117,6 +117,16 @@ Return ONLY valid JSON, no other text.`;
       ...analysis,
     };
 
+    // QA-reviewed analyses keep their labels (src/lib/analysis-reviews.ts)
+    const existing = await prisma.transcriptAnalysis.findUnique({
+      where: { vendorCallKey: result.vendorCallKey },
+      select: { reviewedAt: true },
+    });
+    if (existing?.reviewedAt) {
+      console.log(`⏭️  Kept QA-reviewed analysis for ${result.vendorCallKey}`);
+      return result;
+    }
+
     // Save to database immediately
     await prisma.transcriptAnalysis.upsert({
       where: { vendorCallKey: result.vendorCallKey },
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { recordAuditEvent } from '@/lib/audit';
+import { agentInsightsSchema, completeValidated, isLLMConfigured, type AgentInsights, type LLMError } from '@/lib/llm';
 
 interface AgentStats {
   name: string;
@@ -60,11 +62,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Agent stats required' }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
+    if (!isLLMConfigured()) {
       return NextResponse.json({ error: 'OpenRouter API key not configured' }, { status: 500 });
     }
 
+    await recordAuditEvent(request, {
+      action: 'ai.agent-profile',
+      resource: '/api/agent-profile',
+      resourceIds: (agentStats.recentCalls || []).map(call => call.id),
+      details: { agentName: agentStats.name, agentEmail: agentStats.email },
+    });
+
     // Determine performance tier
     let performanceTier: AgentProfile['metrics']['performanceTier'];
     if (agentStats.sentimentScore >= 30) performanceTier = 'top';
@@ -115,48 +123,18 @@ GUIDELINES:
 Be specific to mortgage customer service (payments, escrow, loan questions, frustrated homeowners).
 Focus on actionable, measurable improvements.`;
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://servicing-ticket-analysis.vercel.app',
-        'X-Title': 'Servicing Ticket Analysis - Agent Profile',
-      },
-      body: JSON.stringify({
-        model: 'anthropic/claude-3.5-sonnet',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: 'Generate the coaching profile for this agent.' },
-        ],
-        max_tokens: 1500,
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenRouter API error:', errorData);
-      return NextResponse.json({ error: 'Profile analysis failed' }, { status: 500 });
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '{}';
-
-    // Parse AI response
-    let aiInsights;
+    // Parse AI response (schema-checked, with one repair round)
+    let aiInsights: AgentInsights;
     try {
-      let jsonStr = content.trim();
-      // Remove markdown code blocks
-      if (jsonStr.startsWith('```json')) jsonStr = jsonStr.slice(7);
-      if (jsonStr.startsWith('```')) jsonStr = jsonStr.slice(3);
-      if (jsonStr.endsWith('```')) jsonStr = jsonStr.slice(0, -3);
-      // Extract JSON object
-      const objectMatch = jsonStr.match(/\{[\s\S]*\}/);
-      if (objectMatch) jsonStr = objectMatch[0];
-      aiInsights = JSON.parse(jsonStr);
+      ({ data: aiInsights } = await completeValidated('agentProfile', [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: 'Generate the coaching profile for this agent.' },
+      ], agentInsightsSchema));
     } catch (e) {
-      console.error('Failed to parse AI response:', content);
+      const { validationErrors } = e as LLMError;
+      if (!validationErrors) throw e;
+
+      console.error('AI coaching profile failed validation:', validationErrors);
       // Provide fallback insights
       aiInsights = {
         strengths: performanceTier === 'top' || performanceTier === 'good'
@@ -188,10 +166,7 @@ Focus on actionable, measurable improvements.`;
         sentimentScore: agentStats.sentimentScore,
         performanceTier,
       },
-      strengths: aiInsights.strengths || [],
-      areasForImprovement: aiInsights.areasForImprovement || [],
-      recommendations: aiInsights.recommendations || [],
-      overallAssessment: aiInsights.overallAssessment || '',
+      ...aiInsights,
       recentCalls: agentStats.recentCalls,
     };
 
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getQueueCounts,
+  listAnalysisJobs,
+  requeueAnalysisJobs,
+  type JobStatus
+} from '@/lib/analysis-queue';
+import { getLLMUsage } from '@/lib/llm';
+
+const VIEWS = ['problems', 'stuck', 'pending', 'running', 'done', 'failed'];
+const USAGE_DAYS = 7;
+
+/**
+ * Analysis Queue Admin
+ *
+ * GET /api/analysis-jobs
+ *
+ * Query parameters:
+ * - view: problems (dead-lettered + stuck, default), stuck, pending, running, done, failed
+ * - limit: Number of jobs to return (default: 100, max: 500)
+ *
+ * Also returns AI token usage per use case for the last 7 days.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const view = searchParams.get('view') || 'problems';
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), 500);
+
+    if (!VIEWS.includes(view)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid view. Use one of: ${VIEWS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [counts, jobs, usage] = await Promise.all([
+      getQueueCounts(),
+      listAnalysisJobs(view as 'problems' | 'stuck' | JobStatus, limit),
+      getLLMUsage(USAGE_DAYS),
+    ]);
+
+    return NextResponse.json({ success: true, counts, jobs, usage, usageDays: USAGE_DAYS });
+  } catch (error) {
+    console.error('❌ [ANALYSIS JOBS] Failed to load queue:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Requeue dead-lettered or stuck jobs
+ *
+ * POST /api/analysis-jobs
+ * Body: { action: 'retry', ids: string[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (body.action !== 'retry' || !Array.isArray(body.ids)) {
+      return NextResponse.json(
+        { success: false, error: "Expected { action: 'retry', ids: string[] }" },
+        { status: 400 }
+      );
+    }
+
+    const requeued = await requeueAnalysisJobs(body.ids.filter((id: unknown) => typeof id === 'string'));
+
+    return NextResponse.json({
+      success: true,
+      message: `Requeued ${requeued} job(s)`,
+      requeued
+    });
+  } catch (error) {
+    console.error('❌ [ANALYSIS JOBS] Failed to requeue jobs:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/auth/jwt';
+import {
+  getAgreementMetrics,
+  getReviewQueue,
+  getReviews,
+  submitReview,
+  validateReviewLabels,
+} from '@/lib/analysis-reviews';
+
+/**
+ * Human QA Review of AI Labels
+ *
+ * GET /api/analysis-reviews?view=queue&limit=50
+ *   Unreviewed analyses, least certain first
+ * GET /api/analysis-reviews?view=metrics&days=30
+ *   AI vs reviewer agreement per field (days omitted = all time)
+ * GET /api/analysis-reviews?vendorCallKey=<key>
+ *   Review history for one transcript
+ *
+ * POST /api/analysis-reviews
+ *   { "vendorCallKey": "...", "labels": { "customerSentiment": "negative" }, "note": "..." }
+ *   Overrides (or confirms) labels; the signed-in user is recorded as reviewer
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const vendorCallKey = searchParams.get('vendorCallKey');
+    const view = searchParams.get('view') || 'queue';
+
+    if (vendorCallKey) {
+      const reviews = await getReviews(vendorCallKey);
+      return NextResponse.json({ success: true, reviews });
+    }
+
+    if (view === 'metrics') {
+      const days = parseInt(searchParams.get('days') || '');
+      const since = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+      const metrics = await getAgreementMetrics({ since });
+      return NextResponse.json({ success: true, ...metrics });
+    }
+
+    if (view !== 'queue') {
+      return NextResponse.json(
+        { success: false, error: `Unknown view: ${view}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200);
+    const queue = await getReviewQueue(limit);
+    return NextResponse.json({ success: true, queue });
+  } catch (error) {
+    console.error('❌ [REVIEW] Failed to load reviews:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getRequestSession(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { vendorCallKey, labels, note } = await request.json() as {
+      vendorCallKey?: string;
+      labels?: Record<string, string>;
+      note?: string;
+    };
+
+    if (!vendorCallKey) {
+      return NextResponse.json(
+        { success: false, error: 'vendorCallKey is required' },
+        { status: 400 }
+      );
+    }
+
+    const labelError = validateReviewLabels(labels || {});
+    if (labelError) {
+      return NextResponse.json({ success: false, error: labelError }, { status: 400 });
+    }
+
+    const reviews = await submitReview({ vendorCallKey, labels: labels!, note, reviewer: session.email });
+    if (!reviews) {
+      return NextResponse.json(
+        { success: false, error: 'Transcript has no AI analysis to review' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, reviews });
+  } catch (error) {
+    console.error('❌ [REVIEW] Failed to save review:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -2,11 +2,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Prisma } from '@prisma/client';
 import prisma from '@/lib/db';
-import fs from 'fs';
-import path from 'path';
+import { getCategoryBaseline, getCategoryStats as getStoredCategoryStats } from '@/lib/data-loader';
 
 /**
- * PHASE 2: Advanced Analytics API (Hybrid: Database + Static JSON Fallback)
+ * PHASE 2: Advanced Analytics API
  *
  * GET /api/analytics?type=[baseline|monthly|agent|categories|all]
  *
@@ -17,7 +16,7 @@ import path from 'path';
  * - Category distribution
  * - Trend analysis
  *
- * Falls back to pre-processed JSON when database is empty
+ * Baseline and categories come from the stored categories on the tickets table
  */
 
 interface BaselineComparison {
@@ -59,159 +58,10 @@ interface CategoryStats {
 }
 
 /**
- * Load pre-processed JSON data
- */
-function loadProcessedData() {
-  const dataPath = path.join(process.cwd(), 'data', 'processed-stats.json');
-
-  if (!fs.existsSync(dataPath)) {
-    return null;
-  }
-
-  const content = fs.readFileSync(dataPath, 'utf-8');
-  return JSON.parse(content);
-}
-
-/**
- * Get baseline vs recent comparison from JSON
- */
-function getBaselineFromJSON(daysRecent: number = 21) {
-  const data = loadProcessedData();
-  if (!data?.baselineAnalytics) {
-    return null;
-  }
-
-  // Find closest time window
-  const availableWindows = Object.keys(data.baselineAnalytics).map(Number);
-  const closestWindow = availableWindows.reduce((prev, curr) =>
-    Math.abs(curr - daysRecent) < Math.abs(prev - daysRecent) ? curr : prev
-  );
-
-  const baseline = data.baselineAnalytics[closestWindow];
-  if (!baseline?.trends) {
-    return null;
-  }
-
-  // Convert to API format
-  return baseline.trends.map((t: any) => ({
-    category: t.category,
-    subcategory: t.subcategory,
-    baselineCount: t.baseline,
-    recentCount: t.recent,
-    change: t.change,
-    percentChange: t.percentChange,
-    trend: t.trend,
-  }));
-}
-
-/**
- * Get category stats from JSON
- */
-function getCategoryStatsFromJSON() {
-  const data = loadProcessedData();
-  if (!data?.categorizedAnalytics) {
-    return null;
-  }
-
-  const analytics = data.categorizedAnalytics;
-
-  // Return all subcategories with their stats
-  return analytics.subcategories.map((sub: any) => ({
-    category: sub.category,
-    subcategory: sub.subcategory,
-    count: sub.count,
-    percentage: sub.percentage,
-    avgConfidence: sub.avgConfidence,
-  }));
-}
-
-/**
- * Get baseline vs recent comparison from database
+ * Get baseline vs recent comparison from the tickets table
  */
 async function getBaselineComparison(daysRecent: number = 21): Promise<BaselineComparison[]> {
-  const now = new Date();
-  const recentStart = new Date(now.getTime() - daysRecent * 24 * 60 * 60 * 1000);
-
-  // NOTE: Database schema changed - this API now falls back to JSON files
-  // Return empty array to trigger JSON fallback in frontend
-  return [];
-
-  // Get all tickets/transcripts (disabled - tables don't exist in current schema)
-  // const [allTickets, allTranscripts] = await Promise.all([
-  //   prisma.transcripts.findMany({
-  //     select: {
-  //       call_start: true,
-  //     },
-  //   }),
-  // ]);
-
-  // If both are empty, return null to trigger JSON fallback
-  // if (allTickets.length === 0 && allTranscripts.length === 0) {
-  //   return [];
-  // }
-
-  // Combine tickets and transcripts (disabled - unreachable code after early return)
-  /*
-  const allRecords = [
-    ...allTickets.map(t => ({
-      date: t.ticketCreatedAtUtc,
-      category: t.category || 'Other',
-      subcategory: t.subcategory || 'Uncategorized',
-    })),
-    ...allTranscripts.map(t => ({
-      date: t.callDate,
-      category: t.category || 'Other',
-      subcategory: t.subcategory || 'Uncategorized',
-    })),
-  ].filter(r => r.date !== null);
-
-  // Split into baseline and recent
-  const baseline = allRecords.filter(r => r.date! < recentStart);
-  const recent = allRecords.filter(r => r.date! >= recentStart);
-
-  // Count by category/subcategory
-  const baselineCounts = new Map<string, number>();
-  const recentCounts = new Map<string, number>();
-
-  for (const record of baseline) {
-    const key = `${record.category}|${record.subcategory}`;
-    baselineCounts.set(key, (baselineCounts.get(key) || 0) + 1);
-  }
-
-  for (const record of recent) {
-    const key = `${record.category}|${record.subcategory}`;
-    recentCounts.set(key, (recentCounts.get(key) || 0) + 1);
-  }
-
-  // Build comparison
-  const allKeys = new Set([...baselineCounts.keys(), ...recentCounts.keys()]);
-  const comparison: BaselineComparison[] = [];
-
-  for (const key of allKeys) {
-    const [category, subcategory] = key.split('|');
-    const baselineCount = baselineCounts.get(key) || 0;
-    const recentCount = recentCounts.get(key) || 0;
-    const change = recentCount - baselineCount;
-    const percentChange = baselineCount > 0 ? (change / baselineCount) * 100 : 0;
-
-    let trend: 'increasing' | 'decreasing' | 'stable' = 'stable';
-    if (percentChange > 10) trend = 'increasing';
-    else if (percentChange < -10) trend = 'decreasing';
-
-    comparison.push({
-      category,
-      subcategory,
-      baselineCount,
-      recentCount,
-      change,
-      percentChange,
-      trend,
-    });
-  }
-
-  // Sort by change (largest changes first)
-  return comparison.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
-  */
+  return getCategoryBaseline(daysRecent);
 }
 
 /**
@@ -354,63 +204,10 @@ async function getAgentPerformance(): Promise<AgentPerformance[]> {
 }
 
 /**
- * Get category statistics from database
+ * Get category statistics from the tickets table
  */
 async function getCategoryStats(): Promise<CategoryStats[]> {
-  // NOTE: Database schema changed - this API now falls back to JSON files
-  return [];
-
-  /*
-  const [tickets, transcripts] = await Promise.all([
-    prisma.transcripts.findMany({
-      select: {
-        category: true,
-        subcategory: true,
-        categorizationConfidence: true,
-      },
-    }),
-    prisma.transcript.findMany({
-      select: {
-        category: true,
-        subcategory: true,
-        categorizationConfidence: true,
-      },
-    }),
-  ]);
-
-  const combined = [...tickets, ...transcripts];
-
-  // If empty, return empty array to trigger JSON fallback
-  if (combined.length === 0) {
-    return [];
-  }
-
-  const categoryMap = new Map<string, { count: number; confidenceSum: number }>();
-
-  for (const record of combined) {
-    const key = `${record.category || 'Other'}|${record.subcategory || 'Uncategorized'}`;
-    const existing = categoryMap.get(key) || { count: 0, confidenceSum: 0 };
-    existing.count++;
-    existing.confidenceSum += record.categorizationConfidence || 0;
-    categoryMap.set(key, existing);
-  }
-
-  const total = combined.length;
-  const stats: CategoryStats[] = [];
-
-  for (const [key, data] of categoryMap.entries()) {
-    const [category, subcategory] = key.split('|');
-    stats.push({
-      category,
-      subcategory,
-      count: data.count,
-      percentage: (data.count / total) * 100,
-      avgConfidence: data.confidenceSum / data.count,
-    });
-  }
-
-  return stats.sort((a, b) => b.count - a.count);
-  */
+  return getStoredCategoryStats();
 }
 
 /**
@@ -428,10 +225,6 @@ export async function GET(request: NextRequest) {
     switch (type) {
       case 'baseline':
         data = await getBaselineComparison(daysRecent);
-        if (!data || data.length === 0) {
-          data = getBaselineFromJSON(daysRecent);
-          source = 'json';
-        }
         break;
 
       case 'monthly':
@@ -452,10 +245,6 @@ export async function GET(request: NextRequest) {
 
       case 'categories':
         data = await getCategoryStats();
-        if (!data || data.length === 0) {
-          data = getCategoryStatsFromJSON();
-          source = 'json';
-        }
         break;
 
       case 'all':
@@ -465,10 +254,10 @@ export async function GET(request: NextRequest) {
         const categories = await getCategoryStats();
 
         data = {
-          baseline: baseline.length > 0 ? baseline : (getBaselineFromJSON(daysRecent) || []),
+          baseline,
           monthly: monthly.length > 0 ? monthly : [],
           agent: agent.length > 0 ? agent : [],
-          categories: categories.length > 0 ? categories : (getCategoryStatsFromJSON() || []),
+          categories,
         };
         source = 'hybrid';
         break;
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
+import { complete, isLLMConfigured } from '@/lib/llm';
+import { recordAuditEvent } from '@/lib/audit';
 
 export async function POST(request: NextRequest) {
   try {
@@ -9,8 +11,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Prompt is required' }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
+    if (!isLLMConfigured()) {
       return NextResponse.json({ error: 'OpenRouter API key not configured' }, { status: 500 });
     }
 
@@ -87,6 +88,14 @@ export async function POST(request: NextRequest) {
       }),
     ]);
 
+    // Sample transcripts are sent to the model, so record which ones
+    await recordAuditEvent(request, {
+      action: 'ai.analyze',
+      resource: '/api/analyze',
+      resourceIds: (sampleTranscripts as { vendor_call_key: string }[]).map(t => t.vendor_call_key),
+      details: { prompt: String(prompt).slice(0, 500) },
+    });
+
     // Calculate sentiment breakdown
     const sentimentBreakdown = sentimentStats.reduce((acc, stat) => {
       acc[stat.customerSentiment || 'unknown'] = stat._count;
@@ -125,20 +134,10 @@ ${sampleTranscripts.map((t: any) => {
 }).join('\n')}
 `;
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://servicing-ticket-analysis.vercel.app',
-        'X-Title': 'Servicing Ticket Analysis',
-      },
-      body: JSON.stringify({
-        model: 'anthropic/claude-3.5-sonnet',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a helpful data analyst assistant specializing in call center transcript analysis. You have access to the following data about customer service call transcripts. Provide insightful, actionable analysis based on the user's questions.
+    const { content } = await complete('analyze', [
+      {
+        role: 'system',
+        content: `You are a helpful data analyst assistant specializing in call center transcript analysis. You have access to the following data about customer service call transcripts. Provide insightful, actionable analysis based on the user's questions.
 
 ${contextData}
 
@@ -150,25 +149,14 @@ When analyzing, focus on:
 5. Being specific with numbers, percentages, and metrics
 
 Keep your responses concise but informative. Use bullet points and formatting for clarity.`,
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        max_tokens: 2000,
-        temperature: 0.7,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenRouter API error:', errorData);
-      return NextResponse.json({ error: 'AI analysis failed' }, { status: 500 });
-    }
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ]);
 
-    const data = await response.json();
-    const analysis = data.choices?.[0]?.message?.content || 'No analysis generated';
+    const analysis = content || 'No analysis generated';
 
     return NextResponse.json({ analysis });
   } catch (error) {
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/auth/jwt';
+import { API_KEY_SCOPES, isApiKeyScope } from '@/lib/auth/roles';
+import { createApiKey, listApiKeys, revokeApiKey } from '@/lib/auth/api-keys';
+
+/**
+ * API Key Management (admin only - enforced in middleware)
+ *
+ * GET /api/api-keys
+ *   Every key (never the key itself) with its scopes, expiry and last use
+ *
+ * POST /api/api-keys
+ *   { "name": "Salesforce ingest", "scopes": ["ingest:write"], "expiresInDays": 90 }
+ *   Returns the plaintext key once - it cannot be retrieved again
+ *
+ * DELETE /api/api-keys
+ *   { "id": "<key id>" }
+ */
+export async function GET() {
+  try {
+    const apiKeys = await listApiKeys();
+    return NextResponse.json({ success: true, apiKeys, scopes: API_KEY_SCOPES });
+  } catch (error) {
+    console.error('❌ [API KEYS] Failed to list keys:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, scopes, expiresInDays } = await request.json() as {
+      name?: string;
+      scopes?: unknown[];
+      expiresInDays?: number | null;
+    };
+
+    if (!name || !name.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      return NextResponse.json(
+        { success: false, error: `scopes must be a non-empty list of ${API_KEY_SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (expiresInDays !== undefined && expiresInDays !== null && (!Number.isFinite(expiresInDays) || expiresInDays <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'expiresInDays must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const { key, apiKey } = await createApiKey({
+      name: name.trim().slice(0, 100),
+      scopes: scopes.filter(isApiKeyScope),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      createdBy: getRequestSession(request)?.email || null,
+    });
+
+    return NextResponse.json({ success: true, key, apiKey });
+  } catch (error) {
+    console.error('❌ [API KEYS] Failed to create key:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { id } = await request.json() as { id?: string };
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'id is required' },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = await revokeApiKey(id, getRequestSession(request)?.email || 'unknown');
+    if (!apiKey) {
+      return NextResponse.json(
+        { success: false, error: 'Key not found or already revoked' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, apiKey });
+  } catch (error) {
+    console.error('❌ [API KEYS] Failed to revoke key:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
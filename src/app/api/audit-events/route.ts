@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchAuditEvents } from '@/lib/audit';
+
+/**
+ * Audit Trail Search (admin only - enforced in middleware)
+ *
+ * GET /api/audit-events?actor=jane&vendorCallKey=abc123&action=transcript.view&from=2026-01-01&to=2026-01-31&limit=100&offset=0
+ *   Newest first. Every filter is optional; `actor` is a partial email match
+ *   and `to` is inclusive of the whole day.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), 500);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    let toDate: Date | undefined;
+    if (to) {
+      toDate = new Date(to);
+      toDate.setDate(toDate.getDate() + 1);
+    }
+
+    const { events, total } = await searchAuditEvents({
+      actor: searchParams.get('actor')?.trim() || undefined,
+      vendorCallKey: searchParams.get('vendorCallKey')?.trim() || undefined,
+      action: searchParams.get('action') || undefined,
+      from: from ? new Date(from) : undefined,
+      to: toDate,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      success: true,
+      events,
+      pagination: { total, limit, offset, hasMore: offset + events.length < total },
+    });
+  } catch (error) {
+    console.error('❌ [AUDIT] Failed to search audit events:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,17 +1,40 @@
 /**
  * Logout API Route
- * Clears the authentication cookie and ends the session
+ * Revokes the session server-side and clears the authentication cookie
+ *
+ * POST /api/auth/logout
+ *   Ends this session
+ * POST /api/auth/logout  { "everywhere": true }
+ *   Ends every session for the signed-in user ("sign out everywhere")
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { AUTH_CONFIG } from '@/lib/auth/config';
+import { decodeAuthToken } from '@/lib/auth/jwt';
+import { revokeSession, revokeUserSessions } from '@/lib/auth/sessions';
 
 export async function POST(req: NextRequest) {
   try {
+    const { everywhere } = await req.json().catch(() => ({})) as { everywhere?: boolean };
+
+    // Revoke server-side so the token stops working even if it was copied
+    const token = req.cookies.get(AUTH_CONFIG.COOKIE_NAME)?.value;
+    const session = token ? decodeAuthToken(token) : null;
+    let revoked = 0;
+
+    if (session) {
+      if (everywhere) {
+        revoked = await revokeUserSessions(session.email, session.email);
+      } else if (await revokeSession(session.jti, session.email)) {
+        revoked = 1;
+      }
+    }
+
     // Create response
     const response = NextResponse.json({
       success: true,
-      message: 'Logged out successfully',
+      message: everywhere ? 'Signed out everywhere' : 'Logged out successfully',
+      revokedSessions: revoked,
     });
 
     // Clear auth cookie
@@ -25,7 +48,7 @@ export async function POST(req: NextRequest) {
       path: '/',
     });
 
-    console.log('[Logout] User logged out');
+    console.log(`[Logout] ${session?.email || 'User'} logged out${everywhere ? ' everywhere' : ''}`);
 
     return response;
 
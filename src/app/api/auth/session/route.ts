@@ -20,7 +20,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Verify token
-    const session = verifyAuthToken(token);
+    const session = await verifyAuthToken(token);
 
     if (!session) {
       return NextResponse.json(
@@ -33,6 +33,7 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({
       authenticated: true,
       email: session.email,
+      role: session.role,
       expiresAt: session.expiresAt,
     });
 
@@ -7,6 +7,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { isValidCMGEmail, createAuthToken } from '@/lib/auth/jwt';
 import { AUTH_CONFIG } from '@/lib/auth/config';
 import { getOTP, incrementOTPAttempt, deleteOTP } from '@/lib/auth/db';
+import { recordLogin } from '@/lib/auth/users';
+import { getClientIp } from '@/lib/audit';
 
 export async function POST(req: NextRequest) {
   try {
@@ -66,14 +68,21 @@ export async function POST(req: NextRequest) {
     // Success! Delete OTP from database
     await deleteOTP(emailLower);
 
-    // Create JWT token with 7-day expiry
-    const token = createAuthToken(emailLower);
+    // Look up (or create) the user so their role goes into the token
+    const role = await recordLogin(emailLower);
+
+    // Create JWT token with 7-day expiry, backed by a revocable session
+    const token = await createAuthToken(emailLower, role, {
+      userAgent: req.headers.get('user-agent'),
+      ip: getClientIp(req),
+    });
 
     // Create response with httpOnly cookie
     const response = NextResponse.json({
       success: true,
       message: 'Authentication successful',
       email: emailLower,
+      role,
       expiresAt: Date.now() + (AUTH_CONFIG.SESSION_EXPIRY_HOURS * 60 * 60 * 1000),
     });
 
@@ -88,7 +97,7 @@ export async function POST(req: NextRequest) {
       path: '/',
     });
 
-    console.log(`[Verify OTP] User authenticated: ${emailLower}`);
+    console.log(`[Verify OTP] User authenticated: ${emailLower} (${role})`);
 
     return response;
 
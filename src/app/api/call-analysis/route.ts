@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { canAccessCall, getAgentScope } from '@/lib/auth/scope';
 import prisma from '@/lib/db';
+import { getScorecard, saveScorecard } from '@/lib/call-scorecards';
+import { toConversation } from '@/lib/conversations';
+import { describeTimeline, getTimeline } from '@/lib/sentiment-timelines';
+import { recordAuditEvent } from '@/lib/audit';
+import { callAnalysisSchema, completeValidated, isLLMConfigured, type LLMError } from '@/lib/llm';
 
 interface Message {
   role: 'agent' | 'customer';
@@ -13,110 +19,85 @@ interface CallMetadata {
   callStart?: string;
 }
 
-// Comprehensive call analysis response structure
-export interface CallAnalysis {
-  // Overall Scores (1-5 scale)
-  overallScores: {
-    customerSatisfaction: number;
-    resolutionConfidence: number;
-    agentProfessionalism: number;
-    empathyConnection: number;
-    communicationClarity: number;
-    overallCallImpact: number;
-  };
-
-  // Executive Summary
-  executiveSummary: {
-    overview: string;
-    reasonForContact: string;
-    mainActions: string;
-    resolutionOutcome: string;
-    emotionalTrajectory: string;
-  };
-
-  // Key Interaction Points
-  keyInteractionPoints: string[];
-
-  // Follow-up Items
-  followUpItems: Array<{
-    party: 'Agent' | 'Customer' | 'Back Office';
-    action: string;
-    context: string;
-    deadline: string;
-  }>;
-
-  // Sentiment Progression
-  sentimentProgression: {
-    customer: {
-      start: { tone: string; score: number };
-      mid: { tone: string; score: number };
-      end: { tone: string; score: number };
-    };
-    agent: {
-      start: { tone: string; score: number };
-      mid: { tone: string; score: number };
-      end: { tone: string; score: number };
-    };
-  };
-
-  // Communication Quality (1-5 each)
-  communicationQuality: {
-    customer: {
-      clarity: number;
-      empathy: number;
-      activeListening: number;
-      respectfulness: number;
-      emotionalRegulation: number;
-      responsiveness: number;
-    };
-    agent: {
-      clarity: number;
-      empathy: number;
-      activeListening: number;
-      respectfulness: number;
-      emotionalRegulation: number;
-      responsiveness: number;
-    };
-  };
-
-  // Behavioral Summaries
-  agentSummary: {
-    toneProfessionalism: string;
-    problemSolving: string;
-    empathyConnection: string;
-    deEscalation: string;
-    closure: string;
-  };
-
-  customerSummary: {
-    initialDisposition: string;
-    engagementCooperation: string;
-    toneEvolution: string;
-    satisfactionLevel: string;
-  };
-
-  // Insights
-  insights: {
-    relationalFlow: string;
-    conflictRecovery: string;
-    psychologicalCommentary: string;
-  };
-}
-
+// Comprehensive call analysis response structure (validated by callAnalysisSchema)
+export type { CallAnalysis } from '@/lib/llm';
+
+/**
+ * Score a call
+ *
+ * With a vendorCallKey the stored transcript is scored and the scorecard is
+ * stored; messages, metadata and sentiment context come from the database and
+ * anything the client sent for them is ignored. Without one, the posted
+ * messages are scored and nothing is stored.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { messages, metadata, sentimentContext } = await request.json() as {
-      messages: Message[];
+    const body = await request.json() as {
+      messages?: Message[];
       metadata?: CallMetadata;
       sentimentContext?: string;
+      vendorCallKey?: string;   // Scores the stored transcript and enables the stored scorecard cache
+      regenerate?: boolean;     // Ignore the stored scorecard and re-score the call
     };
+    const { vendorCallKey, regenerate } = body;
+
+    // Agents can only analyze their own calls
+    if (!await canAccessCall(getAgentScope(request), vendorCallKey)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let messages: Message[] | undefined = body.messages;
+    let metadata = body.metadata;
+    let sentimentContext = body.sentimentContext;
+
+    if (vendorCallKey) {
+      const transcript = await prisma.transcripts.findUnique({
+        where: { vendor_call_key: vendorCallKey },
+        select: { messages: true, agent_name: true, department: true, duration_seconds: true, call_start: true },
+      });
+      if (!transcript) {
+        return NextResponse.json({ error: 'Transcript not found' }, { status: 404 });
+      }
+
+      messages = toConversation(transcript.messages);
+      metadata = {
+        agentName: transcript.agent_name || undefined,
+        department: transcript.department || undefined,
+        durationSeconds: transcript.duration_seconds || undefined,
+        callStart: transcript.call_start?.toISOString(),
+      };
+
+      // Ground the scores in the stored sentiment timeline when it covers these messages
+      const timeline = await getTimeline(vendorCallKey).catch(() => null);
+      sentimentContext = timeline && timeline.messageCount === messages.length
+        ? describeTimeline(messages.map((message) => message.role), timeline.sentiments)
+        : '';
+    }
 
-    if (!messages || !Array.isArray(messages)) {
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
       return NextResponse.json({ error: 'Messages array is required' }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
+    await recordAuditEvent(request, {
+      action: 'ai.call-analysis',
+      resource: '/api/call-analysis',
+      resourceIds: vendorCallKey ? [vendorCallKey] : [],
+      details: { messageCount: messages.length, regenerate: !!regenerate },
+    });
+
+    // Serve the stored scorecard unless a fresh one was asked for
+    if (vendorCallKey && !regenerate) {
+      try {
+        const stored = await getScorecard(vendorCallKey);
+        if (stored) {
+          return NextResponse.json({ ...stored, cached: true });
+        }
+      } catch (error) {
+        console.warn('Failed to load stored scorecard:', error);
+      }
+    }
+
+    if (!isLLMConfigured()) {
       return NextResponse.json({ error: 'OpenRouter API key not configured' }, { status: 500 });
     }
 
@@ -325,90 +306,37 @@ Be critical but fair. Mortgage calls are high-stakes - customers are often stres
 ${sentimentContext || ''}
 Return ONLY the JSON object, no other text.`;
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://servicing-ticket-analysis.vercel.app',
-        'X-Title': 'Servicing Ticket Analysis - Call Analysis',
-      },
-      body: JSON.stringify({
-        model: 'anthropic/claude-3.5-sonnet', // Using Sonnet for more complex analysis
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: `${metadataContext}Analyze this customer service call transcript:\n\n${conversationText}`,
-          },
-        ],
-        max_tokens: 4000,
-        temperature: 0.1, // Low temperature for consistent structured output
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenRouter API error:', errorData);
-      return NextResponse.json({ error: 'Call analysis failed' }, { status: 500 });
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '{}';
-
-    // Parse the JSON response with robust error handling
+    // Scores are clamped to 1-5; a response missing required sections gets one repair round
     try {
-      let jsonStr = content.trim();
-
-      // Remove any preamble text before JSON
-      const jsonStart = jsonStr.indexOf('{');
-      if (jsonStart > 0) {
-        jsonStr = jsonStr.substring(jsonStart);
-      }
-
-      // Remove markdown code blocks if present
-      if (jsonStr.startsWith('```json')) {
-        jsonStr = jsonStr.slice(7);
-      }
-      if (jsonStr.startsWith('```')) {
-        jsonStr = jsonStr.slice(3);
-      }
-      if (jsonStr.endsWith('```')) {
-        jsonStr = jsonStr.slice(0, -3);
+      const { data: analysis, model } = await completeValidated('callAnalysis', [
+        {
+          role: 'system',
+          content: systemPrompt,
+        },
+        {
+          role: 'user',
+          content: `${metadataContext}Analyze this customer service call transcript:\n\n${conversationText}`,
+        },
+      ], callAnalysisSchema);
+
+      if (vendorCallKey) {
+        try {
+          const stored = await saveScorecard(vendorCallKey, analysis, model);
+          return NextResponse.json({ ...stored, cached: false });
+        } catch (error) {
+          console.warn('Failed to store scorecard:', error);
+        }
       }
 
-      // Remove any trailing text after JSON
-      const jsonEnd = jsonStr.lastIndexOf('}');
-      if (jsonEnd > 0 && jsonEnd < jsonStr.length - 1) {
-        jsonStr = jsonStr.substring(0, jsonEnd + 1);
-      }
-
-      // Extract JSON object from response (find outermost braces)
-      const objectMatch = jsonStr.match(/\{[\s\S]*\}/);
-      if (objectMatch) {
-        jsonStr = objectMatch[0];
-      }
-
-      jsonStr = jsonStr.trim();
-
-      // Attempt to parse
-      const analysis = JSON.parse(jsonStr) as CallAnalysis;
-
-      // Validate that we have the required structure
-      if (!analysis.overallScores || !analysis.executiveSummary) {
-        throw new Error('Invalid analysis structure');
-      }
+      return NextResponse.json({ analysis, model, generatedAt: new Date().toISOString(), cached: false });
+    } catch (analysisError) {
+      const { validationErrors, message } = analysisError as LLMError;
+      if (!validationErrors) throw analysisError;
 
-      return NextResponse.json({ analysis });
-    } catch (parseError) {
-      console.error('Failed to parse call analysis response. Error:', parseError);
-      console.error('Raw content:', content.substring(0, 500)); // Log first 500 chars
+      console.error('Call analysis failed validation:', validationErrors);
       return NextResponse.json({
         error: 'Failed to parse analysis - AI returned invalid format. Please try again.',
-        details: parseError instanceof Error ? parseError.message : 'Unknown error'
+        details: message
       }, { status: 500 });
     }
   } catch (error) {
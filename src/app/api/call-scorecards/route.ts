@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentScope } from '@/lib/auth/scope';
+import { listAgentScorecards } from '@/lib/call-scorecards';
+import { recordAuditEvent } from '@/lib/audit';
+
+/**
+ * Agent Scorecards and Coaching Notes
+ *
+ * GET /api/call-scorecards?limit=20
+ *   Agents: scorecards for their own calls
+ * GET /api/call-scorecards?agentEmail=jane@cmgfi.com&limit=20
+ *   Supervisors and above: scorecards for any agent
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+    // Agents are always scoped to themselves, whatever agentEmail says
+    const agentEmail = getAgentScope(request) || searchParams.get('agentEmail')?.toLowerCase().trim();
+    if (!agentEmail) {
+      return NextResponse.json(
+        { success: false, error: 'agentEmail is required' },
+        { status: 400 }
+      );
+    }
+
+    const scorecards = await listAgentScorecards(agentEmail, limit);
+    await recordAuditEvent(request, {
+      action: 'scorecard.view',
+      resource: '/api/call-scorecards',
+      resourceIds: scorecards.map(card => card.vendorCallKey),
+      details: { agentEmail },
+    });
+
+    return NextResponse.json({ success: true, agentEmail, scorecards });
+  } catch (error) {
+    console.error('❌ [SCORECARDS] Failed to load scorecards:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedMachineRequest } from '@/lib/auth/api-keys';
+import { drainAnalysisQueue } from '@/lib/analysis-queue';
+
+// Vercel function limit for this route (seconds)
+export const maxDuration = 300;
+
+// Stop claiming new jobs this long before maxDuration
+const DEADLINE_MARGIN_MS = 60 * 1000;
+
+/**
+ * Cron Job: AI Analysis Worker
+ *
+ * Drains up to N due jobs from the analysis_jobs queue per invocation.
+ * Jobs that hit a 429/5xx are rescheduled with exponential backoff;
+ * jobs that run out of attempts are dead-lettered for the admin view.
+ *
+ * Usage: GET /api/cron/analysis-worker?limit=50
+ *
+ * Secured with Vercel Cron Secret or an API key with the sync:run scope
+ */
+export async function GET(request: NextRequest) {
+  if (!await isAuthorizedMachineRequest(request, 'sync:run')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '50') || 50, 1), 500);
+
+  try {
+    console.log(`🤖 [WORKER] Draining up to ${limit} analysis jobs...`);
+
+    const result = await drainAnalysisQueue({
+      limit,
+      deadline: Date.now() + maxDuration * 1000 - DEADLINE_MARGIN_MS
+    });
+
+    console.log(`✅ [WORKER] ${result.done} done, ${result.retried} retrying, ${result.failed} dead-lettered`);
+
+    return NextResponse.json({
+      success: true,
+      processed: result.processed,
+      done: result.done,
+      retried: result.retried,
+      failed: result.failed,
+      stopped: result.stopped,
+      results: result.results,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('❌ [WORKER] Analysis worker failed:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
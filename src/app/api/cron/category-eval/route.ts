@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedMachineRequest } from '@/lib/auth/api-keys';
+import {
+  DEFAULT_CATEGORY_EVAL_SET_PATH,
+  evaluateCategorization,
+  loadCategoryEvalSet,
+  resolveTaxonomy,
+} from '@/lib/categorization-eval';
+
+/**
+ * Categorization Backtest
+ *
+ * Scores the keyword categorizer under taxonomy version `a` (and `b`, to diff
+ * the two) and the stored AI topics against a labeled evaluation set:
+ * per-category precision, recall and confusion matrices. With `b`, `diff`
+ * lists categories whose precision or recall dropped and the items that
+ * flipped between right and wrong. Nothing is written.
+ *
+ * Usage: GET /api/cron/category-eval?a=active&b=draft&evalSet=data/fixtures/category-eval-set.json
+ *        (versions are numbers, "active" or "draft"; 0 is the built-in rules)
+ * CLI:   node scripts/eval-categories.mjs --a active --b draft
+ *
+ * Secured with CRON_SECRET or an API key with the sync:run scope (same as the other machine-to-machine routes)
+ */
+export async function GET(request: NextRequest) {
+  if (!await isAuthorizedMachineRequest(request, 'sync:run')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const versionA = searchParams.get('a') || 'active';
+  const versionB = searchParams.get('b');
+  const evalSetPath = searchParams.get('evalSet') || DEFAULT_CATEGORY_EVAL_SET_PATH;
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Math.max(parseInt(limitParam) || 1, 1) : undefined;
+
+  try {
+    const [taxonomyA, taxonomyB] = await Promise.all([
+      resolveTaxonomy(versionA),
+      versionB ? resolveTaxonomy(versionB) : null,
+    ]);
+
+    const unknown = [taxonomyA ? null : versionA, versionB && !taxonomyB ? versionB : null].filter(Boolean);
+    if (unknown.length > 0 || (taxonomyA && taxonomyB && taxonomyA.version === taxonomyB.version)) {
+      return NextResponse.json({
+        success: false,
+        error: unknown.length > 0
+          ? `Unknown taxonomy version(s): ${unknown.join(', ')}`
+          : 'Pick two different taxonomy versions',
+      }, { status: 400 });
+    }
+
+    const evalSet = await loadCategoryEvalSet(evalSetPath);
+
+    console.log(`🧪 [EVAL] Backtesting taxonomy v${taxonomyA!.version}${taxonomyB ? ` vs v${taxonomyB.version}` : ''} on ${limit ?? evalSet.length} labeled items...`);
+
+    const report = await evaluateCategorization(
+      taxonomyB ? [taxonomyA!, taxonomyB] : [taxonomyA!],
+      evalSet,
+      { limit }
+    );
+
+    for (const engine of report.engines) {
+      console.log(`✅ [EVAL] ${engine.engine}: accuracy ${engine.accuracy ?? '-'}% (${engine.evaluated} evaluated, ${engine.missing} missing)`);
+    }
+    if (report.diff && report.diff.regressed.length > 0) {
+      console.log(`⚠️ [EVAL] ${report.diff.regressed.length} item(s) regressed: ${report.diff.regressedCategories.join(', ')}`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      evalSet: evalSetPath,
+      ...report,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('❌ [EVAL] Categorization backtest failed:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedMachineRequest } from '@/lib/auth/api-keys';
+import { correlateTickets } from '@/lib/correlation';
+
+// Vercel function limit for this route (seconds)
+export const maxDuration = 300;
+
+// Stop this long before maxDuration so the response still goes out
+const DEADLINE_MARGIN_MS = 30 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ticket-Call Correlation
+ *
+ * Rebuilds the links between tickets and the calls about the same customer
+ * (shared loan number or email, close in time) for tickets created in the
+ * range. The daily sync already does this for recent tickets; use this route
+ * to backfill after importing older tickets. A range too large for one call
+ * stops at the deadline with `stats.stopped`; run it again over a smaller range.
+ *
+ * Usage: GET /api/cron/link-tickets?days=30                 (tickets from the last 30 days, the default)
+ *        GET /api/cron/link-tickets?from=2025-12-01&to=2026-01-31
+ *
+ * Secured with CRON_SECRET or an API key with the sync:run scope (same as the other machine-to-machine routes)
+ */
+export async function GET(request: NextRequest) {
+  if (!await isAuthorizedMachineRequest(request, 'sync:run')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const days = Math.max(parseInt(searchParams.get('days') || '30') || 30, 1);
+
+  const to = toParam ? new Date(`${toParam}T23:59:59.999Z`) : new Date();
+  const from = fromParam ? new Date(`${fromParam}T00:00:00.000Z`) : new Date(to.getTime() - days * DAY_MS);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+    return NextResponse.json({
+      success: false,
+      error: 'from and to must be YYYY-MM-DD dates, with from before to',
+    }, { status: 400 });
+  }
+
+  try {
+    console.log(`🔗 [CRON] Linking tickets created ${from.toISOString()} to ${to.toISOString()} to calls...`);
+
+    const stats = await correlateTickets({
+      from,
+      to,
+      deadline: Date.now() + maxDuration * 1000 - DEADLINE_MARGIN_MS
+    });
+
+    console.log(`✅ [CRON] Linked ${stats.linkedTickets} of ${stats.tickets} tickets (${stats.links} links)`);
+
+    return NextResponse.json({
+      success: stats.errors.length === 0 && !stats.stopped,
+      stats,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('❌ [CRON] Ticket-call correlation failed:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedMachineRequest } from '@/lib/auth/api-keys';
+import { listTranscriptPromptVersions } from '@/lib/llm';
+import { DEFAULT_GOLD_SET_PATH, evaluatePromptVersions, loadGoldSet } from '@/lib/prompt-eval';
+
+// Vercel function limit for this route (seconds)
+export const maxDuration = 300;
+
+/**
+ * Prompt A/B Evaluation
+ *
+ * Re-runs two transcript-analysis prompt versions over a labeled sample and
+ * reports agreement with the gold labels on sentiment, topic and subcategory.
+ * Nothing is written to TranscriptAnalysis.
+ *
+ * Usage: GET /api/cron/prompt-eval?a=v1&b=v2&limit=50&goldSet=data/fixtures/analysis-gold-set.json
+ * CLI:   node scripts/eval-prompts.mjs --a v1 --b v2
+ *
+ * Secured with CRON_SECRET or an API key with the sync:run scope (same as the other machine-to-machine routes)
+ */
+export async function GET(request: NextRequest) {
+  if (!await isAuthorizedMachineRequest(request, 'sync:run')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const versionA = searchParams.get('a') || 'v1';
+  const versionB = searchParams.get('b') || 'v2';
+  const goldSetPath = searchParams.get('goldSet') || DEFAULT_GOLD_SET_PATH;
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Math.min(Math.max(parseInt(limitParam) || 50, 1), 500) : undefined;
+
+  const available = listTranscriptPromptVersions();
+  const unknown = [versionA, versionB].filter((version) => !available.includes(version));
+  if (unknown.length > 0 || versionA === versionB) {
+    return NextResponse.json({
+      success: false,
+      error: unknown.length > 0
+        ? `Unknown prompt version(s): ${unknown.join(', ')}`
+        : 'Pick two different prompt versions',
+      available
+    }, { status: 400 });
+  }
+
+  try {
+    const goldSet = await loadGoldSet(goldSetPath);
+
+    console.log(`🧪 [EVAL] Comparing prompt ${versionA} vs ${versionB} on ${limit ?? goldSet.length} gold transcripts...`);
+
+    const report = await evaluatePromptVersions(versionA, versionB, goldSet, { limit });
+
+    for (const summary of report.summaries) {
+      console.log(`✅ [EVAL] ${summary.version}: ${JSON.stringify(summary.agreement)} (${summary.failed} failed)`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      goldSet: goldSetPath,
+      ...report,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('❌ [EVAL] Prompt evaluation failed:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { isAuthorizedMachineRequest } from '@/lib/auth/api-keys';
+import { runDailySyncExclusive } from '@/lib/sync-service';
 
-const execAsync = promisify(exec);
+// Vercel function limit for this route (seconds)
+export const maxDuration = 300;
+
+// Stop this long before maxDuration so the run can save its checkpoint
+const DEADLINE_MARGIN_MS = 30 * 1000;
 
 /**
  * Cron Job: Daily DOMO Delta Sync
@@ -14,42 +18,48 @@ const execAsync = promisify(exec);
  * 4. Import to database
  * 5. Run AI analysis ONLY on newly imported transcripts
  *
- * This is much more efficient than syncing all data every day!
+ * Runs in-process via runDailySync(). A Postgres advisory lock prevents
+ * overlapping runs, and a run that hits the time limit leaves a checkpoint
+ * so the next call continues where it stopped.
  *
- * Secured with Vercel Cron Secret
+ * Secured with Vercel Cron Secret or an API key with the sync:run scope
  */
 export async function GET(request: NextRequest) {
-  // Verify this is a legitimate cron request from Vercel
-  const authHeader = request.headers.get('authorization');
-  const cronSecret = process.env.CRON_SECRET;
-
-  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+  // Verify this is a legitimate cron request from Vercel (or an API key with sync:run)
+  if (!await isAuthorizedMachineRequest(request, 'sync:run')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  const trigger = request.nextUrl.searchParams.get('trigger') === 'manual' ? 'manual' : 'cron';
+
   try {
     console.log('🕐 [CRON] Starting daily delta sync...');
 
-    // Run the delta-only sync script
-    // The script automatically determines the start date by querying the database
-    // for the most recent transcript, then syncs only new data since that date
-    const scriptPath = 'node scripts/daily-sync-domo.mjs';
-    const command = `cd /c/GitHub/servicing-ticket-analysis && ${scriptPath}`;
-
-    const { stdout, stderr } = await execAsync(command, {
-      timeout: 600000, // 10 minute timeout
-      maxBuffer: 10 * 1024 * 1024 // 10MB buffer
+    const stats = await runDailySyncExclusive({
+      trigger,
+      deadline: Date.now() + maxDuration * 1000 - DEADLINE_MARGIN_MS
     });
 
-    console.log('✅ [CRON] Daily delta sync completed successfully');
-    if (stderr) {
-      console.warn('[CRON] Stderr output:', stderr);
+    if (!stats) {
+      return NextResponse.json({
+        success: false,
+        error: 'A sync is already running',
+        timestamp: new Date().toISOString()
+      }, { status: 409 });
+    }
+
+    if (stats.completed) {
+      console.log('✅ [CRON] Daily delta sync completed successfully');
+    } else {
+      console.log('⏸️  [CRON] Daily delta sync stopped at its time limit - next run will resume');
     }
 
     return NextResponse.json({
       success: true,
-      message: 'Daily delta sync completed',
-      output: stdout,
+      message: stats.completed
+        ? 'Daily delta sync completed'
+        : 'Daily delta sync partially completed - call again to resume',
+      stats,
       timestamp: new Date().toISOString()
     });
 
@@ -2,12 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs/promises';
 import path from 'path';
 import Papa from 'papaparse';
+import { categorizeTicket, SERVICING_PROJECTS } from '@/lib/tickets';
+import { getActiveTaxonomy } from '@/lib/taxonomy';
 
 /**
  * Data Ingestion API Endpoint
  *
  * Accepts CSV or JSON data for tickets and transcripts
- * Automatically processes and regenerates analytics
+ * Ticket analytics read the tickets table; load it with /api/ingest-v2
  *
  * POST /api/ingest
  * Body: {
@@ -37,82 +39,6 @@ interface IngestResponse {
   errors?: string[];
 }
 
-// Servicing projects to include
-const SERVICING_PROJECTS = [
-  'Servicing Help',
-  'Servicing Escalations WG',
-  'ServApp Support',
-  'CMG Servicing Oversight'
-];
-
-// Valid categories for auto-categorization
-const VALID_CATEGORIES = [
-  'Automated System Messages',
-  'Payment Issues',
-  'Escrow',
-  'Documentation',
-  'Transfer/Boarding',
-  'Voice/Alert Requests',
-  'Account Access',
-  'Loan Info Request',
-  'Insurance/Coverage',
-  'Loan Changes',
-  'Complaints/Escalations',
-  'General Inquiry',
-  'Communication/Forwarded',
-  'Loan-Specific Inquiry',
-  'Other',
-];
-
-/**
- * Categorize a ticket based on title and description
- */
-function categorizeTicket(title: string, description: string): string {
-  const text = `${title} ${description}`.toLowerCase();
-
-  if (text.includes('automated') || text.includes('system message')) {
-    return 'Automated System Messages';
-  }
-  if (text.includes('payment') || text.includes('pay ')) {
-    return 'Payment Issues';
-  }
-  if (text.includes('escrow')) {
-    return 'Escrow';
-  }
-  if (text.includes('document') || text.includes('statement')) {
-    return 'Documentation';
-  }
-  if (text.includes('transfer') || text.includes('boarding')) {
-    return 'Transfer/Boarding';
-  }
-  if (text.includes('voice') || text.includes('alert')) {
-    return 'Voice/Alert Requests';
-  }
-  if (text.includes('access') || text.includes('login')) {
-    return 'Account Access';
-  }
-  if (text.includes('loan info') || text.includes('information')) {
-    return 'Loan Info Request';
-  }
-  if (text.includes('insurance') || text.includes('coverage')) {
-    return 'Insurance/Coverage';
-  }
-  if (text.includes('loan change') || text.includes('modification')) {
-    return 'Loan Changes';
-  }
-  if (text.includes('complaint') || text.includes('escalation')) {
-    return 'Complaints/Escalations';
-  }
-  if (text.includes('inquiry') || text.includes('question')) {
-    return 'General Inquiry';
-  }
-  if (text.includes('forward') || text.includes('communication')) {
-    return 'Communication/Forwarded';
-  }
-
-  return 'Other';
-}
-
 /**
  * Process and validate ticket data
  */
@@ -147,6 +73,7 @@ async function processTickets(data: any[], mode: 'append' | 'replace'): Promise<
 
   // Process new tickets
   const processedTickets: any[] = [];
+  const taxonomy = await getActiveTaxonomy();
 
   for (const ticket of data) {
     recordsProcessed++;
@@ -169,13 +96,13 @@ async function processTickets(data: any[], mode: 'append' | 'replace'): Promise<
 
       const ticketId = ticket.ticket_uuid || ticket.ticket_key;
 
-      // Auto-categorize if category not provided
-      if (!ticket.category) {
-        ticket.category = categorizeTicket(
-          ticket.ticket_title || '',
-          ticket.ticket_description || ''
-        );
-      }
+      // Same categorizer as the database rows; supplied categories are replaced
+      const categorization = categorizeTicket(ticket.ticket_title || null, ticket.ticket_description || null, taxonomy);
+      ticket.category = categorization.category;
+      ticket.subcategory = categorization.subcategory;
+      ticket.all_issues = categorization.allIssues;
+      ticket.categorization_confidence = categorization.categorizationConfidence;
+      ticket.category_version = categorization.categoryVersion;
 
       // Check if updating existing ticket
       if (existingMap.has(ticketId)) {
@@ -197,15 +124,6 @@ async function processTickets(data: any[], mode: 'append' | 'replace'): Promise<
   const csv = Papa.unparse(allTickets, { header: true });
   await fs.writeFile(csvPath, csv, 'utf-8');
 
-  // Trigger rebuild of processed stats
-  try {
-    const { execSync } = require('child_process');
-    execSync('node scripts/prebuild.js', { cwd: process.cwd() });
-  } catch (error) {
-    console.error('Error rebuilding stats:', error);
-    errors.push('Failed to regenerate analytics');
-  }
-
   return {
     success: true,
     message: `Successfully processed ${recordsProcessed} records`,
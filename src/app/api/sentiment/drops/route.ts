@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSentimentDrops, DROP_THRESHOLD, type DropGrouping } from '@/lib/sentiment-timelines';
+
+/**
+ * Sentiment Drop Aggregates
+ *
+ * GET /api/sentiment/drops
+ *
+ * Where in the call customer sentiment falls, across stored sentiment timelines.
+ *
+ * Query parameters:
+ * - groupBy: agent | topic (default: agent; the agent grouping needs supervisor)
+ * - minCalls: Only groups with at least this many scored calls (default: 3)
+ * - limit: Number of groups to return (default: 50, max: 500)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const groupBy = (searchParams.get('groupBy') || 'agent') as DropGrouping;
+
+    if (groupBy !== 'agent' && groupBy !== 'topic') {
+      return NextResponse.json(
+        { success: false, error: 'groupBy must be "agent" or "topic"' },
+        { status: 400 }
+      );
+    }
+
+    const minCalls = Math.max(parseInt(searchParams.get('minCalls') || '3') || 3, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 500);
+
+    const groups = await getSentimentDrops(groupBy, { minCalls, limit });
+
+    return NextResponse.json({
+      success: true,
+      groupBy,
+      dropThreshold: DROP_THRESHOLD,
+      buckets: ['0-20%', '20-40%', '40-60%', '60-80%', '80-100%'],
+      groups,
+    });
+  } catch (error) {
+    console.error('❌ [SENTIMENT DROPS] Failed to aggregate:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
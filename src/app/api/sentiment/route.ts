@@ -1,15 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { canAccessCall, getAgentScope } from '@/lib/auth/scope';
+import { getConversation } from '@/lib/conversations';
+import { getTimeline, saveTimeline } from '@/lib/sentiment-timelines';
+import { recordAuditEvent } from '@/lib/audit';
+import { completeValidated, isLLMConfigured, sentimentTimelineSchema, type LLMError, type MessageSentiment } from '@/lib/llm';
 
 interface Message {
   role: 'agent' | 'customer';
   text: string;
 }
 
-interface SentimentResult {
-  score: number;
-  emotion: string;
-}
-
 /**
  * Detect if a message is an automated system message (IVR, hold music, etc.)
  */
@@ -50,16 +50,60 @@ function isSystemMessage(text: string): boolean {
   return systemPatterns.some(pattern => pattern.test(lowerText));
 }
 
+/**
+ * Per-message sentiment for a call
+ *
+ * With a vendorCallKey the stored transcript is scored (client-sent messages
+ * are ignored) and the timeline is stored. Without one, the posted messages
+ * are scored and nothing is stored.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { messages } = await request.json();
+    const body = await request.json() as {
+      messages?: Message[];
+      vendorCallKey?: string;   // Scores the stored transcript and enables the stored timeline
+      regenerate?: boolean;     // Ignore the stored timeline and re-score
+    };
+    const { vendorCallKey, regenerate } = body;
+
+    // Agents can only analyze their own calls
+    if (!await canAccessCall(getAgentScope(request), vendorCallKey)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let messages: Message[] | undefined = body.messages;
+    if (vendorCallKey) {
+      const conversation = await getConversation(vendorCallKey);
+      if (!conversation) {
+        return NextResponse.json({ error: 'Transcript not found' }, { status: 404 });
+      }
+      messages = conversation;
+    }
 
     if (!messages || !Array.isArray(messages)) {
       return NextResponse.json({ error: 'Messages array is required' }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
+    await recordAuditEvent(request, {
+      action: 'ai.sentiment',
+      resource: '/api/sentiment',
+      resourceIds: vendorCallKey ? [vendorCallKey] : [],
+      details: { messageCount: messages.length, regenerate: !!regenerate },
+    });
+
+    // Serve the stored timeline when it covers the same messages
+    if (vendorCallKey && !regenerate) {
+      try {
+        const stored = await getTimeline(vendorCallKey);
+        if (stored && stored.messageCount === messages.length) {
+          return NextResponse.json({ sentiments: stored.sentiments, generatedAt: stored.generatedAt, cached: true });
+        }
+      } catch (error) {
+        console.warn('Failed to load stored sentiment timeline:', error);
+      }
+    }
+
+    if (!isLLMConfigured()) {
       return NextResponse.json({ error: 'OpenRouter API key not configured' }, { status: 500 });
     }
 
@@ -86,20 +130,7 @@ export async function POST(request: NextRequest) {
       })
       .join('\n\n');
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://servicing-ticket-analysis.vercel.app',
-        'X-Title': 'Servicing Ticket Analysis - Sentiment',
-      },
-      body: JSON.stringify({
-        model: 'anthropic/claude-3-haiku',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a sentiment analyzer for mortgage customer service calls. Create a NUANCED heat signature - AVOID clustering around neutral (0). Use the full -1 to +1 range.
+    const systemPrompt = `You are a sentiment analyzer for mortgage customer service calls. Create a NUANCED heat signature - AVOID clustering around neutral (0). Use the full -1 to +1 range.
 
 CRITICAL: Messages are labeled [index] CUSTOMER: or [index] AGENT: - apply DIFFERENT rules for each.
 
@@ -192,61 +223,32 @@ CONVERSATION EXAMPLES:
 Return JSON array with one object per message in order:
 {"score": number, "emotion": string}
 
-Return ONLY valid JSON array, no other text.`,
-          },
-          {
-            role: 'user',
-            content: `Analyze each message's sentiment. Pay attention to CUSTOMER vs AGENT labels:\n\n${conversationText}`,
-          },
-        ],
-        max_tokens: 8000, // Increased to handle long conversations (up to ~500 messages)
-        temperature: 0,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenRouter API error:', errorData);
-      return NextResponse.json({ error: 'Sentiment analysis failed' }, { status: 500 });
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '[]';
+Return ONLY valid JSON array, no other text.`;
 
-    // Parse the JSON response
+    // Parse the JSON response (scores are clamped to -1..+1, with one repair round)
     try {
-      // Clean up the response - sometimes models add markdown code blocks or preamble
-      let jsonStr = content.trim();
-
-      // Remove markdown code blocks
-      if (jsonStr.startsWith('```json')) {
-        jsonStr = jsonStr.slice(7);
-      }
-      if (jsonStr.startsWith('```')) {
-        jsonStr = jsonStr.slice(3);
-      }
-      if (jsonStr.endsWith('```')) {
-        jsonStr = jsonStr.slice(0, -3);
-      }
-
-      // Extract JSON array from response - handle preamble text like "Here is the analysis:"
-      const arrayMatch = jsonStr.match(/\[[\s\S]*\]/);
-      if (arrayMatch) {
-        jsonStr = arrayMatch[0];
+      const { data: aiResults, model } = await completeValidated('sentiment', [
+        { role: 'system', content: systemPrompt },
+        {
+          role: 'user',
+          content: `Analyze each message's sentiment. Pay attention to CUSTOMER vs AGENT labels:\n\n${conversationText}`,
+        },
+      ], sentimentTimelineSchema, {
+        fixup: (jsonStr) =>
+          jsonStr
+            // Fix common JSON syntax errors from AI
+            // Fix missing quotes after "score: (should be "score":)
+            .replace(/"score:\s*/g, '"score": ')
+            // Fix missing quotes after "emotion: (should be "emotion":)
+            .replace(/"emotion:\s*/g, '"emotion": '),
+      });
+
+      if (aiResults.length !== humanMessages.length) {
+        console.warn(`Sentiment returned ${aiResults.length} results for ${humanMessages.length} messages`);
       }
 
-      // Fix common JSON syntax errors from AI
-      // Fix missing quotes after "score: (should be "score":)
-      jsonStr = jsonStr.replace(/"score:\s*/g, '"score": ');
-      // Fix missing quotes after "emotion: (should be "emotion":)
-      jsonStr = jsonStr.replace(/"emotion:\s*/g, '"emotion": ');
-
-      jsonStr = jsonStr.trim();
-
-      const aiResults: SentimentResult[] = JSON.parse(jsonStr);
-
       // Merge AI results with system message markers
-      const finalResults: SentimentResult[] = [];
+      const finalResults: MessageSentiment[] = [];
       let aiResultIndex = 0;
 
       for (let i = 0; i < messages.length; i++) {
@@ -260,9 +262,20 @@ Return ONLY valid JSON array, no other text.`,
         }
       }
 
-      return NextResponse.json({ sentiments: finalResults });
+      if (vendorCallKey) {
+        try {
+          await saveTimeline(vendorCallKey, messages.map((m: Message) => m.role), finalResults, model);
+        } catch (error) {
+          console.warn('Failed to store sentiment timeline:', error);
+        }
+      }
+
+      return NextResponse.json({ sentiments: finalResults, cached: false });
     } catch (parseError) {
-      console.error('Failed to parse sentiment response:', content);
+      const { validationErrors } = parseError as LLMError;
+      if (!validationErrors) throw parseError;
+
+      console.error('Sentiment response failed validation:', validationErrors);
       // Return neutral sentiments as fallback
       const fallback = messages.map(() => ({ score: 0, emotion: 'neutral' }));
       return NextResponse.json({ sentiments: fallback });
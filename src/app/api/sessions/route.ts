@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/auth/jwt';
+import { listSessions, revokeSession, revokeUserSessions } from '@/lib/auth/sessions';
+
+/**
+ * Session Management (admin only - enforced in middleware)
+ *
+ * GET /api/sessions?email=jane@cmgfi.com&active=true&limit=200
+ *   Sessions newest first; every filter is optional
+ *
+ * DELETE /api/sessions
+ *   { "id": "<session id>" }        Revoke one session
+ *   { "email": "jane@cmgfi.com" }   Revoke every session for a user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '200') || 200, 1), 1000);
+
+    const sessions = await listSessions({
+      email: searchParams.get('email')?.toLowerCase().trim() || undefined,
+      activeOnly: searchParams.get('active') === 'true',
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      sessions,
+      currentSessionId: getRequestSession(request)?.jti || null,
+    });
+  } catch (error) {
+    console.error('❌ [SESSIONS] Failed to list sessions:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { id, email } = await request.json() as { id?: string; email?: string };
+    const admin = getRequestSession(request)?.email || 'unknown';
+
+    if (id) {
+      const session = await revokeSession(id, admin);
+      if (!session) {
+        return NextResponse.json(
+          { success: false, error: 'Session not found or already revoked' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, revoked: 1, session });
+    }
+
+    if (email) {
+      const revoked = await revokeUserSessions(email.toLowerCase().trim(), admin);
+      return NextResponse.json({ success: true, revoked });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'id or email is required' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('❌ [SESSIONS] Failed to revoke session:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
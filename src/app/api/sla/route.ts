@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getSlaReport, SLA_CONFIG } from '@/lib/sla';
+
+/**
+ * SLA Monitoring API
+ *
+ * GET /api/sla?days=90&priority=Critical,High&project=Servicing%20Help
+ *
+ * SLA status counts, weekly breach rate and breakdowns for servicing tickets
+ * created in the last `days` days (default 90, max 365), plus the open tickets
+ * closest to breaching. `targets` echoes the configured targets.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const days = Math.min(Math.max(parseInt(searchParams.get('days') || '90') || 90, 1), 365);
+  const priorities = (searchParams.get('priority') || '').split(',').filter(Boolean);
+  const projects = (searchParams.get('project') || '').split(',').filter(Boolean);
+
+  try {
+    const report = await getSlaReport({ days, priorities, projects });
+
+    return NextResponse.json({
+      ...report,
+      targets: {
+        priorities: SLA_CONFIG.PRIORITY_TARGETS,
+        projects: SLA_CONFIG.PROJECT_TARGETS,
+        atRiskThreshold: SLA_CONFIG.AT_RISK_THRESHOLD,
+      },
+    });
+  } catch (error) {
+    console.error('Error loading SLA report:', error);
+    return NextResponse.json({ error: 'Failed to load SLA report' }, { status: 500 });
+  }
+}
@@ -1,8 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { isLLMConfigured } from '@/lib/llm';
 
 /**
  * Manual Sync Trigger
@@ -24,7 +21,7 @@ export async function POST(request: NextRequest) {
 
     const cronSecret = process.env.CRON_SECRET;
 
-    const response = await fetch(`${baseUrl}/api/cron/sync-transcripts`, {
+    const response = await fetch(`${baseUrl}/api/cron/sync-transcripts?trigger=manual`, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${cronSecret}`
@@ -63,7 +60,7 @@ export async function GET(request: NextRequest) {
         process.env.DOMO_CLIENT_SECRET &&
         process.env.DOMO_DATASET_ID &&
         process.env.DATABASE_URL &&
-        process.env.OPENROUTER_API_KEY
+        isLLMConfigured()
       ),
       cronSchedule: '0 14 * * * (Daily at 6 AM PST)',
       lastCheck: new Date().toISOString()
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listSyncRuns, getSyncRun } from '@/lib/sync-runs';
+
+/**
+ * Sync Run History
+ *
+ * GET /api/sync/runs
+ *
+ * Query parameters:
+ * - limit: Number of runs to return (default: 30, max: 200)
+ * - id: Return a single run including its per-record failures
+ * - failures: Include per-record failures in the list (true/false)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const run = await getSyncRun(id);
+      if (!run) {
+        return NextResponse.json(
+          { success: false, error: 'Sync run not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, run });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '30') || 30, 1), 200);
+    const includeFailures = searchParams.get('failures') === 'true';
+
+    const runs = await listSyncRuns(limit, includeFailures);
+    const lastSuccess = runs.find((run) => run.status === 'success') || null;
+
+    return NextResponse.json({
+      success: true,
+      runs,
+      lastRun: runs[0] || null,
+      lastSuccess,
+    });
+  } catch (error) {
+    console.error('❌ [SYNC RUNS] Failed to load history:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDraftTaxonomy, previewTaxonomy, validateDefinitions } from '@/lib/taxonomy';
+
+/**
+ * Taxonomy Preview (admin only - enforced in middleware)
+ *
+ * POST /api/taxonomy/preview
+ *   { "definitions": CategoryDefinition[] }   (default: the saved draft)
+ *
+ * How many tickets and recent transcripts the proposed rules would move to a
+ * different category, and between which categories. Nothing is written.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({})) as { definitions?: unknown };
+
+    let definitions = body.definitions;
+    if (definitions === undefined) {
+      const draft = await getDraftTaxonomy();
+      if (!draft) {
+        return NextResponse.json(
+          { success: false, error: 'No draft to preview - send definitions or save a draft first' },
+          { status: 404 }
+        );
+      }
+      definitions = draft.definitions;
+    }
+
+    const result = validateDefinitions(definitions);
+    if ('errors' in result) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid taxonomy', errors: result.errors },
+        { status: 400 }
+      );
+    }
+
+    const preview = await previewTaxonomy(result.definitions);
+    return NextResponse.json({ success: true, preview });
+  } catch (error) {
+    console.error('❌ [TAXONOMY] Failed to preview taxonomy:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
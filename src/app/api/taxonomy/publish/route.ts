@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/auth/jwt';
+import { publishDraftTaxonomy } from '@/lib/taxonomy';
+import { countStaleCategorizations } from '@/lib/tickets';
+
+/**
+ * Taxonomy Publish (admin only - enforced in middleware)
+ *
+ * POST /api/taxonomy/publish
+ *   Make the draft the active taxonomy. New tickets are categorized with it
+ *   right away; existing ones keep their categories until
+ *   POST /api/tickets/recategorize runs (`staleTickets` says how many).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const taxonomy = await publishDraftTaxonomy(getRequestSession(request)?.email || null);
+    if (!taxonomy) {
+      return NextResponse.json(
+        { success: false, error: 'No draft to publish' },
+        { status: 404 }
+      );
+    }
+
+    const staleTickets = await countStaleCategorizations();
+    return NextResponse.json({ success: true, taxonomy, staleTickets });
+  } catch (error) {
+    console.error('❌ [TAXONOMY] Failed to publish taxonomy:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/auth/jwt';
+import {
+  discardDraftTaxonomy,
+  getActiveTaxonomy,
+  getDraftTaxonomy,
+  getTaxonomy,
+  getTaxonomyAt,
+  listTaxonomies,
+  saveDraftTaxonomy,
+  validateDefinitions,
+} from '@/lib/taxonomy';
+
+/**
+ * Category Taxonomy (admin only - enforced in middleware)
+ *
+ * GET /api/taxonomy
+ *   The active taxonomy, the draft (if any) and every version
+ * GET /api/taxonomy?version=3
+ * GET /api/taxonomy?at=2025-06-30T00:00:00Z
+ *   One version, or the version that was active at a time
+ *
+ * PUT /api/taxonomy
+ *   { "definitions": CategoryDefinition[], "note": "Add Escrow Shortage Spread" }
+ *   Create or replace the draft
+ *
+ * DELETE /api/taxonomy
+ *   Discard the draft
+ *
+ * See also POST /api/taxonomy/preview and POST /api/taxonomy/publish.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const version = searchParams.get('version');
+  const at = searchParams.get('at');
+
+  try {
+    if (version !== null || at !== null) {
+      const date = at !== null ? new Date(at) : null;
+      if (date && isNaN(date.getTime())) {
+        return NextResponse.json({ success: false, error: 'at must be a date' }, { status: 400 });
+      }
+
+      const taxonomy = date ? await getTaxonomyAt(date) : await getTaxonomy(parseInt(version!));
+      if (!taxonomy) {
+        return NextResponse.json({ success: false, error: 'Taxonomy version not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, taxonomy });
+    }
+
+    const [active, draft, versions] = await Promise.all([
+      getActiveTaxonomy(),
+      getDraftTaxonomy(),
+      listTaxonomies(),
+    ]);
+    return NextResponse.json({ success: true, active, draft, versions });
+  } catch (error) {
+    console.error('❌ [TAXONOMY] Failed to load taxonomy:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { definitions, note } = await request.json() as { definitions?: unknown; note?: string | null };
+
+    const result = validateDefinitions(definitions);
+    if ('errors' in result) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid taxonomy', errors: result.errors },
+        { status: 400 }
+      );
+    }
+
+    const draft = await saveDraftTaxonomy(result.definitions, {
+      note: typeof note === 'string' && note.trim() ? note.trim().slice(0, 500) : null,
+      savedBy: getRequestSession(request)?.email || null,
+    });
+
+    return NextResponse.json({ success: true, draft });
+  } catch (error) {
+    console.error('❌ [TAXONOMY] Failed to save draft:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    if (!(await discardDraftTaxonomy())) {
+      return NextResponse.json(
+        { success: false, error: 'No draft to discard' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ [TAXONOMY] Failed to discard draft:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,227 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { SERVICING_PROJECTS } from '@/lib/tickets';
+
+/**
+ * Ticket Burndown API
+ *
+ * GET /api/tickets/burndown?start=2025-10-01&end=2025-10-31&priority=Critical,High
+ *
+ * Daily opened / closed counts and the open backlog at the end of each day
+ * (UTC), with an ideal-burn line from the starting backlog down to zero and a
+ * projected clear date from the trailing close rate.
+ *
+ * Query params:
+ * - start, end: YYYY-MM-DD, inclusive. Default: the `days` (30) days ending today
+ * - priority, project, assignee: comma-separated filters
+ * - rateDays: trailing window for the close rate, ending at `end` (default 14)
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 731;
+const DEFAULT_RATE_DAYS = 14;
+const OPEN_TICKET_LIMIT = 50;
+
+// When a ticket left the backlog. Completed tickets without a completion
+// time fall back to their last update, then creation.
+const CLOSED_AT_SQL = Prisma.raw(
+  'CASE WHEN is_ticket_complete THEN COALESCE(ticket_completed_at_utc, ticket_updated_at_utc, ticket_created_at_utc) END'
+);
+
+interface BurndownPoint {
+  date: string;
+  opened: number;
+  closed: number;
+  open: number;
+  ideal: number;
+  criticalOpen: number;
+  highOpen: number;
+}
+
+interface DayPriorityCount {
+  day: string;
+  priority: string;
+  count: number;
+}
+
+function parseDay(value: string | null): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : [];
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const today = parseDay(formatDay(new Date()))!;
+  const days = Math.min(Math.max(parseInt(searchParams.get('days') || String(DEFAULT_DAYS)) || DEFAULT_DAYS, 1), MAX_DAYS);
+  const end = searchParams.get('end') ? parseDay(searchParams.get('end')) : today;
+  const start = searchParams.get('start')
+    ? parseDay(searchParams.get('start'))
+    : end && new Date(end.getTime() - (days - 1) * DAY_MS);
+
+  if (!start || !end) {
+    return NextResponse.json(
+      { error: 'start and end must be dates in YYYY-MM-DD format' },
+      { status: 400 }
+    );
+  }
+
+  const rangeDays = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+  if (rangeDays < 1 || rangeDays > MAX_DAYS) {
+    return NextResponse.json(
+      { error: `start must be on or before end, at most ${MAX_DAYS} days apart` },
+      { status: 400 }
+    );
+  }
+
+  const rateDays = Math.min(Math.max(parseInt(searchParams.get('rateDays') || String(DEFAULT_RATE_DAYS)) || DEFAULT_RATE_DAYS, 1), 365);
+  const priorities = parseList(searchParams.get('priority'));
+  const projects = parseList(searchParams.get('project'));
+  const assignees = parseList(searchParams.get('assignee'));
+
+  // Filters shared by every query - always scoped to servicing projects
+  const conditions = [Prisma.sql`project_name = ANY(${SERVICING_PROJECTS})`];
+  if (projects.length > 0) conditions.push(Prisma.sql`project_name = ANY(${projects})`);
+  if (priorities.length > 0) conditions.push(Prisma.sql`ticket_priority = ANY(${priorities})`);
+  if (assignees.length > 0) conditions.push(Prisma.sql`assigned_user_name = ANY(${assignees})`);
+  const where = Prisma.join(conditions, ' AND ');
+
+  const endExclusive = new Date(end.getTime() + DAY_MS);
+  const rateStart = new Date(endExclusive.getTime() - rateDays * DAY_MS);
+
+  try {
+    const [startBacklog, openedByDay, closedByDay, closedInRateWindow, openTickets] = await Promise.all([
+      prisma.$queryRaw`
+        SELECT COALESCE(ticket_priority, 'None') as priority, COUNT(*)::int as count
+        FROM tickets
+        WHERE ${where}
+          AND ticket_created_at_utc < ${start}
+          AND (${CLOSED_AT_SQL} IS NULL OR ${CLOSED_AT_SQL} >= ${start})
+        GROUP BY 1
+      ` as Promise<{ priority: string; count: number }[]>,
+      prisma.$queryRaw`
+        SELECT to_char(ticket_created_at_utc, 'YYYY-MM-DD') as day, COALESCE(ticket_priority, 'None') as priority, COUNT(*)::int as count
+        FROM tickets
+        WHERE ${where}
+          AND ticket_created_at_utc >= ${start} AND ticket_created_at_utc < ${endExclusive}
+        GROUP BY 1, 2
+      ` as Promise<DayPriorityCount[]>,
+      prisma.$queryRaw`
+        SELECT to_char(${CLOSED_AT_SQL}, 'YYYY-MM-DD') as day, COALESCE(ticket_priority, 'None') as priority, COUNT(*)::int as count
+        FROM tickets
+        WHERE ${where}
+          AND ${CLOSED_AT_SQL} >= ${start} AND ${CLOSED_AT_SQL} < ${endExclusive}
+        GROUP BY 1, 2
+      ` as Promise<DayPriorityCount[]>,
+      prisma.$queryRaw`
+        SELECT COUNT(*)::int as count
+        FROM tickets
+        WHERE ${where}
+          AND ${CLOSED_AT_SQL} >= ${rateStart} AND ${CLOSED_AT_SQL} < ${endExclusive}
+      ` as Promise<{ count: number }[]>,
+      prisma.$queryRaw`
+        SELECT ticket_key as key, ticket_title as title, ticket_status as status, ticket_priority as priority,
+               project_name as project, assigned_user_name as assignee, ticket_created_at_utc as created
+        FROM tickets
+        WHERE ${where}
+          AND ticket_created_at_utc < ${endExclusive}
+          AND (${CLOSED_AT_SQL} IS NULL OR ${CLOSED_AT_SQL} >= ${endExclusive})
+        ORDER BY
+          CASE ticket_priority WHEN 'Critical' THEN 0 WHEN 'High' THEN 1 WHEN 'Medium' THEN 2 WHEN 'Low' THEN 3 ELSE 4 END,
+          ticket_created_at_utc ASC
+        LIMIT ${OPEN_TICKET_LIMIT}
+      ` as Promise<{
+        key: string;
+        title: string | null;
+        status: string | null;
+        priority: string | null;
+        project: string | null;
+        assignee: string | null;
+        created: Date;
+      }[]>,
+    ]);
+
+    // Walk the range day by day, carrying the open backlog per priority
+    const openByPriority: Record<string, number> = {};
+    startBacklog.forEach((row) => {
+      openByPriority[row.priority] = row.count;
+    });
+    const openAtStart = startBacklog.reduce((sum, row) => sum + row.count, 0);
+
+    const deltas = new Map<string, DayPriorityCount[]>();
+    openedByDay.forEach((row) => deltas.set(row.day, [...(deltas.get(row.day) || []), row]));
+    closedByDay.forEach((row) =>
+      deltas.set(row.day, [...(deltas.get(row.day) || []), { ...row, count: -row.count }])
+    );
+
+    let open = openAtStart;
+    let openedTotal = 0;
+    let closedTotal = 0;
+    const series: BurndownPoint[] = [];
+
+    for (let i = 0; i < rangeDays; i++) {
+      const date = formatDay(new Date(start.getTime() + i * DAY_MS));
+      let opened = 0;
+      let closed = 0;
+
+      (deltas.get(date) || []).forEach((row) => {
+        openByPriority[row.priority] = (openByPriority[row.priority] || 0) + row.count;
+        if (row.count > 0) opened += row.count;
+        else closed -= row.count;
+      });
+
+      open += opened - closed;
+      openedTotal += opened;
+      closedTotal += closed;
+
+      series.push({
+        date,
+        opened,
+        closed,
+        open,
+        // Straight line from the starting backlog to zero on the last day
+        ideal: rangeDays > 1 ? Math.round(openAtStart * (1 - i / (rangeDays - 1))) : 0,
+        criticalOpen: openByPriority.Critical || 0,
+        highOpen: openByPriority.High || 0,
+      });
+    }
+
+    const closeRatePerDay = Math.round(((closedInRateWindow[0]?.count || 0) / rateDays) * 10) / 10;
+    const daysToClear = open === 0 ? 0 : closeRatePerDay > 0 ? Math.ceil(open / closeRatePerDay) : null;
+
+    return NextResponse.json({
+      range: { start: formatDay(start), end: formatDay(end), days: rangeDays },
+      filters: { priorities, projects, assignees },
+      series,
+      summary: {
+        openAtStart,
+        openAtEnd: open,
+        opened: openedTotal,
+        closed: closedTotal,
+        rateDays,
+        closeRatePerDay,
+        daysToClear,
+        projectedClearDate: daysToClear === null ? null : formatDay(new Date(end.getTime() + daysToClear * DAY_MS)),
+      },
+      openByPriority: Object.fromEntries(Object.entries(openByPriority).filter(([, count]) => count > 0)),
+      openTickets: openTickets.map((ticket) => ({
+        ...ticket,
+        created: ticket.created.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error computing burndown:', error);
+    return NextResponse.json({ error: 'Failed to compute burndown' }, { status: 500 });
+  }
+}
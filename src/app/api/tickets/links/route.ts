@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRelatedCalls, getRelatedTickets } from '@/lib/correlation';
+
+/**
+ * Ticket-Call Links API
+ *
+ * GET /api/tickets/links?ticketKey=SH-123       - calls linked to a ticket
+ * GET /api/tickets/links?vendorCallKey=abc      - tickets linked to a call
+ *
+ * Links are built by the correlation job (src/lib/correlation.ts), which runs
+ * with the daily sync and from /api/cron/link-tickets.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const ticketKey = searchParams.get('ticketKey');
+  const vendorCallKey = searchParams.get('vendorCallKey');
+
+  if (!ticketKey && !vendorCallKey) {
+    return NextResponse.json({ error: 'ticketKey or vendorCallKey is required' }, { status: 400 });
+  }
+
+  try {
+    if (ticketKey) {
+      return NextResponse.json({ ticketKey, calls: await getRelatedCalls(ticketKey) });
+    }
+    return NextResponse.json({ vendorCallKey, tickets: await getRelatedTickets(vendorCallKey!) });
+  } catch (error) {
+    console.error('Error loading ticket-call links:', error);
+    return NextResponse.json({ error: 'Failed to load ticket-call links' }, { status: 500 });
+  }
+}
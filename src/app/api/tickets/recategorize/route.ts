@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { countStaleCategorizations, recategorizeTickets } from '@/lib/tickets';
+import { clearTicketAnalyticsCache } from '@/lib/data-loader';
+import { getActiveTaxonomy } from '@/lib/taxonomy';
+
+/**
+ * Ticket Re-categorization API
+ *
+ * GET  /api/tickets/recategorize - active taxonomy version and how many tickets
+ *                                  were categorized under other rules
+ * POST /api/tickets/recategorize - re-run the categorizer over those tickets
+ * Body: { limit?: number }         (default: all of them)
+ *
+ * Run after publishing a taxonomy (src/lib/taxonomy.ts), so the stored
+ * categories the Data tab and analytics group by match ingestion.
+ */
+
+export async function GET() {
+  try {
+    const [taxonomy, stale, total] = await Promise.all([
+      getActiveTaxonomy(),
+      countStaleCategorizations(),
+      prisma.ticket.count(),
+    ]);
+    return NextResponse.json({ version: taxonomy.rulesVersion, taxonomyVersion: taxonomy.version, stale, total });
+  } catch (error) {
+    console.error('Error counting stale ticket categories:', error);
+    return NextResponse.json({ error: 'Failed to count stale ticket categories' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({})) as { limit?: unknown };
+
+  if (body.limit !== undefined && (!Number.isInteger(body.limit) || (body.limit as number) < 1)) {
+    return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+  }
+
+  try {
+    const stats = await recategorizeTickets({ limit: body.limit as number | undefined });
+    if (stats.updated > 0) {
+      clearTicketAnalyticsCache();
+    }
+
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error('Error recategorizing tickets:', error);
+    return NextResponse.json({ error: 'Failed to recategorize tickets' }, { status: 500 });
+  }
+}
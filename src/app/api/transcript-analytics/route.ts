@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
+import { getAgentScope, scopeTranscriptWhere } from '@/lib/auth/scope';
+import { recordAuditEvent } from '@/lib/audit';
+import { getRequestSession } from '@/lib/auth/jwt';
+import { getRedactionTypes, redactText } from '@/lib/redaction';
 
 /**
  * Transcript Analytics API
@@ -12,8 +16,22 @@ import prisma from '@/lib/db';
  * - Summary stats (total, analyzed, sentiment breakdowns)
  * - AI-discovered topics with counts
  * - Daily trends
+ *
+ * Agent sessions are scoped to their own calls (transcripts.agent_email) in every query.
+ * Transcript listings are recorded in the audit trail (lib/audit.ts), and
+ * their text is PII-redacted for roles below PII_UNREDACTED_ROLE (lib/redaction.ts).
  */
 
+// Performance tiers based on agent sentiment score
+// Adjusted thresholds to create more top/higher performers
+function calculatePerformanceTier(score: number): string {
+  if (score >= 0.70) return 'top';        // 70%+ = Top (was 80%)
+  if (score >= 0.55) return 'good';       // 55%+ = Good (was 60%)
+  if (score >= 0.35) return 'average';    // 35%+ = Average (was 40%)
+  if (score >= 0.20) return 'needs-improvement';  // 20%+ = Needs Improvement
+  return 'critical';                      // <20% = Critical
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -21,24 +39,23 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate'); // Optional date range filter (YYYY-MM-DD)
     const endDate = searchParams.get('endDate');
 
-    if (type === 'summary') {
-      // Build date filter for transcript queries
-      const dateFilter = startDate && endDate ? {
-        call_start: {
-          gte: new Date(startDate),
-          lt: new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000), // Add 1 day to include end date
-        }
-      } : {};
+    // Agent email when the caller may only see their own calls (null = all calls)
+    const agentScope = getAgentScope(request);
 
-      // Build where clause for TranscriptAnalysis queries (joins with transcripts)
-      const analysisDateFilter = startDate && endDate ? {
-        transcript: {
+    if (type === 'summary') {
+      // Build date filter for transcript queries (limited to the agent's calls when scoped)
+      const dateFilter = {
+        ...(startDate && endDate ? {
           call_start: {
             gte: new Date(startDate),
-            lt: new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000),
+            lt: new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000), // Add 1 day to include end date
           }
-        }
-      } : {};
+        } : {}),
+        ...scopeTranscriptWhere(agentScope),
+      };
+
+      // Build where clause for TranscriptAnalysis queries (joins with transcripts)
+      const analysisDateFilter = Object.keys(dateFilter).length > 0 ? { transcript: dateFilter } : {};
 
       // Get summary statistics
       const [
@@ -72,11 +89,13 @@ export async function GET(request: NextRequest) {
             call_start: {
               gte: new Date(Date.now() - 48 * 60 * 60 * 1000), // Last 48 hours
             },
+            ...scopeTranscriptWhere(agentScope),
           },
         }),
 
         // Get most recent transcript to determine last import date
         prisma.transcripts.findFirst({
+          where: scopeTranscriptWhere(agentScope),
           orderBy: { call_start: 'desc' },
           select: { call_start: true },
         }),
@@ -176,6 +195,7 @@ export async function GET(request: NextRequest) {
               FROM transcripts t
               INNER JOIN "TranscriptAnalysis" ta ON t.vendor_call_key = ta."vendorCallKey"
               WHERE t.call_start IS NOT NULL
+                AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
                 AND t.call_start >= ${startDate}::timestamp
                 AND t.call_start < (${endDate}::timestamp + INTERVAL '1 day')
               GROUP BY DATE(t.call_start)
@@ -195,6 +215,7 @@ export async function GET(request: NextRequest) {
               FROM transcripts t
               INNER JOIN "TranscriptAnalysis" ta ON t.vendor_call_key = ta."vendorCallKey"
               WHERE t.call_start IS NOT NULL
+                AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
               GROUP BY DATE(t.call_start)
               ORDER BY DATE(t.call_start) DESC
               LIMIT 90
@@ -208,6 +229,7 @@ export async function GET(request: NextRequest) {
                 COUNT(*) as count
               FROM transcripts t
               WHERE t.call_start IS NOT NULL
+                AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
                 AND t.call_start >= ${startDate}::timestamp
                 AND t.call_start < (${endDate}::timestamp + INTERVAL '1 day')
               GROUP BY EXTRACT(HOUR FROM t.call_start AT TIME ZONE 'UTC')
@@ -219,6 +241,7 @@ export async function GET(request: NextRequest) {
                 COUNT(*) as count
               FROM transcripts t
               WHERE t.call_start IS NOT NULL
+                AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
               GROUP BY EXTRACT(HOUR FROM t.call_start AT TIME ZONE 'UTC')
               ORDER BY hour
             `) as Promise<any[]>,
@@ -232,6 +255,7 @@ export async function GET(request: NextRequest) {
                 COUNT(*) as count
               FROM transcripts t
               WHERE t.call_start IS NOT NULL
+                AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
                 AND t.call_start >= ${startDate}::timestamp
                 AND t.call_start < (${endDate}::timestamp + INTERVAL '1 day')
               GROUP BY TO_CHAR(t.call_start AT TIME ZONE 'UTC', 'Day'), EXTRACT(DOW FROM t.call_start AT TIME ZONE 'UTC')
@@ -244,6 +268,7 @@ export async function GET(request: NextRequest) {
                 COUNT(*) as count
               FROM transcripts t
               WHERE t.call_start IS NOT NULL
+                AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
               GROUP BY TO_CHAR(t.call_start AT TIME ZONE 'UTC', 'Day'), EXTRACT(DOW FROM t.call_start AT TIME ZONE 'UTC')
               ORDER BY day_num
             `) as Promise<any[]>,
@@ -259,6 +284,7 @@ export async function GET(request: NextRequest) {
               FROM transcripts t
               INNER JOIN "TranscriptAnalysis" ta ON t.vendor_call_key = ta."vendorCallKey"
               WHERE t.department IS NOT NULL AND t.department != ''
+                AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
                 AND t.call_start >= ${startDate}::timestamp
                 AND t.call_start < (${endDate}::timestamp + INTERVAL '1 day')
               GROUP BY t.department
@@ -273,6 +299,7 @@ export async function GET(request: NextRequest) {
               FROM transcripts t
               INNER JOIN "TranscriptAnalysis" ta ON t.vendor_call_key = ta."vendorCallKey"
               WHERE t.department IS NOT NULL AND t.department != ''
+                AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
               GROUP BY t.department
               ORDER BY count DESC
             `) as Promise<any[]>,
@@ -351,6 +378,8 @@ export async function GET(request: NextRequest) {
           },
           avgAgentScore: avgAgentScore._avg.agentSentimentScore || 0,
           avgCustomerScore: avgAgentScore._avg.customerSentimentScore || 0,
+          // Agent's own tier (only when scoped to one agent)
+          ...(agentScope ? { performanceTier: calculatePerformanceTier(avgAgentScore._avg.agentSentimentScore || 0) } : {}),
         },
         topics: {
           mainTopics: topicsData.map(t => ({
@@ -391,6 +420,7 @@ export async function GET(request: NextRequest) {
       const department = searchParams.get('department');
       const agent = searchParams.get('agent');
       const search = searchParams.get('search');
+      const needsReview = searchParams.get('needsReview') === 'true';
 
       // Build where clauses
       const transcriptWhere: any = {};
@@ -429,6 +459,9 @@ export async function GET(request: NextRequest) {
         transcriptWhere.agent_name = agent;
       }
 
+      // Agents only see their own calls
+      Object.assign(transcriptWhere, scopeTranscriptWhere(agentScope));
+
       if (sentiment) {
         analysisWhere.OR = [
           { agentSentiment: sentiment },
@@ -453,6 +486,11 @@ export async function GET(request: NextRequest) {
         ];
       }
 
+      if (needsReview) {
+        // QA review queue - analyses no reviewer has looked at yet
+        analysisWhere.reviewedAt = null;
+      }
+
       // If we have analysis filters, we need to ensure we only get transcripts that have matching analysis
       if (Object.keys(analysisWhere).length > 0) {
         transcriptWhere.TranscriptAnalysis = {
@@ -481,6 +519,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
             AND t.call_start >= ${startDate}::timestamp
             AND t.call_start < ${endDate}::timestamp
             ORDER BY t.call_start DESC NULLS LAST
@@ -501,6 +540,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
             AND t.call_start >= ${startDate}::timestamp
             AND t.call_start < ${endDate}::timestamp
             ORDER BY t.call_start DESC NULLS LAST
@@ -519,6 +559,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
             AND t.call_start >= ${startDate}::timestamp
             ORDER BY t.call_start DESC NULLS LAST
             LIMIT ${limit}
@@ -537,6 +578,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
             AND t.call_start < ${endDate}::timestamp
             ORDER BY t.call_start DESC NULLS LAST
             LIMIT ${limit}
@@ -553,6 +595,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
             ORDER BY t.call_start DESC NULLS LAST
             LIMIT ${limit}
             OFFSET ${offset}
@@ -608,6 +651,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
             AND t.call_start >= ${startDate}::timestamp
             AND t.call_start < ${endDate}::timestamp
           `;
@@ -626,6 +670,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
             AND t.call_start >= ${startDate}::timestamp
             AND t.call_start < ${endDate}::timestamp
           `;
@@ -642,6 +687,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
             AND t.call_start >= ${startDate}::timestamp
           `;
           totalCount = Number(result[0].count);
@@ -658,6 +704,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
             AND t.call_start < ${endDate}::timestamp
           `;
           totalCount = Number(result[0].count);
@@ -672,6 +719,7 @@ export async function GET(request: NextRequest) {
               OR LOWER(t.disposition) LIKE ${'%' + searchTerm + '%'}
               OR LOWER(t.messages::text) LIKE ${'%' + searchTerm + '%'}
             )
+            AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
           `;
           totalCount = Number(result[0].count);
         }
@@ -685,6 +733,16 @@ export async function GET(request: NextRequest) {
       // All transcripts should have analysis if we filtered correctly
       const filtered = transcripts;
 
+      const redactTypes = getRedactionTypes('display', getRequestSession(request)?.role);
+      const redact = (text: string) => redactText(text, redactTypes);
+
+      await recordAuditEvent(request, {
+        action: 'transcript.view',
+        resource: '/api/transcript-analytics',
+        resourceIds: filtered.map((t: { vendor_call_key: string }) => t.vendor_call_key),
+        details: { filters: Object.fromEntries(searchParams), total: totalCount, redacted: redactTypes.length > 0 },
+      });
+
       return NextResponse.json({
         success: true,
         data: filtered.map(t => {
@@ -696,7 +754,7 @@ export async function GET(request: NextRequest) {
           const conversation = rawConversation
             .map((m: any) => ({
               role: m.speaker ? m.speaker.toLowerCase() : m.role?.toLowerCase() || 'unknown',
-              text: m.text || '',
+              text: redact(m.text || ''),
               timestamp: m.timestamp || null,
             }))
             .sort((a: any, b: any) => {
@@ -744,16 +802,18 @@ export async function GET(request: NextRequest) {
             analysis: analysis ? {
               agentSentiment: analysis.agentSentiment || '',
               agentSentimentScore: analysis.agentSentimentScore || 0,
-              agentSentimentReason: analysis.agentSentimentReason || '',
+              agentSentimentReason: redact(analysis.agentSentimentReason || ''),
               customerSentiment: analysis.customerSentiment || '',
               customerSentimentScore: analysis.customerSentimentScore || 0,
-              customerSentimentReason: analysis.customerSentimentReason || '',
+              customerSentimentReason: redact(analysis.customerSentimentReason || ''),
               aiDiscoveredTopic: analysis.aiDiscoveredTopic || '',
               aiDiscoveredSubcategory: analysis.aiDiscoveredSubcategory || '',
               topicConfidence: analysis.topicConfidence || 0,
-              keyIssues: analysis.keyIssues || [],
-              resolution: analysis.resolution || '',
+              keyIssues: (analysis.keyIssues || []).map(redact),
+              resolution: redact(analysis.resolution || ''),
               tags: analysis.tags || [],
+              reviewedAt: analysis.reviewedAt ? analysis.reviewedAt.toISOString() : null,
+              reviewedBy: analysis.reviewedBy || null,
             } : null,
           };
         }),
@@ -792,6 +852,7 @@ export async function GET(request: NextRequest) {
             FROM "TranscriptAnalysis" ta
             INNER JOIN transcripts t ON t.vendor_call_key = ta."vendorCallKey"
             WHERE ta."agentName" IS NOT NULL AND ta."agentName" != 'Unknown'
+              AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
               AND t.call_start >= ${startDate}::timestamp
               AND t.call_start < (${endDate}::timestamp + INTERVAL '1 day')
               AND t.duration_seconds > 60
@@ -821,22 +882,13 @@ export async function GET(request: NextRequest) {
             FROM "TranscriptAnalysis" ta
             INNER JOIN transcripts t ON t.vendor_call_key = ta."vendorCallKey"
             WHERE ta."agentName" IS NOT NULL AND ta."agentName" != 'Unknown'
+              AND (${agentScope}::text IS NULL OR LOWER(t.agent_email) = ${agentScope})
               AND t.duration_seconds > 60
             GROUP BY ta."agentName"
             HAVING COUNT(*) >= 1
             ORDER BY avg_agent_score DESC NULLS LAST
           `);
 
-      // Calculate performance tiers based on agent sentiment score
-      // Adjusted thresholds to create more top/higher performers
-      const calculatePerformanceTier = (score: number): string => {
-        if (score >= 0.70) return 'top';        // 70%+ = Top (was 80%)
-        if (score >= 0.55) return 'good';       // 55%+ = Good (was 60%)
-        if (score >= 0.35) return 'average';    // 35%+ = Average (was 40%)
-        if (score >= 0.20) return 'needs-improvement';  // 20%+ = Needs Improvement
-        return 'critical';                      // <20% = Critical
-      };
-
       // Transform data into agent stats with BOTH agent and customer sentiment
       const allAgents = agentData.map((row: any) => {
         const callCount = Number(row.call_count);
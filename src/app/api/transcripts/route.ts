@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
+import { recordAuditEvent } from '@/lib/audit';
+import { getRequestSession } from '@/lib/auth/jwt';
+import { getRedactionTypes, redactMessages } from '@/lib/redaction';
 
 /**
  * PHASE 1: Transcript Data API
@@ -16,6 +19,8 @@ import prisma from '@/lib/db';
  * - dateTo: Filter by date range end
  * - escalated: Filter escalated calls (true/false)
  * - search: Search text in messages, agent name, department, vendor call key
+ *
+ * Message text is PII-redacted for roles below PII_UNREDACTED_ROLE.
  */
 
 export async function GET(request: NextRequest) {
@@ -154,9 +159,20 @@ export async function GET(request: NextRequest) {
       ]);
     }
 
+    const redactTypes = getRedactionTypes('display', getRequestSession(request)?.role);
+
+    await recordAuditEvent(request, {
+      action: 'transcript.view',
+      resource: '/api/transcripts',
+      resourceIds: transcripts.map((t: { vendor_call_key: string }) => t.vendor_call_key),
+      details: { filters: Object.fromEntries(searchParams), total, redacted: redactTypes.length > 0 },
+    });
+
     return NextResponse.json({
       success: true,
-      data: transcripts,
+      data: transcripts.map((t: { messages: unknown }) => (
+        Array.isArray(t.messages) ? { ...t, messages: redactMessages(t.messages, redactTypes) } : t
+      )),
       pagination: {
         total,
         limit,
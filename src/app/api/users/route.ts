@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession, isValidCMGEmail } from '@/lib/auth/jwt';
+import { ROLES, isRole } from '@/lib/auth/roles';
+import { listUsers, setUserRole } from '@/lib/auth/users';
+
+/**
+ * User Role Management (admin only - enforced in middleware)
+ *
+ * GET /api/users
+ *   All users with their role and last sign-in
+ *
+ * PATCH /api/users
+ *   { "email": "jane@cmgfi.com", "role": "supervisor" }
+ *   Takes effect immediately: a changed role revokes the user's sessions,
+ *   and they sign in again with the new role
+ */
+export async function GET() {
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ success: true, users, roles: ROLES });
+  } catch (error) {
+    console.error('❌ [USERS] Failed to list users:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { email, role } = await request.json() as { email?: string; role?: string };
+
+    if (!email || !isValidCMGEmail(email)) {
+      return NextResponse.json(
+        { success: false, error: 'A valid company email is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isRole(role)) {
+      return NextResponse.json(
+        { success: false, error: `role must be one of ${ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const emailLower = email.toLowerCase().trim();
+
+    const admin = getRequestSession(request)?.email || 'unknown';
+
+    // Keep at least the current admin able to manage roles
+    if (admin === emailLower && role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'You cannot remove your own admin role' },
+        { status: 400 }
+      );
+    }
+
+    const user = await setUserRole(emailLower, role, admin);
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('❌ [USERS] Failed to update role:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
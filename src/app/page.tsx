@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import {
   FolderKanban,
   AlertCircle,
@@ -11,6 +11,13 @@ import {
   Tag,
   TrendingUp,
   TrendingDown,
+  Timer,
+  RefreshCw,
+  Inbox,
+  User,
+  ShieldCheck,
+  KeyRound,
+  Key,
 } from 'lucide-react';
 import { AIAnalysis } from '@/components/AIAnalysis';
 import TranscriptsAnalysis from '@/components/TranscriptsAnalysis';
@@ -19,14 +26,57 @@ import AgentsAnalysis from '@/components/AgentsAnalysis';
 import CategoriesAnalysis from '@/components/CategoriesAnalysis';
 import TrendsAnalysis from '@/components/TrendsAnalysis';
 import BurndownAnalysis from '@/components/BurndownAnalysis';
-type TabType = 'data' | 'transcripts' | 'agents' | 'categories' | 'trends' | 'ai' | 'burndown';
+import SlaMonitor from '@/components/SlaMonitor';
+import SyncHistory from '@/components/SyncHistory';
+import AnalysisQueue from '@/components/AnalysisQueue';
+import AgentDashboard from '@/components/AgentDashboard';
+import AuditLog from '@/components/AuditLog';
+import SessionManager from '@/components/SessionManager';
+import ApiKeyManager from '@/components/ApiKeyManager';
+import TaxonomyEditor from '@/components/TaxonomyEditor';
+import { DEFAULT_ROLE, hasRole, isRole, type Role } from '@/lib/auth/roles';
+type TabType = 'data' | 'transcripts' | 'agents' | 'categories' | 'trends' | 'ai' | 'burndown' | 'sla' | 'taxonomy' | 'sync' | 'queue' | 'mine' | 'audit' | 'sessions' | 'apiKeys';
 
 export default function Dashboard() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [activeTab, setActiveTab] = useState<TabType>('transcripts');
+  const [role, setRole] = useState<Role | null>(null);
 
-  if (loading) {
+  // Load the signed-in user's role to hide tabs they cannot use
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((session) => {
+        if (!isRole(session?.role)) {
+          setRole(DEFAULT_ROLE);
+          return;
+        }
+        setRole(session.role);
+        // Agents only have their personal dashboard
+        if (session.role === 'agent') setActiveTab('mine');
+      })
+      .catch(() => {
+        // Fall back to the default role; the API still enforces access
+        setRole(DEFAULT_ROLE);
+      });
+  }, []);
+
+  // End this session (or every session for the user) server-side, then go to login
+  const signOut = async (everywhere: boolean) => {
+    try {
+      await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ everywhere }),
+      });
+    } finally {
+      window.location.href = '/login';
+    }
+  };
+
+  // Wait for the role so agents never see the shared dashboards
+  if (loading || !role) {
     return (
       <div className="min-h-screen bg-[#0a0e17] flex items-center justify-center">
         <div className="text-center">
@@ -51,18 +101,31 @@ export default function Dashboard() {
     );
   }
 
-  const tabs = [
+  const allTabs: { id: TabType; label: string; icon: typeof Phone; group: string; color: string; dataSource: string; minRole?: Role; agentOnly?: boolean }[] = [
     // Ticket Data (Green)
     { id: 'burndown' as TabType, label: 'Burndown', icon: TrendingDown, group: 'tickets', color: 'green', dataSource: 'Tickets' },
+    { id: 'sla' as TabType, label: 'SLA', icon: Timer, group: 'tickets', color: 'green', dataSource: 'Tickets' },
+    { id: 'taxonomy' as TabType, label: 'Taxonomy', icon: Tag, group: 'tickets', color: 'green', dataSource: 'Tickets', minRole: 'admin' },
     // { id: 'categories' as TabType, label: 'Categories', icon: Tag, group: 'tickets', color: 'green', dataSource: 'Tickets' },
     // { id: 'trends' as TabType, label: 'Trends', icon: TrendingUp, group: 'tickets', color: 'green', dataSource: 'Tickets' },
 
     // Transcript Data (Purple) - Call recordings with AI analysis
     { id: 'transcripts' as TabType, label: 'Transcripts', icon: Phone, group: 'transcripts', color: 'purple', dataSource: 'Transcripts' },
-    { id: 'agents' as TabType, label: 'Agents', icon: Users, group: 'transcripts', color: 'purple', dataSource: 'Transcripts' },
+    { id: 'agents' as TabType, label: 'Agents', icon: Users, group: 'transcripts', color: 'purple', dataSource: 'Transcripts', minRole: 'supervisor' },
     { id: 'data' as TabType, label: 'Raw Data', icon: FolderKanban, group: 'transcripts', color: 'purple', dataSource: 'Transcripts' },
+    { id: 'sync' as TabType, label: 'Sync History', icon: RefreshCw, group: 'transcripts', color: 'purple', dataSource: 'Transcripts' },
+    { id: 'queue' as TabType, label: 'AI Queue', icon: Inbox, group: 'transcripts', color: 'purple', dataSource: 'Transcripts', minRole: 'admin' },
+    { id: 'audit' as TabType, label: 'Audit Log', icon: ShieldCheck, group: 'transcripts', color: 'purple', dataSource: 'Transcripts', minRole: 'admin' },
+    { id: 'sessions' as TabType, label: 'Sessions', icon: KeyRound, group: 'transcripts', color: 'purple', dataSource: 'Transcripts', minRole: 'admin' },
+    { id: 'apiKeys' as TabType, label: 'API Keys', icon: Key, group: 'transcripts', color: 'purple', dataSource: 'Transcripts', minRole: 'admin' },
     // { id: 'ai' as TabType, label: 'Ask AI', icon: Brain, group: 'transcripts', color: 'purple', dataSource: 'Transcripts' },
+
+    // Agent self-service - their own calls only
+    { id: 'mine' as TabType, label: 'My Calls', icon: User, group: 'transcripts', color: 'purple', dataSource: 'Transcripts', agentOnly: true },
   ];
+  const tabs = role === 'agent'
+    ? allTabs.filter((tab) => tab.agentOnly)
+    : allTabs.filter((tab) => !tab.agentOnly && (!tab.minRole || hasRole(role, tab.minRole)));
 
   return (
     <div className="min-h-screen bg-[#0a0e17]">
@@ -121,6 +184,15 @@ export default function Dashboard() {
                 <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
                 <span className="text-xs text-gray-400">Live</span>
               </div>
+              <div className="flex items-center gap-2 text-[10px] text-gray-500">
+                <span className="uppercase tracking-wide">{role}</span>
+                <span>•</span>
+                <button onClick={() => signOut(false)} className="hover:text-white">Sign out</button>
+                <span>•</span>
+                <button onClick={() => signOut(true)} className="hover:text-white" title="End every session for your account">
+                  Everywhere
+                </button>
+              </div>
             </div>
           </div>
 
@@ -163,6 +235,8 @@ export default function Dashboard() {
       <main className="max-w-7xl mx-auto px-6 py-8">
         {/* Tab Content */}
         {activeTab === 'burndown' && <BurndownAnalysis />}
+        {activeTab === 'sla' && <SlaMonitor />}
+        {activeTab === 'taxonomy' && <TaxonomyEditor />}
 
         {activeTab === 'categories' && <CategoriesAnalysis />}
 
@@ -174,6 +248,18 @@ export default function Dashboard() {
 
         {activeTab === 'data' && <TranscriptDataGrid />}
 
+        {activeTab === 'sync' && <SyncHistory />}
+
+        {activeTab === 'queue' && <AnalysisQueue />}
+
+        {activeTab === 'audit' && <AuditLog />}
+
+        {activeTab === 'sessions' && <SessionManager />}
+
+        {activeTab === 'apiKeys' && <ApiKeyManager />}
+
+        {activeTab === 'mine' && <AgentDashboard />}
+
         {activeTab === 'ai' && (
           <div className="space-y-6">
             {/* Prominent AI Header */}
@@ -0,0 +1,300 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Phone,
+  ThumbsUp,
+  ThumbsDown,
+  Award,
+  Loader2,
+  MessageSquare,
+  ClipboardList,
+  ChevronRight,
+} from 'lucide-react';
+import { TranscriptModal } from './TranscriptModal';
+
+interface SentimentCounts {
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+interface AgentSummary {
+  totalCalls: number;
+  analyzedCalls: number;
+  agentSentiment: SentimentCounts;
+  customerSentiment: SentimentCounts;
+  avgAgentScore: number;
+  avgCustomerScore: number;
+  performanceTier: string | null;
+}
+
+interface ScorecardSummary {
+  vendorCallKey: string;
+  callStart: string | null;
+  overallScores: {
+    customerSatisfaction: number;
+    agentProfessionalism: number;
+    empathyConnection: number;
+    communicationClarity: number;
+    overallCallImpact: number;
+  };
+  overview: string;
+  coachingNotes: {
+    toneProfessionalism: string;
+    problemSolving: string;
+    empathyConnection: string;
+    deEscalation: string;
+    closure: string;
+  };
+  agentFollowUps: string[];
+  generatedAt: string;
+}
+
+const TIER_STYLES: Record<string, { label: string; className: string }> = {
+  top: { label: 'Top Performer', className: 'text-green-400 bg-green-500/10 border-green-500/30' },
+  good: { label: 'Good', className: 'text-blue-400 bg-blue-500/10 border-blue-500/30' },
+  average: { label: 'Average', className: 'text-yellow-400 bg-yellow-500/10 border-yellow-500/30' },
+  'needs-improvement': { label: 'Needs Improvement', className: 'text-orange-400 bg-orange-500/10 border-orange-500/30' },
+  critical: { label: 'Critical', className: 'text-red-400 bg-red-500/10 border-red-500/30' },
+};
+
+const COACHING_LABELS: Record<keyof ScorecardSummary['coachingNotes'], string> = {
+  toneProfessionalism: 'Tone & Professionalism',
+  problemSolving: 'Problem Solving',
+  empathyConnection: 'Empathy & Connection',
+  deEscalation: 'De-escalation',
+  closure: 'Closure',
+};
+
+function percent(part: number, counts: SentimentCounts): string {
+  const total = counts.positive + counts.neutral + counts.negative;
+  return total > 0 ? `${((part / total) * 100).toFixed(0)}%` : '-';
+}
+
+/**
+ * Personal dashboard for agents - every request is scoped server-side to the signed-in agent's calls
+ */
+export default function AgentDashboard() {
+  const [summary, setSummary] = useState<AgentSummary | null>(null);
+  const [scorecards, setScorecards] = useState<ScorecardSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [modalFilter, setModalFilter] = useState({ value: '', title: 'My Calls' });
+
+  useEffect(() => {
+    async function loadDashboard() {
+      setLoading(true);
+      setError(null);
+      try {
+        const [summaryRes, scorecardRes] = await Promise.all([
+          fetch('/api/transcript-analytics?type=summary'),
+          fetch('/api/call-scorecards?limit=10'),
+        ]);
+        const summaryData = await summaryRes.json();
+        const scorecardData = await scorecardRes.json();
+
+        if (!summaryRes.ok || !summaryData.success) {
+          throw new Error(summaryData.message || 'Failed to load your calls');
+        }
+
+        setSummary({
+          totalCalls: summaryData.metadata.totalTranscripts,
+          analyzedCalls: summaryData.metadata.analyzedTranscripts,
+          agentSentiment: summaryData.summary.agentSentiment,
+          customerSentiment: summaryData.summary.customerSentiment,
+          avgAgentScore: summaryData.summary.avgAgentScore,
+          avgCustomerScore: summaryData.summary.avgCustomerScore,
+          performanceTier: summaryData.summary.performanceTier || null,
+        });
+        setScorecards(scorecardRes.ok && scorecardData.success ? scorecardData.scorecards : []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load your calls');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadDashboard();
+  }, []);
+
+  const openCalls = (value: string, title: string) => {
+    setModalFilter({ value, title });
+    setModalOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24 text-gray-400">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading your calls...
+      </div>
+    );
+  }
+
+  if (error || !summary) {
+    return (
+      <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 text-sm text-red-300">
+        {error || 'Failed to load your calls'}
+      </div>
+    );
+  }
+
+  const tier = summary.performanceTier ? TIER_STYLES[summary.performanceTier] : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <button
+          onClick={() => openCalls('', 'My Calls')}
+          className="text-left bg-[#131a29] rounded-xl p-4 border border-white/[0.08] hover:border-purple-500/40 transition-colors"
+        >
+          <div className="flex items-center gap-2 text-gray-400 mb-2">
+            <Phone className="h-4 w-4" />
+            <span className="text-sm">My Calls</span>
+          </div>
+          <div className="text-2xl font-bold text-white">{summary.totalCalls.toLocaleString()}</div>
+          <div className="text-xs text-gray-500 mt-1">{summary.analyzedCalls.toLocaleString()} analyzed • click to browse</div>
+        </button>
+
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 text-gray-400 mb-2">
+            <Award className="h-4 w-4" />
+            <span className="text-sm">Performance Tier</span>
+          </div>
+          {tier ? (
+            <span className={`inline-block px-2 py-1 rounded-lg text-sm font-medium border ${tier.className}`}>
+              {tier.label}
+            </span>
+          ) : (
+            <span className="text-2xl font-bold text-gray-500">-</span>
+          )}
+          <div className="text-xs text-gray-500 mt-2">
+            Agent score {(summary.avgAgentScore * 100).toFixed(1)}%
+          </div>
+        </div>
+
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 text-gray-400 mb-2">
+            <ThumbsUp className="h-4 w-4 text-green-400" />
+            <span className="text-sm">Positive Customers</span>
+          </div>
+          <div className="text-2xl font-bold text-green-400">
+            {percent(summary.customerSentiment.positive, summary.customerSentiment)}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            {summary.customerSentiment.positive.toLocaleString()} calls
+          </div>
+        </div>
+
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 text-gray-400 mb-2">
+            <ThumbsDown className="h-4 w-4 text-red-400" />
+            <span className="text-sm">Negative Customers</span>
+          </div>
+          <div className="text-2xl font-bold text-red-400">
+            {percent(summary.customerSentiment.negative, summary.customerSentiment)}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            {summary.customerSentiment.negative.toLocaleString()} calls
+          </div>
+        </div>
+      </div>
+
+      {/* Scorecards & Coaching Notes */}
+      <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
+        <div className="flex items-center gap-3 p-4 border-b border-white/[0.08]">
+          <div className="p-2 rounded-xl bg-purple-500/20">
+            <ClipboardList className="h-5 w-5 text-purple-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Scorecards & Coaching Notes</h3>
+            <p className="text-sm text-gray-400">Your most recently scored calls</p>
+          </div>
+        </div>
+
+        {scorecards.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">
+            No scorecards yet. Open one of your calls to generate its scorecard.
+          </p>
+        ) : (
+          <div className="divide-y divide-white/[0.06]">
+            {scorecards.map((card) => {
+              const isExpanded = expanded === card.vendorCallKey;
+              return (
+                <div key={card.vendorCallKey} className="p-4">
+                  <div className="flex items-start gap-4">
+                    <div className="text-center min-w-[56px]">
+                      <div className="text-2xl font-bold text-white">{card.overallScores.overallCallImpact.toFixed(1)}</div>
+                      <div className="text-[10px] text-gray-500 uppercase">Impact</div>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                        {card.callStart ? new Date(card.callStart).toLocaleString() : 'Unknown date'}
+                        <span>•</span>
+                        CSAT {card.overallScores.customerSatisfaction}/5
+                        <span>•</span>
+                        Professionalism {card.overallScores.agentProfessionalism}/5
+                      </div>
+                      <p className="text-sm text-gray-300">{card.overview}</p>
+
+                      {isExpanded && (
+                        <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+                          {(Object.keys(COACHING_LABELS) as (keyof ScorecardSummary['coachingNotes'])[]).map((key) => (
+                            <div key={key} className="bg-white/[0.02] rounded-lg p-3 border border-white/[0.06]">
+                              <div className="text-xs font-medium text-purple-300 mb-1">{COACHING_LABELS[key]}</div>
+                              <p className="text-xs text-gray-400">{card.coachingNotes[key]}</p>
+                            </div>
+                          ))}
+                          {card.agentFollowUps.length > 0 && (
+                            <div className="md:col-span-2 bg-white/[0.02] rounded-lg p-3 border border-white/[0.06]">
+                              <div className="text-xs font-medium text-amber-300 mb-1">Your Follow-ups</div>
+                              <ul className="list-disc list-inside text-xs text-gray-400 space-y-0.5">
+                                {card.agentFollowUps.map((action, idx) => (
+                                  <li key={idx}>{action}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-2">
+                      <button
+                        onClick={() => setExpanded(isExpanded ? null : card.vendorCallKey)}
+                        className="flex items-center gap-1 text-xs text-purple-300 hover:text-purple-200"
+                      >
+                        <MessageSquare className="h-3 w-3" />
+                        {isExpanded ? 'Hide coaching' : 'Coaching'}
+                      </button>
+                      <button
+                        onClick={() => openCalls(card.vendorCallKey, 'Call Transcript')}
+                        className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+                      >
+                        Transcript
+                        <ChevronRight className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <TranscriptModal
+        isOpen={modalOpen}
+        onClose={() => setModalOpen(false)}
+        title={modalFilter.title}
+        filterType="all"
+        filterValue={modalFilter.value}
+        showReview={false}
+        showRelatedTickets={false}
+      />
+    </div>
+  );
+}
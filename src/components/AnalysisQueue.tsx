@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Inbox,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  AlertTriangle,
+  Clock,
+  CheckCircle,
+  XCircle,
+  Hourglass,
+} from 'lucide-react';
+
+type JobStatus = 'pending' | 'running' | 'done' | 'failed';
+type QueueView = 'problems' | 'stuck' | JobStatus;
+
+interface AnalysisJob {
+  id: string;
+  vendorCallKey: string;
+  status: JobStatus;
+  stuck: boolean;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  lastStatusCode: number | null;
+  nextRunAt: string;
+  lockedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type QueueCounts = Record<JobStatus | 'stuck', number>;
+
+interface UseCaseUsage {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  totalDurationMs: number;
+}
+
+const VIEW_OPTIONS: { id: QueueView; label: string }[] = [
+  { id: 'problems', label: 'Needs Attention' },
+  { id: 'failed', label: 'Dead-Lettered' },
+  { id: 'stuck', label: 'Stuck' },
+  { id: 'pending', label: 'Pending' },
+  { id: 'running', label: 'Running' },
+  { id: 'done', label: 'Done' },
+];
+
+export default function AnalysisQueue() {
+  const [view, setView] = useState<QueueView>('problems');
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [counts, setCounts] = useState<QueueCounts | null>(null);
+  const [usage, setUsage] = useState<Record<string, UseCaseUsage>>({});
+  const [usageDays, setUsageDays] = useState(7);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [retrying, setRetrying] = useState(false);
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/analysis-jobs?view=${view}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load analysis queue');
+      }
+      setJobs(data.jobs);
+      setCounts(data.counts);
+      setUsage(data.usage || {});
+      setUsageDays(data.usageDays || 7);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analysis queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [view]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const canRetry = (job: AnalysisJob) => job.status === 'failed' || job.stuck;
+  const retryableJobs = jobs.filter(canRetry);
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.size === retryableJobs.length ? new Set() : new Set(retryableJobs.map((job) => job.id)));
+  };
+
+  const retrySelected = async () => {
+    if (selected.size === 0) return;
+    setRetrying(true);
+    try {
+      const response = await fetch('/api/analysis-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'retry', ids: Array.from(selected) }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to requeue jobs');
+      }
+      await loadJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to requeue jobs');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const statCards = [
+    { label: 'Pending', value: counts?.pending, icon: Clock, color: 'text-blue-400' },
+    { label: 'Running', value: counts?.running, icon: Loader2, color: 'text-purple-400' },
+    { label: 'Stuck', value: counts?.stuck, icon: Hourglass, color: 'text-amber-400' },
+    { label: 'Dead-Lettered', value: counts?.failed, icon: XCircle, color: 'text-red-400' },
+    { label: 'Done', value: counts?.done, icon: CheckCircle, color: 'text-green-400' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-500/10 via-blue-500/10 to-purple-500/10 rounded-2xl p-6 border border-purple-500/20">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-xl bg-gradient-to-br from-purple-500 to-blue-600">
+              <Inbox className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">AI Analysis Queue</h2>
+              <p className="text-gray-400">Stuck and dead-lettered transcript analysis jobs</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={view}
+              onChange={(e) => setView(e.target.value as QueueView)}
+              className="px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-white focus:outline-none focus:border-purple-500/50"
+            >
+              {VIEW_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+
+            <button
+              onClick={retrySelected}
+              disabled={selected.size === 0 || retrying}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-500 rounded-lg text-sm font-medium text-white hover:bg-purple-600 transition-all disabled:opacity-40"
+            >
+              {retrying ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+              Retry {selected.size > 0 ? `(${selected.size})` : ''}
+            </button>
+
+            <button
+              onClick={loadJobs}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 hover:text-white hover:border-purple-500/50 transition-all disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center gap-3">
+          <AlertTriangle className="h-5 w-5 text-red-400" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {statCards.map((card) => (
+          <div key={card.label} className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+            <div className="flex items-center gap-2 mb-2">
+              <card.icon className={`h-4 w-4 ${card.color}`} />
+              <span className="text-xs text-gray-400">{card.label}</span>
+            </div>
+            <div className="text-2xl font-bold text-white">{card.value !== undefined ? card.value.toLocaleString() : '-'}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Token Usage */}
+      {Object.keys(usage).length > 0 && (
+        <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
+          <div className="px-4 py-3 border-b border-white/[0.06]">
+            <h3 className="text-sm font-semibold text-white">AI Usage (last {usageDays} days)</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase border-b border-white/[0.06]">
+                  <th className="px-4 py-3">Use Case</th>
+                  <th className="px-4 py-3 text-right">Calls</th>
+                  <th className="px-4 py-3 text-right">Errors</th>
+                  <th className="px-4 py-3 text-right">Prompt Tokens</th>
+                  <th className="px-4 py-3 text-right">Completion Tokens</th>
+                  <th className="px-4 py-3 text-right">Avg Latency</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(usage).map(([useCase, entry]) => (
+                  <tr key={useCase} className="border-b border-white/[0.04]">
+                    <td className="px-4 py-3 font-mono text-gray-300">{useCase}</td>
+                    <td className="px-4 py-3 text-right text-gray-300">{entry.calls.toLocaleString()}</td>
+                    <td className={`px-4 py-3 text-right ${entry.errors > 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                      {entry.errors.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-300">{entry.promptTokens.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-right text-gray-300">{entry.completionTokens.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-right text-gray-400">
+                      {entry.calls > 0 ? `${(entry.totalDurationMs / entry.calls / 1000).toFixed(1)}s` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Job Table */}
+      <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
+        {loading && jobs.length === 0 ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+          </div>
+        ) : jobs.length === 0 ? (
+          <p className="px-6 py-12 text-center text-gray-500">No jobs in this view</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase border-b border-white/[0.06]">
+                  <th className="px-4 py-3 w-8">
+                    <input
+                      type="checkbox"
+                      checked={retryableJobs.length > 0 && selected.size === retryableJobs.length}
+                      onChange={toggleAll}
+                      disabled={retryableJobs.length === 0}
+                      className="accent-purple-500"
+                    />
+                  </th>
+                  <th className="px-4 py-3">Call Key</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3 text-right">Attempts</th>
+                  <th className="px-4 py-3">Last Error</th>
+                  <th className="px-4 py-3">Next Run</th>
+                  <th className="px-4 py-3">Updated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((job) => (
+                  <tr key={job.id} className="border-b border-white/[0.04] hover:bg-white/[0.02]">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(job.id)}
+                        onChange={() => toggleSelected(job.id)}
+                        disabled={!canRetry(job)}
+                        className="accent-purple-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3 font-mono text-gray-300">{job.vendorCallKey}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-md text-xs font-medium ${
+                        job.stuck ? 'bg-amber-500/10 text-amber-400' :
+                        job.status === 'failed' ? 'bg-red-500/10 text-red-400' :
+                        job.status === 'done' ? 'bg-green-500/10 text-green-400' :
+                        'bg-blue-500/10 text-blue-400'
+                      }`}>
+                        {job.stuck ? 'stuck' : job.status === 'failed' ? 'dead-lettered' : job.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-300">{job.attempts}/{job.maxAttempts}</td>
+                    <td className="px-4 py-3 text-red-300 max-w-md truncate" title={job.lastError || ''}>
+                      {job.lastStatusCode ? `[${job.lastStatusCode}] ` : ''}{job.lastError || '-'}
+                    </td>
+                    <td className="px-4 py-3 text-gray-400 whitespace-nowrap">
+                      {job.status === 'pending' ? new Date(job.nextRunAt).toLocaleString() : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-gray-400 whitespace-nowrap">{new Date(job.updatedAt).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
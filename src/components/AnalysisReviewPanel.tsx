@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { ClipboardCheck, CheckCircle, Save } from 'lucide-react';
+
+type Sentiment = 'positive' | 'neutral' | 'negative';
+
+const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative'];
+
+export interface ReviewedLabels {
+  agentSentiment: string;
+  customerSentiment: string;
+  aiDiscoveredTopic: string;
+}
+
+interface AnalysisReviewPanelProps {
+  vendorCallKey: string;
+  labels: ReviewedLabels;
+  reviewedAt?: string | null;
+  reviewedBy?: string | null;
+  onReviewed: (labels: ReviewedLabels, reviewedAt: string, reviewedBy: string) => void;
+}
+
+/**
+ * QA review of the AI sentiment and topic labels for one transcript.
+ * Saving with unchanged labels records a confirmation of the AI labels.
+ * Render with key={vendorCallKey} so the form resets per transcript.
+ */
+export function AnalysisReviewPanel({
+  vendorCallKey,
+  labels,
+  reviewedAt,
+  reviewedBy,
+  onReviewed,
+}: AnalysisReviewPanelProps) {
+  const [draft, setDraft] = useState<ReviewedLabels>(labels);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const changed =
+    draft.agentSentiment !== labels.agentSentiment ||
+    draft.customerSentiment !== labels.customerSentiment ||
+    draft.aiDiscoveredTopic.trim() !== labels.aiDiscoveredTopic;
+
+  const submit = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/analysis-reviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          vendorCallKey,
+          labels: { ...draft, aiDiscoveredTopic: draft.aiDiscoveredTopic.trim() },
+          note: note || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Review failed: ${response.status}`);
+      }
+
+      const saved = { ...draft, aiDiscoveredTopic: draft.aiDiscoveredTopic.trim() };
+      onReviewed(saved, data.reviews[0]?.createdAt || new Date().toISOString(), data.reviews[0]?.reviewer || '');
+      setNote('');
+    } catch (err) {
+      console.error('Failed to save review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-white/[0.08]">
+      <div className="flex items-center gap-2 mb-2">
+        <ClipboardCheck className="h-4 w-4 text-amber-400" />
+        <p className="text-sm text-amber-300 font-medium">QA Review</p>
+        {reviewedAt ? (
+          <span className="ml-auto text-xs text-gray-400">
+            Reviewed {new Date(reviewedAt).toLocaleString()}{reviewedBy ? ` by ${reviewedBy}` : ''}
+          </span>
+        ) : (
+          <span className="ml-auto px-2 py-0.5 bg-amber-500/10 text-amber-300 rounded text-xs border border-amber-500/30">
+            Not reviewed
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-400">Agent Sentiment</span>
+          <select
+            value={draft.agentSentiment}
+            onChange={(e) => setDraft({ ...draft, agentSentiment: e.target.value })}
+            className="px-2 py-1 bg-[#0f1420] border border-white/[0.08] rounded text-xs text-white focus:outline-none focus:border-amber-500/50"
+          >
+            {SENTIMENTS.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-400">Customer Sentiment</span>
+          <select
+            value={draft.customerSentiment}
+            onChange={(e) => setDraft({ ...draft, customerSentiment: e.target.value })}
+            className="px-2 py-1 bg-[#0f1420] border border-white/[0.08] rounded text-xs text-white focus:outline-none focus:border-amber-500/50"
+          >
+            {SENTIMENTS.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-400">Topic</span>
+          <input
+            value={draft.aiDiscoveredTopic}
+            onChange={(e) => setDraft({ ...draft, aiDiscoveredTopic: e.target.value })}
+            className="px-2 py-1 bg-[#0f1420] border border-white/[0.08] rounded text-xs text-white focus:outline-none focus:border-amber-500/50"
+          />
+        </label>
+      </div>
+
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note (optional)"
+        className="mt-2 w-full px-2 py-1 bg-[#0f1420] border border-white/[0.08] rounded text-xs text-white placeholder-gray-500 focus:outline-none focus:border-amber-500/50"
+      />
+
+      <div className="flex items-center gap-2 mt-2">
+        <button
+          onClick={submit}
+          disabled={saving || !draft.aiDiscoveredTopic.trim()}
+          className={`flex items-center gap-1 px-2 py-1 rounded text-xs border transition-colors disabled:opacity-50 ${
+            changed
+              ? 'bg-amber-500/20 text-amber-300 border-amber-500/30 hover:bg-amber-500/30'
+              : 'bg-green-500/10 text-green-400 border-green-500/30 hover:bg-green-500/20'
+          }`}
+        >
+          {changed ? <Save className="h-3 w-3" /> : <CheckCircle className="h-3 w-3" />}
+          {saving ? 'Saving...' : changed ? 'Save override' : 'Confirm AI labels'}
+        </button>
+        {error && <span className="text-xs text-red-400">{error}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Key,
+  Loader2,
+  RefreshCw,
+  Plus,
+  AlertTriangle,
+  Copy,
+  Check,
+} from 'lucide-react';
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/auth/roles';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  active: boolean;
+}
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'ingest:write': 'Ingest data',
+  'analytics:read': 'Read analytics',
+  'sync:run': 'Run syncs',
+};
+
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: null, label: 'Never' },
+];
+
+/**
+ * Admin view of API keys for machine clients - create, inspect and revoke
+ */
+export default function ApiKeyManager() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<{ name: string; key: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadKeys = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/api-keys');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load API keys');
+      }
+      setApiKeys(data.apiKeys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  const createKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes, expiresInDays }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to create API key');
+      }
+      setNewKey({ name: data.apiKey.name, key: data.key });
+      setCopied(false);
+      setName('');
+      setScopes([]);
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeKey = async (id: string) => {
+    setRevoking(id);
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to revoke API key');
+      }
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const copyKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey.key);
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-500/10 via-blue-500/10 to-purple-500/10 rounded-2xl p-6 border border-purple-500/20">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-xl bg-gradient-to-br from-purple-500 to-blue-600">
+              <Key className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">API Keys</h2>
+              <p className="text-gray-400">Scoped keys for ingest, analytics and sync clients</p>
+            </div>
+          </div>
+
+          <button
+            onClick={loadKeys}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 hover:text-white hover:border-purple-500/50 transition-all disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <form onSubmit={createKey} className="mt-4 flex flex-wrap items-center gap-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Key name, e.g. Salesforce ingest"
+            className="px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-purple-500/50"
+          />
+          {API_KEY_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+                className="accent-purple-500"
+              />
+              {SCOPE_LABELS[scope]}
+            </label>
+          ))}
+          <select
+            value={expiresInDays ?? ''}
+            onChange={(e) => setExpiresInDays(e.target.value ? parseInt(e.target.value) : null)}
+            className="px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-white focus:outline-none focus:border-purple-500/50"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days ?? ''}>Expires: {option.label}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={creating || !name.trim() || scopes.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-500 rounded-lg text-sm font-medium text-white hover:bg-purple-600 transition-all disabled:opacity-40"
+          >
+            {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Create Key
+          </button>
+        </form>
+      </div>
+
+      {newKey && (
+        <div className="bg-green-500/10 border border-green-500/30 rounded-xl p-4 space-y-2">
+          <p className="text-sm text-green-300">
+            Key for <span className="font-medium">{newKey.name}</span> created. Copy it now - it will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 px-3 py-2 bg-[#0a0e17] rounded-lg font-mono text-xs text-white break-all">{newKey.key}</code>
+            <button
+              onClick={copyKey}
+              className="flex items-center gap-1 px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-xs text-gray-300 hover:text-white"
+            >
+              {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center gap-3">
+          <AlertTriangle className="h-5 w-5 text-red-400" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* Key Table */}
+      <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
+        {loading && apiKeys.length === 0 ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+          </div>
+        ) : apiKeys.length === 0 ? (
+          <p className="px-6 py-12 text-center text-gray-500">No API keys yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase border-b border-white/[0.06]">
+                  <th className="px-4 py-3">Name</th>
+                  <th className="px-4 py-3">Key</th>
+                  <th className="px-4 py-3">Scopes</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Expires</th>
+                  <th className="px-4 py-3">Last Used</th>
+                  <th className="px-4 py-3">Created</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {apiKeys.map((apiKey) => (
+                  <tr key={apiKey.id} className="border-b border-white/[0.04] hover:bg-white/[0.02]">
+                    <td className="px-4 py-3 text-gray-300">{apiKey.name}</td>
+                    <td className="px-4 py-3 font-mono text-xs text-gray-400">{apiKey.keyPrefix}…</td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map((scope) => (
+                          <span key={scope} className="px-2 py-0.5 rounded-md bg-purple-500/10 text-xs text-purple-300">{scope}</span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-md text-xs font-medium ${
+                        apiKey.active ? 'bg-green-500/10 text-green-400' :
+                        apiKey.revokedAt ? 'bg-red-500/10 text-red-400' :
+                        'bg-gray-500/10 text-gray-400'
+                      }`}>
+                        {apiKey.active ? 'active' : apiKey.revokedAt ? 'revoked' : 'expired'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-400 whitespace-nowrap">
+                      {apiKey.expiresAt ? new Date(apiKey.expiresAt).toLocaleDateString() : 'Never'}
+                    </td>
+                    <td className="px-4 py-3 text-gray-400 whitespace-nowrap">
+                      {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500 whitespace-nowrap">
+                      {new Date(apiKey.createdAt).toLocaleDateString()}
+                      {apiKey.createdBy && <div className="text-[10px]">{apiKey.createdBy}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {apiKey.active && (
+                        <button
+                          onClick={() => revokeKey(apiKey.id)}
+                          disabled={revoking !== null}
+                          className="text-xs text-red-300 hover:text-red-200 disabled:opacity-40"
+                        >
+                          {revoking === apiKey.id ? 'Revoking...' : 'Revoke'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ShieldCheck,
+  Loader2,
+  RefreshCw,
+  Search,
+  AlertTriangle,
+} from 'lucide-react';
+
+interface AuditEvent {
+  id: string;
+  createdAt: string;
+  actor: string | null;
+  action: string;
+  resource: string;
+  resourceIds: string[];
+  ip: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown> | null;
+}
+
+interface AuditFilters {
+  actor: string;
+  vendorCallKey: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+const ACTION_OPTIONS: { id: string; label: string }[] = [
+  { id: '', label: 'All Actions' },
+  { id: 'transcript.view', label: 'Transcript Views' },
+  { id: 'scorecard.view', label: 'Scorecard Views' },
+  { id: 'export.tickets', label: 'Ticket Exports' },
+  { id: 'ai.call-analysis', label: 'AI Call Analysis' },
+  { id: 'ai.sentiment', label: 'AI Sentiment' },
+  { id: 'ai.analyze', label: 'AI Ask' },
+  { id: 'ai.agent-profile', label: 'AI Agent Profile' },
+  { id: 'access.denied', label: 'Access Denied' },
+  { id: 'api.request', label: 'All API Requests' },
+];
+
+const PAGE_SIZE = 100;
+
+const EMPTY_FILTERS: AuditFilters = { actor: '', vendorCallKey: '', action: '', from: '', to: '' };
+
+/**
+ * Admin view of the audit trail - search by user, call key, action and date
+ */
+export default function AuditLog() {
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+
+      const response = await fetch(`/api/audit-events?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load audit events');
+      }
+      setEvents(data.events);
+      setTotal(data.pagination.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit events');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, offset]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOffset(0);
+    setFilters(draft);
+  };
+
+  const searchCallKey = (vendorCallKey: string) => {
+    const next = { ...EMPTY_FILTERS, vendorCallKey };
+    setDraft(next);
+    setOffset(0);
+    setFilters(next);
+  };
+
+  const inputClass = 'px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-purple-500/50';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-500/10 via-blue-500/10 to-purple-500/10 rounded-2xl p-6 border border-purple-500/20">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-xl bg-gradient-to-br from-purple-500 to-blue-600">
+              <ShieldCheck className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Audit Log</h2>
+              <p className="text-gray-400">Who viewed which transcripts, exported data, or ran AI analysis</p>
+            </div>
+          </div>
+
+          <button
+            onClick={loadEvents}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 hover:text-white hover:border-purple-500/50 transition-all disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <form onSubmit={applyFilters} className="mt-4 flex flex-wrap items-center gap-3">
+          <input
+            value={draft.actor}
+            onChange={(e) => setDraft({ ...draft, actor: e.target.value })}
+            placeholder="User email"
+            className={inputClass}
+          />
+          <input
+            value={draft.vendorCallKey}
+            onChange={(e) => setDraft({ ...draft, vendorCallKey: e.target.value })}
+            placeholder="Call key"
+            className={`${inputClass} font-mono`}
+          />
+          <select
+            value={draft.action}
+            onChange={(e) => setDraft({ ...draft, action: e.target.value })}
+            className={inputClass}
+          >
+            {ACTION_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={draft.from}
+            onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={draft.to}
+            onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            className="flex items-center gap-2 px-4 py-2 bg-purple-500 rounded-lg text-sm font-medium text-white hover:bg-purple-600 transition-all"
+          >
+            <Search className="h-4 w-4" />
+            Search
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center gap-3">
+          <AlertTriangle className="h-5 w-5 text-red-400" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* Event Table */}
+      <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
+        {loading && events.length === 0 ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="px-6 py-12 text-center text-gray-500">No audit events match these filters</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase border-b border-white/[0.06]">
+                  <th className="px-4 py-3">Time</th>
+                  <th className="px-4 py-3">User</th>
+                  <th className="px-4 py-3">Action</th>
+                  <th className="px-4 py-3">Resource</th>
+                  <th className="px-4 py-3">Calls</th>
+                  <th className="px-4 py-3">IP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr
+                    key={event.id}
+                    onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                    className="border-b border-white/[0.04] hover:bg-white/[0.02] cursor-pointer align-top"
+                  >
+                    <td className="px-4 py-3 text-gray-400 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-gray-300">{event.actor || 'anonymous'}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-md text-xs font-medium ${
+                        event.action === 'access.denied' ? 'bg-red-500/10 text-red-400' :
+                        event.action.startsWith('export.') ? 'bg-amber-500/10 text-amber-400' :
+                        event.action.startsWith('ai.') ? 'bg-purple-500/10 text-purple-400' :
+                        'bg-blue-500/10 text-blue-400'
+                      }`}>
+                        {event.action}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs text-gray-400">{event.resource}</td>
+                    <td className="px-4 py-3 text-gray-300 max-w-md">
+                      {event.resourceIds.length === 0 ? '-' : expanded === event.id ? (
+                        <div className="space-y-2">
+                          <div className="flex flex-wrap gap-1">
+                            {event.resourceIds.map((id) => (
+                              <button
+                                key={id}
+                                onClick={(e) => { e.stopPropagation(); searchCallKey(id); }}
+                                className="px-1.5 py-0.5 rounded bg-white/[0.04] font-mono text-xs text-gray-300 hover:text-purple-300"
+                              >
+                                {id}
+                              </button>
+                            ))}
+                          </div>
+                          {event.details && (
+                            <pre className="text-xs text-gray-500 whitespace-pre-wrap break-all">
+                              {JSON.stringify(event.details, null, 2)}
+                            </pre>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="font-mono text-xs">
+                          {event.resourceIds.length === 1 ? event.resourceIds[0] : `${event.resourceIds.length} calls`}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500 whitespace-nowrap">{event.ip || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between px-4 py-3 border-t border-white/[0.06] text-xs text-gray-400">
+            <span>
+              {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total.toLocaleString()}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                disabled={offset === 0 || loading}
+                className="px-3 py-1 rounded-lg border border-white/[0.08] hover:text-white disabled:opacity-40"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= total || loading}
+                className="px-3 py-1 rounded-lg border border-white/[0.08] hover:text-white disabled:opacity-40"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -29,33 +29,43 @@ import {
 } from 'recharts';
 import { TicketLink } from './TicketLink';
 
-interface Ticket {
-  id: string;
+interface OpenTicket {
   key: string;
-  title: string;
-  status: string;
-  priority: string;
-  project: string;
-  assignee: string;
+  title: string | null;
+  status: string | null;
+  priority: string | null;
+  project: string | null;
+  assignee: string | null;
   created: string;
-  category: string;
-  ticket_description?: string;
-  time_to_resolution_in_minutes?: number | null;
-  is_ticket_complete?: string;
-  ticket_completed_at_utc?: string;
 }
 
-interface BurndownData {
+interface BurndownPoint {
   date: string;
-  displayDate: string;
-  total: number;
-  remaining: number;
-  completed: number;
+  opened: number;
+  closed: number;
+  open: number;
   ideal: number;
   criticalOpen: number;
   highOpen: number;
 }
 
+interface BurndownResponse {
+  range: { start: string; end: string; days: number };
+  series: BurndownPoint[];
+  summary: {
+    openAtStart: number;
+    openAtEnd: number;
+    opened: number;
+    closed: number;
+    rateDays: number;
+    closeRatePerDay: number;
+    daysToClear: number | null;
+    projectedClearDate: string | null;
+  };
+  openByPriority: Record<string, number>;
+  openTickets: OpenTicket[];
+}
+
 const PRIORITY_COLORS: Record<string, { bg: string; text: string; border: string }> = {
   Critical: { bg: 'bg-red-500/20', text: 'text-red-400', border: 'border-red-500/50' },
   High: { bg: 'bg-orange-500/20', text: 'text-orange-400', border: 'border-orange-500/50' },
@@ -63,11 +73,6 @@ const PRIORITY_COLORS: Record<string, { bg: string; text: string; border: string
   Low: { bg: 'bg-green-500/20', text: 'text-green-400', border: 'border-green-500/50' },
 };
 
-const STATUS_GROUPS = {
-  open: ['New', 'Assigned', 'In Progress', 'Reopened'],
-  closed: ['Request Complete', 'Closed', 'Closed - Miscategorized'],
-};
-
 // Estimate work points by priority
 const PRIORITY_POINTS: Record<string, number> = {
   Critical: 8,
@@ -86,160 +91,64 @@ const tooltipStyle = {
 };
 
 export default function BurndownAnalysis() {
-  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [burndown, setBurndown] = useState<BurndownResponse | null>(null);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'chart' | 'cards'>('chart');
   const [timeRange, setTimeRange] = useState<'30' | '60' | '90'>('30');
   const [priorityFilter, setPriorityFilter] = useState<string[]>([]);
 
-  // Load tickets
+  // Load burndown for the selected range and priorities
   useEffect(() => {
     setLoading(true);
-    fetch('/data/all-tickets.json')
-      .then((res) => res.json())
-      .then((data) => {
-        setTickets(data);
-        setLoading(false);
+    setError(null);
+    const params = new URLSearchParams({ days: timeRange });
+    if (priorityFilter.length > 0) params.set('priority', priorityFilter.join(','));
+
+    fetch(`/api/tickets/burndown?${params}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load burndown');
+        setBurndown(data);
       })
-      .catch(() => setLoading(false));
-  }, []);
-
-  // Calculate burndown data over the selected time range
-  const burndownData = useMemo(() => {
-    if (!tickets.length) return [];
-
-    const days = parseInt(timeRange);
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    // Get all tickets created before end date
-    const relevantTickets = tickets.filter((t) => {
-      const created = new Date(t.created);
-      return created <= endDate;
-    });
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load burndown'))
+      .finally(() => setLoading(false));
+  }, [timeRange, priorityFilter]);
+
+  const burndownData = useMemo(
+    () =>
+      (burndown?.series || []).map((point) => ({
+        ...point,
+        displayDate: new Date(`${point.date}T00:00:00Z`).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          timeZone: 'UTC',
+        }),
+      })),
+    [burndown]
+  );
 
-    const totalAtStart = relevantTickets.filter((t) => {
-      const created = new Date(t.created);
-      return created <= startDate;
-    }).length;
-
-    const data: BurndownData[] = [];
-    const totalTickets = relevantTickets.length;
-    const idealBurnPerDay = totalTickets / days;
-
-    for (let i = 0; i <= days; i += Math.ceil(days / 20)) {
-      // Sample ~20 points
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
-      const dateStr = date.toISOString().split('T')[0];
-
-      // Count tickets completed by this date
-      const completedByDate = relevantTickets.filter((t) => {
-        if (!t.ticket_completed_at_utc) return false;
-        const completed = new Date(t.ticket_completed_at_utc);
-        return completed <= date;
-      }).length;
-
-      // Count tickets created by this date
-      const createdByDate = relevantTickets.filter((t) => {
-        const created = new Date(t.created);
-        return created <= date;
-      }).length;
-
-      // Remaining = created - completed
-      const remaining = createdByDate - completedByDate;
-
-      // Count high priority open tickets
-      const openTickets = relevantTickets.filter((t) => {
-        const created = new Date(t.created);
-        const isCreated = created <= date;
-        const isCompleted =
-          t.ticket_completed_at_utc && new Date(t.ticket_completed_at_utc) <= date;
-        return isCreated && !isCompleted;
-      });
-
-      const criticalOpen = openTickets.filter((t) => t.priority === 'Critical').length;
-      const highOpen = openTickets.filter((t) => t.priority === 'High').length;
-
-      // Ideal line: starts at total, goes to 0
-      const ideal = Math.max(0, totalTickets - idealBurnPerDay * i);
-
-      data.push({
-        date: dateStr,
-        displayDate: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        total: createdByDate,
-        remaining,
-        completed: completedByDate,
-        ideal: Math.round(ideal),
-        criticalOpen,
-        highOpen,
-      });
-    }
-
-    return data;
-  }, [tickets, timeRange]);
-
-  // Current open tickets sorted by priority
-  const openTickets = useMemo(() => {
-    let filtered = tickets.filter((t) => STATUS_GROUPS.open.includes(t.status));
-
-    if (priorityFilter.length > 0) {
-      filtered = filtered.filter((t) => priorityFilter.includes(t.priority));
-    }
-
-    // Sort by priority weight (Critical first)
-    const priorityOrder = ['Critical', 'High', 'Medium', 'Low'];
-    return filtered.sort((a, b) => {
-      const aIdx = priorityOrder.indexOf(a.priority);
-      const bIdx = priorityOrder.indexOf(b.priority);
-      if (aIdx !== bIdx) return aIdx - bIdx;
-      // Secondary sort by created date (oldest first)
-      return new Date(a.created).getTime() - new Date(b.created).getTime();
-    });
-  }, [tickets, priorityFilter]);
+  const openTickets = burndown?.openTickets || [];
 
-  // Calculate work points
+  // Calculate work points from the open backlog at the end of the range
   const workStats = useMemo(() => {
     const stats = {
-      totalOpen: openTickets.length,
+      totalOpen: burndown?.summary.openAtEnd || 0,
       totalPoints: 0,
       byPriority: {} as Record<string, { count: number; points: number }>,
     };
 
-    openTickets.forEach((t) => {
-      const points = PRIORITY_POINTS[t.priority] || 1;
+    Object.entries(burndown?.openByPriority || {}).forEach(([priority, count]) => {
+      const points = (PRIORITY_POINTS[priority] || 1) * count;
       stats.totalPoints += points;
-
-      if (!stats.byPriority[t.priority]) {
-        stats.byPriority[t.priority] = { count: 0, points: 0 };
-      }
-      stats.byPriority[t.priority].count++;
-      stats.byPriority[t.priority].points += points;
+      stats.byPriority[priority] = { count, points };
     });
 
     return stats;
-  }, [openTickets]);
-
-  // Velocity (completed per day over last 7 days)
-  const velocity = useMemo(() => {
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-    const completedLast7Days = tickets.filter((t) => {
-      if (!t.ticket_completed_at_utc) return false;
-      const completed = new Date(t.ticket_completed_at_utc);
-      return completed >= sevenDaysAgo;
-    }).length;
+  }, [burndown]);
 
-    return Math.round((completedLast7Days / 7) * 10) / 10;
-  }, [tickets]);
-
-  // Estimated days to clear backlog
-  const estimatedDaysToClear = useMemo(() => {
-    if (velocity <= 0) return null;
-    return Math.ceil(openTickets.length / velocity);
-  }, [openTickets.length, velocity]);
+  const velocity = burndown?.summary.closeRatePerDay ?? 0;
+  const estimatedDaysToClear = burndown?.summary.daysToClear ?? null;
 
   const togglePriorityFilter = (priority: string) => {
     setPriorityFilter((prev) =>
@@ -247,7 +156,7 @@ export default function BurndownAnalysis() {
     );
   };
 
-  if (loading) {
+  if (loading && !burndown) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="text-center">
@@ -309,6 +218,13 @@ export default function BurndownAnalysis() {
         </div>
       </div>
 
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center gap-3">
+          <AlertTriangle className="h-5 w-5 text-red-400" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
@@ -334,7 +250,7 @@ export default function BurndownAnalysis() {
             <span className="text-xs text-gray-400">Velocity</span>
           </div>
           <div className="text-2xl font-bold text-white">{velocity}</div>
-          <div className="text-xs text-gray-500 mt-1">tickets/day (7-day avg)</div>
+          <div className="text-xs text-gray-500 mt-1">closed/day ({burndown?.summary.rateDays ?? 14}-day avg)</div>
         </div>
 
         <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
@@ -343,9 +259,18 @@ export default function BurndownAnalysis() {
             <span className="text-xs text-gray-400">Est. Clear Date</span>
           </div>
           <div className="text-2xl font-bold text-white">
-            {estimatedDaysToClear ? `${estimatedDaysToClear}d` : '-'}
+            {estimatedDaysToClear !== null ? `${estimatedDaysToClear}d` : '-'}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            {burndown?.summary.projectedClearDate
+              ? new Date(`${burndown.summary.projectedClearDate}T00:00:00Z`).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  timeZone: 'UTC',
+                })
+              : 'at current velocity'}
           </div>
-          <div className="text-xs text-gray-500 mt-1">at current velocity</div>
         </div>
       </div>
 
@@ -379,7 +304,7 @@ export default function BurndownAnalysis() {
             <div className="flex items-center justify-between mb-6">
               <div>
                 <h3 className="text-lg font-semibold text-white">Burndown Progress</h3>
-                <p className="text-sm text-gray-400">Open tickets over time vs ideal trajectory</p>
+                <p className="text-sm text-gray-400">Open backlog vs ideal trajectory, with daily opened and closed</p>
               </div>
             </div>
 
@@ -390,10 +315,6 @@ export default function BurndownAnalysis() {
                     <stop offset="0%" stopColor="#ef4444" stopOpacity={0.3} />
                     <stop offset="100%" stopColor="#ef4444" stopOpacity={0} />
                   </linearGradient>
-                  <linearGradient id="completedGradient" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="0%" stopColor="#22c55e" stopOpacity={0.3} />
-                    <stop offset="100%" stopColor="#22c55e" stopOpacity={0} />
-                  </linearGradient>
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
                 <XAxis
@@ -426,25 +347,19 @@ export default function BurndownAnalysis() {
                   name="Ideal"
                 />
 
-                {/* Remaining tickets area */}
+                {/* Open backlog area */}
                 <Area
                   type="monotone"
-                  dataKey="remaining"
+                  dataKey="open"
                   stroke="#ef4444"
                   strokeWidth={2}
                   fill="url(#remainingGradient)"
-                  name="Remaining"
+                  name="Open"
                 />
 
-                {/* Completed stacked area */}
-                <Area
-                  type="monotone"
-                  dataKey="completed"
-                  stroke="#22c55e"
-                  strokeWidth={2}
-                  fill="url(#completedGradient)"
-                  name="Completed"
-                />
+                {/* Daily flow */}
+                <Bar dataKey="opened" fill="#3b82f6" name="Opened" radius={[2, 2, 0, 0]} />
+                <Bar dataKey="closed" fill="#22c55e" name="Closed" radius={[2, 2, 0, 0]} />
               </ComposedChart>
             </ResponsiveContainer>
           </div>
@@ -520,17 +435,17 @@ export default function BurndownAnalysis() {
                   : 'Click priority cards above to filter'}
               </p>
             </div>
-            <div className="text-sm text-gray-400">{openTickets.length} tickets</div>
+            <div className="text-sm text-gray-400">{workStats.totalOpen.toLocaleString()} tickets</div>
           </div>
 
           {/* Ticket Cards Grid */}
           <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2">
-            {openTickets.slice(0, 50).map((ticket) => {
-              const colors = PRIORITY_COLORS[ticket.priority] || PRIORITY_COLORS.Low;
+            {openTickets.map((ticket) => {
+              const colors = PRIORITY_COLORS[ticket.priority || ''] || PRIORITY_COLORS.Low;
 
               return (
                 <div
-                  key={ticket.id}
+                  key={ticket.key}
                   className={`${colors.bg} rounded-lg p-4 border ${colors.border} hover:bg-white/[0.05] transition-colors`}
                 >
                   <div className="flex items-start justify-between gap-3">
@@ -546,7 +461,7 @@ export default function BurndownAnalysis() {
                           {ticket.status}
                         </span>
                       </div>
-                      <h4 className="text-sm font-medium text-white truncate" title={ticket.title}>
+                      <h4 className="text-sm font-medium text-white truncate" title={ticket.title || ''}>
                         {ticket.title}
                       </h4>
                       <div className="flex items-center gap-4 mt-2 text-xs text-gray-400">
@@ -564,7 +479,7 @@ export default function BurndownAnalysis() {
                     </div>
                     <div className="text-right shrink-0">
                       <div className={`text-lg font-bold ${colors.text}`}>
-                        {PRIORITY_POINTS[ticket.priority] || 1}
+                        {PRIORITY_POINTS[ticket.priority || ''] || 1}
                       </div>
                       <div className="text-xs text-gray-500">pts</div>
                     </div>
@@ -573,9 +488,9 @@ export default function BurndownAnalysis() {
               );
             })}
 
-            {openTickets.length > 50 && (
+            {workStats.totalOpen > openTickets.length && (
               <div className="text-center py-4 text-sm text-gray-500">
-                Showing 50 of {openTickets.length} tickets
+                Showing {openTickets.length} of {workStats.totalOpen.toLocaleString()} tickets
               </div>
             )}
 
@@ -35,8 +35,8 @@ export default function CallVolumeHeatmap({ data, title = 'Call Volume Heatmap'
         if (data) {
           setHeatmapData(data);
         } else {
-          // Load from processed stats
-          const response = await fetch('/data/processed-stats.json');
+          // Load from live ticket stats
+          const response = await fetch('/api/stats');
           if (response.ok) {
             const stats = await response.json();
             if (stats.heatmaps?.dayHour?.data) {
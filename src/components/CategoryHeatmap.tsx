@@ -39,44 +39,12 @@ export default function CategoryHeatmap({
         if (data) {
           setHeatmapData(data);
         } else {
-          // Load from processed stats
-          const response = await fetch('/data/processed-stats.json');
+          // Load from live ticket stats
+          const response = await fetch('/api/stats');
           if (response.ok) {
             const stats = await response.json();
-
-            // For now, we'll create a heatmap from category distribution over recent days
-            // This uses the daily time series and category breakdown
-            const heatmapCells: HeatmapCell[] = [];
-
-            if (stats.servicingAnalysis?.timeSeries?.daily && stats.categorizedAnalytics?.categories) {
-              // Get last 14 days
-              const dailyData = stats.servicingAnalysis.timeSeries.daily.slice(-14);
-
-              // Get top categories
-              const topCategories = stats.categorizedAnalytics.categories
-                .sort((a: any, b: any) => b.count - a.count)
-                .slice(0, 10)
-                .map((c: any) => c.category);
-
-              // Create synthetic data based on category totals and daily patterns
-              // In a real scenario, this would come from the database with actual daily breakdowns
-              dailyData.forEach((day: any) => {
-                topCategories.forEach((category: string) => {
-                  const categoryTotal = stats.categorizedAnalytics.categories.find((c: any) => c.category === category)?.count || 0;
-                  // Distribute calls across days with some variation
-                  const avgPerDay = categoryTotal / dailyData.length;
-                  const variation = (Math.random() - 0.5) * 0.4; // ±20% variation
-                  const value = Math.max(0, Math.round(avgPerDay * (1 + variation)));
-
-                  heatmapCells.push({
-                    x: day.date,
-                    y: category,
-                    value,
-                  });
-                });
-              });
-
-              setHeatmapData(heatmapCells);
+            if (stats.heatmaps?.categoryDaily?.data) {
+              setHeatmapData(stats.heatmaps.categoryDaily.data);
             }
           }
         }
@@ -68,7 +68,7 @@ export default function CustomDashboard() {
   useEffect(() => {
     async function loadStats() {
       try {
-        const response = await fetch('/data/processed-stats.json');
+        const response = await fetch('/api/stats');
         if (response.ok) {
           const data = await response.json();
           setStats(data);
@@ -40,6 +40,7 @@ interface Ticket {
   responseTime: number | null;
   resolutionTime: number | null;
   complete: boolean;
+  category: string;
 }
 
 interface FilterOptions {
@@ -400,6 +401,7 @@ export function DataTable({ drillDownFilter, onClearDrillDown }: DataTableProps)
           category: categoryFilter,
           sortField,
           sortOrder,
+          export: 'true', // Recorded in the audit trail
         });
 
         const response = await fetch(`/api/tickets?${params}`);
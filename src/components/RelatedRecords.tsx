@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Phone, Ticket as TicketIcon, Loader2, Link2 } from 'lucide-react';
+import { TicketLink } from './TicketLink';
+
+type MatchType = 'loan_number' | 'email';
+
+interface RelatedCall {
+  vendorCallKey: string;
+  callStart: string | null;
+  agentName: string | null;
+  department: string | null;
+  durationSeconds: number | null;
+  topic: string | null;
+  customerSentiment: string | null;
+  matchedOn: MatchType[];
+  minutesFromTicket: number;   // Negative = the call came before the ticket
+  confidence: number;
+}
+
+interface RelatedTicket {
+  ticketKey: string;
+  title: string | null;
+  status: string | null;
+  priority: string | null;
+  projectName: string | null;
+  category: string | null;
+  createdAt: string;
+  isComplete: boolean;
+  matchedOn: MatchType[];
+  minutesFromTicket: number;
+  confidence: number;
+}
+
+const MATCH_LABELS: Record<MatchType, string> = {
+  loan_number: 'Loan #',
+  email: 'Email',
+};
+
+// "3h", "2d" - how far apart a call and a ticket were
+function formatGap(minutes: number): string {
+  const abs = Math.abs(minutes);
+  if (abs < 60) return `${abs}m`;
+  if (abs < 24 * 60) return `${Math.round(abs / 60)}h`;
+  return `${Math.round(abs / (24 * 60))}d`;
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return '-';
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function MatchBadges({ matchedOn, confidence }: { matchedOn: MatchType[]; confidence: number }) {
+  return (
+    <span className="flex items-center gap-1">
+      {matchedOn.map((type) => (
+        <span key={type} className="px-1.5 py-0.5 bg-cyan-500/10 text-cyan-300 rounded text-[10px] border border-cyan-500/20">
+          {MATCH_LABELS[type] || type}
+        </span>
+      ))}
+      <span className="text-[10px] text-gray-500">{Math.round(confidence * 100)}%</span>
+    </span>
+  );
+}
+
+/**
+ * Calls linked to a ticket by loan number or email (src/lib/correlation.ts).
+ * Render with key={ticketKey} so it reloads per ticket.
+ */
+export function RelatedCalls({ ticketKey }: { ticketKey: string }) {
+  const [calls, setCalls] = useState<RelatedCall[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCalls = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tickets/links?ticketKey=${encodeURIComponent(ticketKey)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load related calls');
+      }
+      setCalls(data.calls);
+    } catch (err) {
+      console.error('Failed to load related calls:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load related calls');
+    } finally {
+      setLoading(false);
+    }
+  }, [ticketKey]);
+
+  useEffect(() => {
+    loadCalls();
+  }, [loadCalls]);
+
+  return (
+    <div className="bg-[#1a1f2e] rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Phone className="h-4 w-4 text-blue-400" />
+        <h5 className="text-sm font-semibold text-white">Related Calls</h5>
+        {!loading && calls.length > 0 && (
+          <span className="text-xs text-gray-500">({calls.length})</span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : calls.length === 0 ? (
+        <p className="text-sm text-gray-500">No calls share a loan number or email with this ticket.</p>
+      ) : (
+        <div className="space-y-2">
+          {calls.map((call) => (
+            <div key={call.vendorCallKey} className="p-2 bg-[#0f1420] rounded border border-white/[0.06]">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-white">{formatDate(call.callStart)}</span>
+                <span className={`text-xs ${call.minutesFromTicket <= 0 ? 'text-orange-300' : 'text-gray-400'}`}>
+                  {formatGap(call.minutesFromTicket)} {call.minutesFromTicket <= 0 ? 'before' : 'after'} ticket
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-2 mt-1 text-xs text-gray-400">
+                <span className="truncate">
+                  {[call.agentName, call.department, call.topic].filter(Boolean).join(' · ') || call.vendorCallKey}
+                </span>
+                <MatchBadges matchedOn={call.matchedOn} confidence={call.confidence} />
+              </div>
+              {call.customerSentiment && (
+                <div className="mt-1 text-xs text-gray-500">Customer sentiment: {call.customerSentiment}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Tickets linked to a call by loan number or email (src/lib/correlation.ts).
+ * Renders nothing when the call has no linked tickets. Render with
+ * key={vendorCallKey} so it reloads per call.
+ */
+export function RelatedTickets({ vendorCallKey }: { vendorCallKey: string }) {
+  const [tickets, setTickets] = useState<RelatedTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadTickets = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/tickets/links?vendorCallKey=${encodeURIComponent(vendorCallKey)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load related tickets');
+      }
+      setTickets(data.tickets);
+    } catch (err) {
+      console.error('Failed to load related tickets:', err);
+      setTickets([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [vendorCallKey]);
+
+  useEffect(() => {
+    loadTickets();
+  }, [loadTickets]);
+
+  if (loading || tickets.length === 0) return null;
+
+  return (
+    <div className="mt-3 p-3 bg-white/[0.03] rounded-lg border border-white/[0.08]">
+      <div className="flex items-center gap-2 mb-2">
+        <Link2 className="h-4 w-4 text-cyan-400" />
+        <p className="text-sm text-cyan-300 font-medium">Related Tickets</p>
+        <span className="text-xs text-gray-500">({tickets.length})</span>
+      </div>
+      <div className="space-y-1.5">
+        {tickets.map((ticket) => (
+          <div key={ticket.ticketKey} className="flex items-center gap-2 text-xs">
+            <TicketIcon className="h-3.5 w-3.5 text-gray-500 flex-shrink-0" />
+            <TicketLink ticketKey={ticket.ticketKey} className="font-mono" />
+            <span className="text-gray-300 truncate flex-1" title={ticket.title || ''}>
+              {ticket.title || 'Untitled'}
+            </span>
+            {ticket.projectName && (
+              <span className="text-gray-500 flex-shrink-0">{ticket.projectName}</span>
+            )}
+            <span className="px-1.5 py-0.5 bg-white/[0.06] text-gray-300 rounded flex-shrink-0">
+              {ticket.status || (ticket.isComplete ? 'Complete' : 'Open')}
+            </span>
+            <span className={`flex-shrink-0 ${ticket.minutesFromTicket <= 0 ? 'text-orange-300' : 'text-gray-400'}`}>
+              opened {formatGap(ticket.minutesFromTicket)} {ticket.minutesFromTicket <= 0 ? 'after' : 'before'} call
+            </span>
+            <MatchBadges matchedOn={ticket.matchedOn} confidence={ticket.confidence} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
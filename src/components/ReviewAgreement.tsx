@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ClipboardCheck, Loader2, RefreshCw, ArrowRight } from 'lucide-react';
+
+interface FieldAgreement {
+  field: 'agentSentiment' | 'customerSentiment' | 'aiDiscoveredTopic';
+  reviewed: number;
+  agreed: number;
+  agreementRate: number | null;
+  topCorrections: { from: string | null; to: string | null; count: number }[];
+}
+
+interface ReviewAgreementProps {
+  onOpenQueue: () => void;
+}
+
+const FIELD_LABELS: Record<FieldAgreement['field'], string> = {
+  agentSentiment: 'Agent Sentiment',
+  customerSentiment: 'Customer Sentiment',
+  aiDiscoveredTopic: 'Topic',
+};
+
+const PERIOD_OPTIONS = [
+  { days: 30, label: '30d' },
+  { days: 90, label: '90d' },
+  { days: 0, label: 'All' },
+];
+
+function rateColor(rate: number | null): string {
+  if (rate === null) return 'text-gray-500';
+  if (rate >= 90) return 'text-green-400';
+  if (rate >= 75) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+/**
+ * AI vs human agreement on reviewed transcript labels, with a link to the QA review queue
+ */
+export default function ReviewAgreement({ onOpenQueue }: ReviewAgreementProps) {
+  const [days, setDays] = useState(30);
+  const [fields, setFields] = useState<FieldAgreement[]>([]);
+  const [reviewedTranscripts, setReviewedTranscripts] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMetrics = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/analysis-reviews?view=metrics&days=${days}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load review metrics');
+      }
+      setFields(data.fields);
+      setReviewedTranscripts(data.reviewedTranscripts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review metrics');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadMetrics();
+  }, [loadMetrics]);
+
+  return (
+    <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
+      <div className="flex items-center justify-between p-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-amber-500/20">
+            <ClipboardCheck className="h-5 w-5 text-amber-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">QA Review Agreement</h3>
+            <p className="text-sm text-gray-400">
+              How often reviewers kept the AI label • {reviewedTranscripts.toLocaleString()} transcripts reviewed
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg border border-white/[0.08] overflow-hidden">
+            {PERIOD_OPTIONS.map((option) => (
+              <button
+                key={option.days}
+                onClick={() => setDays(option.days)}
+                className={`px-2 py-1 text-xs transition-colors ${
+                  days === option.days ? 'bg-white/[0.08] text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={loadMetrics}
+            disabled={loading}
+            className="p-1.5 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={onOpenQueue}
+            className="flex items-center gap-1 px-3 py-1.5 bg-amber-500/20 text-amber-300 rounded-lg text-sm border border-amber-500/30 hover:bg-amber-500/30 transition-colors"
+          >
+            Open Review Queue
+            <ArrowRight className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 pt-0">
+        {error ? (
+          <p className="text-sm text-red-400">{error}</p>
+        ) : loading && fields.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading review metrics...
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {fields.map((field) => (
+              <div key={field.field} className="bg-white/[0.02] rounded-xl p-4 border border-white/[0.08]">
+                <div className="text-sm text-gray-400">{FIELD_LABELS[field.field]}</div>
+                <div className={`text-2xl font-bold ${rateColor(field.agreementRate)}`}>
+                  {field.agreementRate === null ? '—' : `${field.agreementRate.toFixed(1)}%`}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {field.agreed.toLocaleString()} of {field.reviewed.toLocaleString()} reviews agreed
+                </div>
+                {field.topCorrections.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-white/[0.08] space-y-1">
+                    {field.topCorrections.slice(0, 3).map((correction) => (
+                      <div
+                        key={`${correction.from}→${correction.to}`}
+                        className="flex items-center justify-between text-xs"
+                      >
+                        <span className="text-gray-400 truncate">
+                          {correction.from || '(none)'} → <span className="text-gray-200">{correction.to || '(none)'}</span>
+                        </span>
+                        <span className="text-gray-500 ml-2">{correction.count}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -58,25 +58,6 @@ type TimeView = 'daily' | 'weekly' | 'monthly';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
 
-// Valid category names (must match prebuild.js categorization)
-const VALID_CATEGORIES = [
-  'Automated System Messages',
-  'Payment Issues',
-  'Escrow',
-  'Documentation',
-  'Transfer/Boarding',
-  'Voice/Alert Requests',
-  'Account Access',
-  'Loan Info Request',
-  'Insurance/Coverage',
-  'Loan Changes',
-  'Complaints/Escalations',
-  'General Inquiry',
-  'Communication/Forwarded',
-  'Loan-Specific Inquiry',
-  'Other',
-];
-
 interface ServicingAnalysisProps {
   onDrillDown?: (filter: DrillDownFilter) => void;
 }
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  KeyRound,
+  Loader2,
+  RefreshCw,
+  Search,
+  AlertTriangle,
+  LogOut,
+} from 'lucide-react';
+
+interface UserSession {
+  id: string;
+  email: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  active: boolean;
+}
+
+/**
+ * Admin view of signed-in sessions - list and revoke them
+ */
+export default function SessionManager() {
+  const [emailDraft, setEmailDraft] = useState('');
+  const [email, setEmail] = useState('');
+  const [activeOnly, setActiveOnly] = useState(true);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ active: String(activeOnly) });
+      if (email) params.set('email', email);
+
+      const response = await fetch(`/api/sessions?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load sessions');
+      }
+      setSessions(data.sessions);
+      setCurrentSessionId(data.currentSessionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, [email, activeOnly]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const revoke = async (target: { id: string } | { email: string }) => {
+    const key = 'id' in target ? target.id : target.email;
+    setRevoking(key);
+    try {
+      const response = await fetch('/api/sessions', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to revoke session');
+      }
+      await loadSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const applySearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setEmail(emailDraft.trim().toLowerCase());
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-500/10 via-blue-500/10 to-purple-500/10 rounded-2xl p-6 border border-purple-500/20">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-xl bg-gradient-to-br from-purple-500 to-blue-600">
+              <KeyRound className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Sessions</h2>
+              <p className="text-gray-400">Signed-in sessions across all users</p>
+            </div>
+          </div>
+
+          <form onSubmit={applySearch} className="flex flex-wrap items-center gap-3">
+            <input
+              value={emailDraft}
+              onChange={(e) => setEmailDraft(e.target.value)}
+              placeholder="User email"
+              className="px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-purple-500/50"
+            />
+            <button
+              type="submit"
+              className="flex items-center gap-2 px-4 py-2 bg-purple-500 rounded-lg text-sm font-medium text-white hover:bg-purple-600 transition-all"
+            >
+              <Search className="h-4 w-4" />
+              Search
+            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={activeOnly}
+                onChange={(e) => setActiveOnly(e.target.checked)}
+                className="accent-purple-500"
+              />
+              Active only
+            </label>
+            {email && (
+              <button
+                type="button"
+                onClick={() => revoke({ email })}
+                disabled={revoking !== null}
+                className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300 hover:bg-red-500/20 transition-all disabled:opacity-40"
+              >
+                <LogOut className="h-4 w-4" />
+                Revoke all for {email}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={loadSessions}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 hover:text-white hover:border-purple-500/50 transition-all disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center gap-3">
+          <AlertTriangle className="h-5 w-5 text-red-400" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* Session Table */}
+      <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
+        {loading && sessions.length === 0 ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="px-6 py-12 text-center text-gray-500">No sessions match these filters</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase border-b border-white/[0.06]">
+                  <th className="px-4 py-3">User</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Signed In</th>
+                  <th className="px-4 py-3">Last Seen</th>
+                  <th className="px-4 py-3">Device</th>
+                  <th className="px-4 py-3">IP</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map((session) => (
+                  <tr key={session.id} className="border-b border-white/[0.04] hover:bg-white/[0.02]">
+                    <td className="px-4 py-3 text-gray-300">
+                      {session.email}
+                      {session.id === currentSessionId && <span className="ml-2 text-xs text-purple-300">(you)</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-md text-xs font-medium ${
+                        session.active ? 'bg-green-500/10 text-green-400' :
+                        session.revokedAt ? 'bg-red-500/10 text-red-400' :
+                        'bg-gray-500/10 text-gray-400'
+                      }`}>
+                        {session.active ? 'active' : session.revokedAt ? 'revoked' : 'expired'}
+                      </span>
+                      {session.revokedBy && (
+                        <div className="text-[10px] text-gray-500 mt-1">by {session.revokedBy}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-400 whitespace-nowrap">{new Date(session.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-gray-400 whitespace-nowrap">{new Date(session.lastSeenAt).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-gray-500 max-w-xs truncate" title={session.userAgent || ''}>{session.userAgent || '-'}</td>
+                    <td className="px-4 py-3 text-gray-500 whitespace-nowrap">{session.ip || '-'}</td>
+                    <td className="px-4 py-3 text-right">
+                      {session.active && (
+                        <button
+                          onClick={() => revoke({ id: session.id })}
+                          disabled={revoking !== null}
+                          className="text-xs text-red-300 hover:text-red-200 disabled:opacity-40"
+                        >
+                          {revoking === session.id ? 'Revoking...' : 'Revoke'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
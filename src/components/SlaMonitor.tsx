@@ -0,0 +1,373 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Timer,
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Loader2,
+  ShieldAlert,
+} from 'lucide-react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { TicketLink } from './TicketLink';
+
+type SlaStatus = 'breached' | 'at_risk' | 'on_track' | 'met';
+
+interface SlaBreakdown {
+  name: string;
+  total: number;
+  breached: number;
+  atRisk: number;
+  met: number;
+  breachRate: number;
+}
+
+interface SlaAtRiskTicket {
+  key: string;
+  title: string | null;
+  status: string | null;
+  priority: string | null;
+  project: string | null;
+  assignee: string | null;
+  created: string;
+  dueAt: string;
+  dueFor: 'response' | 'resolution';
+  minutesToBreach: number;
+}
+
+interface SlaResponse {
+  summary: Record<SlaStatus, number> & { total: number; breachRate: number; openBreached: number; openAtRisk: number };
+  trend: { week: string; total: number; breached: number; met: number; breachRate: number }[];
+  byPriority: SlaBreakdown[];
+  byProject: SlaBreakdown[];
+  atRisk: SlaAtRiskTicket[];
+  targets: {
+    priorities: Record<string, { firstResponseMinutes: number; resolutionMinutes: number }>;
+    atRiskThreshold: number;
+  };
+}
+
+const PRIORITIES = ['Critical', 'High', 'Medium', 'Low'];
+
+const PRIORITY_COLORS: Record<string, { bg: string; text: string; border: string }> = {
+  Critical: { bg: 'bg-red-500/20', text: 'text-red-400', border: 'border-red-500/50' },
+  High: { bg: 'bg-orange-500/20', text: 'text-orange-400', border: 'border-orange-500/50' },
+  Medium: { bg: 'bg-yellow-500/20', text: 'text-yellow-400', border: 'border-yellow-500/50' },
+  Low: { bg: 'bg-green-500/20', text: 'text-green-400', border: 'border-green-500/50' },
+};
+
+const tooltipStyle = {
+  backgroundColor: '#1a2332',
+  border: '1px solid rgba(255,255,255,0.1)',
+  borderRadius: '12px',
+  padding: '12px 16px',
+  boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
+  color: '#ffffff',
+};
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${Math.floor(minutes / (24 * 60))}d ${Math.floor((minutes % (24 * 60)) / 60)}h`;
+}
+
+/**
+ * SLA monitoring for servicing tickets - breach rates, trends and tickets about to breach
+ */
+export default function SlaMonitor() {
+  const [report, setReport] = useState<SlaResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [timeRange, setTimeRange] = useState<'30' | '90' | '180'>('90');
+  const [priorityFilter, setPriorityFilter] = useState<string[]>([]);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ days: timeRange });
+      if (priorityFilter.length > 0) params.set('priority', priorityFilter.join(','));
+
+      const response = await fetch(`/api/sla?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load SLA report');
+      }
+      setReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load SLA report');
+    } finally {
+      setLoading(false);
+    }
+  }, [timeRange, priorityFilter]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const trendData = useMemo(
+    () =>
+      (report?.trend || []).map((point) => ({
+        ...point,
+        displayWeek: new Date(`${point.week}T00:00:00Z`).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          timeZone: 'UTC',
+        }),
+      })),
+    [report]
+  );
+
+  const togglePriorityFilter = (priority: string) => {
+    setPriorityFilter((prev) =>
+      prev.includes(priority) ? prev.filter((p) => p !== priority) : [...prev, priority]
+    );
+  };
+
+  if (loading && !report) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-green-400 mx-auto" />
+          <p className="mt-4 text-gray-400">Loading SLA data...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const summary = report?.summary;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-green-500/10 via-emerald-500/10 to-green-500/10 rounded-2xl p-6 border border-green-500/20">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-xl bg-gradient-to-br from-green-500 to-emerald-600">
+              <Timer className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">SLA Monitoring</h2>
+              <p className="text-gray-400">First response and resolution targets by priority</p>
+            </div>
+          </div>
+
+          <select
+            value={timeRange}
+            onChange={(e) => setTimeRange(e.target.value as '30' | '90' | '180')}
+            className="px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-white focus:outline-none focus:border-green-500/50"
+          >
+            <option value="30">Created in last 30 days</option>
+            <option value="90">Created in last 90 days</option>
+            <option value="180">Created in last 180 days</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center gap-3">
+          <AlertTriangle className="h-5 w-5 text-red-400" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 mb-2">
+            <ShieldAlert className="h-4 w-4 text-red-400" />
+            <span className="text-xs text-gray-400">Breach Rate</span>
+          </div>
+          <div className="text-2xl font-bold text-white">{summary?.breachRate ?? 0}%</div>
+          <div className="text-xs text-gray-500 mt-1">
+            {(summary?.breached ?? 0).toLocaleString()} breached, {(summary?.met ?? 0).toLocaleString()} met
+          </div>
+        </div>
+
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="h-4 w-4 text-orange-400" />
+            <span className="text-xs text-gray-400">At Risk</span>
+          </div>
+          <div className="text-2xl font-bold text-white">{(summary?.openAtRisk ?? 0).toLocaleString()}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            open, {Math.round((report?.targets.atRiskThreshold ?? 0.75) * 100)}%+ of target used
+          </div>
+        </div>
+
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 mb-2">
+            <Clock className="h-4 w-4 text-red-400" />
+            <span className="text-xs text-gray-400">Open & Breached</span>
+          </div>
+          <div className="text-2xl font-bold text-white">{(summary?.openBreached ?? 0).toLocaleString()}</div>
+          <div className="text-xs text-gray-500 mt-1">still open past target</div>
+        </div>
+
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 mb-2">
+            <CheckCircle className="h-4 w-4 text-green-400" />
+            <span className="text-xs text-gray-400">On Track</span>
+          </div>
+          <div className="text-2xl font-bold text-white">{(summary?.on_track ?? 0).toLocaleString()}</div>
+          <div className="text-xs text-gray-500 mt-1">of {(summary?.total ?? 0).toLocaleString()} in range</div>
+        </div>
+      </div>
+
+      {/* Priority Breakdown */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {PRIORITIES.map((priority) => {
+          const stats = report?.byPriority.find((row) => row.name === priority);
+          const target = report?.targets.priorities[priority];
+          const colors = PRIORITY_COLORS[priority];
+          const isFiltered = priorityFilter.includes(priority);
+
+          return (
+            <button
+              key={priority}
+              onClick={() => togglePriorityFilter(priority)}
+              className={`${colors.bg} rounded-xl p-4 border ${
+                isFiltered ? colors.border : 'border-transparent'
+              } hover:border-white/20 transition-all text-left`}
+            >
+              <div className={`text-xs ${colors.text} font-medium mb-1`}>{priority}</div>
+              <div className="text-xl font-bold text-white">{stats ? `${stats.breachRate}%` : '-'}</div>
+              <div className="text-xs text-gray-400">
+                {target
+                  ? `Respond ${formatMinutes(target.firstResponseMinutes)} · Resolve ${formatMinutes(target.resolutionMinutes)}`
+                  : 'No target'}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Breach Trend */}
+      <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] p-6">
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold text-white">Weekly Breach Rate</h3>
+          <p className="text-sm text-gray-400">By week created - breached share of tickets that breached or met their SLA</p>
+        </div>
+
+        <ResponsiveContainer width="100%" height={300}>
+          <ComposedChart data={trendData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+            <XAxis
+              dataKey="displayWeek"
+              tick={{ fontSize: 11, fill: '#6b7280' }}
+              tickLine={false}
+              axisLine={{ stroke: 'rgba(255,255,255,0.06)' }}
+            />
+            <YAxis
+              yAxisId="count"
+              tick={{ fontSize: 11, fill: '#6b7280' }}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              yAxisId="rate"
+              orientation="right"
+              domain={[0, 100]}
+              tick={{ fontSize: 11, fill: '#6b7280' }}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value) => `${value}%`}
+            />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              labelStyle={{ color: '#9ca3af', marginBottom: '8px' }}
+              itemStyle={{ color: '#ffffff' }}
+            />
+            <Legend wrapperStyle={{ paddingTop: '20px' }} />
+            <Bar yAxisId="count" dataKey="met" stackId="outcome" fill="#22c55e" name="Met" />
+            <Bar yAxisId="count" dataKey="breached" stackId="outcome" fill="#ef4444" name="Breached" radius={[2, 2, 0, 0]} />
+            <Line yAxisId="rate" type="monotone" dataKey="breachRate" stroke="#f59e0b" strokeWidth={2} dot={false} name="Breach %" />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* By Project */}
+        <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">By Project</h3>
+          <div className="space-y-3">
+            {(report?.byProject || []).map((row) => (
+              <div key={row.name} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-gray-300 truncate" title={row.name}>{row.name}</span>
+                <span className="text-right shrink-0">
+                  <span className={row.breachRate > 20 ? 'text-red-400' : 'text-white'}>{row.breachRate}%</span>
+                  <span className="text-xs text-gray-500 ml-2">{row.total.toLocaleString()}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* About to Breach */}
+        <div className="lg:col-span-2 bg-[#131a29] rounded-2xl border border-white/[0.08] p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-white">About to Breach</h3>
+            <span className="text-sm text-gray-400">{(summary?.openAtRisk ?? 0).toLocaleString()} at risk</span>
+          </div>
+
+          <div className="space-y-3 max-h-[500px] overflow-y-auto pr-2">
+            {(report?.atRisk || []).map((ticket) => {
+              const colors = PRIORITY_COLORS[ticket.priority || ''] || PRIORITY_COLORS.Low;
+
+              return (
+                <div
+                  key={ticket.key}
+                  className={`${colors.bg} rounded-lg p-4 border ${colors.border} hover:bg-white/[0.05] transition-colors`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <TicketLink ticketKey={ticket.key} className="text-sm font-mono shrink-0" />
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${colors.bg} ${colors.text} border ${colors.border}`}>
+                          {ticket.priority || 'None'}
+                        </span>
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-white/[0.06] text-gray-300">
+                          {ticket.status}
+                        </span>
+                      </div>
+                      <h4 className="text-sm font-medium text-white truncate" title={ticket.title || ''}>
+                        {ticket.title}
+                      </h4>
+                      <div className="flex items-center gap-4 mt-2 text-xs text-gray-400">
+                        <span>{ticket.project}</span>
+                        <span>•</span>
+                        <span>{ticket.assignee || 'Unassigned'}</span>
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <div className={`text-lg font-bold ${colors.text}`}>{formatMinutes(Math.max(ticket.minutesToBreach, 0))}</div>
+                      <div className="text-xs text-gray-500">to {ticket.dueFor}</div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            {report && report.atRisk.length === 0 && (
+              <div className="text-center py-12 text-gray-500">
+                <CheckCircle className="h-12 w-12 mx-auto mb-4 text-green-500" />
+                <p>No open tickets close to breaching</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import {
+  RefreshCw,
+  Loader2,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Download,
+  Database,
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  PauseCircle,
+} from 'lucide-react';
+
+interface SyncFailure {
+  vendorCallKey: string | null;
+  stage: 'import' | 'analysis';
+  reason: string;
+}
+
+interface SyncRun {
+  id: string;
+  startedAt: string;
+  finishedAt: string | null;
+  status: string;
+  trigger: string | null;
+  source: string | null;
+  windowStart: string | null;
+  windowEnd: string | null;
+  fetched: number;
+  imported: number;
+  analyzed: number;
+  skipped: number;
+  errors: number;
+  failures: SyncFailure[];
+  failureCount: number;
+  error: string | null;
+  durationMs: number | null;
+  checkpoint: { phase: 'import' | 'analyze'; processed: number } | null;
+  resumedFrom: string | null;
+}
+
+const STATUS_STYLES: Record<string, { text: string; bg: string; icon: typeof CheckCircle }> = {
+  success: { text: 'text-green-400', bg: 'bg-green-500/10', icon: CheckCircle },
+  partial: { text: 'text-amber-400', bg: 'bg-amber-500/10', icon: PauseCircle },
+  failed: { text: 'text-red-400', bg: 'bg-red-500/10', icon: XCircle },
+  running: { text: 'text-blue-400', bg: 'bg-blue-500/10', icon: Loader2 },
+};
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '-';
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function formatDateTime(value: string | null): string {
+  if (!value) return '-';
+  return new Date(value).toLocaleString();
+}
+
+export default function SyncHistory() {
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Expanded run with its failure details
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [failures, setFailures] = useState<SyncFailure[]>([]);
+  const [failuresLoading, setFailuresLoading] = useState(false);
+
+  const loadRuns = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/sync/runs?limit=50');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load sync history');
+      }
+      setRuns(data.runs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sync history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const toggleRun = async (run: SyncRun) => {
+    if (expandedRunId === run.id) {
+      setExpandedRunId(null);
+      return;
+    }
+
+    setExpandedRunId(run.id);
+    setFailures([]);
+    if (run.failureCount === 0) return;
+
+    setFailuresLoading(true);
+    try {
+      const response = await fetch(`/api/sync/runs?id=${encodeURIComponent(run.id)}`);
+      const data = await response.json();
+      if (data.success) {
+        setFailures(data.run.failures);
+      }
+    } catch (err) {
+      console.error('Failed to load sync failures:', err);
+    } finally {
+      setFailuresLoading(false);
+    }
+  };
+
+  if (loading && runs.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-purple-400 mx-auto" />
+          <p className="mt-4 text-gray-400">Loading sync history...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const lastRun = runs[0] || null;
+  const lastSuccess = runs.find((run) => run.status === 'success') || null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-500/10 via-blue-500/10 to-purple-500/10 rounded-2xl p-6 border border-purple-500/20">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-xl bg-gradient-to-br from-purple-500 to-blue-600">
+              <RefreshCw className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Sync History</h2>
+              <p className="text-gray-400">Daily transcript sync runs and what each one imported</p>
+            </div>
+          </div>
+
+          <button
+            onClick={loadRuns}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 hover:text-white hover:border-purple-500/50 transition-all disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center gap-3">
+          <AlertTriangle className="h-5 w-5 text-red-400" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 mb-2">
+            <Clock className="h-4 w-4 text-blue-400" />
+            <span className="text-xs text-gray-400">Last Run</span>
+          </div>
+          <div className={`text-2xl font-bold capitalize ${lastRun ? STATUS_STYLES[lastRun.status]?.text || 'text-white' : 'text-white'}`}>
+            {lastRun ? lastRun.status : '-'}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">{lastRun ? formatDateTime(lastRun.startedAt) : 'No runs recorded'}</div>
+        </div>
+
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 mb-2">
+            <CheckCircle className="h-4 w-4 text-green-400" />
+            <span className="text-xs text-gray-400">Last Success</span>
+          </div>
+          <div className="text-lg font-bold text-white">{lastSuccess ? formatDateTime(lastSuccess.finishedAt) : '-'}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            {lastSuccess ? `${lastSuccess.windowStart} → ${lastSuccess.windowEnd}` : 'No successful runs'}
+          </div>
+        </div>
+
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 mb-2">
+            <Download className="h-4 w-4 text-purple-400" />
+            <span className="text-xs text-gray-400">Last Run Imported</span>
+          </div>
+          <div className="text-2xl font-bold text-white">{lastRun ? lastRun.imported.toLocaleString() : '-'}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            {lastRun ? `${lastRun.fetched.toLocaleString()} fetched, ${lastRun.analyzed.toLocaleString()} analyzed` : ''}
+          </div>
+        </div>
+
+        <div className="bg-[#131a29] rounded-xl p-4 border border-white/[0.08]">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="h-4 w-4 text-orange-400" />
+            <span className="text-xs text-gray-400">Last Run Errors</span>
+          </div>
+          <div className="text-2xl font-bold text-white">{lastRun ? lastRun.errors.toLocaleString() : '-'}</div>
+          <div className="text-xs text-gray-500 mt-1">{lastRun ? `${lastRun.skipped.toLocaleString()} skipped` : ''}</div>
+        </div>
+      </div>
+
+      {/* Run Table */}
+      <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
+        <div className="flex items-center gap-2 px-6 py-4 border-b border-white/[0.08]">
+          <Database className="h-5 w-5 text-purple-400" />
+          <h3 className="text-lg font-semibold text-white">Recent Runs</h3>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="px-6 py-12 text-center text-gray-500">No sync runs recorded yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase border-b border-white/[0.06]">
+                  <th className="px-6 py-3">Started</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Trigger</th>
+                  <th className="px-4 py-3">Window</th>
+                  <th className="px-4 py-3 text-right">Fetched</th>
+                  <th className="px-4 py-3 text-right">Imported</th>
+                  <th className="px-4 py-3 text-right">Analyzed</th>
+                  <th className="px-4 py-3 text-right">Skipped</th>
+                  <th className="px-4 py-3 text-right">Errors</th>
+                  <th className="px-4 py-3 text-right">Duration</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => {
+                  const style = STATUS_STYLES[run.status] || STATUS_STYLES.running;
+                  const StatusIcon = style.icon;
+                  const isExpanded = expandedRunId === run.id;
+
+                  return (
+                    <Fragment key={run.id}>
+                      <tr
+                        onClick={() => toggleRun(run)}
+                        className="border-b border-white/[0.04] hover:bg-white/[0.02] cursor-pointer"
+                      >
+                        <td className="px-6 py-3 text-gray-300 whitespace-nowrap">{formatDateTime(run.startedAt)}</td>
+                        <td className="px-4 py-3">
+                          <span className={`inline-flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium capitalize ${style.bg} ${style.text}`}>
+                            <StatusIcon className={`h-3 w-3 ${run.status === 'running' ? 'animate-spin' : ''}`} />
+                            {run.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-gray-400 capitalize">{run.trigger || '-'}</td>
+                        <td className="px-4 py-3 text-gray-400 whitespace-nowrap">
+                          {run.windowStart ? `${run.windowStart} → ${run.windowEnd}` : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-right text-white">{run.fetched.toLocaleString()}</td>
+                        <td className="px-4 py-3 text-right text-white">{run.imported.toLocaleString()}</td>
+                        <td className="px-4 py-3 text-right text-white">{run.analyzed.toLocaleString()}</td>
+                        <td className="px-4 py-3 text-right text-gray-400">{run.skipped.toLocaleString()}</td>
+                        <td className={`px-4 py-3 text-right ${run.errors > 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                          {run.errors.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-right text-gray-400">{formatDuration(run.durationMs)}</td>
+                        <td className="px-4 py-3 text-gray-500">
+                          {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </td>
+                      </tr>
+
+                      {isExpanded && (
+                        <tr className="bg-[#0a0e17]/60">
+                          <td colSpan={11} className="px-6 py-4">
+                            <div className="space-y-3 text-xs">
+                              <div className="flex flex-wrap gap-6 text-gray-400">
+                                <span>Source: <span className="text-white">{run.source || '-'}</span></span>
+                                <span>Finished: <span className="text-white">{formatDateTime(run.finishedAt)}</span></span>
+                                {run.resumedFrom && (
+                                  <span>Resumed from: <span className="text-white font-mono">{run.resumedFrom}</span></span>
+                                )}
+                                {run.status !== 'success' && run.checkpoint && (
+                                  <span>
+                                    Checkpoint: <span className="text-amber-300">{run.checkpoint.phase} ({run.checkpoint.processed.toLocaleString()} records)</span>
+                                  </span>
+                                )}
+                              </div>
+
+                              {run.error && (
+                                <p className="text-red-300">Run failed: {run.error}</p>
+                              )}
+
+                              {run.failureCount === 0 ? (
+                                <p className="text-gray-500">No per-record failures</p>
+                              ) : failuresLoading ? (
+                                <div className="flex items-center gap-2 text-gray-400">
+                                  <Loader2 className="h-3 w-3 animate-spin" />
+                                  Loading failures...
+                                </div>
+                              ) : (
+                                <div className="max-h-64 overflow-y-auto rounded-lg border border-white/[0.06]">
+                                  <table className="w-full">
+                                    <thead>
+                                      <tr className="text-left text-gray-500 border-b border-white/[0.06]">
+                                        <th className="px-3 py-2">Call Key</th>
+                                        <th className="px-3 py-2">Stage</th>
+                                        <th className="px-3 py-2">Reason</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody>
+                                      {failures.map((failure, idx) => (
+                                        <tr key={`${failure.vendorCallKey}-${idx}`} className="border-b border-white/[0.04]">
+                                          <td className="px-3 py-2 font-mono text-gray-300">{failure.vendorCallKey || '-'}</td>
+                                          <td className="px-3 py-2 text-gray-400 capitalize">{failure.stage}</td>
+                                          <td className="px-3 py-2 text-red-300">{failure.reason}</td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                </div>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
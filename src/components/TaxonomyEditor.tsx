@@ -0,0 +1,483 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Tag,
+  Loader2,
+  RefreshCw,
+  Plus,
+  Trash2,
+  Save,
+  Eye,
+  Upload,
+  AlertTriangle,
+  ArrowRight,
+} from 'lucide-react';
+import type { CategoryDefinition } from '@/lib/categorization';
+import type { Taxonomy, TaxonomyPreview, TaxonomyPreviewSet } from '@/lib/taxonomy';
+
+// Keywords and weights are edited as text and parsed on save
+interface FormSubcategory {
+  name: string;
+  keywords: string;
+  weight: string;
+}
+
+interface FormCategory {
+  name: string;
+  keywords: string;
+  subcategories: FormSubcategory[];
+}
+
+function toForm(definitions: CategoryDefinition[]): FormCategory[] {
+  return definitions.map((category) => ({
+    name: category.name,
+    keywords: category.keywords.join(', '),
+    subcategories: category.subcategories.map((subcategory) => ({
+      name: subcategory.name,
+      keywords: subcategory.keywords.join(', '),
+      weight: String(subcategory.weight),
+    })),
+  }));
+}
+
+function splitKeywords(value: string): string[] {
+  return value.split(',').map((keyword) => keyword.trim()).filter(Boolean);
+}
+
+function fromForm(categories: FormCategory[]): CategoryDefinition[] {
+  return categories.map((category) => ({
+    name: category.name,
+    keywords: splitKeywords(category.keywords),
+    subcategories: category.subcategories.map((subcategory) => ({
+      name: subcategory.name,
+      keywords: splitKeywords(subcategory.keywords),
+      weight: subcategory.weight.trim() === '' ? NaN : Number(subcategory.weight),
+    })),
+  }));
+}
+
+const EMPTY_SUBCATEGORY: FormSubcategory = { name: '', keywords: '', weight: '50' };
+
+/**
+ * Admin editor for the keyword categorizer's taxonomy - edit a draft,
+ * preview which tickets and transcripts it would move, then publish
+ */
+export default function TaxonomyEditor() {
+  const [active, setActive] = useState<Taxonomy | null>(null);
+  const [draft, setDraft] = useState<Taxonomy | null>(null);
+  const [versions, setVersions] = useState<Taxonomy[]>([]);
+  const [categories, setCategories] = useState<FormCategory[]>([]);
+  const [note, setNote] = useState('');
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<'save' | 'preview' | 'publish' | 'discard' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<TaxonomyPreview | null>(null);
+  const [published, setPublished] = useState<{ version: number; staleTickets: number } | null>(null);
+
+  const loadTaxonomy = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/taxonomy');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load taxonomy');
+      }
+      setActive(data.active);
+      setDraft(data.draft);
+      setVersions(data.versions);
+      // Edit the draft if there is one, otherwise start from the active rules
+      setCategories(toForm((data.draft || data.active).definitions));
+      setNote(data.draft?.note || '');
+      setDirty(false);
+      setPreview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load taxonomy');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTaxonomy();
+  }, [loadTaxonomy]);
+
+  const updateCategories = (update: (prev: FormCategory[]) => FormCategory[]) => {
+    setCategories(update);
+    setDirty(true);
+    setPreview(null);
+  };
+
+  const updateCategory = (index: number, changes: Partial<FormCategory>) => {
+    updateCategories((prev) => prev.map((category, i) => (i === index ? { ...category, ...changes } : category)));
+  };
+
+  const updateSubcategory = (index: number, subIndex: number, changes: Partial<FormSubcategory>) => {
+    updateCategories((prev) => prev.map((category, i) => (i === index ? {
+      ...category,
+      subcategories: category.subcategories.map((subcategory, j) => (j === subIndex ? { ...subcategory, ...changes } : subcategory)),
+    } : category)));
+  };
+
+  // Sends the form to one of the taxonomy endpoints and surfaces validation errors
+  const send = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json();
+    setValidationErrors(data.errors || []);
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const run = async (action: NonNullable<typeof busy>, task: () => Promise<void>) => {
+    setBusy(action);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveDraft = () => run('save', async () => {
+    const data = await send('/api/taxonomy', 'PUT', { definitions: fromForm(categories), note });
+    setDraft(data.draft);
+    setDirty(false);
+    setPublished(null);
+    await loadTaxonomy();
+  });
+
+  const previewChanges = () => run('preview', async () => {
+    const data = await send('/api/taxonomy/preview', 'POST', { definitions: fromForm(categories) });
+    setPreview(data.preview);
+  });
+
+  const publishDraft = () => run('publish', async () => {
+    const data = await send('/api/taxonomy/publish', 'POST');
+    setPublished({ version: data.taxonomy.version, staleTickets: data.staleTickets });
+    await loadTaxonomy();
+  });
+
+  const discardDraft = () => run('discard', async () => {
+    await send('/api/taxonomy', 'DELETE');
+    await loadTaxonomy();
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-green-500/10 via-emerald-500/10 to-green-500/10 rounded-2xl p-6 border border-green-500/20">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-xl bg-gradient-to-br from-green-500 to-emerald-600">
+              <Tag className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Category Taxonomy</h2>
+              <p className="text-gray-400">
+                {active ? `Active: version ${active.version}${active.version === 0 ? ' (built-in)' : ''}` : 'Keyword rules for ticket and transcript categories'}
+                {draft && ` · Editing draft version ${draft.version}`}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={loadTaxonomy}
+              disabled={loading || busy !== null}
+              className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 hover:text-white hover:border-green-500/50 transition-all disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              {dirty ? 'Revert' : 'Refresh'}
+            </button>
+            <button
+              onClick={previewChanges}
+              disabled={busy !== null || categories.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 hover:text-white hover:border-green-500/50 transition-all disabled:opacity-50"
+            >
+              {busy === 'preview' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+              Preview
+            </button>
+            <button
+              onClick={saveDraft}
+              disabled={busy !== null || categories.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 hover:text-white hover:border-green-500/50 transition-all disabled:opacity-50"
+            >
+              {busy === 'save' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save Draft
+            </button>
+            {draft && (
+              <>
+                <button
+                  onClick={discardDraft}
+                  disabled={busy !== null}
+                  className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-red-300 hover:text-red-200 transition-all disabled:opacity-50"
+                >
+                  {busy === 'discard' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  Discard Draft
+                </button>
+                <button
+                  onClick={publishDraft}
+                  disabled={busy !== null || dirty}
+                  title={dirty ? 'Save the draft before publishing' : undefined}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-500 rounded-lg text-sm font-medium text-white hover:bg-green-600 transition-all disabled:opacity-40"
+                >
+                  {busy === 'publish' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  Publish v{draft.version}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <input
+          value={note}
+          onChange={(e) => { setNote(e.target.value); setDirty(true); }}
+          placeholder="Change note, e.g. Add Escrow Shortage Spread"
+          className="mt-4 w-full px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-green-500/50"
+        />
+      </div>
+
+      {published && (
+        <div className="bg-green-500/10 border border-green-500/30 rounded-xl p-4">
+          <p className="text-sm text-green-300">
+            Version {published.version} is active. New tickets use it now; {published.staleTickets.toLocaleString()} existing
+            tickets keep their categories until <code className="font-mono">POST /api/tickets/recategorize</code> runs.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 space-y-1">
+          <div className="flex items-center gap-3">
+            <AlertTriangle className="h-5 w-5 text-red-400" />
+            <p className="text-sm text-red-300">{error}</p>
+          </div>
+          {validationErrors.map((message) => (
+            <p key={message} className="pl-8 text-xs text-red-300/80">{message}</p>
+          ))}
+        </div>
+      )}
+
+      {preview && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <PreviewPanel title="Tickets" subtitle="Against each ticket's stored category" set={preview.tickets} />
+          <PreviewPanel
+            title="Transcripts"
+            subtitle={`Most recent ${preview.transcripts.limit.toLocaleString()}, against the active rules`}
+            set={preview.transcripts}
+          />
+        </div>
+      )}
+
+      {/* Category editor */}
+      {loading && categories.length === 0 ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-green-400" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {categories.map((category, index) => (
+            <div key={index} className="bg-[#131a29] rounded-2xl border border-white/[0.08] p-5 space-y-3">
+              <div className="flex flex-col md:flex-row gap-3">
+                <input
+                  value={category.name}
+                  onChange={(e) => updateCategory(index, { name: e.target.value })}
+                  placeholder="Category name"
+                  className="md:w-64 px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm font-medium text-white placeholder-gray-500 focus:outline-none focus:border-green-500/50"
+                />
+                <input
+                  value={category.keywords}
+                  onChange={(e) => updateCategory(index, { keywords: e.target.value })}
+                  placeholder="Category keywords, comma-separated - any one must match"
+                  className="flex-1 px-3 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 placeholder-gray-500 focus:outline-none focus:border-green-500/50"
+                />
+                <button
+                  onClick={() => updateCategories((prev) => prev.filter((_, i) => i !== index))}
+                  className="flex items-center gap-1 px-3 py-2 text-xs text-red-300 hover:text-red-200"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  Remove
+                </button>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-1 pr-2 w-64">Subcategory</th>
+                    <th className="py-1 pr-2">Keywords</th>
+                    <th className="py-1 pr-2 w-24">Weight</th>
+                    <th className="py-1 w-8"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {category.subcategories.map((subcategory, subIndex) => (
+                    <tr key={subIndex}>
+                      <td className="py-1 pr-2">
+                        <input
+                          value={subcategory.name}
+                          onChange={(e) => updateSubcategory(index, subIndex, { name: e.target.value })}
+                          className="w-full px-2 py-1.5 bg-[#0a0e17] border border-white/[0.08] rounded-md text-xs text-white focus:outline-none focus:border-green-500/50"
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          value={subcategory.keywords}
+                          onChange={(e) => updateSubcategory(index, subIndex, { keywords: e.target.value })}
+                          className="w-full px-2 py-1.5 bg-[#0a0e17] border border-white/[0.08] rounded-md text-xs text-gray-300 focus:outline-none focus:border-green-500/50"
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={subcategory.weight}
+                          onChange={(e) => updateSubcategory(index, subIndex, { weight: e.target.value })}
+                          className="w-full px-2 py-1.5 bg-[#0a0e17] border border-white/[0.08] rounded-md text-xs text-white focus:outline-none focus:border-green-500/50"
+                        />
+                      </td>
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => updateCategory(index, {
+                            subcategories: category.subcategories.filter((_, j) => j !== subIndex),
+                          })}
+                          className="text-red-300 hover:text-red-200"
+                          aria-label="Remove subcategory"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <button
+                onClick={() => updateCategory(index, { subcategories: [...category.subcategories, { ...EMPTY_SUBCATEGORY }] })}
+                className="flex items-center gap-1 text-xs text-green-300 hover:text-green-200"
+              >
+                <Plus className="h-3 w-3" />
+                Add subcategory
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => updateCategories((prev) => [...prev, { name: '', keywords: '', subcategories: [{ ...EMPTY_SUBCATEGORY }] }])}
+            className="flex items-center gap-2 px-4 py-2 bg-[#0a0e17] border border-white/[0.08] rounded-lg text-sm text-gray-300 hover:text-white hover:border-green-500/50 transition-all"
+          >
+            <Plus className="h-4 w-4" />
+            Add category
+          </button>
+          <p className="text-xs text-gray-500">
+            Within a category, subcategories are tried highest weight first. Text matching no category is Other.
+          </p>
+        </div>
+      )}
+
+      {/* Version history */}
+      <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
+        <h3 className="px-6 pt-5 pb-3 text-lg font-semibold text-white">Versions</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase border-b border-white/[0.06]">
+                <th className="px-4 py-3">Version</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3">Categories</th>
+                <th className="px-4 py-3">Rules</th>
+                <th className="px-4 py-3">Note</th>
+                <th className="px-4 py-3">Active From</th>
+                <th className="px-4 py-3">Active Until</th>
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map((taxonomy) => (
+                <tr key={taxonomy.version} className="border-b border-white/[0.04] hover:bg-white/[0.02]">
+                  <td className="px-4 py-3 text-gray-300">{taxonomy.version === 0 ? '0 (built-in)' : taxonomy.version}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-md text-xs font-medium ${
+                      taxonomy.status === 'active' ? 'bg-green-500/10 text-green-400' :
+                      taxonomy.status === 'draft' ? 'bg-yellow-500/10 text-yellow-400' :
+                      'bg-gray-500/10 text-gray-400'
+                    }`}>
+                      {taxonomy.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-400">{taxonomy.definitions.length}</td>
+                  <td className="px-4 py-3 font-mono text-xs text-gray-400">{taxonomy.rulesVersion}</td>
+                  <td className="px-4 py-3 text-gray-400">{taxonomy.note || '-'}</td>
+                  <td className="px-4 py-3 text-gray-400 whitespace-nowrap">
+                    {taxonomy.activatedAt ? new Date(taxonomy.activatedAt).toLocaleString() : '-'}
+                    {taxonomy.activatedBy && <div className="text-[10px] text-gray-500">{taxonomy.activatedBy}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-gray-400 whitespace-nowrap">
+                    {taxonomy.retiredAt ? new Date(taxonomy.retiredAt).toLocaleString() : taxonomy.status === 'active' ? 'Now' : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PreviewPanel({ title, subtitle, set }: { title: string; subtitle: string; set: TaxonomyPreviewSet }) {
+  const percent = set.checked > 0 ? Math.round((set.moved / set.checked) * 1000) / 10 : 0;
+
+  return (
+    <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">{title}</h3>
+        <p className="text-xs text-gray-500">{subtitle}</p>
+      </div>
+      <p className="text-sm text-gray-300">
+        <span className="text-2xl font-bold text-white">{set.moved.toLocaleString()}</span> of {set.checked.toLocaleString()} would
+        move ({percent}%)
+        {set.subcategoryMoved > 0 && (
+          <span className="text-gray-500">, {set.subcategoryMoved.toLocaleString()} to another subcategory of the same category</span>
+        )}
+      </p>
+
+      {set.moves.length > 0 && (
+        <table className="w-full text-sm">
+          <tbody>
+            {set.moves.slice(0, 10).map((move) => (
+              <tr key={`${move.from}-${move.to}`} className="border-b border-white/[0.04]">
+                <td className="py-1.5 text-gray-400">{move.from}</td>
+                <td className="py-1.5 text-gray-600"><ArrowRight className="h-3 w-3" /></td>
+                <td className="py-1.5 text-gray-300">{move.to}</td>
+                <td className="py-1.5 text-right text-white">{move.count.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {set.examples.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500 uppercase">Examples</p>
+          {set.examples.slice(0, 5).map((example) => (
+            <p key={example.id} className="text-xs text-gray-400 truncate">
+              <span className="font-mono text-gray-500">{example.id}</span> {example.text}{' '}
+              <span className="text-gray-500">({example.from} → {example.to})</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
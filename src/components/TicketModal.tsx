@@ -3,6 +3,7 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { X, Search, Loader2, FileText, Calendar, User, Clock, Tag, AlertCircle, CheckCircle, AlertTriangle, ExternalLink } from 'lucide-react';
 import { TicketLink } from './TicketLink';
+import { RelatedCalls } from './RelatedRecords';
 
 interface Ticket {
   id: string;
@@ -516,6 +517,9 @@ export function TicketModal({ isOpen, onClose, title, filterType, filterValue, h
                       </div>
                     )}
 
+                    {/* Calls with the same loan number or email */}
+                    <RelatedCalls key={selectedTicket.key} ticketKey={selectedTicket.key} />
+
                     {/* Project & Organization */}
                     <div className="bg-[#1a1f2e] rounded-lg p-4">
                       <h5 className="text-sm font-semibold text-white mb-3">Project Information</h5>
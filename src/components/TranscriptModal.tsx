@@ -17,8 +17,12 @@ import {
   Filter,
   BarChart3,
   FileText,
+  RefreshCw,
 } from 'lucide-react';
 import { CallScorecard } from './CallScorecard';
+import { AnalysisReviewPanel, type ReviewedLabels } from './AnalysisReviewPanel';
+import { RelatedTickets } from './RelatedRecords';
+import { hasRole, isRole } from '@/lib/auth/roles';
 
 // Call analysis types
 interface CallAnalysis {
@@ -146,6 +150,8 @@ interface TranscriptRecord {
     keyIssues: string[];
     resolution: string;
     tags: string[];
+    reviewedAt?: string | null;
+    reviewedBy?: string | null;
   };
 }
 
@@ -153,10 +159,12 @@ interface TranscriptModalProps {
   isOpen: boolean;
   onClose: () => void;
   title: string;
-  filterType: 'agentSentiment' | 'customerSentiment' | 'topic' | 'topicNoSubcategory' | 'department' | 'agent' | 'all' | 'date' | 'hour' | 'dayOfWeek';
+  filterType: 'agentSentiment' | 'customerSentiment' | 'topic' | 'topicNoSubcategory' | 'department' | 'agent' | 'all' | 'date' | 'hour' | 'dayOfWeek' | 'reviewQueue';
   filterValue: string;
   startDate?: string;
   endDate?: string;
+  showReview?: boolean;   // QA review panel, shown to qa and above (hidden for agents viewing their own calls)
+  showRelatedTickets?: boolean; // Linked tickets (agents cannot read tickets)
 }
 
 const TOPIC_LABELS: Record<string, string> = {
@@ -248,6 +256,8 @@ export function TranscriptModal({
   filterValue,
   startDate,
   endDate,
+  showReview = true,
+  showRelatedTickets = true,
 }: TranscriptModalProps) {
   const [transcripts, setTranscripts] = useState<TranscriptRecord[]>([]);
   const [loading, setLoading] = useState(true);
@@ -261,6 +271,7 @@ export function TranscriptModal({
   const [callAnalysis, setCallAnalysis] = useState<CallAnalysis | null>(null);
   const [analyzingCall, setAnalyzingCall] = useState(false);
   const [callAnalysisCache, setCallAnalysisCache] = useState<Record<string, CallAnalysis>>({});
+  const [scorecardGeneratedAt, setScorecardGeneratedAt] = useState<Record<string, string>>({});
   const [callAnalysisError, setCallAnalysisError] = useState<string | null>(null);
   const [viewportPosition, setViewportPosition] = useState({ start: 0, end: 0 });
   const [isDraggingViewport, setIsDraggingViewport] = useState(false);
@@ -270,6 +281,17 @@ export function TranscriptModal({
   const sentimentAbortRef = useRef<AbortController | null>(null);
   const messageRefs = useRef<(HTMLDivElement | null)[]>([]);
   const timelineRef = useRef<HTMLDivElement>(null);
+  const [canReview, setCanReview] = useState(false);
+
+  // Reviewing labels needs the qa role (the API enforces it; this hides the form from viewers)
+  useEffect(() => {
+    if (!isOpen || !showReview) return;
+
+    fetch('/api/auth/session')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((session) => setCanReview(isRole(session?.role) && hasRole(session.role, 'qa')))
+      .catch(() => setCanReview(false));
+  }, [isOpen, showReview]);
 
   // Load transcript metadata
   useEffect(() => {
@@ -315,6 +337,10 @@ export function TranscriptModal({
               // Text search - pass to API
               apiParams += `&search=${encodeURIComponent(filterValue)}`;
               break;
+            case 'reviewQueue':
+              // Analyses not yet reviewed by QA
+              apiParams += `&needsReview=true`;
+              break;
           }
         }
 
@@ -384,6 +410,7 @@ export function TranscriptModal({
               role: m.role,
               text: m.text,
             })),
+            vendorCallKey: selectedTranscript?.vendorCallKey,
           }),
           signal: sentimentAbortRef.current?.signal,
         });
@@ -413,7 +440,7 @@ export function TranscriptModal({
         sentimentAbortRef.current.abort();
       }
     };
-  }, [selectedTranscript?.conversation, selectedTranscript?.id, sentimentCache]);
+  }, [selectedTranscript?.conversation, selectedTranscript?.id, selectedTranscript?.vendorCallKey, sentimentCache]);
 
   // Reset state when modal opens
   useEffect(() => {
@@ -441,13 +468,14 @@ export function TranscriptModal({
   }, [selectedTranscript?.id, callAnalysisCache]);
 
   // Function to analyze the call comprehensively
-  const analyzeCall = useCallback(async (sentiments?: MessageSentiment[]) => {
+  // The API returns the stored scorecard when there is one; regenerate forces a fresh score
+  const analyzeCall = useCallback(async (sentiments?: MessageSentiment[], regenerate = false) => {
     if (!selectedTranscript?.conversation?.length) return;
 
     const transcriptId = selectedTranscript.id;
 
     // Check cache first
-    if (callAnalysisCache[transcriptId]) {
+    if (!regenerate && callAnalysisCache[transcriptId]) {
       setCallAnalysis(callAnalysisCache[transcriptId]);
       return;
     }
@@ -508,18 +536,24 @@ Your scores MUST be consistent with this analysis. If customer sentiment is nega
             callStart: selectedTranscript.callStart,
           },
           sentimentContext,
+          vendorCallKey: selectedTranscript.vendorCallKey,
+          regenerate,
         }),
         signal: callAnalysisAbortRef.current?.signal,
       });
 
       if (response.ok) {
-        const { analysis } = await response.json();
+        const { analysis, generatedAt } = await response.json();
         setCallAnalysis(analysis);
         // Cache the results
         setCallAnalysisCache(prev => ({
           ...prev,
           [transcriptId]: analysis,
         }));
+        setScorecardGeneratedAt(prev => ({
+          ...prev,
+          [transcriptId]: generatedAt,
+        }));
       } else {
         const error = await response.json();
         setCallAnalysisError(error.error || 'Failed to analyze call');
@@ -803,6 +837,15 @@ Your scores MUST be consistent with this analysis. If customer sentiment is nega
     }
   };
 
+  // Apply a saved QA review to the loaded transcript so the list and detail reflect it
+  const applyReview = (labels: ReviewedLabels, reviewedAt: string, reviewedBy: string) => {
+    const update = (t: TranscriptRecord): TranscriptRecord =>
+      t.analysis ? { ...t, analysis: { ...t.analysis, ...labels, reviewedAt, reviewedBy } } : t;
+
+    setTranscripts((prev) => prev.map((t) => (t.id === selectedTranscript?.id ? update(t) : t)));
+    setSelectedTranscript((prev) => (prev ? update(prev) : prev));
+  };
+
   const getSentimentColor = (sentiment: string) => {
     switch (sentiment) {
       case 'positive':
@@ -1129,9 +1172,30 @@ Your scores MUST be consistent with this analysis. If customer sentiment is nega
                         ))}
                       </div>
                     )}
+
+                    {/* QA Review - reviewer labels override the AI in all analytics */}
+                    {showReview && canReview && (
+                      <AnalysisReviewPanel
+                        key={selectedTranscript.vendorCallKey}
+                        vendorCallKey={selectedTranscript.vendorCallKey}
+                        labels={{
+                          agentSentiment: selectedTranscript.analysis.agentSentiment,
+                          customerSentiment: selectedTranscript.analysis.customerSentiment,
+                          aiDiscoveredTopic: selectedTranscript.analysis.aiDiscoveredTopic,
+                        }}
+                        reviewedAt={selectedTranscript.analysis.reviewedAt}
+                        reviewedBy={selectedTranscript.analysis.reviewedBy}
+                        onReviewed={applyReview}
+                      />
+                    )}
                   </div>
                 )}
 
+                {/* Tickets with the same loan number or email */}
+                {showRelatedTickets && (
+                  <RelatedTickets key={selectedTranscript.vendorCallKey} vendorCallKey={selectedTranscript.vendorCallKey} />
+                )}
+
                 {/* Fallback to old AI Analysis if new analysis not available */}
                 {!selectedTranscript.analysis && selectedTranscript.aiAnalysis && (
                   <div className="mt-3 p-3 bg-blue-500/10 rounded-lg border border-blue-500/20">
@@ -1419,6 +1483,23 @@ Your scores MUST be consistent with this analysis. If customer sentiment is nega
                           <span className="text-xs text-emerald-300">Generating...</span>
                         </div>
                       )}
+                      {callAnalysis && !analyzingCall && (
+                        <div className="flex items-center gap-2 ml-auto">
+                          {scorecardGeneratedAt[selectedTranscript.id] && (
+                            <span className="text-xs text-gray-500">
+                              Generated {new Date(scorecardGeneratedAt[selectedTranscript.id]).toLocaleString()}
+                            </span>
+                          )}
+                          <button
+                            onClick={() => analyzeCall(messageSentiments, true)}
+                            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-gray-400 hover:text-white hover:bg-white/[0.05] transition-colors"
+                            title="Re-score this call with the AI model"
+                          >
+                            <RefreshCw className="h-3 w-3" />
+                            Regenerate
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="flex-1 overflow-y-auto p-4">
@@ -39,6 +39,7 @@ import {
   X,
 } from 'lucide-react';
 import { TranscriptModal } from './TranscriptModal';
+import ReviewAgreement from './ReviewAgreement';
 
 interface TranscriptStats {
   totalCalls: number;
@@ -165,7 +166,7 @@ export default function TranscriptsAnalysis() {
   // Modal state for drill-down
   const [modalOpen, setModalOpen] = useState(false);
   const [modalTitle, setModalTitle] = useState('');
-  const [modalFilterType, setModalFilterType] = useState<'agentSentiment' | 'customerSentiment' | 'topic' | 'topicNoSubcategory' | 'department' | 'agent' | 'all' | 'date' | 'hour' | 'dayOfWeek'>('all');
+  const [modalFilterType, setModalFilterType] = useState<'agentSentiment' | 'customerSentiment' | 'topic' | 'topicNoSubcategory' | 'department' | 'agent' | 'all' | 'date' | 'hour' | 'dayOfWeek' | 'reviewQueue'>('all');
   const [modalFilterValue, setModalFilterValue] = useState('');
 
   // Global date range filter (default: last 15 days, rounded to start of day)
@@ -390,7 +391,7 @@ export default function TranscriptsAnalysis() {
   };
 
   // Drill-down handlers
-  const openDrillDown = (filterType: 'agentSentiment' | 'customerSentiment' | 'topic' | 'topicNoSubcategory' | 'department' | 'agent' | 'all' | 'date' | 'hour' | 'dayOfWeek', filterValue: string, title: string) => {
+  const openDrillDown = (filterType: 'agentSentiment' | 'customerSentiment' | 'topic' | 'topicNoSubcategory' | 'department' | 'agent' | 'all' | 'date' | 'hour' | 'dayOfWeek' | 'reviewQueue', filterValue: string, title: string) => {
     setModalFilterType(filterType);
     setModalFilterValue(filterValue);
     setModalTitle(title);
@@ -1101,6 +1102,9 @@ export default function TranscriptsAnalysis() {
         </div>
       )}
 
+      {/* QA Review Agreement */}
+      <ReviewAgreement onOpenQueue={() => openDrillDown('reviewQueue', 'true', 'QA Review Queue')} />
+
       {/* Topics Analysis */}
       <div className="bg-[#131a29] rounded-2xl border border-white/[0.08] overflow-hidden">
         <button
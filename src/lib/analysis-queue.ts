@@ -0,0 +1,382 @@
+/**
+ * AI Analysis Job Queue
+ * Postgres-backed queue for transcript analysis with retry and exponential backoff
+ */
+
+import prisma from '@/lib/db';
+import { preserveReviewedLabels } from '@/lib/analysis-reviews';
+import {
+  completeValidated,
+  getTranscriptPrompt,
+  isRetryableError,
+  transcriptAnalysisSchema,
+  type LLMError,
+  type TranscriptAnalysisResult,
+} from '@/lib/llm';
+
+export const QUEUE_CONFIG = {
+  MAX_ATTEMPTS: parseInt(process.env.ANALYSIS_MAX_ATTEMPTS || '5'),
+  BACKOFF_BASE_MS: 30 * 1000,         // 30s, 60s, 2m, 4m, ...
+  BACKOFF_MAX_MS: 60 * 60 * 1000,     // Never wait more than an hour
+  STUCK_AFTER_MS: 15 * 60 * 1000,     // Running this long means the worker died
+  CONCURRENCY: 10,
+};
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed';
+export type JobOutcome = 'done' | 'retry' | 'failed';
+
+interface ClaimedJob {
+  id: string;
+  vendor_call_key: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface JobResult {
+  vendorCallKey: string;
+  outcome: JobOutcome;
+  error?: string;
+}
+
+export interface DrainResult {
+  processed: number;
+  done: number;
+  retried: number;
+  failed: number;
+  stopped: boolean;    // true when the deadline was hit with jobs still due
+  results: JobResult[];
+}
+
+export interface AnalysisJob {
+  id: string;
+  vendorCallKey: string;
+  status: JobStatus;
+  stuck: boolean;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  lastStatusCode: number | null;
+  nextRunAt: string;
+  lockedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface AnalysisJobRow {
+  id: string;
+  vendor_call_key: string;
+  status: string;      // Stored as text; always one of JobStatus
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  last_status_code: number | null;
+  next_run_at: Date;
+  locked_at: Date | null;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type TranscriptAnalysisOutput = TranscriptAnalysisResult & { model: string; promptVersion: string };
+
+/**
+ * Analyze a transcript with the transcriptAnalysis model
+ *
+ * Uses the current prompt version unless one is given (the eval harness
+ * compares versions). The response is schema-checked; one that is still
+ * invalid after the repair round throws, so nothing is written to
+ * TranscriptAnalysis.
+ */
+export async function analyzeTranscript(
+  transcript: { messages: unknown },
+  promptVersion?: string
+): Promise<TranscriptAnalysisOutput> {
+  const messages = transcript.messages as { speaker: string; text: string }[] | null;
+  if (!messages || messages.length === 0) {
+    throw new Error('No conversation messages');
+  }
+
+  // Build conversation text
+  const conversationText = messages
+    .map((m) => `${m.speaker}: ${m.text}`)
+    .join('\n');
+
+  const template = getTranscriptPrompt(promptVersion);
+
+  const { data, model } = await completeValidated('transcriptAnalysis', [
+    { role: 'user', content: template.build(conversationText) }
+  ], transcriptAnalysisSchema);
+  return { ...data, model, promptVersion: template.version };
+}
+
+/**
+ * Exponential backoff with jitter, honoring Retry-After when the API sends one
+ */
+export function getBackoffDelay(attempts: number, retryAfterMs?: number): number {
+  const exponential = QUEUE_CONFIG.BACKOFF_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0));
+  const jitter = Math.random() * QUEUE_CONFIG.BACKOFF_BASE_MS;
+  const delay = Math.max(exponential + jitter, retryAfterMs || 0);
+  return Math.min(delay, QUEUE_CONFIG.BACKOFF_MAX_MS);
+}
+
+/**
+ * Queue transcripts for analysis
+ *
+ * Transcripts that are already pending or running are left alone. A
+ * dead-lettered job for one of the transcripts goes back in the queue with a
+ * fresh attempt budget, so re-syncing a window retries its failed analyses.
+ */
+export async function enqueueAnalysisJobs(vendorCallKeys: string[]): Promise<number> {
+  if (vendorCallKeys.length === 0) return 0;
+
+  const [created, requeued] = await prisma.$transaction([
+    prisma.analysis_jobs.createMany({
+      data: vendorCallKeys.map((vendorCallKey: string) => ({
+        vendor_call_key: vendorCallKey,
+        max_attempts: QUEUE_CONFIG.MAX_ATTEMPTS,
+      })),
+      skipDuplicates: true,
+    }),
+    prisma.analysis_jobs.updateMany({
+      where: { vendor_call_key: { in: vendorCallKeys }, status: 'failed' },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        max_attempts: QUEUE_CONFIG.MAX_ATTEMPTS,
+        next_run_at: new Date(),
+        locked_at: null,
+      },
+    }),
+  ]);
+
+  return created.count + requeued.count;
+}
+
+/**
+ * Atomically claim up to `limit` due jobs
+ *
+ * Due = pending with next_run_at in the past, or running but stuck (the
+ * worker that claimed it died). SKIP LOCKED lets several workers drain
+ * the queue at once without claiming the same job.
+ */
+async function claimJobs(limit: number): Promise<ClaimedJob[]> {
+  const stuckBefore = new Date(Date.now() - QUEUE_CONFIG.STUCK_AFTER_MS);
+
+  return prisma.$queryRaw`
+    UPDATE analysis_jobs
+    SET status = 'running', locked_at = NOW(), attempts = attempts + 1, updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM analysis_jobs
+      WHERE (status = 'pending' AND next_run_at <= NOW())
+         OR (status = 'running' AND locked_at < ${stuckBefore})
+      ORDER BY next_run_at ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, vendor_call_key, attempts, max_attempts
+  `;
+}
+
+/**
+ * Run one claimed job and record its outcome
+ */
+async function processJob(job: ClaimedJob): Promise<JobResult> {
+  try {
+    const transcript = await prisma.transcripts.findUnique({
+      where: { vendor_call_key: job.vendor_call_key }
+    });
+    if (!transcript) {
+      throw new Error('Transcript not found');
+    }
+
+    // Human-reviewed labels win over a fresh AI result
+    const analysis = await preserveReviewedLabels(job.vendor_call_key, await analyzeTranscript(transcript));
+
+    await prisma.transcriptAnalysis.upsert({
+      where: { vendorCallKey: job.vendor_call_key },
+      create: {
+        vendorCallKey: job.vendor_call_key,
+        agentName: transcript.agent_name,
+        ...analysis
+      },
+      update: analysis
+    });
+
+    await prisma.analysis_jobs.update({
+      where: { id: job.id },
+      data: {
+        status: 'done',
+        completed_at: new Date(),
+        locked_at: null,
+        last_error: null,
+        last_status_code: null,
+      },
+    });
+
+    return { vendorCallKey: job.vendor_call_key, outcome: 'done' };
+  } catch (err) {
+    const error = err as LLMError;
+    const canRetry = isRetryableError(error) && job.attempts < job.max_attempts;
+
+    await prisma.analysis_jobs.update({
+      where: { id: job.id },
+      data: {
+        status: canRetry ? 'pending' : 'failed',
+        next_run_at: canRetry
+          ? new Date(Date.now() + getBackoffDelay(job.attempts, error.retryAfterMs))
+          : undefined,
+        locked_at: null,
+        last_error: error.message,
+        last_status_code: error.status ?? null,
+      },
+    });
+
+    if (error.validationErrors) {
+      console.error(`❌ [QUEUE] ${job.vendor_call_key} rejected invalid analysis: ${error.validationErrors.join('; ')}`);
+    } else if (canRetry) {
+      console.warn(`⚠️  [QUEUE] ${job.vendor_call_key} attempt ${job.attempts} failed, will retry: ${error.message}`);
+    } else {
+      console.error(`❌ [QUEUE] ${job.vendor_call_key} dead-lettered after ${job.attempts} attempt(s): ${error.message}`);
+    }
+
+    return {
+      vendorCallKey: job.vendor_call_key,
+      outcome: canRetry ? 'retry' : 'failed',
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Drain up to `limit` due jobs, `concurrency` at a time
+ */
+export async function drainAnalysisQueue(options: {
+  limit?: number;
+  concurrency?: number;
+  deadline?: number;
+} = {}): Promise<DrainResult> {
+  const limit = options.limit ?? 50;
+  const concurrency = options.concurrency ?? QUEUE_CONFIG.CONCURRENCY;
+  const summary: DrainResult = { processed: 0, done: 0, retried: 0, failed: 0, stopped: false, results: [] };
+
+  while (summary.processed < limit) {
+    if (options.deadline !== undefined && Date.now() >= options.deadline) {
+      summary.stopped = true;
+      break;
+    }
+
+    const jobs = await claimJobs(Math.min(concurrency, limit - summary.processed));
+    if (jobs.length === 0) break;
+
+    const results = await Promise.all(jobs.map((job: ClaimedJob) => processJob(job)));
+
+    for (const result of results) {
+      summary.processed++;
+      if (result.outcome === 'done') summary.done++;
+      else if (result.outcome === 'retry') summary.retried++;
+      else summary.failed++;
+      summary.results.push(result);
+    }
+
+    console.log(`   [QUEUE] Processed ${summary.processed} jobs (${summary.done} done, ${summary.retried} retrying, ${summary.failed} failed)`);
+  }
+
+  return summary;
+}
+
+/**
+ * Where clause for running jobs whose worker has gone away
+ */
+function stuckJobsWhere() {
+  return {
+    status: 'running',
+    locked_at: { lt: new Date(Date.now() - QUEUE_CONFIG.STUCK_AFTER_MS) },
+  };
+}
+
+/**
+ * Map a database row to the API shape
+ */
+function toAnalysisJob(row: AnalysisJobRow): AnalysisJob {
+  const stuckBefore = Date.now() - QUEUE_CONFIG.STUCK_AFTER_MS;
+
+  return {
+    id: row.id,
+    vendorCallKey: row.vendor_call_key,
+    status: row.status as JobStatus,
+    stuck: row.status === 'running' && !!row.locked_at && row.locked_at.getTime() < stuckBefore,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lastError: row.last_error,
+    lastStatusCode: row.last_status_code,
+    nextRunAt: row.next_run_at.toISOString(),
+    lockedAt: row.locked_at ? row.locked_at.toISOString() : null,
+    completedAt: row.completed_at ? row.completed_at.toISOString() : null,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Job counts by status, plus how many running jobs look stuck
+ */
+export async function getQueueCounts(): Promise<Record<JobStatus | 'stuck', number>> {
+  const [grouped, stuck] = await Promise.all([
+    prisma.analysis_jobs.groupBy({ by: ['status'], _count: { _all: true } }),
+    prisma.analysis_jobs.count({ where: stuckJobsWhere() }),
+  ]);
+
+  const counts: Record<JobStatus | 'stuck', number> = { pending: 0, running: 0, done: 0, failed: 0, stuck };
+  for (const row of grouped as { status: JobStatus; _count: { _all: number } }[]) {
+    counts[row.status] = row._count._all;
+  }
+  return counts;
+}
+
+/**
+ * List jobs for the admin view
+ * - problems: dead-lettered and stuck jobs (default)
+ * - failed / stuck / pending / running / done: a single bucket
+ */
+export async function listAnalysisJobs(
+  view: 'problems' | 'stuck' | JobStatus = 'problems',
+  limit: number = 100
+): Promise<AnalysisJob[]> {
+  const stuckWhere = stuckJobsWhere();
+
+  const where =
+    view === 'problems' ? { OR: [{ status: 'failed' }, stuckWhere] } :
+    view === 'stuck' ? stuckWhere :
+    { status: view };
+
+  const rows: AnalysisJobRow[] = await prisma.analysis_jobs.findMany({
+    where,
+    orderBy: { updated_at: 'desc' },
+    take: limit,
+  });
+
+  return rows.map(toAnalysisJob);
+}
+
+/**
+ * Put dead-lettered or stuck jobs back in the queue with a fresh attempt budget
+ */
+export async function requeueAnalysisJobs(ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  const result = await prisma.analysis_jobs.updateMany({
+    where: {
+      id: { in: ids },
+      OR: [{ status: 'failed' }, stuckJobsWhere()],
+    },
+    data: {
+      status: 'pending',
+      attempts: 0,
+      next_run_at: new Date(),
+      locked_at: null,
+    },
+  });
+
+  return result.count;
+}
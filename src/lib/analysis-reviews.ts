@@ -0,0 +1,285 @@
+/**
+ * Analysis Reviews
+ * Human QA overrides of AI sentiment and topic labels
+ *
+ * A review writes the reviewer's label straight into TranscriptAnalysis, so
+ * every analytics aggregate uses it without special handling. The AI value
+ * is kept on the AnalysisReview row for agreement metrics, and
+ * re-analysis keeps the reviewed labels (see preserveReviewedLabels).
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+
+export const REVIEWABLE_FIELDS = ['agentSentiment', 'customerSentiment', 'aiDiscoveredTopic'] as const;
+export type ReviewField = (typeof REVIEWABLE_FIELDS)[number];
+
+const SENTIMENT_VALUES = ['positive', 'neutral', 'negative'];
+
+// Unreviewed analyses below this topic confidence are flagged as low-confidence in the queue
+const LOW_CONFIDENCE = 0.6;
+
+export interface ReviewInput {
+  vendorCallKey: string;
+  reviewer: string;
+  note?: string;
+  // Reviewer's label per field; the AI value itself means "confirmed"
+  labels: Partial<Record<ReviewField, string>>;
+}
+
+export interface AnalysisReview {
+  id: string;
+  vendorCallKey: string;
+  field: ReviewField;
+  originalValue: string | null;
+  newValue: string | null;
+  agreed: boolean;
+  reviewer: string;
+  note: string | null;
+  createdAt: string;
+  active: boolean;
+}
+
+export interface ReviewQueueItem {
+  vendorCallKey: string;
+  agentName: string | null;
+  callStart: string | null;
+  agentSentiment: string | null;
+  customerSentiment: string | null;
+  aiDiscoveredTopic: string | null;
+  topicConfidence: number | null;
+  reason: 'low-confidence' | 'negative' | 'sample';
+}
+
+export interface FieldAgreement {
+  field: ReviewField;
+  reviewed: number;
+  agreed: number;
+  agreementRate: number | null;   // % of reviews where the reviewer kept the AI label
+  topCorrections: { from: string | null; to: string | null; count: number }[];
+}
+
+interface AnalysisReviewRow {
+  id: string;
+  vendorCallKey: string;
+  field: string;             // Stored as text; always one of REVIEWABLE_FIELDS
+  originalValue: string | null;
+  newValue: string | null;
+  reviewer: string;
+  note: string | null;
+  createdAt: Date;
+  supersededAt: Date | null;
+}
+
+function sameLabel(a: string | null, b: string | null): boolean {
+  return (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+}
+
+function toAnalysisReview(row: AnalysisReviewRow): AnalysisReview {
+  return {
+    id: row.id,
+    vendorCallKey: row.vendorCallKey,
+    field: row.field as ReviewField,
+    originalValue: row.originalValue,
+    newValue: row.newValue,
+    agreed: sameLabel(row.originalValue, row.newValue),
+    reviewer: row.reviewer,
+    note: row.note,
+    createdAt: row.createdAt.toISOString(),
+    active: row.supersededAt === null,
+  };
+}
+
+/**
+ * Check reviewer labels; returns an error message or null
+ */
+export function validateReviewLabels(labels: Partial<Record<string, string>>): string | null {
+  const fields = Object.keys(labels);
+  if (fields.length === 0) return 'At least one label is required';
+
+  for (const field of fields) {
+    if (!REVIEWABLE_FIELDS.includes(field as ReviewField)) {
+      return `Field "${field}" cannot be reviewed`;
+    }
+    const value = labels[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      return `${field} must be a non-empty string`;
+    }
+    if (field !== 'aiDiscoveredTopic' && !SENTIMENT_VALUES.includes(value)) {
+      return `${field} must be one of ${SENTIMENT_VALUES.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Record a review and apply the reviewer's labels to TranscriptAnalysis
+ *
+ * Returns null when the transcript has no analysis to review.
+ */
+export async function submitReview(input: ReviewInput): Promise<AnalysisReview[] | null> {
+  const fields = REVIEWABLE_FIELDS.filter((field) => input.labels[field] !== undefined);
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const analysis = await tx.transcriptAnalysis.findUnique({ where: { vendorCallKey: input.vendorCallKey } });
+    if (!analysis) return null;
+
+    const active: AnalysisReviewRow[] = await tx.analysisReview.findMany({
+      where: { vendorCallKey: input.vendorCallKey, field: { in: fields }, supersededAt: null },
+    });
+
+    const now = new Date();
+    const created: AnalysisReviewRow[] = [];
+    const update: Partial<Record<ReviewField, string>> = {};
+
+    for (const field of fields) {
+      const previous = active.find((row) => row.field === field);
+      const newValue = input.labels[field]!.trim();
+
+      // Once overridden, the analysis column holds the reviewer value - the AI value lives on the review
+      const originalValue: string | null = previous ? previous.originalValue : analysis[field];
+
+      if (previous) {
+        await tx.analysisReview.update({ where: { id: previous.id }, data: { supersededAt: now } });
+      }
+
+      created.push(await tx.analysisReview.create({
+        data: {
+          vendorCallKey: input.vendorCallKey,
+          field,
+          originalValue,
+          newValue,
+          reviewer: input.reviewer,
+          note: input.note?.trim() || null,
+        },
+      }));
+      update[field] = newValue;
+    }
+
+    await tx.transcriptAnalysis.update({
+      where: { vendorCallKey: input.vendorCallKey },
+      data: { ...update, reviewedAt: now, reviewedBy: input.reviewer },
+    });
+
+    console.log(`📝 [REVIEW] ${input.reviewer} reviewed ${input.vendorCallKey}: ${fields.join(', ')}`);
+    return created.map(toAnalysisReview);
+  });
+}
+
+/**
+ * Review history for one transcript, newest first
+ */
+export async function getReviews(vendorCallKey: string): Promise<AnalysisReview[]> {
+  const rows: AnalysisReviewRow[] = await prisma.analysisReview.findMany({
+    where: { vendorCallKey },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toAnalysisReview);
+}
+
+/**
+ * Keep reviewed labels when a transcript is re-analyzed
+ *
+ * Replaces reviewed fields in a fresh AI result with the reviewer's value.
+ * The review keeps the AI value it was made against.
+ */
+export async function preserveReviewedLabels<T extends Partial<Record<ReviewField, string | null>>>(
+  vendorCallKey: string,
+  analysis: T
+): Promise<T> {
+  const active: Pick<AnalysisReviewRow, 'field' | 'newValue'>[] = await prisma.analysisReview.findMany({
+    where: { vendorCallKey, supersededAt: null },
+    select: { field: true, newValue: true },
+  });
+  if (active.length === 0) return analysis;
+
+  const preserved: Partial<Record<ReviewField, string | null>> = { ...analysis };
+  for (const review of active) {
+    preserved[review.field as ReviewField] = review.newValue;
+  }
+  return preserved as T;
+}
+
+/**
+ * Unreviewed analyses, least certain first (lowest topic confidence, then newest)
+ */
+export async function getReviewQueue(limit: number = 50): Promise<ReviewQueueItem[]> {
+  const rows = await prisma.transcriptAnalysis.findMany({
+    where: { reviewedAt: null },
+    orderBy: [{ topicConfidence: { sort: 'asc', nulls: 'first' } }, { analyzedAt: 'desc' }],
+    take: limit,
+    include: { transcript: { select: { agent_name: true, call_start: true } } },
+  });
+
+  return rows.map((row: {
+    vendorCallKey: string;
+    agentName: string | null;
+    agentSentiment: string | null;
+    customerSentiment: string | null;
+    aiDiscoveredTopic: string | null;
+    topicConfidence: number | null;
+    transcript: { agent_name: string | null; call_start: Date | null } | null;
+  }): ReviewQueueItem => ({
+    vendorCallKey: row.vendorCallKey,
+    agentName: row.agentName || row.transcript?.agent_name || null,
+    callStart: row.transcript?.call_start ? row.transcript.call_start.toISOString() : null,
+    agentSentiment: row.agentSentiment,
+    customerSentiment: row.customerSentiment,
+    aiDiscoveredTopic: row.aiDiscoveredTopic,
+    topicConfidence: row.topicConfidence,
+    reason: row.topicConfidence === null || row.topicConfidence < LOW_CONFIDENCE
+      ? 'low-confidence'
+      : row.customerSentiment === 'negative' ? 'negative' : 'sample',
+  }));
+}
+
+/**
+ * How often reviewers kept the AI label, per field
+ */
+export async function getAgreementMetrics(options: { since?: Date } = {}): Promise<{
+  fields: FieldAgreement[];
+  reviewedTranscripts: number;
+}> {
+  const where = {
+    supersededAt: null,
+    ...(options.since ? { createdAt: { gte: options.since } } : {}),
+  };
+
+  const [rows, reviewedTranscripts]: [Pick<AnalysisReviewRow, 'field' | 'originalValue' | 'newValue'>[], number] =
+    await Promise.all([
+      prisma.analysisReview.findMany({
+        where,
+        select: { field: true, originalValue: true, newValue: true },
+      }),
+      prisma.transcriptAnalysis.count({
+        where: { reviewedAt: options.since ? { gte: options.since } : { not: null } },
+      }),
+    ]);
+
+  const fields = REVIEWABLE_FIELDS.map((field): FieldAgreement => {
+    const reviews = rows.filter((row) => row.field === field);
+    const corrections = new Map<string, { from: string | null; to: string | null; count: number }>();
+    let agreed = 0;
+
+    for (const review of reviews) {
+      if (sameLabel(review.originalValue, review.newValue)) {
+        agreed++;
+        continue;
+      }
+      const key = `${review.originalValue}→${review.newValue}`;
+      const entry = corrections.get(key) || { from: review.originalValue, to: review.newValue, count: 0 };
+      entry.count++;
+      corrections.set(key, entry);
+    }
+
+    return {
+      field,
+      reviewed: reviews.length,
+      agreed,
+      agreementRate: reviews.length > 0 ? Math.round((agreed / reviews.length) * 1000) / 10 : null,
+      topCorrections: Array.from(corrections.values()).sort((a, b) => b.count - a.count).slice(0, 5),
+    };
+  });
+
+  return { fields, reviewedTranscripts };
+}
@@ -0,0 +1,145 @@
+/**
+ * Audit Trail
+ * Append-only record of who viewed which transcripts, exported what, and ran which AI calls
+ *
+ * Transcripts carry loan numbers, names and addresses, so every route that
+ * returns or processes them records an event here. Events are only ever
+ * inserted - there is deliberately no update or delete helper.
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import { getUserEmailFromRequest } from '@/lib/auth/jwt';
+
+export type AuditAction =
+  | 'api.request'          // Any authenticated API call (from middleware)
+  | 'access.denied'        // Role check failed (from middleware)
+  | 'transcript.view'      // Transcript content returned to the client
+  | 'scorecard.view'
+  | 'export.tickets'
+  | 'ai.analyze'
+  | 'ai.call-analysis'
+  | 'ai.sentiment'
+  | 'ai.agent-profile';
+
+export interface AuditEventInput {
+  action: AuditAction;
+  resource: string;
+  resourceIds?: string[];
+  details?: Record<string, unknown>;
+}
+
+export interface AuditEvent {
+  id: string;
+  createdAt: string;
+  actor: string | null;
+  action: string;
+  resource: string;
+  resourceIds: string[];
+  ip: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown> | null;
+}
+
+export interface AuditSearch {
+  actor?: string;         // Partial, case-insensitive match on the email
+  vendorCallKey?: string; // Events that touched this call
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+interface AuditEventRow {
+  id: string;
+  created_at: Date;
+  actor: string | null;
+  action: string;
+  resource: string;
+  resource_ids: string[];
+  ip: string | null;
+  user_agent: string | null;
+  details: Prisma.JsonValue;
+}
+
+// Large listings (e.g. 1000-call drill-downs) keep this many ids per event
+const MAX_RESOURCE_IDS = 1000;
+
+function toAuditEvent(row: AuditEventRow): AuditEvent {
+  return {
+    id: row.id,
+    createdAt: row.created_at.toISOString(),
+    actor: row.actor,
+    action: row.action,
+    resource: row.resource,
+    resourceIds: row.resource_ids,
+    ip: row.ip,
+    userAgent: row.user_agent,
+    details: row.details && typeof row.details === 'object' && !Array.isArray(row.details)
+      ? row.details as Record<string, unknown>
+      : null,
+  };
+}
+
+/**
+ * Client IP from the proxy headers (first hop of x-forwarded-for)
+ */
+export function getClientIp(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return request.headers.get('x-real-ip');
+}
+
+/**
+ * Append an audit event for a request
+ *
+ * Never throws - a failed audit write is logged and must not break the request.
+ */
+export async function recordAuditEvent(request: Request, event: AuditEventInput, actor?: string | null): Promise<void> {
+  try {
+    const resourceIds = (event.resourceIds || []).filter(Boolean);
+
+    await prisma.audit_events.create({
+      data: {
+        actor: actor !== undefined ? actor : getUserEmailFromRequest(request),
+        action: event.action,
+        resource: event.resource,
+        resource_ids: resourceIds.slice(0, MAX_RESOURCE_IDS),
+        ip: getClientIp(request),
+        user_agent: request.headers.get('user-agent'),
+        details: (resourceIds.length > MAX_RESOURCE_IDS
+          ? { ...event.details, resourceIdsTruncated: resourceIds.length }
+          : event.details) as Prisma.InputJsonObject | undefined,
+      },
+    });
+  } catch (error) {
+    console.error(`❌ [AUDIT] Failed to record ${event.action}:`, error);
+  }
+}
+
+/**
+ * Search the audit trail, newest first
+ */
+export async function searchAuditEvents(search: AuditSearch = {}): Promise<{ events: AuditEvent[]; total: number }> {
+  const where: Prisma.audit_eventsWhereInput = {
+    ...(search.actor ? { actor: { contains: search.actor, mode: 'insensitive' } } : {}),
+    ...(search.vendorCallKey ? { resource_ids: { has: search.vendorCallKey } } : {}),
+    ...(search.action ? { action: search.action } : {}),
+    ...(search.from || search.to
+      ? { created_at: { ...(search.from ? { gte: search.from } : {}), ...(search.to ? { lt: search.to } : {}) } }
+      : {}),
+  };
+
+  const [rows, total]: [AuditEventRow[], number] = await Promise.all([
+    prisma.audit_events.findMany({
+      where,
+      orderBy: { created_at: 'desc' },
+      take: search.limit ?? 100,
+      skip: search.offset ?? 0,
+    }),
+    prisma.audit_events.count({ where }),
+  ]);
+
+  return { events: rows.map(toAuditEvent), total };
+}
@@ -0,0 +1,169 @@
+/**
+ * API Keys
+ * Prisma storage for hashed, scoped API keys used by machine clients
+ *
+ * Keys are sent as `Authorization: Bearer sta_...`. Only a SHA-256 hash is
+ * stored; the plaintext key is returned once, when it is created.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '../db';
+import { AUTH_CONFIG } from './config';
+import { API_KEY_SCOPES, isApiKeyScope, type ApiKeyScope } from './roles';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  active: boolean;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: string[];
+  created_by: string | null;
+  created_at: Date;
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  revoked_by: string | null;
+}
+
+const TOUCH_MS = AUTH_CONFIG.API_KEY_TOUCH_MINUTES * 60 * 1000;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function isActive(row: ApiKeyRow, now: number): boolean {
+  return !row.revoked_at && (!row.expires_at || row.expires_at.getTime() > now);
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: row.scopes.filter(isApiKeyScope),
+    createdBy: row.created_by,
+    createdAt: row.created_at.toISOString(),
+    expiresAt: row.expires_at ? row.expires_at.toISOString() : null,
+    lastUsedAt: row.last_used_at ? row.last_used_at.toISOString() : null,
+    revokedAt: row.revoked_at ? row.revoked_at.toISOString() : null,
+    revokedBy: row.revoked_by,
+    active: isActive(row, Date.now()),
+  };
+}
+
+/**
+ * Bearer token from the Authorization header, if any
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Create a key. The returned `key` is the only copy of the plaintext.
+ */
+export async function createApiKey(options: {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date | null;
+  createdBy?: string | null;
+}): Promise<{ key: string; apiKey: ApiKey }> {
+  const key = `${AUTH_CONFIG.API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+  const row: ApiKeyRow = await prisma.api_keys.create({
+    data: {
+      name: options.name,
+      key_prefix: key.slice(0, 12),
+      key_hash: hashKey(key),
+      scopes: API_KEY_SCOPES.filter((scope) => options.scopes.includes(scope)),
+      created_by: options.createdBy || null,
+      expires_at: options.expiresAt || null,
+    },
+  });
+
+  console.log(`[Auth] API key "${row.name}" (${row.key_prefix}…) created by ${options.createdBy || 'unknown'}`);
+  return { key, apiKey: toApiKey(row) };
+}
+
+/**
+ * Look up a live (unrevoked, unexpired) key and record that it was used
+ */
+export async function verifyApiKey(key: string): Promise<ApiKey | null> {
+  if (!key.startsWith(AUTH_CONFIG.API_KEY_PREFIX)) return null;
+
+  const row: ApiKeyRow | null = await prisma.api_keys.findUnique({ where: { key_hash: hashKey(key) } });
+  const now = Date.now();
+
+  if (!row || !isActive(row, now)) {
+    return null;
+  }
+
+  if (!row.last_used_at || row.last_used_at.getTime() < now - TOUCH_MS) {
+    await prisma.api_keys.update({
+      where: { id: row.id },
+      data: { last_used_at: new Date(now) },
+    });
+  }
+
+  return toApiKey(row);
+}
+
+/**
+ * Authorize a cron/machine request: the shared CRON_SECRET (sent by Vercel Cron)
+ * or an API key with the given scope
+ */
+export async function isAuthorizedMachineRequest(request: Request, scope: ApiKeyScope): Promise<boolean> {
+  const token = getBearerToken(request);
+  if (!token) return false;
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && token === cronSecret) return true;
+
+  try {
+    const apiKey = await verifyApiKey(token);
+    return !!apiKey && apiKey.scopes.includes(scope);
+  } catch (error) {
+    console.error('[Auth] API key lookup failed:', error);
+    return false;
+  }
+}
+
+/**
+ * All keys, newest first
+ */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const rows: ApiKeyRow[] = await prisma.api_keys.findMany({ orderBy: { created_at: 'desc' } });
+  return rows.map(toApiKey);
+}
+
+/**
+ * Revoke a key. Returns the revoked key, or null if there was none to revoke.
+ */
+export async function revokeApiKey(id: string, revokedBy: string): Promise<ApiKey | null> {
+  const result = await prisma.api_keys.updateMany({
+    where: { id, revoked_at: null },
+    data: { revoked_at: new Date(), revoked_by: revokedBy },
+  });
+  if (result.count === 0) return null;
+
+  const row: ApiKeyRow | null = await prisma.api_keys.findUnique({ where: { id } });
+  if (!row) return null;
+
+  console.log(`[Auth] API key "${row.name}" (${row.key_prefix}…) revoked by ${revokedBy}`);
+  return toApiKey(row);
+}
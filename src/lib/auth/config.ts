@@ -3,6 +3,8 @@
  * Centralized constants for OTP and session management
  */
 
+import { MAIL_CONFIG } from '../mail/config';
+
 export const AUTH_CONFIG = {
   // OTP Settings
   OTP_LENGTH: 6,                        // 6-digit verification code
@@ -15,6 +17,12 @@ export const AUTH_CONFIG = {
 
   // Session Management
   SESSION_EXPIRY_HOURS: 168,           // JWT expiry (7 days)
+  SESSION_IDLE_HOURS: 12,              // Sliding expiry - sessions unused this long are rejected
+  SESSION_TOUCH_MINUTES: 5,            // How often a session's last-seen time is written
+
+  // API Keys
+  API_KEY_PREFIX: 'sta_',              // Prefix on every generated key
+  API_KEY_TOUCH_MINUTES: 5,            // How often a key's last-used time is written
 
   // Email Domain Restriction
   ALLOWED_DOMAIN: 'cmgfi.com',         // Only @cmgfi.com emails
@@ -23,22 +31,14 @@ export const AUTH_CONFIG = {
   COOKIE_NAME: 'ticket_analysis_auth_token',   // Cookie name for JWT storage
 } as const;
 
-/**
- * Email configuration from environment
- */
-export const EMAIL_CONFIG = {
-  SMTP_HOST: process.env.SMTP_HOST || 'smtp.gmail.com',
-  SMTP_PORT: parseInt(process.env.SMTP_PORT || '587'),
-  SMTP_USER: process.env.SMTP_USER,
-  SMTP_PASS: process.env.SMTP_PASS,
-  FROM_NAME: 'Servicing Ticket Analysis',
-};
-
 /**
  * Validate required environment variables
  */
 export function validateAuthEnv(): { valid: boolean; missing: string[] } {
-  const required = ['JWT_SECRET', 'DATABASE_URL', 'SMTP_USER', 'SMTP_PASS'];
+  const required = ['JWT_SECRET', 'DATABASE_URL'];
+  if (MAIL_CONFIG.TRANSPORT === 'smtp') {
+    required.push('SMTP_USER', 'SMTP_PASS');
+  }
   const missing = required.filter(key => !process.env[key]);
 
   return {
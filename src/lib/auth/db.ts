@@ -159,7 +159,7 @@ export async function incrementRateLimit(email: string): Promise<void> {
 }
 
 /**
- * Clean up expired OTP and rate limit entries
+ * Clean up expired OTP, rate limit and session entries
  * Should be called periodically (e.g., via cron job)
  */
 export async function cleanupExpiredAuth(): Promise<void> {
@@ -180,6 +180,13 @@ export async function cleanupExpiredAuth(): Promise<void> {
         },
       },
     }),
+    prisma.sessions.deleteMany({
+      where: {
+        expires_at: {
+          lt: now,
+        },
+      },
+    }),
   ]);
 
   console.log('[Auth DB] Cleaned up expired entries');
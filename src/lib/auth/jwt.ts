@@ -1,18 +1,27 @@
 /**
  * JWT Token Management
  * Handles creation and verification of JSON Web Tokens for session management
+ *
+ * Every token is backed by a row in the `sessions` table (its `jti`), so it
+ * can be revoked server-side and dies after SESSION_IDLE_HOURS of inactivity.
  */
 
+import { randomUUID } from 'crypto';
 import jwt from 'jsonwebtoken';
+import type { NextRequest } from 'next/server';
 import { AUTH_CONFIG } from './config';
+import { DEFAULT_ROLE, isRole, type Role } from './roles';
+import { createSession, touchSession, type SessionMeta } from './sessions';
 
 /**
  * Session data stored in JWT
  */
 export interface AuthSession {
   email: string;
+  role: Role;
   issuedAt: number;
   expiresAt: number;
+  jti: string;          // Session id in the sessions table
 }
 
 /**
@@ -24,9 +33,9 @@ export function isValidCMGEmail(email: string): boolean {
 }
 
 /**
- * Create a signed JWT token for authenticated session
+ * Create a signed JWT token for authenticated session, backed by a new sessions row
  */
-export function createAuthToken(email: string): string {
+export async function createAuthToken(email: string, role: Role = DEFAULT_ROLE, meta: SessionMeta = {}): Promise<string> {
   const jwtSecret = process.env.JWT_SECRET;
 
   if (!jwtSecret) {
@@ -35,22 +44,30 @@ export function createAuthToken(email: string): string {
 
   const now = Date.now();
   const expiryMs = AUTH_CONFIG.SESSION_EXPIRY_HOURS * 60 * 60 * 1000;
+  const jti = randomUUID();
 
-  const session: AuthSession = {
+  await createSession(jti, email, new Date(now + expiryMs), meta);
+
+  const session: Omit<AuthSession, 'jti'> = {
     email,
+    role,
     issuedAt: now,
     expiresAt: now + expiryMs,
   };
 
   return jwt.sign(session, jwtSecret, {
     expiresIn: `${AUTH_CONFIG.SESSION_EXPIRY_HOURS}h`,
+    jwtid: jti,
   });
 }
 
 /**
- * Verify JWT token and return session data
+ * Check a JWT's signature and expiry without touching the database
+ *
+ * Only safe behind the middleware, which has already run verifyAuthToken
+ * for the request.
  */
-export function verifyAuthToken(token: string): AuthSession | null {
+export function decodeAuthToken(token: string): AuthSession | null {
   const jwtSecret = process.env.JWT_SECRET;
 
   if (!jwtSecret) {
@@ -67,6 +84,17 @@ export function verifyAuthToken(token: string): AuthSession | null {
       return null;
     }
 
+    // Tokens issued before server-side sessions cannot be revoked, so they are not accepted
+    if (!decoded.jti) {
+      console.log('[Auth] Token has no session id:', decoded.email);
+      return null;
+    }
+
+    // Tokens issued before roles existed carry no role
+    if (!isRole(decoded.role)) {
+      decoded.role = DEFAULT_ROLE;
+    }
+
     return decoded;
   } catch (error) {
     console.error('[Auth] Token verification failed:', error);
@@ -74,6 +102,38 @@ export function verifyAuthToken(token: string): AuthSession | null {
   }
 }
 
+/**
+ * Verify JWT token and its server-side session, and return session data
+ *
+ * Rejects tokens whose session was revoked or has been idle longer than
+ * SESSION_IDLE_HOURS; otherwise slides the session's last-seen time forward.
+ */
+export async function verifyAuthToken(token: string): Promise<AuthSession | null> {
+  const session = decodeAuthToken(token);
+  if (!session) return null;
+
+  try {
+    if (!await touchSession(session.jti)) {
+      console.log('[Auth] Session revoked or idle:', session.email);
+      return null;
+    }
+    return session;
+  } catch (error) {
+    console.error('[Auth] Session lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Session for an API request, from the auth cookie (null if missing or invalid)
+ *
+ * The middleware has already checked the session is live, so this only decodes the token.
+ */
+export function getRequestSession(request: NextRequest): AuthSession | null {
+  const token = request.cookies.get(AUTH_CONFIG.COOKIE_NAME)?.value;
+  return token ? decodeAuthToken(token) : null;
+}
+
 /**
  * Extract email username (before @)
  */
@@ -101,8 +161,8 @@ export function getUserEmailFromRequest(request: Request): string | null {
     const token = cookies[AUTH_CONFIG.COOKIE_NAME];
     if (!token) return null;
 
-    // Verify token and extract email
-    const session = verifyAuthToken(token);
+    // Decode token and extract email (the middleware has already verified the session)
+    const session = decodeAuthToken(token);
     return session?.email || null;
   } catch (error) {
     console.error('[Auth] Error getting user email from request:', error);
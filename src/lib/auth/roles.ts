@@ -0,0 +1,160 @@
+/**
+ * Role-Based Access Control
+ * Roles, their ordering, and the minimum role each protected route needs,
+ * plus the scope an API key needs for each machine-accessible route
+ */
+
+// Lowest to highest - each role can do everything the roles before it can.
+// 'agent' is the exception: agents only reach AGENT_ROUTES, scoped to their own calls.
+export const ROLES = ['agent', 'viewer', 'qa', 'supervisor', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const DEFAULT_ROLE: Role = 'viewer';
+
+interface RouteRule {
+  path: string;                          // Path prefix
+  role: Role;                            // Minimum role
+  methods?: string[];                    // Only these HTTP methods (default: all)
+  params?: string[];                     // Only when one of these query params is set
+  type?: string;                         // Only for this ?type= value
+  query?: QueryMatch;                    // Only when a query param has this value
+}
+
+interface QueryMatch {
+  param: string;
+  value: string;
+  isDefault?: boolean;                   // The route uses `value` when the param is missing
+}
+
+function matchesQuery(match: QueryMatch, searchParams: URLSearchParams): boolean {
+  return (searchParams.get(match.param) || (match.isDefault ? match.value : '')) === match.value;
+}
+
+/**
+ * Minimum role per route. Routes without a rule are open to every signed-in user.
+ */
+export const ROUTE_RULES: RouteRule[] = [
+  // Data loading and sync control
+  { path: '/api/backfill', role: 'admin' },
+  { path: '/api/ingest-v2', role: 'admin' },
+  { path: '/api/ingest', role: 'admin' },
+  { path: '/api/tickets/recategorize', role: 'admin' },
+  { path: '/api/taxonomy', role: 'admin' },
+  { path: '/api/sync/manual', role: 'admin' },
+  { path: '/api/analysis-jobs', role: 'admin' },
+  { path: '/api/users', role: 'admin' },
+  { path: '/api/audit-events', role: 'admin' },
+  { path: '/api/sessions', role: 'admin' },
+  { path: '/api/api-keys', role: 'admin' },
+
+  // Agent-level drill-downs
+  { path: '/api/agent-profile', role: 'supervisor' },
+  { path: '/api/transcript-analytics', role: 'supervisor', type: 'agents' },
+  { path: '/api/transcript-analytics', role: 'supervisor', params: ['agent'] },
+  { path: '/api/sentiment/drops', role: 'supervisor', query: { param: 'groupBy', value: 'agent', isDefault: true } },
+
+  // Overriding AI labels
+  { path: '/api/analysis-reviews', role: 'qa', methods: ['POST'] },
+
+  // Another agent's scorecards
+  { path: '/api/call-scorecards', role: 'supervisor', params: ['agentEmail'] },
+];
+
+/**
+ * Everything an agent can reach. Data routes here must scope results to the
+ * agent's own calls (see lib/auth/scope.ts). Paths ending in '/' match as prefixes.
+ */
+export const AGENT_ROUTES = [
+  '/',
+  '/api/auth/',
+  '/api/transcript-analytics',
+  '/api/call-analysis',
+  '/api/sentiment',
+  '/api/call-scorecards',
+];
+
+export const API_KEY_SCOPES = ['ingest:write', 'analytics:read', 'sync:run'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+interface ScopeRule {
+  path: string;                          // Path prefix
+  scope: ApiKeyScope;
+  methods: string[];
+}
+
+/**
+ * Routes reachable with an API key and the scope each needs. Everything else
+ * rejects API keys. Cron routes check keys themselves (see lib/auth/api-keys.ts).
+ */
+export const SCOPE_RULES: ScopeRule[] = [
+  // Loading data
+  { path: '/api/ingest-v2', scope: 'ingest:write', methods: ['POST'] },
+  { path: '/api/ingest', scope: 'ingest:write', methods: ['POST'] },
+  { path: '/api/backfill', scope: 'ingest:write', methods: ['POST'] },
+  { path: '/api/tickets/recategorize', scope: 'ingest:write', methods: ['GET', 'POST'] },
+
+  // Reading analytics
+  { path: '/api/transcript-analytics', scope: 'analytics:read', methods: ['GET'] },
+  { path: '/api/transcripts', scope: 'analytics:read', methods: ['GET'] },
+  { path: '/api/analytics', scope: 'analytics:read', methods: ['GET'] },
+  { path: '/api/stats', scope: 'analytics:read', methods: ['GET'] },
+  { path: '/api/tickets', scope: 'analytics:read', methods: ['GET'] },
+  { path: '/api/sla', scope: 'analytics:read', methods: ['GET'] },
+  { path: '/api/sentiment/drops', scope: 'analytics:read', methods: ['GET'] },
+  { path: '/api/analysis-reviews', scope: 'analytics:read', methods: ['GET'] },
+  { path: '/api/call-scorecards', scope: 'analytics:read', methods: ['GET'] },
+  { path: '/api/sync/runs', scope: 'analytics:read', methods: ['GET'] },
+
+  // Running syncs
+  { path: '/api/sync/manual', scope: 'sync:run', methods: ['POST'] },
+];
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Scope an API key needs for a request, or null when API keys cannot reach the route
+ */
+export function requiredScope(pathname: string, method: string): ApiKeyScope | null {
+  const rule = SCOPE_RULES.find((candidate) =>
+    (pathname === candidate.path || pathname.startsWith(`${candidate.path}/`)) && candidate.methods.includes(method)
+  );
+  return rule ? rule.scope : null;
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a user with `role` meets the `required` minimum
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+function isAgentRoute(pathname: string): boolean {
+  return AGENT_ROUTES.some((route) => (route.endsWith('/') && route !== '/' ? pathname.startsWith(route) : pathname === route));
+}
+
+/**
+ * Strictest role required for a request, or null when any signed-in user may access it
+ */
+export function requiredRole(pathname: string, method: string, searchParams: URLSearchParams): Role | null {
+  let required: Role | null = isAgentRoute(pathname) ? null : 'viewer';
+
+  for (const rule of ROUTE_RULES) {
+    if (pathname !== rule.path && !pathname.startsWith(`${rule.path}/`)) continue;
+    if (rule.methods && !rule.methods.includes(method)) continue;
+    if (rule.type && searchParams.get('type') !== rule.type) continue;
+    if (rule.params && !rule.params.some((param) => searchParams.get(param))) continue;
+    if (rule.query && !matchesQuery(rule.query, searchParams)) continue;
+
+    if (!required || hasRole(rule.role, required)) {
+      required = rule.role;
+    }
+  }
+
+  return required;
+}
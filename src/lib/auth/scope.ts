@@ -0,0 +1,47 @@
+/**
+ * Row-Level Scoping
+ * Limits agent sessions to their own calls (matched on transcripts.agent_email)
+ */
+
+import type { NextRequest } from 'next/server';
+import { prisma } from '../db';
+import { getRequestSession } from './jwt';
+
+/**
+ * Agent email to scope a request to, or null for roles that see every call
+ */
+export function getAgentScope(request: NextRequest): string | null {
+  const session = getRequestSession(request);
+  return session?.role === 'agent' ? session.email.toLowerCase() : null;
+}
+
+/**
+ * Prisma filter on `transcripts` for the scope (empty when unscoped)
+ */
+export function scopeTranscriptWhere(agentEmail: string | null): { agent_email?: { equals: string; mode: 'insensitive' } } {
+  return agentEmail ? { agent_email: { equals: agentEmail, mode: 'insensitive' } } : {};
+}
+
+/**
+ * Whether a call is visible within the scope
+ */
+export async function canAccessCall(agentEmail: string | null, vendorCallKey: string | undefined): Promise<boolean> {
+  if (!agentEmail) return true;
+  if (!vendorCallKey) return false;
+
+  const count = await prisma.transcripts.count({
+    where: { vendor_call_key: vendorCallKey, ...scopeTranscriptWhere(agentEmail) },
+  });
+  return count > 0;
+}
+
+/**
+ * Whether any transcript lists this email as its agent
+ */
+export async function isKnownAgent(email: string): Promise<boolean> {
+  const count = await prisma.transcripts.count({
+    where: scopeTranscriptWhere(email),
+    take: 1,
+  });
+  return count > 0;
+}
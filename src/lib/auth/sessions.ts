@@ -0,0 +1,149 @@
+/**
+ * Server-Side Sessions
+ * Prisma storage for signed-in sessions, so tokens can be revoked before they expire
+ */
+
+import { prisma } from '../db';
+import { AUTH_CONFIG } from './config';
+
+export interface SessionMeta {
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+export interface UserSession {
+  id: string;
+  email: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  active: boolean;
+}
+
+interface SessionRow {
+  id: string;
+  email: string;
+  created_at: Date;
+  last_seen_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoked_by: string | null;
+  user_agent: string | null;
+  ip: string | null;
+}
+
+const IDLE_MS = AUTH_CONFIG.SESSION_IDLE_HOURS * 60 * 60 * 1000;
+const TOUCH_MS = AUTH_CONFIG.SESSION_TOUCH_MINUTES * 60 * 1000;
+
+function isActive(row: SessionRow, now: number): boolean {
+  return !row.revoked_at
+    && row.expires_at.getTime() > now
+    && row.last_seen_at.getTime() > now - IDLE_MS;
+}
+
+function toUserSession(row: SessionRow): UserSession {
+  return {
+    id: row.id,
+    email: row.email,
+    createdAt: row.created_at.toISOString(),
+    lastSeenAt: row.last_seen_at.toISOString(),
+    expiresAt: row.expires_at.toISOString(),
+    revokedAt: row.revoked_at ? row.revoked_at.toISOString() : null,
+    revokedBy: row.revoked_by,
+    userAgent: row.user_agent,
+    ip: row.ip,
+    active: isActive(row, Date.now()),
+  };
+}
+
+/**
+ * Store a new session (id is the token's jti)
+ */
+export async function createSession(id: string, email: string, expiresAt: Date, meta: SessionMeta = {}): Promise<void> {
+  await prisma.sessions.create({
+    data: {
+      id,
+      email,
+      expires_at: expiresAt,
+      user_agent: meta.userAgent || null,
+      ip: meta.ip || null,
+    },
+  });
+}
+
+/**
+ * Whether a session is still live: not revoked, not expired, and used within
+ * SESSION_IDLE_HOURS. Live sessions have their last-seen time slid forward.
+ */
+export async function touchSession(id: string): Promise<boolean> {
+  const row: SessionRow | null = await prisma.sessions.findUnique({ where: { id } });
+  const now = Date.now();
+
+  if (!row || !isActive(row, now)) {
+    return false;
+  }
+
+  if (row.last_seen_at.getTime() < now - TOUCH_MS) {
+    await prisma.sessions.update({
+      where: { id },
+      data: { last_seen_at: new Date(now) },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Revoke one session. Returns the revoked session, or null if there was none.
+ * When `email` is given, only that user's session can be revoked.
+ */
+export async function revokeSession(id: string, revokedBy: string, email?: string): Promise<UserSession | null> {
+  const result = await prisma.sessions.updateMany({
+    where: { id, revoked_at: null, ...(email ? { email } : {}) },
+    data: { revoked_at: new Date(), revoked_by: revokedBy },
+  });
+  if (result.count === 0) return null;
+
+  // The row can be gone if expired-session cleanup ran in between
+  const row: SessionRow | null = await prisma.sessions.findUnique({ where: { id } });
+  if (!row) return null;
+
+  console.log(`[Auth] Session ${id} for ${row.email} revoked by ${revokedBy}`);
+  return toUserSession(row);
+}
+
+/**
+ * Revoke every live session for a user ("sign out everywhere"). Returns how many were revoked.
+ */
+export async function revokeUserSessions(email: string, revokedBy: string): Promise<number> {
+  const result = await prisma.sessions.updateMany({
+    where: { email, revoked_at: null, expires_at: { gt: new Date() } },
+    data: { revoked_at: new Date(), revoked_by: revokedBy },
+  });
+
+  console.log(`[Auth] ${result.count} session(s) for ${email} revoked by ${revokedBy}`);
+  return result.count;
+}
+
+/**
+ * Sessions newest first, optionally for one user and/or only the live ones
+ */
+export async function listSessions(options: { email?: string; activeOnly?: boolean; limit?: number } = {}): Promise<UserSession[]> {
+  const now = new Date();
+  const rows: SessionRow[] = await prisma.sessions.findMany({
+    where: {
+      ...(options.email ? { email: options.email } : {}),
+      ...(options.activeOnly
+        ? { revoked_at: null, expires_at: { gt: now }, last_seen_at: { gt: new Date(now.getTime() - IDLE_MS) } }
+        : {}),
+    },
+    orderBy: { last_seen_at: 'desc' },
+    take: options.limit ?? 200,
+  });
+
+  return rows.map(toUserSession);
+}
@@ -0,0 +1,104 @@
+/**
+ * User Roles
+ * Prisma storage for dashboard users and their RBAC role
+ */
+
+import { prisma } from '../db';
+import { DEFAULT_ROLE, ROLES, isRole, type Role } from './roles';
+import { isKnownAgent } from './scope';
+import { revokeUserSessions } from './sessions';
+
+export interface DashboardUser {
+  email: string;
+  role: Role;
+  createdAt: string;
+  lastLoginAt: string | null;
+}
+
+interface UserRow {
+  email: string;
+  role: string;
+  created_at: Date;
+  last_login_at: Date | null;
+}
+
+function toDashboardUser(row: UserRow): DashboardUser {
+  return {
+    email: row.email,
+    role: isRole(row.role) ? row.role : DEFAULT_ROLE,
+    createdAt: row.created_at.toISOString(),
+    lastLoginAt: row.last_login_at ? row.last_login_at.toISOString() : null,
+  };
+}
+
+/**
+ * Emails listed in ADMIN_EMAILS (comma-separated) are made admins on sign-in,
+ * so a fresh deployment always has someone who can assign roles
+ */
+function isBootstrapAdmin(email: string): boolean {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .includes(email);
+}
+
+/**
+ * Record a sign-in and return the user's role.
+ * New users start as agent when their email appears on transcripts, otherwise viewer.
+ */
+export async function recordLogin(email: string): Promise<Role> {
+  const bootstrap = isBootstrapAdmin(email);
+  const existing = await prisma.users.findUnique({ where: { email }, select: { role: true } });
+
+  let initialRole: Role = DEFAULT_ROLE;
+  if (bootstrap) initialRole = 'admin';
+  else if (!existing && await isKnownAgent(email)) initialRole = 'agent';
+
+  const user: UserRow = await prisma.users.upsert({
+    where: { email },
+    create: {
+      email,
+      role: initialRole,
+      last_login_at: new Date(),
+    },
+    update: {
+      last_login_at: new Date(),
+      ...(bootstrap ? { role: 'admin' } : {}),
+    },
+  });
+
+  return isRole(user.role) ? user.role : DEFAULT_ROLE;
+}
+
+/**
+ * All users, highest role first
+ */
+export async function listUsers(): Promise<DashboardUser[]> {
+  const rows: UserRow[] = await prisma.users.findMany({ orderBy: { email: 'asc' } });
+  return rows
+    .map(toDashboardUser)
+    .sort((a, b) => ROLES.indexOf(b.role) - ROLES.indexOf(a.role));
+}
+
+/**
+ * Set a user's role, creating the user if they have not signed in yet.
+ * The role is embedded in the session JWT, so a change revokes the user's
+ * live sessions and they sign in again with the new role.
+ */
+export async function setUserRole(email: string, role: Role, changedBy: string): Promise<DashboardUser> {
+  const existing = await prisma.users.findUnique({ where: { email }, select: { role: true } });
+
+  const row: UserRow = await prisma.users.upsert({
+    where: { email },
+    create: { email, role },
+    update: { role },
+  });
+
+  console.log(`[Auth] Role for ${email} set to ${role} by ${changedBy}`);
+
+  if (existing && existing.role !== role) {
+    await revokeUserSessions(email, changedBy);
+  }
+
+  return toDashboardUser(row);
+}
@@ -0,0 +1,129 @@
+/**
+ * Call Scorecard Cache
+ * Stores each /api/call-analysis result so a transcript is only scored once per prompt version
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import { callAnalysisSchema, validate, type CallAnalysis } from '@/lib/llm';
+
+// Bump when the call-analysis prompt changes in a way that should invalidate stored scorecards
+export const CALL_ANALYSIS_PROMPT_VERSION = 'v1';
+
+export interface StoredScorecard {
+  analysis: CallAnalysis;
+  promptVersion: string;
+  model: string | null;
+  generatedAt: string;
+}
+
+interface CallScorecardRow {
+  analysis: Prisma.JsonValue;
+  promptVersion: string;
+  model: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * Check a stored analysis against callAnalysisSchema; null if it no longer fits
+ */
+function parseAnalysis(analysis: Prisma.JsonValue): CallAnalysis | null {
+  const { value, errors } = validate(callAnalysisSchema, analysis);
+  return value && errors.length === 0 ? value : null;
+}
+
+function toStoredScorecard(row: CallScorecardRow): StoredScorecard | null {
+  const analysis = parseAnalysis(row.analysis);
+  if (!analysis) return null;
+
+  return {
+    analysis,
+    promptVersion: row.promptVersion,
+    model: row.model,
+    generatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Stored scorecard for a transcript, or null if it has not been scored with
+ * this prompt version (or the stored analysis no longer fits the schema)
+ */
+export async function getScorecard(
+  vendorCallKey: string,
+  promptVersion: string = CALL_ANALYSIS_PROMPT_VERSION
+): Promise<StoredScorecard | null> {
+  const row: CallScorecardRow | null = await prisma.callScorecard.findUnique({
+    where: { vendorCallKey_promptVersion: { vendorCallKey, promptVersion } },
+  });
+
+  return row ? toStoredScorecard(row) : null;
+}
+
+/**
+ * Save (or replace) the scorecard for a transcript
+ */
+export async function saveScorecard(
+  vendorCallKey: string,
+  analysis: CallAnalysis,
+  model: string,
+  promptVersion: string = CALL_ANALYSIS_PROMPT_VERSION
+): Promise<StoredScorecard> {
+  const data = {
+    analysis: analysis as unknown as Prisma.InputJsonValue,
+    model,
+    overallCallImpact: analysis.overallScores.overallCallImpact,
+  };
+
+  const row: CallScorecardRow = await prisma.callScorecard.upsert({
+    where: { vendorCallKey_promptVersion: { vendorCallKey, promptVersion } },
+    create: { vendorCallKey, promptVersion, ...data },
+    update: data,
+  });
+
+  return { analysis, promptVersion, model: row.model, generatedAt: row.updatedAt.toISOString() };
+}
+
+export interface AgentScorecardSummary {
+  vendorCallKey: string;
+  callStart: string | null;
+  overallScores: CallAnalysis['overallScores'];
+  overview: string;
+  coachingNotes: CallAnalysis['agentSummary'];
+  agentFollowUps: string[];
+  generatedAt: string;
+}
+
+/**
+ * Most recent scorecards for one agent's calls (matched on transcripts.agent_email)
+ */
+export async function listAgentScorecards(agentEmail: string, limit: number = 20): Promise<AgentScorecardSummary[]> {
+  const rows: (CallScorecardRow & {
+    vendorCallKey: string;
+    transcript: { call_start: Date | null } | null;
+  })[] = await prisma.callScorecard.findMany({
+    where: {
+      promptVersion: CALL_ANALYSIS_PROMPT_VERSION,
+      transcript: { agent_email: { equals: agentEmail, mode: 'insensitive' } },
+    },
+    include: { transcript: { select: { call_start: true } } },
+    orderBy: { updatedAt: 'desc' },
+    take: limit,
+  });
+
+  return rows.flatMap((row) => {
+    const analysis = parseAnalysis(row.analysis);
+    if (!analysis) return [];
+
+    return [{
+      vendorCallKey: row.vendorCallKey,
+      callStart: row.transcript?.call_start ? row.transcript.call_start.toISOString() : null,
+      overallScores: analysis.overallScores,
+      overview: analysis.executiveSummary.overview,
+      coachingNotes: analysis.agentSummary,
+      agentFollowUps: analysis.followUpItems
+        .filter((item) => item.party === 'Agent')
+        .map((item) => item.action),
+      generatedAt: row.updatedAt.toISOString(),
+    }];
+  });
+}
@@ -0,0 +1,415 @@
+/**
+ * Categorization Backtest
+ * Scores the keyword engine (categorizeText / detectAllIssues) under one or
+ * two taxonomy versions, and the stored AI aiDiscoveredTopic, against a
+ * labeled evaluation set: per-category precision / recall and confusion
+ * matrices, plus what changed between the two taxonomy versions
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import prisma from '@/lib/db';
+import { categorizeText, detectAllIssues } from '@/lib/categorization';
+import { labelsMatch, normalizeLabel } from '@/lib/prompt-eval';
+import { getActiveTaxonomy, getDraftTaxonomy, getTaxonomy, type Taxonomy } from '@/lib/taxonomy';
+
+export const DEFAULT_CATEGORY_EVAL_SET_PATH = 'data/fixtures/category-eval-set.json';
+
+/**
+ * One labeled example. Give the text inline, or a ticketKey / vendorCallKey
+ * to load it from the tickets / transcripts table. The AI engine is scored on
+ * items with a vendorCallKey that has a TranscriptAnalysis row.
+ */
+export interface CategoryEvalItem {
+  id: string;
+  title?: string;                    // Ticket title
+  text?: string;                     // Ticket description or transcript text
+  ticketKey?: string;
+  vendorCallKey?: string;
+  expected: {
+    category: string;
+    issues?: string[];               // Every category mentioned, for detectAllIssues
+    topic?: string;                  // AI topic label, when it differs from category
+  };
+}
+
+export interface CategoryMetrics {
+  label: string;
+  support: number;                   // Items expected to have this label
+  predicted: number;
+  truePositives: number;
+  precision: number | null;          // %
+  recall: number | null;             // %
+  f1: number | null;                 // %
+}
+
+export interface ConfusionMatrix {
+  labels: string[];                  // Row (expected) and column (predicted) order
+  counts: number[][];                // counts[expected][predicted]
+}
+
+export interface EngineReport {
+  engine: string;                    // "keywords v3", "keywords v0 issues", "ai"
+  evaluated: number;
+  missing: number;                   // Items this engine had no input or prediction for
+  accuracy: number | null;           // %
+  macroPrecision: number | null;
+  macroRecall: number | null;
+  categories: CategoryMetrics[];
+  confusion: ConfusionMatrix | null; // Single-label engines only
+}
+
+export interface CategoryEvalItemResult {
+  id: string;
+  expected: CategoryEvalItem['expected'];
+  predictions: Record<string, string | string[] | null>;   // Engine -> label(s)
+}
+
+export interface TaxonomyDiff {
+  from: number;
+  to: number;
+  categories: {
+    label: string;
+    precision: number | null;        // Change in percentage points, to - from
+    recall: number | null;
+    f1: number | null;
+  }[];
+  regressedCategories: string[];     // Precision or recall dropped
+  fixed: { id: string; expected: string; from: string; to: string }[];
+  regressed: { id: string; expected: string; from: string; to: string }[];
+}
+
+export interface CategoryEvalReport {
+  taxonomies: { version: number; rulesVersion: string; status: string }[];
+  sampleSize: number;
+  engines: EngineReport[];
+  diff: TaxonomyDiff | null;
+  items: CategoryEvalItemResult[];
+}
+
+// Input text per item, after loading referenced tickets and transcripts
+interface ResolvedItem {
+  item: CategoryEvalItem;
+  title: string;
+  text: string;
+  aiTopic: string | null;
+}
+
+function percent(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : null;
+}
+
+function average(values: (number | null)[]): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? Math.round((known.reduce((sum, value) => sum + value, 0) / known.length) * 10) / 10 : null;
+}
+
+function toMetrics(label: string, support: number, predicted: number, truePositives: number): CategoryMetrics {
+  const precision = percent(truePositives, predicted);
+  const recall = percent(truePositives, support);
+  return {
+    label,
+    support,
+    predicted,
+    truePositives,
+    precision,
+    recall,
+    f1: precision !== null && recall !== null && precision + recall > 0
+      ? Math.round(((2 * precision * recall) / (precision + recall)) * 10) / 10
+      : null,
+  };
+}
+
+function delta(to: number | null, from: number | null): number | null {
+  return to === null || from === null ? null : Math.round((to - from) * 10) / 10;
+}
+
+/**
+ * Read an evaluation set file (a JSON array of CategoryEvalItem)
+ *
+ * Paths are resolved against the project root and must stay inside data/.
+ */
+export async function loadCategoryEvalSet(filePath: string = DEFAULT_CATEGORY_EVAL_SET_PATH): Promise<CategoryEvalItem[]> {
+  const dataDir = path.resolve(process.cwd(), 'data');
+  const resolved = path.resolve(process.cwd(), filePath);
+  if (!resolved.startsWith(dataDir + path.sep)) {
+    throw new Error('Evaluation set must be a file under data/');
+  }
+
+  const items = JSON.parse(await fs.readFile(resolved, 'utf-8'));
+  if (!Array.isArray(items)) {
+    throw new Error('Evaluation set must be a JSON array');
+  }
+
+  items.forEach((item, index) => {
+    if (!item?.id || !item?.expected?.category) {
+      throw new Error(`Item ${index + 1}: id and expected.category are required`);
+    }
+    if (!item.text && !item.title && !item.ticketKey && !item.vendorCallKey) {
+      throw new Error(`Item ${item.id}: needs title/text, a ticketKey or a vendorCallKey`);
+    }
+  });
+  return items as CategoryEvalItem[];
+}
+
+/**
+ * Taxonomy by version number, or "active" / "draft"
+ */
+export async function resolveTaxonomy(version: string): Promise<Taxonomy | null> {
+  if (version === 'active') return getActiveTaxonomy();
+  if (version === 'draft') return getDraftTaxonomy();
+  const number = parseInt(version);
+  return isNaN(number) ? null : getTaxonomy(number);
+}
+
+/**
+ * Load the text of items that reference a ticket or transcript, and the
+ * stored AI topic of every transcript item
+ */
+async function resolveItems(items: CategoryEvalItem[]): Promise<ResolvedItem[]> {
+  const ticketKeys = items.filter((item) => item.ticketKey && !item.text && !item.title).map((item) => item.ticketKey!);
+  const callKeys = items.filter((item) => item.vendorCallKey).map((item) => item.vendorCallKey!);
+
+  const [tickets, transcripts, analyses]: [
+    { ticketKey: string; ticketTitle: string | null; ticketDescription: string | null }[],
+    { vendor_call_key: string; messages: unknown }[],
+    { vendorCallKey: string; aiDiscoveredTopic: string | null }[],
+  ] = await Promise.all([
+    ticketKeys.length > 0
+      ? prisma.ticket.findMany({
+          where: { ticketKey: { in: ticketKeys } },
+          select: { ticketKey: true, ticketTitle: true, ticketDescription: true },
+        })
+      : [],
+    callKeys.length > 0
+      ? prisma.transcripts.findMany({
+          where: { vendor_call_key: { in: callKeys } },
+          select: { vendor_call_key: true, messages: true },
+        })
+      : [],
+    callKeys.length > 0
+      ? prisma.transcriptAnalysis.findMany({
+          where: { vendorCallKey: { in: callKeys } },
+          select: { vendorCallKey: true, aiDiscoveredTopic: true },
+        })
+      : [],
+  ]);
+
+  const ticketsByKey = new Map(tickets.map((ticket) => [ticket.ticketKey, ticket]));
+  const transcriptText = new Map(transcripts.map((transcript) => {
+    const messages = Array.isArray(transcript.messages) ? (transcript.messages as { text?: string }[]) : [];
+    return [transcript.vendor_call_key, messages.map((message) => message.text || '').join('\n')];
+  }));
+  const aiTopics = new Map(analyses.map((analysis) => [analysis.vendorCallKey, analysis.aiDiscoveredTopic]));
+
+  return items.map((item) => {
+    const ticket = item.ticketKey ? ticketsByKey.get(item.ticketKey) : undefined;
+    return {
+      item,
+      title: item.title ?? ticket?.ticketTitle ?? '',
+      text: item.text ?? ticket?.ticketDescription ?? (item.vendorCallKey ? transcriptText.get(item.vendorCallKey) : '') ?? '',
+      aiTopic: item.vendorCallKey ? aiTopics.get(item.vendorCallKey) ?? null : null,
+    };
+  });
+}
+
+/**
+ * Score single-label predictions. Labels are compared ignoring case and
+ * punctuation; the expected label's spelling is used in the report.
+ */
+function scoreSingleLabel(
+  engine: string,
+  pairs: { expected: string; predicted: string | null }[],
+  total: number
+): EngineReport {
+  const scored = pairs.filter((pair): pair is { expected: string; predicted: string } => pair.predicted !== null);
+
+  // One display name per normalized label, preferring the expected spelling
+  const names = new Map<string, string>();
+  scored.forEach(({ expected }) => names.set(normalizeLabel(expected), names.get(normalizeLabel(expected)) || expected));
+  scored.forEach(({ predicted }) => names.set(normalizeLabel(predicted), names.get(normalizeLabel(predicted)) || predicted));
+  const keys = Array.from(names.keys()).sort((a, b) => names.get(a)!.localeCompare(names.get(b)!));
+
+  const index = new Map(keys.map((key, i) => [key, i]));
+  const counts = keys.map(() => keys.map(() => 0));
+  scored.forEach(({ expected, predicted }) => {
+    counts[index.get(normalizeLabel(expected))!][index.get(normalizeLabel(predicted))!]++;
+  });
+
+  const categories = keys.map((key, i) => toMetrics(
+    names.get(key)!,
+    counts[i].reduce((sum, count) => sum + count, 0),
+    counts.reduce((sum, row) => sum + row[i], 0),
+    counts[i][i]
+  ));
+
+  const expectedLabels = categories.filter((category) => category.support > 0);
+  return {
+    engine,
+    evaluated: scored.length,
+    missing: total - scored.length,
+    accuracy: percent(scored.filter(({ expected, predicted }) => labelsMatch(expected, predicted)).length, scored.length),
+    macroPrecision: average(expectedLabels.map((category) => category.precision)),
+    macroRecall: average(expectedLabels.map((category) => category.recall)),
+    categories,
+    confusion: { labels: keys.map((key) => names.get(key)!), counts },
+  };
+}
+
+/**
+ * Score multi-label predictions (detectAllIssues) per category
+ */
+function scoreMultiLabel(
+  engine: string,
+  pairs: { expected: string[]; predicted: string[] }[],
+  total: number
+): EngineReport {
+  const names = new Map<string, string>();
+  pairs.forEach(({ expected, predicted }) => {
+    [...expected, ...predicted].forEach((label) => names.set(normalizeLabel(label), names.get(normalizeLabel(label)) || label));
+  });
+
+  const categories = Array.from(names.entries()).map(([key, label]) => {
+    let support = 0;
+    let predicted = 0;
+    let truePositives = 0;
+    pairs.forEach((pair) => {
+      const isExpected = pair.expected.some((value) => normalizeLabel(value) === key);
+      const isPredicted = pair.predicted.some((value) => normalizeLabel(value) === key);
+      if (isExpected) support++;
+      if (isPredicted) predicted++;
+      if (isExpected && isPredicted) truePositives++;
+    });
+    return toMetrics(label, support, predicted, truePositives);
+  }).sort((a, b) => a.label.localeCompare(b.label));
+
+  const exact = pairs.filter(({ expected, predicted }) => {
+    const want = new Set(expected.map(normalizeLabel));
+    const got = new Set(predicted.map(normalizeLabel));
+    return want.size === got.size && Array.from(want).every((label) => got.has(label));
+  });
+
+  const expectedLabels = categories.filter((category) => category.support > 0);
+  return {
+    engine,
+    evaluated: pairs.length,
+    missing: total - pairs.length,
+    accuracy: percent(exact.length, pairs.length),   // Exact set match
+    macroPrecision: average(expectedLabels.map((category) => category.precision)),
+    macroRecall: average(expectedLabels.map((category) => category.recall)),
+    categories,
+    confusion: null,
+  };
+}
+
+function diffTaxonomies(
+  from: { taxonomy: Taxonomy; report: EngineReport },
+  to: { taxonomy: Taxonomy; report: EngineReport },
+  resolved: ResolvedItem[],
+  predictions: Map<string, Record<string, string | string[] | null>>
+): TaxonomyDiff {
+  const fromEngine = from.report.engine;
+  const toEngine = to.report.engine;
+  const labels = Array.from(new Set([...from.report.categories, ...to.report.categories].map((category) => category.label)));
+
+  const categories = labels.map((label) => {
+    const before = from.report.categories.find((category) => labelsMatch(category.label, label));
+    const after = to.report.categories.find((category) => labelsMatch(category.label, label));
+    return {
+      label,
+      precision: delta(after?.precision ?? null, before?.precision ?? null),
+      recall: delta(after?.recall ?? null, before?.recall ?? null),
+      f1: delta(after?.f1 ?? null, before?.f1 ?? null),
+    };
+  }).sort((a, b) => a.label.localeCompare(b.label));
+
+  const fixed: TaxonomyDiff['fixed'] = [];
+  const regressed: TaxonomyDiff['regressed'] = [];
+  resolved.forEach(({ item }) => {
+    const before = predictions.get(item.id)![fromEngine] as string | undefined;
+    const after = predictions.get(item.id)![toEngine] as string | undefined;
+    if (before === undefined || after === undefined) return;
+
+    const wasRight = labelsMatch(before, item.expected.category);
+    const isRight = labelsMatch(after, item.expected.category);
+    const change = { id: item.id, expected: item.expected.category, from: before, to: after };
+    if (!wasRight && isRight) fixed.push(change);
+    if (wasRight && !isRight) regressed.push(change);
+  });
+
+  return {
+    from: from.taxonomy.version,
+    to: to.taxonomy.version,
+    categories,
+    regressedCategories: categories
+      .filter((category) => (category.precision ?? 0) < 0 || (category.recall ?? 0) < 0)
+      .map((category) => category.label),
+    fixed,
+    regressed,
+  };
+}
+
+/**
+ * Backtest the keyword engine under `taxonomies` (one, or two to diff: from,
+ * to) and the stored AI topics against the evaluation set
+ */
+export async function evaluateCategorization(
+  taxonomies: [Taxonomy] | [Taxonomy, Taxonomy],
+  evalSet: CategoryEvalItem[],
+  options: { limit?: number } = {}
+): Promise<CategoryEvalReport> {
+  const sample = evalSet.slice(0, options.limit ?? evalSet.length);
+  const resolved = await resolveItems(sample);
+  const predictions = new Map(resolved.map(({ item }) => [item.id, {} as Record<string, string | string[] | null>]));
+  const engines: EngineReport[] = [];
+  const keywordReports: { taxonomy: Taxonomy; report: EngineReport }[] = [];
+
+  for (const taxonomy of taxonomies) {
+    const engine = `keywords v${taxonomy.version}`;
+    const withText = resolved.filter(({ title, text }) => title.trim() || text.trim());
+
+    const pairs = withText.map(({ item, title, text }) => {
+      const predicted = categorizeText(text, title || undefined, taxonomy.definitions).category;
+      predictions.get(item.id)![engine] = predicted;
+      return { expected: item.expected.category, predicted };
+    });
+    const report = scoreSingleLabel(engine, pairs, sample.length);
+    engines.push(report);
+    keywordReports.push({ taxonomy, report });
+
+    const issuePairs = withText
+      .filter(({ item }) => item.expected.issues)
+      .map(({ item, title, text }) => {
+        const predicted = detectAllIssues(`${title} ${text}`, taxonomy.definitions);
+        predictions.get(item.id)![`${engine} issues`] = predicted;
+        return { expected: item.expected.issues!, predicted };
+      });
+    if (issuePairs.length > 0) {
+      engines.push(scoreMultiLabel(`${engine} issues`, issuePairs, sample.length));
+    }
+  }
+
+  const aiPairs = resolved.map(({ item, aiTopic }) => {
+    if (item.vendorCallKey) predictions.get(item.id)!.ai = aiTopic;
+    return { expected: item.expected.topic || item.expected.category, predicted: aiTopic };
+  });
+  engines.push(scoreSingleLabel('ai', aiPairs, sample.length));
+
+  return {
+    taxonomies: taxonomies.map((taxonomy) => ({
+      version: taxonomy.version,
+      rulesVersion: taxonomy.rulesVersion,
+      status: taxonomy.status,
+    })),
+    sampleSize: sample.length,
+    engines,
+    diff: keywordReports.length === 2
+      ? diffTaxonomies(keywordReports[0], keywordReports[1], resolved, predictions)
+      : null,
+    items: resolved.map(({ item }) => ({
+      id: item.id,
+      expected: item.expected,
+      predictions: predictions.get(item.id)!,
+    })),
+  };
+}
@@ -5,6 +5,8 @@
  * and multi-issue detection based on the Python analysis framework.
  */
 
+import { createHash } from 'crypto';
+
 export interface CategoryResult {
   category: string;
   subcategory: string;
@@ -23,7 +25,9 @@ export interface CategoryDefinition {
   keywords: string[]; // General category keywords
 }
 
-// Comprehensive category definitions based on README guides
+// Comprehensive category definitions based on README guides. Built-in
+// taxonomy: seeds the first database version (src/lib/taxonomy.ts) and
+// applies until an admin publishes one.
 export const CATEGORY_DEFINITIONS: CategoryDefinition[] = [
   {
     name: 'Payment Issues',
@@ -308,10 +312,22 @@ export const CATEGORY_DEFINITIONS: CategoryDefinition[] = [
   },
 ];
 
+/**
+ * Identifies a set of rules; changes whenever the definitions do. Stored on
+ * categorized rows so ones categorized under other rules can be re-run.
+ */
+export function getRulesVersion(definitions: CategoryDefinition[]): string {
+  return `keywords-${createHash('sha256').update(JSON.stringify(definitions)).digest('hex').slice(0, 12)}`;
+}
+
 /**
  * Categorize text with subcategory and confidence scoring
  */
-export function categorizeText(text: string, title?: string): CategoryResult {
+export function categorizeText(
+  text: string,
+  title?: string,
+  definitions: CategoryDefinition[] = CATEGORY_DEFINITIONS
+): CategoryResult {
   const combined = title ? `${title} ${text}`.toLowerCase() : text.toLowerCase();
 
   let bestMatch: CategoryResult = {
@@ -325,7 +341,7 @@ export function categorizeText(text: string, title?: string): CategoryResult {
   const allDetectedIssues: string[] = [];
 
   // Check each category
-  for (const categoryDef of CATEGORY_DEFINITIONS) {
+  for (const categoryDef of definitions) {
     // First check if general category keywords match
     const categoryKeywordsMatched = categoryDef.keywords.filter(keyword =>
       combined.includes(keyword.toLowerCase())
@@ -437,11 +453,11 @@ export function detectCustomerIntent(transcriptText: string): string {
 /**
  * Detect all issues mentioned in text (multi-issue tagging)
  */
-export function detectAllIssues(text: string): string[] {
+export function detectAllIssues(text: string, definitions: CategoryDefinition[] = CATEGORY_DEFINITIONS): string[] {
   const issues: string[] = [];
   const lowerText = text.toLowerCase();
 
-  for (const categoryDef of CATEGORY_DEFINITIONS) {
+  for (const categoryDef of definitions) {
     const hasMatch = categoryDef.keywords.some(keyword =>
       lowerText.includes(keyword.toLowerCase())
     );
@@ -0,0 +1,51 @@
+/**
+ * Stored Conversations
+ * A transcript's messages as the transcript viewer shows them, loaded
+ * server-side for AI results that are stored against the call
+ */
+
+import prisma from '@/lib/db';
+import type { ConversationMessage } from '@/lib/transcript-analysis';
+
+interface StoredMessage {
+  speaker?: string;
+  role?: string;
+  text?: string;
+  timestamp?: string | null;
+}
+
+/**
+ * Normalize transcripts.messages into role/text messages
+ *
+ * Same mapping and order as /api/transcript-analytics (speaker → role,
+ * sorted by timestamp where both have one), so per-message results line up
+ * with the messages the viewer shows.
+ */
+export function toConversation(messages: unknown): ConversationMessage[] {
+  if (!Array.isArray(messages)) return [];
+
+  return (messages as StoredMessage[])
+    .map((message) => ({
+      role: (message.speaker || message.role || '').toLowerCase() === 'agent' ? 'agent' as const : 'customer' as const,
+      text: message.text || '',
+      timestamp: message.timestamp || undefined,
+    }))
+    .sort((a, b) => {
+      if (a.timestamp && b.timestamp) {
+        return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+      }
+      return 0;
+    });
+}
+
+/**
+ * A transcript's conversation, or null if there is no transcript with this key
+ */
+export async function getConversation(vendorCallKey: string): Promise<ConversationMessage[] | null> {
+  const transcript = await prisma.transcripts.findUnique({
+    where: { vendor_call_key: vendorCallKey },
+    select: { messages: true },
+  });
+
+  return transcript ? toConversation(transcript.messages) : null;
+}
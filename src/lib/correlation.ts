@@ -0,0 +1,414 @@
+/**
+ * Ticket-Call Correlation
+ * Links servicing tickets to the call transcripts about the same customer
+ *
+ * A ticket and a call are linked when they mention the same loan number or
+ * customer email (found by extractNamedEntities, using the loan number
+ * patterns in lib/redaction.ts) and the call started within
+ * CORRELATION_CONFIG.WINDOW_DAYS of the ticket being created. Closer calls
+ * get a higher confidence. Links are stored in ticket_call_links; only the
+ * kind of match is kept, not the loan number or email itself.
+ */
+
+import prisma from '@/lib/db';
+import { extractNamedEntities } from '@/lib/transcript-analysis';
+
+export type MatchType = 'loan_number' | 'email';
+
+export const CORRELATION_CONFIG = {
+  // How far apart a call and the ticket's creation may be, either way
+  WINDOW_DAYS: parseFloat(process.env.CORRELATION_WINDOW_DAYS || '14'),
+
+  // Identifiers mentioned on more calls than this in the window are ignored
+  // (shared inboxes, example numbers read out by agents)
+  MAX_CALLS_PER_IDENTIFIER: parseInt(process.env.CORRELATION_MAX_CALLS_PER_IDENTIFIER || '10'),
+
+  // Strongest links kept per ticket
+  MAX_LINKS_PER_TICKET: 10,
+};
+
+// A loan number is stronger evidence than an email; both together adds BOTH_BONUS
+const MATCH_WEIGHTS: Record<MatchType, number> = {
+  loan_number: 0.8,
+  email: 0.6,
+};
+const BOTH_BONUS = 0.2;
+
+const BATCH_SIZE = 500;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface CorrelationStats {
+  from: string;
+  to: string;
+  tickets: number;                   // Tickets created between from and to
+  calls: number;                     // Calls scanned (the range widened by WINDOW_DAYS each side)
+  linkedTickets: number;
+  links: number;
+  byMatch: Record<MatchType, number>;
+  errors: string[];
+  stopped: boolean;                  // true when the deadline was hit before every ticket was linked
+}
+
+export interface RelatedCall {
+  vendorCallKey: string;
+  callStart: string | null;
+  agentName: string | null;
+  department: string | null;
+  durationSeconds: number | null;
+  topic: string | null;
+  customerSentiment: string | null;
+  matchedOn: MatchType[];
+  minutesFromTicket: number;         // Negative = the call came before the ticket
+  confidence: number;
+}
+
+export interface RelatedTicket {
+  ticketKey: string;
+  title: string | null;
+  status: string | null;
+  priority: string | null;
+  projectName: string | null;
+  category: string | null;
+  createdAt: string;
+  isComplete: boolean;
+  matchedOn: MatchType[];
+  minutesFromTicket: number;         // Negative = the call came before the ticket
+  confidence: number;
+}
+
+interface CallRef {
+  vendorCallKey: string;
+  callStart: Date;
+}
+
+interface CallIndex {
+  calls: number;
+  byIdentifier: Map<string, CallRef[]>;  // "loan_number:..." / "email:..." -> calls
+  complete: boolean;                     // false when the deadline was hit mid-scan
+}
+
+interface TicketRow {
+  ticketKey: string;
+  ticketTitle: string | null;
+  ticketDescription: string | null;
+  customFields: string | null;
+  ticketReporterEmail: string | null;
+  ticketCreatedAtUtc: Date;
+}
+
+/**
+ * Normalized "loan_number:..." and "email:..." keys for the identifiers in `text`
+ */
+export function extractIdentifiers(text: string, emails: (string | null)[] = []): string[] {
+  const entities = extractNamedEntities(text);
+  const keys = new Set<string>();
+
+  entities.loanNumbers.forEach((loanNumber) => {
+    const normalized = loanNumber.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+    if (normalized) keys.add(`loan_number:${normalized}`);
+  });
+  [...entities.emailAddresses, ...emails].forEach((email) => {
+    const normalized = (email || '').trim().toLowerCase();
+    if (normalized) keys.add(`email:${normalized}`);
+  });
+
+  return Array.from(keys);
+}
+
+function matchTypeOf(identifier: string): MatchType {
+  return identifier.slice(0, identifier.indexOf(':')) as MatchType;
+}
+
+/**
+ * Strongest match weight (plus BOTH_BONUS when both kinds match), scaled
+ * from 1.0 at the ticket's creation down to 0.5 at the edge of the window
+ */
+function linkConfidence(matchedOn: MatchType[], minutesFromTicket: number, windowMinutes: number): number {
+  const weight = Math.min(1, Math.max(...matchedOn.map((type) => MATCH_WEIGHTS[type])) + (matchedOn.length > 1 ? BOTH_BONUS : 0));
+  const proximity = 1 - Math.abs(minutesFromTicket) / windowMinutes;
+  return Math.round(weight * (0.5 + 0.5 * proximity) * 100) / 100;
+}
+
+function isPast(deadline: number | undefined): boolean {
+  return deadline !== undefined && Date.now() >= deadline;
+}
+
+/**
+ * Identifiers mentioned on calls that started between `from` and `to`.
+ * Agents' own emails and identifiers shared by too many calls are dropped.
+ * Stops between batches once `deadline` passes and returns complete: false.
+ */
+async function indexCalls(from: Date, to: Date, deadline?: number): Promise<CallIndex> {
+  const byIdentifier = new Map<string, CallRef[]>();
+  const agentEmails = new Set<string>();
+  let calls = 0;
+
+  let cursor: string | undefined;
+  for (;;) {
+    if (isPast(deadline)) {
+      return { calls, byIdentifier, complete: false };
+    }
+
+    const batch: {
+      vendor_call_key: string;
+      call_start: Date | null;
+      agent_email: string | null;
+      messages: unknown;
+    }[] = await prisma.transcripts.findMany({
+      where: {
+        call_start: { gte: from, lte: to },
+        ...(cursor === undefined ? {} : { vendor_call_key: { gt: cursor } }),
+      },
+      select: { vendor_call_key: true, call_start: true, agent_email: true, messages: true },
+      orderBy: { vendor_call_key: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (batch.length === 0) break;
+    cursor = batch[batch.length - 1].vendor_call_key;
+    calls += batch.length;
+
+    for (const transcript of batch) {
+      if (transcript.agent_email) agentEmails.add(transcript.agent_email.trim().toLowerCase());
+      if (!transcript.call_start || !Array.isArray(transcript.messages)) continue;
+
+      const text = (transcript.messages as { text?: string }[]).map((message) => message.text || '').join('\n');
+      const call = { vendorCallKey: transcript.vendor_call_key, callStart: transcript.call_start };
+      for (const identifier of extractIdentifiers(text)) {
+        const refs = byIdentifier.get(identifier);
+        if (refs) refs.push(call);
+        else byIdentifier.set(identifier, [call]);
+      }
+    }
+  }
+
+  agentEmails.forEach((email) => byIdentifier.delete(`email:${email}`));
+  byIdentifier.forEach((refs, identifier) => {
+    if (refs.length > CORRELATION_CONFIG.MAX_CALLS_PER_IDENTIFIER) byIdentifier.delete(identifier);
+  });
+
+  return { calls, byIdentifier, complete: true };
+}
+
+/**
+ * The strongest links from one ticket to the indexed calls
+ */
+function linkTicket(ticket: TicketRow, index: CallIndex, windowMinutes: number) {
+  const text = [ticket.ticketTitle, ticket.ticketDescription, ticket.customFields].filter(Boolean).join('\n');
+  const matches = new Map<string, { call: CallRef; matchedOn: Set<MatchType> }>();
+
+  for (const identifier of extractIdentifiers(text, [ticket.ticketReporterEmail])) {
+    for (const call of index.byIdentifier.get(identifier) || []) {
+      const match = matches.get(call.vendorCallKey) || { call, matchedOn: new Set<MatchType>() };
+      match.matchedOn.add(matchTypeOf(identifier));
+      matches.set(call.vendorCallKey, match);
+    }
+  }
+
+  return Array.from(matches.values())
+    .map(({ call, matchedOn }) => {
+      const minutesFromTicket = Math.round((call.callStart.getTime() - ticket.ticketCreatedAtUtc.getTime()) / MINUTE_MS);
+      const types = Array.from(matchedOn).sort();
+      return {
+        ticketKey: ticket.ticketKey,
+        vendorCallKey: call.vendorCallKey,
+        matchedOn: types.join('|'),
+        minutesFromTicket,
+        confidence: linkConfidence(types, minutesFromTicket, windowMinutes),
+      };
+    })
+    .filter((link) => Math.abs(link.minutesFromTicket) <= windowMinutes)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, CORRELATION_CONFIG.MAX_LINKS_PER_TICKET);
+}
+
+/**
+ * Rebuild the call links of every ticket created between `from` and `to`,
+ * in batches. A failed batch is recorded in `errors` and skipped.
+ *
+ * With a deadline, stops between batches once it passes and sets `stopped`.
+ * Tickets not reached keep their existing links; if the call scan itself is
+ * cut short, no links are rewritten, since a partial index would drop real ones.
+ */
+export async function correlateTickets(options: { from: Date; to: Date; deadline?: number }): Promise<CorrelationStats> {
+  const { from, to, deadline } = options;
+  const windowMinutes = CORRELATION_CONFIG.WINDOW_DAYS * 24 * 60;
+  const stats: CorrelationStats = {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    tickets: 0,
+    calls: 0,
+    linkedTickets: 0,
+    links: 0,
+    byMatch: { loan_number: 0, email: 0 },
+    errors: [],
+    stopped: false,
+  };
+
+  const windowMs = CORRELATION_CONFIG.WINDOW_DAYS * DAY_MS;
+  const index = await indexCalls(new Date(from.getTime() - windowMs), new Date(to.getTime() + windowMs), deadline);
+  stats.calls = index.calls;
+  if (!index.complete) {
+    stats.stopped = true;
+    console.warn(`[Correlation] Deadline reached after scanning ${stats.calls} calls; no links rebuilt`);
+    return stats;
+  }
+
+  let cursor: string | undefined;
+  for (;;) {
+    if (isPast(deadline)) {
+      stats.stopped = true;
+      break;
+    }
+
+    const batch: TicketRow[] = await prisma.ticket.findMany({
+      where: {
+        ticketCreatedAtUtc: { gte: from, lte: to },
+        ...(cursor === undefined ? {} : { ticketKey: { gt: cursor } }),
+      },
+      select: {
+        ticketKey: true,
+        ticketTitle: true,
+        ticketDescription: true,
+        customFields: true,
+        ticketReporterEmail: true,
+        ticketCreatedAtUtc: true,
+      },
+      orderBy: { ticketKey: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (batch.length === 0) break;
+    cursor = batch[batch.length - 1].ticketKey;
+    stats.tickets += batch.length;
+
+    const links = batch.flatMap((ticket) => linkTicket(ticket, index, windowMinutes));
+
+    try {
+      await prisma.$transaction([
+        prisma.ticketCallLink.deleteMany({ where: { ticketKey: { in: batch.map((ticket) => ticket.ticketKey) } } }),
+        prisma.ticketCallLink.createMany({ data: links }),
+      ]);
+      stats.links += links.length;
+      stats.linkedTickets += new Set(links.map((link) => link.ticketKey)).size;
+      links.forEach((link) => {
+        link.matchedOn.split('|').forEach((type) => stats.byMatch[type as MatchType]++);
+      });
+    } catch (error) {
+      stats.errors.push(
+        `Tickets ${batch[0].ticketKey}..${batch[batch.length - 1].ticketKey}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  console.log(
+    `[Correlation] Linked ${stats.linkedTickets} of ${stats.tickets} tickets to ${stats.links} calls ` +
+    `(${stats.byMatch.loan_number} by loan number, ${stats.byMatch.email} by email; ${stats.calls} calls scanned, ${stats.errors.length} errors)` +
+    (stats.stopped ? ' - stopped at the deadline' : '')
+  );
+  return stats;
+}
+
+/**
+ * Calls linked to a ticket, strongest first
+ */
+export async function getRelatedCalls(ticketKey: string): Promise<RelatedCall[]> {
+  const links: {
+    vendorCallKey: string;
+    matchedOn: string;
+    minutesFromTicket: number;
+    confidence: number;
+    transcript: {
+      call_start: Date | null;
+      agent_name: string | null;
+      department: string | null;
+      duration_seconds: number | null;
+      TranscriptAnalysis: { aiDiscoveredTopic: string | null; customerSentiment: string | null }[];
+    };
+  }[] = await prisma.ticketCallLink.findMany({
+    where: { ticketKey },
+    select: {
+      vendorCallKey: true,
+      matchedOn: true,
+      minutesFromTicket: true,
+      confidence: true,
+      transcript: {
+        select: {
+          call_start: true,
+          agent_name: true,
+          department: true,
+          duration_seconds: true,
+          TranscriptAnalysis: { select: { aiDiscoveredTopic: true, customerSentiment: true } },
+        },
+      },
+    },
+    orderBy: [{ confidence: 'desc' }, { minutesFromTicket: 'asc' }],
+  });
+
+  return links.map((link) => ({
+    vendorCallKey: link.vendorCallKey,
+    callStart: link.transcript.call_start?.toISOString() ?? null,
+    agentName: link.transcript.agent_name,
+    department: link.transcript.department,
+    durationSeconds: link.transcript.duration_seconds,
+    topic: link.transcript.TranscriptAnalysis[0]?.aiDiscoveredTopic ?? null,
+    customerSentiment: link.transcript.TranscriptAnalysis[0]?.customerSentiment ?? null,
+    matchedOn: link.matchedOn.split('|') as MatchType[],
+    minutesFromTicket: link.minutesFromTicket,
+    confidence: link.confidence,
+  }));
+}
+
+/**
+ * Tickets linked to a call, strongest first
+ */
+export async function getRelatedTickets(vendorCallKey: string): Promise<RelatedTicket[]> {
+  const links: {
+    ticketKey: string;
+    matchedOn: string;
+    minutesFromTicket: number;
+    confidence: number;
+    ticket: {
+      ticketTitle: string | null;
+      ticketStatus: string | null;
+      ticketPriority: string | null;
+      projectName: string | null;
+      category: string | null;
+      ticketCreatedAtUtc: Date;
+      isTicketComplete: boolean;
+    };
+  }[] = await prisma.ticketCallLink.findMany({
+    where: { vendorCallKey },
+    select: {
+      ticketKey: true,
+      matchedOn: true,
+      minutesFromTicket: true,
+      confidence: true,
+      ticket: {
+        select: {
+          ticketTitle: true,
+          ticketStatus: true,
+          ticketPriority: true,
+          projectName: true,
+          category: true,
+          ticketCreatedAtUtc: true,
+          isTicketComplete: true,
+        },
+      },
+    },
+    orderBy: [{ confidence: 'desc' }, { minutesFromTicket: 'desc' }],
+  });
+
+  return links.map((link) => ({
+    ticketKey: link.ticketKey,
+    title: link.ticket.ticketTitle,
+    status: link.ticket.ticketStatus,
+    priority: link.ticket.ticketPriority,
+    projectName: link.ticket.projectName,
+    category: link.ticket.category,
+    createdAt: link.ticket.ticketCreatedAtUtc.toISOString(),
+    isComplete: link.ticket.isTicketComplete,
+    matchedOn: link.matchedOn.split('|') as MatchType[],
+    minutesFromTicket: link.minutesFromTicket,
+    confidence: link.confidence,
+  }));
+}
@@ -1,5 +1,14 @@
-import fs from 'fs';
-import path from 'path';
+/**
+ * Ticket Analytics
+ * Dashboard aggregates computed from the tickets table
+ *
+ * Mirrors the shapes scripts/prebuild.js used to write to processed-stats.json,
+ * but queries live data so newly ingested tickets show up on the next refresh.
+ * Results are cached briefly; call clearTicketAnalyticsCache() after writes.
+ */
+
+import prisma from '@/lib/db';
+import { SERVICING_PROJECTS } from '@/lib/tickets';
 import { TicketStats, ProjectBreakdown, AssigneeBreakdown, TimeSeriesData } from '@/types/ticket';
 
 interface HeatmapCell {
@@ -53,6 +62,36 @@ export interface ServicingAnalysis {
   };
 }
 
+export interface CategoryBaseline {
+  category: string;
+  subcategory: string;
+  baselineCount: number;
+  recentCount: number;
+  change: number;
+  percentChange: number;
+  trend: 'increasing' | 'decreasing' | 'stable';
+}
+
+export interface CategoryStats {
+  category: string;
+  subcategory: string;
+  count: number;
+  percentage: number;
+  avgConfidence: number;
+}
+
+interface TicketSampleRow {
+  ticket_key: string;
+  ticket_title: string;
+  ticket_status: string;
+  ticket_priority: string;
+  project_name: string;
+  assigned_user_name: string;
+  ticket_created_at_utc: string;
+  time_to_resolution_in_minutes: number | null;
+  is_ticket_complete: string;
+}
+
 interface ProcessedData {
   stats: TicketStats;
   ticketsByMonth: TimeSeriesData[];
@@ -60,96 +99,713 @@ interface ProcessedData {
   assigneeBreakdown: AssigneeBreakdown[];
   statusBreakdown: { name: string; value: number }[];
   priorityBreakdown: { name: string; value: number }[];
-  ticketSample: {
-    ticket_key: string;
-    ticket_title: string;
-    ticket_status: string;
-    ticket_priority: string;
-    project_name: string;
-    assigned_user_name: string;
-    ticket_created_at_utc: string;
-    time_to_resolution_in_minutes: number | null;
-    is_ticket_complete: string;
-  }[];
+  ticketSample: TicketSampleRow[];
   servicingAnalysis?: ServicingAnalysis;
   heatmaps?: {
     dayHour: HeatmapData;
     projectStatus: HeatmapData;
+    categoryDaily: HeatmapData;
   };
   issues?: Issue[];
   trends?: Trends;
   processedAt: string;
 }
 
-let cachedData: ProcessedData | null = null;
+interface ProjectBreakdownRow extends ProjectBreakdown {
+  openRate: number;
+}
+
+interface AssigneeBreakdownRow extends AssigneeBreakdown {
+  open: number;
+  openRate: number;
+}
+
+// How long query results are reused
+const CACHE_TTL_MS = 60 * 1000;
+
+// Resolution / response times outside these bounds are bad export data
+const MAX_RESPONSE_MINUTES = 1000000;
+const MAX_RESOLUTION_MINUTES = 10000000;
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOUR_LABELS = Array.from({ length: 24 }, (_, i) => `${i.toString().padStart(2, '0')}:00`);
+const PRIORITIES = ['Critical', 'High', 'Medium', 'Low'];
+
+// Category × day heatmap: days up to the most recent ticket, busiest categories
+const CATEGORY_HEATMAP_DAYS = 14;
+const CATEGORY_HEATMAP_CATEGORIES = 10;
+
+const cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
 
-function loadProcessedData(): ProcessedData {
-  if (cachedData) {
-    return cachedData;
+/**
+ * Run a loader at most once per CACHE_TTL_MS. Concurrent callers share the
+ * in-flight promise; failures are not cached.
+ */
+function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const now = Date.now();
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > now) {
+    return hit.value as Promise<T>;
   }
 
-  const jsonPath = path.join(process.cwd(), 'data', 'processed-stats.json');
-  const jsonContent = fs.readFileSync(jsonPath, 'utf-8');
-  cachedData = JSON.parse(jsonContent) as ProcessedData;
+  const value = load().catch((error) => {
+    cache.delete(key);
+    throw error;
+  });
+  cache.set(key, { expiresAt: now + CACHE_TTL_MS, value });
+  return value;
+}
+
+/**
+ * Drop cached aggregates, e.g. after tickets are ingested
+ */
+export function clearTicketAnalyticsCache(): void {
+  cache.clear();
+}
+
+function percent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
 
-  return cachedData;
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length) + '..' : text;
 }
 
 export async function getTicketStats(): Promise<TicketStats> {
-  const data = loadProcessedData();
-  return data.stats;
+  return cached('stats', async () => {
+    const [row]: {
+      total: number;
+      completed: number;
+      avg_response: number | null;
+      avg_resolution: number | null;
+    }[] = await prisma.$queryRaw`
+      SELECT
+        COUNT(*)::int as total,
+        COUNT(*) FILTER (WHERE is_ticket_complete)::int as completed,
+        AVG(time_to_first_response_in_minutes) FILTER (
+          WHERE time_to_first_response_in_minutes > 0 AND time_to_first_response_in_minutes < ${MAX_RESPONSE_MINUTES}
+        )::float8 as avg_response,
+        AVG(time_to_resolution_in_minutes) FILTER (
+          WHERE time_to_resolution_in_minutes > 0 AND time_to_resolution_in_minutes < ${MAX_RESOLUTION_MINUTES}
+        )::float8 as avg_resolution
+      FROM tickets
+      WHERE project_name = ANY(${SERVICING_PROJECTS})
+    `;
+
+    return {
+      totalTickets: row.total,
+      completedTickets: row.completed,
+      openTickets: row.total - row.completed,
+      avgResponseTimeMinutes: Math.round(row.avg_response || 0),
+      avgResolutionTimeMinutes: Math.round(row.avg_resolution || 0),
+      completionRate: percent(row.completed, row.total),
+    };
+  });
 }
 
 export async function getTicketsByMonth(): Promise<TimeSeriesData[]> {
-  const data = loadProcessedData();
-  return data.ticketsByMonth;
+  return cached('ticketsByMonth', async () => {
+    const rows: { date: string; count: number }[] = await prisma.$queryRaw`
+      SELECT to_char(ticket_created_at_utc, 'YYYY-MM') as date, COUNT(*)::int as count
+      FROM tickets
+      WHERE project_name = ANY(${SERVICING_PROJECTS})
+      GROUP BY 1
+      ORDER BY 1
+    `;
+    return rows.map((row) => ({ date: row.date, count: row.count }));
+  });
 }
 
-export async function getProjectBreakdown(): Promise<ProjectBreakdown[]> {
-  const data = loadProcessedData();
-  return data.projectBreakdown;
+/**
+ * Top 10 projects by volume
+ */
+export async function getProjectBreakdown(): Promise<ProjectBreakdownRow[]> {
+  return cached('projectBreakdown', async () => {
+    const rows: { project: string; total: number; completed: number; avg_resolution: number | null }[] =
+      await prisma.$queryRaw`
+        SELECT
+          COALESCE(project_name, 'Unknown') as project,
+          COUNT(*)::int as total,
+          COUNT(*) FILTER (WHERE is_ticket_complete)::int as completed,
+          AVG(time_to_resolution_in_minutes) FILTER (
+            WHERE time_to_resolution_in_minutes > 0 AND time_to_resolution_in_minutes < ${MAX_RESOLUTION_MINUTES}
+          )::float8 as avg_resolution
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+        GROUP BY 1
+        ORDER BY total DESC
+        LIMIT 10
+      `;
+
+    return rows.map((row) => ({
+      project: row.project,
+      total: row.total,
+      completed: row.completed,
+      open: row.total - row.completed,
+      openRate: percent(row.total - row.completed, row.total),
+      avgResolutionHours: Math.round((row.avg_resolution || 0) / 60),
+    }));
+  });
 }
 
-export async function getAssigneeBreakdown(): Promise<AssigneeBreakdown[]> {
-  const data = loadProcessedData();
-  return data.assigneeBreakdown;
+/**
+ * Top 15 assignees by volume, keyed by email
+ */
+export async function getAssigneeBreakdown(): Promise<AssigneeBreakdownRow[]> {
+  return cached('assigneeBreakdown', async () => {
+    const rows: { email: string; name: string; total: number; completed: number; avg_resolution: number | null }[] =
+      await prisma.$queryRaw`
+        SELECT
+          assigned_user_email as email,
+          COALESCE(MAX(assigned_user_name), assigned_user_email) as name,
+          COUNT(*)::int as total,
+          COUNT(*) FILTER (WHERE is_ticket_complete)::int as completed,
+          AVG(time_to_resolution_in_minutes) FILTER (
+            WHERE time_to_resolution_in_minutes > 0 AND time_to_resolution_in_minutes < ${MAX_RESOLUTION_MINUTES}
+          )::float8 as avg_resolution
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+          AND assigned_user_email IS NOT NULL
+        GROUP BY assigned_user_email
+        ORDER BY total DESC
+        LIMIT 15
+      `;
+
+    return rows.map((row) => ({
+      email: row.email,
+      name: row.name,
+      total: row.total,
+      completed: row.completed,
+      open: row.total - row.completed,
+      openRate: percent(row.total - row.completed, row.total),
+      avgResolutionHours: Math.round((row.avg_resolution || 0) / 60),
+    }));
+  });
 }
 
 export async function getStatusBreakdown(): Promise<{ name: string; value: number }[]> {
-  const data = loadProcessedData();
-  return data.statusBreakdown;
+  return cached('statusBreakdown', async () => {
+    const rows: { name: string; value: number }[] = await prisma.$queryRaw`
+      SELECT COALESCE(ticket_status, 'Unknown') as name, COUNT(*)::int as value
+      FROM tickets
+      WHERE project_name = ANY(${SERVICING_PROJECTS})
+        AND LENGTH(COALESCE(ticket_status, 'Unknown')) <= 50
+      GROUP BY 1
+      ORDER BY value DESC
+      LIMIT 10
+    `;
+    return rows;
+  });
 }
 
 export async function getPriorityBreakdown(): Promise<{ name: string; value: number }[]> {
-  const data = loadProcessedData();
-  return data.priorityBreakdown;
+  return cached('priorityBreakdown', async () => {
+    const rows: { name: string; value: number }[] = await prisma.$queryRaw`
+      SELECT ticket_priority as name, COUNT(*)::int as value
+      FROM tickets
+      WHERE project_name = ANY(${SERVICING_PROJECTS})
+        AND ticket_priority = ANY(${PRIORITIES})
+      GROUP BY 1
+      ORDER BY value DESC
+    `;
+    return rows;
+  });
 }
 
-export async function getTicketSample(limit: number = 100) {
-  const data = loadProcessedData();
-  return data.ticketSample.slice(0, limit);
+/**
+ * Most recent tickets, in the export's snake_case shape
+ */
+export async function getTicketSample(limit: number = 100): Promise<TicketSampleRow[]> {
+  const rows: (Omit<TicketSampleRow, 'ticket_created_at_utc' | 'is_ticket_complete'> & {
+    ticket_created_at_utc: Date;
+    is_ticket_complete: boolean;
+  })[] = await prisma.$queryRaw`
+    SELECT
+      ticket_key,
+      COALESCE(ticket_title, '') as ticket_title,
+      COALESCE(ticket_status, '') as ticket_status,
+      COALESCE(ticket_priority, '') as ticket_priority,
+      COALESCE(project_name, '') as project_name,
+      COALESCE(assigned_user_name, '') as assigned_user_name,
+      ticket_created_at_utc,
+      time_to_resolution_in_minutes,
+      is_ticket_complete
+    FROM tickets
+    WHERE project_name = ANY(${SERVICING_PROJECTS})
+    ORDER BY ticket_created_at_utc DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    ...row,
+    ticket_created_at_utc: row.ticket_created_at_utc.toISOString(),
+    is_ticket_complete: String(row.is_ticket_complete),
+  }));
 }
 
-export async function getAllProcessedData(): Promise<ProcessedData> {
-  return loadProcessedData();
+/**
+ * Ticket counts by UTC day of week (0 = Sunday) and hour
+ */
+function getDayHourCounts(): Promise<{ dow: number; hour: number; count: number }[]> {
+  return cached('dayHourCounts', () =>
+    prisma.$queryRaw`
+      SELECT
+        EXTRACT(DOW FROM ticket_created_at_utc)::int as dow,
+        EXTRACT(HOUR FROM ticket_created_at_utc)::int as hour,
+        COUNT(*)::int as count
+      FROM tickets
+      WHERE project_name = ANY(${SERVICING_PROJECTS})
+      GROUP BY 1, 2
+    `
+  );
 }
 
-export async function getHeatmaps() {
-  const data = loadProcessedData();
-  return data.heatmaps;
+/**
+ * Tickets per stored category per UTC day, for the CATEGORY_HEATMAP_DAYS days
+ * ending at the most recent ticket
+ */
+async function getCategoryDailyHeatmap(): Promise<HeatmapData> {
+  const rows: { date: string; category: string; count: number }[] = await prisma.$queryRaw`
+    WITH bounds AS (
+      SELECT date_trunc('day', MAX(ticket_created_at_utc)) - make_interval(days => ${CATEGORY_HEATMAP_DAYS - 1}) as start
+      FROM tickets
+      WHERE project_name = ANY(${SERVICING_PROJECTS})
+    )
+    SELECT
+      to_char(ticket_created_at_utc, 'YYYY-MM-DD') as date,
+      COALESCE(category, 'Other') as category,
+      COUNT(*)::int as count
+    FROM tickets, bounds
+    WHERE project_name = ANY(${SERVICING_PROJECTS})
+      AND ticket_created_at_utc >= bounds.start
+    GROUP BY 1, 2
+  `;
+  if (rows.length === 0) {
+    return { data: [], xLabels: [], yLabels: [] };
+  }
+
+  const totals = new Map<string, number>();
+  rows.forEach((row) => totals.set(row.category, (totals.get(row.category) || 0) + row.count));
+  const categories = Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, CATEGORY_HEATMAP_CATEGORIES)
+    .map(([category]) => category);
+
+  // Every day in the range, including days without tickets
+  const lastDay = new Date(`${rows.map((row) => row.date).sort().pop()}T00:00:00Z`);
+  const days = Array.from({ length: CATEGORY_HEATMAP_DAYS }, (_, i) =>
+    new Date(lastDay.getTime() - (CATEGORY_HEATMAP_DAYS - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+
+  const counts = new Map(rows.map((row) => [`${row.date}|${row.category}`, row.count]));
+  return {
+    data: days.flatMap((day) =>
+      categories.map((category) => ({ x: day, y: category, value: counts.get(`${day}|${category}`) || 0 }))
+    ),
+    xLabels: days,
+    yLabels: categories,
+  };
 }
 
-export async function getIssues() {
-  const data = loadProcessedData();
-  return data.issues;
+export async function getHeatmaps(): Promise<ProcessedData['heatmaps']> {
+  return cached('heatmaps', async () => {
+    const [dayHourCounts, projects, topStatuses, categoryDaily] = await Promise.all([
+      getDayHourCounts(),
+      getProjectBreakdown(),
+      prisma.$queryRaw`
+        SELECT COALESCE(ticket_status, 'Unknown') as status
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+          AND LENGTH(COALESCE(ticket_status, 'Unknown')) < 30
+        GROUP BY 1
+        ORDER BY COUNT(*) DESC
+        LIMIT 6
+      ` as Promise<{ status: string }[]>,
+      getCategoryDailyHeatmap(),
+    ]);
+
+    const statuses = topStatuses.map((row) => row.status);
+    const projectStatusCounts: { project: string; status: string; count: number }[] = statuses.length > 0
+      ? await prisma.$queryRaw`
+          SELECT COALESCE(project_name, 'Unknown') as project, COALESCE(ticket_status, 'Unknown') as status, COUNT(*)::int as count
+          FROM tickets
+          WHERE project_name = ANY(${SERVICING_PROJECTS})
+            AND COALESCE(ticket_status, 'Unknown') = ANY(${statuses})
+          GROUP BY 1, 2
+        `
+      : [];
+
+    const dayHour = new Map(dayHourCounts.map((row) => [`${row.dow}-${row.hour}`, row.count]));
+    const projectStatus = new Map(projectStatusCounts.map((row) => [`${row.project}|${row.status}`, row.count]));
+
+    return {
+      dayHour: {
+        data: DAY_NAMES.flatMap((day, dow) =>
+          HOUR_LABELS.map((hour, h) => ({ x: hour, y: day, value: dayHour.get(`${dow}-${h}`) || 0 }))
+        ),
+        xLabels: HOUR_LABELS.filter((_, i) => i % 3 === 0),
+        yLabels: DAY_NAMES,
+      },
+      projectStatus: {
+        data: projects.flatMap((project) =>
+          statuses.map((status) => ({
+            x: truncate(status, 12),
+            y: truncate(project.project, 15),
+            value: projectStatus.get(`${project.project}|${status}`) || 0,
+          }))
+        ),
+        xLabels: statuses.map((status) => truncate(status, 12)),
+        yLabels: projects.map((project) => truncate(project.project, 15)),
+      },
+      categoryDaily,
+    };
+  });
 }
 
-export async function getTrends() {
-  const data = loadProcessedData();
-  return data.trends;
+/**
+ * Alerts for the dashboard: unhealthy projects, overloaded assignees,
+ * slow first responses, volume swings, plus summary metrics
+ */
+export async function getIssues(): Promise<Issue[]> {
+  return cached('issues', async () => {
+    const [stats, projects, assignees, months, slowResponse] = await Promise.all([
+      getTicketStats(),
+      getProjectBreakdown(),
+      getAssigneeBreakdown(),
+      getTicketsByMonth(),
+      prisma.$queryRaw`
+        SELECT COUNT(*)::int as count
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+          AND time_to_first_response_in_minutes > 1440
+          AND NOT is_ticket_complete
+      ` as Promise<{ count: number }[]>,
+    ]);
+
+    const issues: Issue[] = [];
+
+    projects.forEach((project) => {
+      if (project.openRate > 80 && project.total > 100) {
+        issues.push({
+          category: 'Project Health',
+          metric: project.project.slice(0, 20),
+          value: project.openRate,
+          severity: project.openRate === 100 ? 'critical' : 'warning',
+          description: `${project.open.toLocaleString()} open of ${project.total.toLocaleString()} total`,
+        });
+      }
+    });
+
+    assignees.forEach((assignee) => {
+      if (assignee.open > 1000) {
+        const displayName = assignee.name.split(',')[0] || assignee.email.split('@')[0];
+        issues.push({
+          category: 'Workload',
+          metric: displayName.slice(0, 15),
+          value: assignee.open,
+          severity: assignee.open > 3000 ? 'critical' : 'warning',
+          description: `${assignee.openRate}% of ${assignee.total.toLocaleString()} assigned`,
+        });
+      }
+    });
+
+    const slowCount = slowResponse[0]?.count || 0;
+    if (slowCount > 0) {
+      issues.push({
+        category: 'Response Time',
+        metric: '>24h No Response',
+        value: slowCount,
+        severity: slowCount > 5000 ? 'critical' : 'warning',
+        description: 'Open tickets waiting over 24 hours',
+      });
+    }
+
+    if (months.length >= 2) {
+      const latest = months[months.length - 1];
+      const previous = months[months.length - 2];
+      const change = Math.round(((latest.count - previous.count) / previous.count) * 100);
+
+      if (Math.abs(change) > 20) {
+        issues.push({
+          category: 'Volume Trend',
+          metric: latest.date,
+          value: change,
+          severity: change > 50 ? 'warning' : 'normal',
+          description: `${change > 0 ? '+' : ''}${change}% vs previous month`,
+        });
+      }
+    }
+
+    issues.push({
+      category: 'Summary',
+      metric: 'Total Open',
+      value: stats.openTickets,
+      severity: stats.openTickets > 30000 ? 'critical' : stats.openTickets > 10000 ? 'warning' : 'normal',
+      description: `${stats.completionRate}% completion rate`,
+    });
+
+    issues.push({
+      category: 'Summary',
+      metric: 'Avg Resolution',
+      value: Math.round(stats.avgResolutionTimeMinutes / 60),
+      severity: stats.avgResolutionTimeMinutes > 10080 ? 'warning' : 'good', // >1 week
+      description: `${Math.round(stats.avgResolutionTimeMinutes / 60)} hours average`,
+    });
+
+    return issues;
+  });
+}
+
+export async function getTrends(): Promise<Trends> {
+  return cached('trends', async () => {
+    const [dayHourCounts, projects, assignees] = await Promise.all([
+      getDayHourCounts(),
+      getProjectBreakdown(),
+      getAssigneeBreakdown(),
+    ]);
+
+    const byDay = new Array(7).fill(0);
+    const byHour = new Array(24).fill(0);
+    dayHourCounts.forEach((row) => {
+      byDay[row.dow] += row.count;
+      byHour[row.hour] += row.count;
+    });
+
+    return {
+      volumeByDayOfWeek: DAY_NAMES.map((day, dow) => ({ day, count: byDay[dow] })),
+      peakHours: HOUR_LABELS
+        .map((hour, h) => ({ hour, count: byHour[h] }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5),
+      projectsAtRisk: projects.filter((project) => project.openRate > 50).length,
+      overloadedAssignees: assignees.filter((assignee) => assignee.open > 500).length,
+    };
+  });
+}
+
+/**
+ * Whether a period (YYYY-MM-DD start) ended on or before the last ticket,
+ * so partial periods don't show as a misleading drop
+ */
+function isCompletePeriod(periodStart: string, periodType: 'monthly' | 'weekly' | 'daily', lastTicketDate: Date): boolean {
+  const [year, month, day = 1] = periodStart.split('-').map(Number);
+
+  let periodEnd: number;
+  if (periodType === 'monthly') {
+    periodEnd = Date.UTC(year, month, 0);
+  } else if (periodType === 'weekly') {
+    periodEnd = Date.UTC(year, month - 1, day + 6);
+  } else {
+    periodEnd = Date.UTC(year, month - 1, day);
+  }
+
+  return periodEnd <= lastTicketDate.getTime();
 }
 
+/**
+ * Servicing volume by stored ticket category, with monthly category trends and
+ * monthly / weekly / daily volume (complete periods only)
+ */
 export async function getServicingAnalysis(): Promise<ServicingAnalysis | undefined> {
-  const data = loadProcessedData();
-  return data.servicingAnalysis;
+  return cached('servicingAnalysis', async () => {
+    const [projectCounts, categoryByMonth, weekly, daily, lastTicket] = await Promise.all([
+      prisma.$queryRaw`
+        SELECT project_name as name, COUNT(*)::int as count
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+        GROUP BY 1
+      ` as Promise<{ name: string; count: number }[]>,
+      prisma.$queryRaw`
+        SELECT to_char(ticket_created_at_utc, 'YYYY-MM') as month, COALESCE(category, 'Other') as category, COUNT(*)::int as count
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+        GROUP BY 1, 2
+      ` as Promise<{ month: string; category: string; count: number }[]>,
+      prisma.$queryRaw`
+        SELECT
+          to_char(date_trunc('week', ticket_created_at_utc + interval '1 day') - interval '1 day', 'YYYY-MM-DD') as date,
+          COUNT(*)::int as count
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+        GROUP BY 1
+        ORDER BY 1
+      ` as Promise<TimeSeriesData[]>,
+      prisma.$queryRaw`
+        SELECT to_char(ticket_created_at_utc, 'YYYY-MM-DD') as date, COUNT(*)::int as count
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+        GROUP BY 1
+        ORDER BY 1
+      ` as Promise<TimeSeriesData[]>,
+      prisma.$queryRaw`
+        SELECT MAX(ticket_created_at_utc) as last
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+      ` as Promise<{ last: Date | null }[]>,
+    ]);
+
+    const lastTicketDate = lastTicket[0]?.last;
+    if (!lastTicketDate) {
+      return undefined;
+    }
+
+    const totalTickets = projectCounts.reduce((sum, row) => sum + row.count, 0);
+    const projectTotals = new Map(projectCounts.map((row) => [row.name, row.count]));
+
+    const categoryTotals = new Map<string, number>();
+    const monthly = new Map<string, Record<string, number>>();
+    categoryByMonth.forEach((row) => {
+      categoryTotals.set(row.category, (categoryTotals.get(row.category) || 0) + row.count);
+      const month = monthly.get(row.month) || {};
+      month[row.category] = row.count;
+      monthly.set(row.month, month);
+    });
+
+    const categories = Array.from(categoryTotals.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([name, count]) => ({ name, count, percent: percent(count, totalTickets) }));
+    const topCategories = categories.slice(0, 6);
+
+    const completeMonths = Array.from(monthly.keys())
+      .sort()
+      .filter((month) => isCompletePeriod(`${month}-01`, 'monthly', lastTicketDate));
+
+    return {
+      totalTickets,
+      projects: SERVICING_PROJECTS
+        .map((name) => ({ name, count: projectTotals.get(name) || 0 }))
+        .sort((a, b) => b.count - a.count),
+      categories,
+      topCategories,
+      categoryTrends: completeMonths.map((month) => ({
+        month,
+        ...Object.fromEntries(topCategories.map((category) => [category.name, monthly.get(month)![category.name] || 0])),
+      })),
+      timeSeries: {
+        monthly: completeMonths.map((month) => ({
+          date: month,
+          count: Object.values(monthly.get(month)!).reduce((sum, count) => sum + count, 0),
+        })),
+        weekly: weekly.filter((row) => isCompletePeriod(row.date, 'weekly', lastTicketDate)).slice(-12),
+        daily: daily.filter((row) => isCompletePeriod(row.date, 'daily', lastTicketDate)).slice(-30),
+      },
+    };
+  });
+}
+
+/**
+ * Stored category/subcategory counts over every servicing ticket, with the
+ * average categorization confidence (rows without one are left out of it)
+ */
+export async function getCategoryStats(): Promise<CategoryStats[]> {
+  return cached('categoryStats', async () => {
+    const rows: { category: string; subcategory: string; count: number; avgConfidence: number | null }[] = await prisma.$queryRaw`
+      SELECT
+        COALESCE(category, 'Other') as category,
+        COALESCE(subcategory, 'Uncategorized') as subcategory,
+        COUNT(*)::int as count,
+        AVG(NULLIF(categorization_confidence, 0))::float as "avgConfidence"
+      FROM tickets
+      WHERE project_name = ANY(${SERVICING_PROJECTS})
+      GROUP BY 1, 2
+      ORDER BY 3 DESC
+    `;
+
+    const total = rows.reduce((sum, row) => sum + row.count, 0);
+    return rows.map((row) => ({
+      category: row.category,
+      subcategory: row.subcategory,
+      count: row.count,
+      percentage: percent(row.count, total),
+      avgConfidence: row.avgConfidence !== null ? Math.round(row.avgConfidence * 1000) / 1000 : 0,
+    }));
+  });
+}
+
+/**
+ * Stored category/subcategory counts for the last `days` days (ending at the
+ * most recent ticket) against the `days` before that
+ */
+export async function getCategoryBaseline(days: number): Promise<CategoryBaseline[]> {
+  return cached(`categoryBaseline:${days}`, async () => {
+    const rows: { category: string; subcategory: string; recent: number; baseline: number }[] = await prisma.$queryRaw`
+      WITH bounds AS (
+        SELECT
+          MAX(ticket_created_at_utc) - make_interval(days => ${days}) as recent_start,
+          MAX(ticket_created_at_utc) - make_interval(days => ${days * 2}) as baseline_start
+        FROM tickets
+        WHERE project_name = ANY(${SERVICING_PROJECTS})
+      )
+      SELECT
+        COALESCE(category, 'Other') as category,
+        COALESCE(subcategory, 'Uncategorized') as subcategory,
+        COUNT(*) FILTER (WHERE ticket_created_at_utc >= bounds.recent_start)::int as recent,
+        COUNT(*) FILTER (WHERE ticket_created_at_utc < bounds.recent_start)::int as baseline
+      FROM tickets, bounds
+      WHERE project_name = ANY(${SERVICING_PROJECTS})
+        AND ticket_created_at_utc >= bounds.baseline_start
+      GROUP BY 1, 2
+    `;
+
+    return rows
+      .map((row) => {
+        const change = row.recent - row.baseline;
+        const percentChange = row.baseline > 0
+          ? Math.round((change / row.baseline) * 100)
+          : row.recent > 0 ? 100 : 0;
+        return {
+          category: row.category,
+          subcategory: row.subcategory,
+          baselineCount: row.baseline,
+          recentCount: row.recent,
+          change,
+          percentChange,
+          trend: (percentChange >= 20 ? 'increasing' : percentChange <= -20 ? 'decreasing' : 'stable') as CategoryBaseline['trend'],
+        };
+      })
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+  });
+}
+
+export async function getAllProcessedData(): Promise<ProcessedData> {
+  const [
+    stats,
+    ticketsByMonth,
+    projectBreakdown,
+    assigneeBreakdown,
+    statusBreakdown,
+    priorityBreakdown,
+    ticketSample,
+    servicingAnalysis,
+    heatmaps,
+    issues,
+    trends,
+  ] = await Promise.all([
+    getTicketStats(),
+    getTicketsByMonth(),
+    getProjectBreakdown(),
+    getAssigneeBreakdown(),
+    getStatusBreakdown(),
+    getPriorityBreakdown(),
+    getTicketSample(),
+    getServicingAnalysis(),
+    getHeatmaps(),
+    getIssues(),
+    getTrends(),
+  ]);
+
+  return {
+    stats,
+    ticketsByMonth,
+    projectBreakdown,
+    assigneeBreakdown,
+    statusBreakdown,
+    priorityBreakdown,
+    ticketSample,
+    servicingAnalysis,
+    heatmaps,
+    issues,
+    trends,
+    processedAt: new Date().toISOString(),
+  };
 }
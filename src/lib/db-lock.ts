@@ -0,0 +1,59 @@
+/**
+ * Database Advisory Locks
+ * Postgres session-level advisory locks for jobs that must not overlap
+ */
+
+import { Client } from 'pg';
+
+// Advisory lock keys (any stable bigint, one per job)
+export const LOCK_KEYS = {
+  DAILY_SYNC: 7310001,
+};
+
+export type LockResult<T> = { acquired: true; result: T } | { acquired: false };
+
+/**
+ * Run fn while holding an advisory lock
+ *
+ * The lock is taken with pg_try_advisory_lock on a dedicated connection that
+ * stays open for as long as fn runs, and is released with pg_advisory_unlock
+ * when fn settles. If the function is killed, the connection drops and
+ * Postgres releases the lock. Session locks don't survive a transaction-mode
+ * pooler, so this connects with DATABASE_URL_UNPOOLED when it is set.
+ * Returns { acquired: false } immediately if another process holds the lock.
+ */
+export async function withAdvisoryLock<T>(
+  lockKey: number,
+  fn: () => Promise<T>
+): Promise<LockResult<T>> {
+  const connectionString = process.env.DATABASE_URL_UNPOOLED || process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error('DATABASE_URL environment variable is not set');
+  }
+
+  const client = new Client({ connectionString });
+  await client.connect();
+
+  try {
+    const { rows } = await client.query<{ locked: boolean }>(
+      'SELECT pg_try_advisory_lock($1::bigint) AS locked',
+      [lockKey]
+    );
+
+    if (!rows[0]?.locked) {
+      return { acquired: false };
+    }
+
+    try {
+      const result = await fn();
+      return { acquired: true, result };
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1::bigint)', [lockKey]).catch((error) => {
+        // Closing the connection below releases the lock anyway
+        console.warn(`⚠️ Failed to release advisory lock ${lockKey}:`, error);
+      });
+    }
+  } finally {
+    await client.end().catch(() => {});
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * LLM Configuration
+ * Model registry per use case, overridable via environment variables
+ */
+
+import type { LLMUseCase, UseCaseConfig } from './types';
+
+export const LLM_CONFIG = {
+  // "openrouter" (default) or "mock" for offline runs and tests
+  PROVIDER: (process.env.LLM_PROVIDER || 'openrouter').toLowerCase(),
+  OPENROUTER_URL: 'https://openrouter.ai/api/v1/chat/completions',
+  OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY || '',
+  REFERER: 'https://servicing-ticket-analysis.vercel.app',
+};
+
+/**
+ * Default model settings per use case
+ *
+ * Override a model with LLM_MODEL_<USE_CASE>, e.g.
+ * LLM_MODEL_SENTIMENT=anthropic/claude-3.5-haiku
+ */
+const MODEL_REGISTRY: Record<LLMUseCase, UseCaseConfig> = {
+  analyze: {
+    model: 'anthropic/claude-3.5-sonnet',
+    temperature: 0.7,
+    maxTokens: 2000,
+    timeoutMs: 60000,
+    title: 'Servicing Ticket Analysis',
+  },
+  callAnalysis: {
+    model: 'anthropic/claude-3.5-sonnet', // Sonnet for the more complex scorecard
+    temperature: 0.1,                     // Low temperature for consistent structured output
+    maxTokens: 4000,
+    timeoutMs: 90000,
+    title: 'Servicing Ticket Analysis - Call Analysis',
+  },
+  agentProfile: {
+    model: 'anthropic/claude-3.5-sonnet',
+    temperature: 0.3,
+    maxTokens: 1500,
+    timeoutMs: 60000,
+    title: 'Servicing Ticket Analysis - Agent Profile',
+  },
+  sentiment: {
+    model: 'anthropic/claude-3-haiku',
+    temperature: 0,
+    maxTokens: 8000, // Handles long conversations (up to ~500 messages)
+    timeoutMs: 90000,
+    title: 'Servicing Ticket Analysis - Sentiment',
+  },
+  transcriptAnalysis: {
+    model: 'anthropic/claude-3.5-sonnet',
+    jsonMode: true,
+    timeoutMs: 60000,
+    title: 'CMG Servicing Tickets',
+  },
+};
+
+/**
+ * Resolve the model config for a use case, applying env overrides
+ */
+export function getUseCaseConfig(useCase: LLMUseCase): UseCaseConfig {
+  const base = MODEL_REGISTRY[useCase];
+  const envKey = `LLM_MODEL_${useCase.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+
+  return {
+    ...base,
+    model: process.env[envKey] || base.model,
+  };
+}
+
+/**
+ * Whether AI calls can be made (a key is set, or the mock provider is in use)
+ */
+export function isLLMConfigured(): boolean {
+  return LLM_CONFIG.PROVIDER === 'mock' || !!LLM_CONFIG.OPENROUTER_API_KEY;
+}
@@ -0,0 +1,213 @@
+/**
+ * LLM Client
+ * Single entry point for every AI call: model registry, timeouts, token
+ * accounting, JSON extraction, PII redaction, and a mock provider for offline runs
+ */
+
+import { LLM_CONFIG, getUseCaseConfig } from './config';
+import { MockProvider } from './providers/mock';
+import { OpenRouterProvider } from './providers/openrouter';
+import { validate, type Schema } from './schema';
+import { recordError, recordUsage } from './usage';
+import { getRedactionTypes, redactText } from '../redaction';
+import type {
+  ChatMessage,
+  CompletionOptions,
+  CompletionResult,
+  JsonCompletionResult,
+  LLMError,
+  LLMProvider,
+  LLMUseCase,
+  ValidatedCompletionResult,
+} from './types';
+
+export * from './types';
+export { LLM_CONFIG, getUseCaseConfig, isLLMConfigured } from './config';
+export { getLLMUsage, type UseCaseUsage } from './usage';
+export * from './responses';
+export * from './prompts';
+export { validate, type Schema, type ValidationResult } from './schema';
+export { MockProvider } from './providers/mock';
+export { OpenRouterProvider } from './providers/openrouter';
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * The provider selected by LLM_PROVIDER (openrouter by default)
+ */
+export function getProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = LLM_CONFIG.PROVIDER === 'mock' ? new MockProvider() : new OpenRouterProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Swap the provider at runtime (tests, scripts); pass null to go back to the env default
+ */
+export function setProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Run a chat completion for a use case
+ *
+ * Transcript text in user/assistant messages is PII-redacted before it
+ * leaves for the provider (PII_REDACT_LLM, see lib/redaction.ts).
+ */
+export async function complete(
+  useCase: LLMUseCase,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<CompletionResult> {
+  const config = { ...getUseCaseConfig(useCase), ...options };
+  const provider = getProvider();
+  const redactTypes = getRedactionTypes('llm');
+  const outgoing = messages.map((message) =>
+    message.role === 'system' ? message : { ...message, content: redactText(message.content, redactTypes) }
+  );
+
+  try {
+    const result = await provider.complete({ useCase, messages: outgoing, config });
+    await recordUsage(useCase, result.usage, result.durationMs);
+    console.log(
+      `[LLM] ${useCase} ${result.provider}/${result.model}: ${result.usage.totalTokens} tokens ` +
+      `(${result.usage.promptTokens} in, ${result.usage.completionTokens} out) in ${result.durationMs}ms`
+    );
+    return result;
+  } catch (error) {
+    await recordError(useCase);
+    throw error;
+  }
+}
+
+/**
+ * Pull a JSON object or array out of a model response
+ *
+ * Handles markdown code fences and preamble/trailing text like
+ * "Here is the analysis:". An optional fixup runs before parsing.
+ */
+export function extractJson<T = unknown>(content: string, fixup?: (json: string) => string): T {
+  let jsonStr = content.trim();
+
+  // Remove markdown code blocks
+  jsonStr = jsonStr.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  // Take the outermost object or array, whichever starts first
+  const objectStart = jsonStr.indexOf('{');
+  const arrayStart = jsonStr.indexOf('[');
+  const isArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const start = isArray ? arrayStart : objectStart;
+  const end = isArray ? jsonStr.lastIndexOf(']') : jsonStr.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    jsonStr = jsonStr.substring(start, end + 1);
+  }
+
+  if (fixup) {
+    jsonStr = fixup(jsonStr);
+  }
+
+  return JSON.parse(jsonStr.trim()) as T;
+}
+
+/**
+ * Run a completion and parse its JSON response
+ *
+ * Throws if the response is not valid JSON; the raw content is logged.
+ */
+export async function completeJson<T = unknown>(
+  useCase: LLMUseCase,
+  messages: ChatMessage[],
+  options: CompletionOptions & { fixup?: (json: string) => string } = {}
+): Promise<JsonCompletionResult<T>> {
+  const { fixup, ...completionOptions } = options;
+  const result = await complete(useCase, messages, completionOptions);
+
+  try {
+    return { ...result, data: extractJson<T>(result.content, fixup) };
+  } catch (error) {
+    console.error(`[LLM] ${useCase} returned invalid JSON:`, result.content.substring(0, 500));
+    throw new Error(`Invalid JSON from model: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Parse and validate one response; a parse failure counts as a validation error
+ */
+function checkResponse<T>(
+  content: string,
+  schema: Schema<T>,
+  fixup?: (json: string) => string
+): { data: T | undefined; errors: string[]; warnings: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(content, fixup);
+  } catch (error) {
+    return { data: undefined, errors: [`response is not valid JSON (${(error as Error).message})`], warnings: [] };
+  }
+
+  const { value, errors, warnings } = validate(schema, parsed);
+  return { data: value, errors, warnings };
+}
+
+/**
+ * Run a completion and validate its JSON response against a schema
+ *
+ * Out-of-range scores are clamped and enum spellings coerced (returned as
+ * warnings). If the response is still unusable the model gets one repair
+ * round with the list of problems; if that fails too, this throws an
+ * LLMError whose validationErrors say why.
+ */
+export async function completeValidated<T>(
+  useCase: LLMUseCase,
+  messages: ChatMessage[],
+  schema: Schema<T>,
+  options: CompletionOptions & { fixup?: (json: string) => string } = {}
+): Promise<ValidatedCompletionResult<T>> {
+  const { fixup, ...completionOptions } = options;
+
+  const first = await complete(useCase, messages, completionOptions);
+  let checked = checkResponse(first.content, schema, fixup);
+  let result = first;
+  let repaired = false;
+
+  if (checked.data === undefined) {
+    console.warn(`[LLM] ${useCase} response failed validation, requesting repair: ${checked.errors.join('; ')}`);
+
+    result = await complete(useCase, [
+      ...messages,
+      { role: 'assistant', content: first.content },
+      {
+        role: 'user',
+        content: `Your response could not be used:\n${checked.errors.map((e) => `- ${e}`).join('\n')}\n\n` +
+          'Return the corrected, complete JSON only - no other text.',
+      },
+    ], completionOptions);
+    checked = checkResponse(result.content, schema, fixup);
+    repaired = true;
+  }
+
+  if (checked.data === undefined) {
+    console.error(`[LLM] ${useCase} response rejected after repair:`, result.content.substring(0, 500));
+    const error: LLMError = new Error(`Response failed validation: ${checked.errors.slice(0, 5).join('; ')}`);
+    error.validationErrors = checked.errors;
+    throw error;
+  }
+
+  if (checked.warnings.length > 0) {
+    console.warn(`[LLM] ${useCase} response adjusted: ${checked.warnings.join('; ')}`);
+  }
+
+  return { ...result, data: checked.data, warnings: checked.warnings, repaired };
+}
+
+/**
+ * Rate limits, server errors, timeouts and network failures are worth retrying
+ */
+export function isRetryableError(error: LLMError): boolean {
+  if (error.status !== undefined) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // fetch() throws TypeError on network failures, AbortError on timeouts
+  return error.name === 'TypeError' || error.name === 'AbortError';
+}
@@ -0,0 +1,90 @@
+/**
+ * Prompt Templates
+ * Versioned prompts for transcript analysis
+ *
+ * Never edit a published version in place - stored TranscriptAnalysis rows
+ * record the version that produced them. Add a new version, compare it with
+ * the A/B harness (/api/cron/prompt-eval), then switch the default.
+ */
+
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  build: (conversationText: string) => string;
+}
+
+const OUTPUT_FORMAT = `{
+  "agentSentiment": "positive|neutral|negative",
+  "agentSentimentScore": 0.0-1.0,
+  "agentSentimentReason": "brief explanation",
+  "customerSentiment": "positive|neutral|negative",
+  "customerSentimentScore": 0.0-1.0,
+  "customerSentimentReason": "brief explanation",
+  "aiDiscoveredTopic": "main topic",
+  "aiDiscoveredSubcategory": "subcategory if applicable",
+  "topicConfidence": 0.0-1.0,
+  "keyIssues": ["issue1", "issue2"],
+  "resolution": "how was it resolved",
+  "tags": ["tag1", "tag2"]
+}`;
+
+const TRANSCRIPT_ANALYSIS_PROMPTS: Record<string, PromptTemplate> = {
+  v1: {
+    version: 'v1',
+    description: 'Original sync prompt: field list only',
+    build: (conversationText) => `Analyze this customer service call transcript and extract the following information in JSON format:
+
+${OUTPUT_FORMAT}
+
+Transcript:
+${conversationText}`,
+  },
+
+  v2: {
+    version: 'v2',
+    description: 'Sentiment anchors and topic naming rules',
+    build: (conversationText) => `You are analyzing a mortgage servicing customer service call.
+
+Return ONLY a JSON object in this format:
+
+${OUTPUT_FORMAT}
+
+SENTIMENT RULES:
+- Judge the customer by how they feel at the END of the call, not the reason they called
+- positive: satisfied, thankful, issue handled (score 0.65-1.0)
+- neutral: routine, transactional, no strong emotion (score 0.35-0.65)
+- negative: frustrated, angry, unresolved, or escalating (score 0.0-0.35)
+- Judge the agent on professionalism and helpfulness, not on the outcome
+
+TOPIC RULES:
+- aiDiscoveredTopic: a short, general category (2-4 words), e.g. "Payment Issue", "Escrow", "Loan Payoff", "Insurance", "Account Access"
+- aiDiscoveredSubcategory: the specific request within that topic, e.g. "Autopay Setup", "Escrow Shortage"
+- Use the same wording for the same kind of call - do not invent a new topic name for each call
+
+Transcript:
+${conversationText}`,
+  },
+};
+
+// Version used by the analysis queue; override with TRANSCRIPT_PROMPT_VERSION
+export const DEFAULT_TRANSCRIPT_PROMPT_VERSION = 'v1';
+
+export function getTranscriptPromptVersion(): string {
+  const version = process.env.TRANSCRIPT_PROMPT_VERSION || DEFAULT_TRANSCRIPT_PROMPT_VERSION;
+  return TRANSCRIPT_ANALYSIS_PROMPTS[version] ? version : DEFAULT_TRANSCRIPT_PROMPT_VERSION;
+}
+
+/**
+ * Look up a transcript analysis prompt (throws on an unknown version)
+ */
+export function getTranscriptPrompt(version: string = getTranscriptPromptVersion()): PromptTemplate {
+  const template = TRANSCRIPT_ANALYSIS_PROMPTS[version];
+  if (!template) {
+    throw new Error(`Unknown transcript prompt version "${version}" (available: ${listTranscriptPromptVersions().join(', ')})`);
+  }
+  return template;
+}
+
+export function listTranscriptPromptVersions(): string[] {
+  return Object.keys(TRANSCRIPT_ANALYSIS_PROMPTS);
+}
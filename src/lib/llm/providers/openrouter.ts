@@ -0,0 +1,74 @@
+/**
+ * OpenRouter Provider
+ * Chat completions over the OpenRouter API with a per-call timeout
+ */
+
+import { LLM_CONFIG } from '../config';
+import type { CompletionResult, LLMError, LLMProvider, ProviderRequest } from '../types';
+
+export class OpenRouterProvider implements LLMProvider {
+  readonly name = 'openrouter';
+
+  async complete({ messages, config }: ProviderRequest): Promise<CompletionResult> {
+    if (!LLM_CONFIG.OPENROUTER_API_KEY) {
+      throw new Error('OpenRouter API key not configured');
+    }
+
+    const startTime = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+    try {
+      const response = await fetch(LLM_CONFIG.OPENROUTER_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${LLM_CONFIG.OPENROUTER_API_KEY}`,
+          'HTTP-Referer': LLM_CONFIG.REFERER,
+          'X-Title': config.title,
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          ...(config.maxTokens !== undefined && { max_tokens: config.maxTokens }),
+          ...(config.temperature !== undefined && { temperature: config.temperature }),
+          ...(config.jsonMode && { response_format: { type: 'json_object' } }),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        const retryAfter = parseInt(response.headers.get('retry-after') || '');
+        const error: LLMError = new Error(`OpenRouter API error: ${response.status} ${response.statusText}`);
+        error.status = response.status;
+        if (!isNaN(retryAfter)) error.retryAfterMs = retryAfter * 1000;
+        console.error('OpenRouter API error:', errorText);
+        throw error;
+      }
+
+      const data = await response.json();
+
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        model: data.model || config.model,
+        provider: this.name,
+        usage: {
+          promptTokens: data.usage?.prompt_tokens || 0,
+          completionTokens: data.usage?.completion_tokens || 0,
+          totalTokens: data.usage?.total_tokens || 0,
+        },
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        const timeoutError: LLMError = new Error(`OpenRouter request timed out after ${config.timeoutMs}ms`);
+        timeoutError.name = 'AbortError';
+        throw timeoutError;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * AI Response Shapes
+ * Types and runtime schemas for every JSON response the app asks a model for
+ */
+
+import { array, enumOf, number, object, optional, string, type Schema } from './schema';
+
+const SENTIMENT_LABELS = ['positive', 'neutral', 'negative'] as const;
+export type SentimentLabel = (typeof SENTIMENT_LABELS)[number];
+
+const sentimentLabel = enumOf(SENTIMENT_LABELS, {
+  aliases: { mixed: 'neutral', none: 'neutral', 'n/a': 'neutral', pos: 'positive', neg: 'negative' },
+});
+
+const scale1to5 = number({ min: 1, max: 5 });
+const scale0to1 = number({ min: 0, max: 1 });
+const text = string({ default: '' });
+const textList = array(string(), { optional: true });
+
+// ---------------------------------------------------------------------------
+// Transcript analysis (analysis queue -> TranscriptAnalysis table)
+// ---------------------------------------------------------------------------
+
+export interface TranscriptAnalysisResult {
+  agentSentiment: SentimentLabel;
+  agentSentimentScore: number;          // 0.0 to 1.0
+  agentSentimentReason: string | null;
+  customerSentiment: SentimentLabel;
+  customerSentimentScore: number;       // 0.0 to 1.0
+  customerSentimentReason: string | null;
+  aiDiscoveredTopic: string | null;
+  aiDiscoveredSubcategory: string | null;
+  topicConfidence: number | null;       // 0.0 to 1.0
+  keyIssues: string[];
+  resolution: string | null;
+  tags: string[];
+}
+
+export const transcriptAnalysisSchema: Schema<TranscriptAnalysisResult> = object({
+  agentSentiment: sentimentLabel,
+  agentSentimentScore: scale0to1,
+  agentSentimentReason: optional(string()),
+  customerSentiment: sentimentLabel,
+  customerSentimentScore: scale0to1,
+  customerSentimentReason: optional(string()),
+  aiDiscoveredTopic: optional(string()),
+  aiDiscoveredSubcategory: optional(string()),
+  topicConfidence: optional(scale0to1),
+  keyIssues: textList,
+  resolution: optional(string()),
+  tags: textList,
+});
+
+// ---------------------------------------------------------------------------
+// Call analysis (/api/call-analysis)
+// ---------------------------------------------------------------------------
+
+export interface CallAnalysis {
+  // Overall Scores (1-5 scale)
+  overallScores: {
+    customerSatisfaction: number;
+    resolutionConfidence: number;
+    agentProfessionalism: number;
+    empathyConnection: number;
+    communicationClarity: number;
+    overallCallImpact: number;
+  };
+
+  // Executive Summary
+  executiveSummary: {
+    overview: string;
+    reasonForContact: string;
+    mainActions: string;
+    resolutionOutcome: string;
+    emotionalTrajectory: string;
+  };
+
+  // Key Interaction Points
+  keyInteractionPoints: string[];
+
+  // Follow-up Items
+  followUpItems: Array<{
+    party: 'Agent' | 'Customer' | 'Back Office';
+    action: string;
+    context: string;
+    deadline: string;
+  }>;
+
+  // Sentiment Progression
+  sentimentProgression: {
+    customer: {
+      start: { tone: string; score: number };
+      mid: { tone: string; score: number };
+      end: { tone: string; score: number };
+    };
+    agent: {
+      start: { tone: string; score: number };
+      mid: { tone: string; score: number };
+      end: { tone: string; score: number };
+    };
+  };
+
+  // Communication Quality (1-5 each)
+  communicationQuality: {
+    customer: CommunicationQuality;
+    agent: CommunicationQuality;
+  };
+
+  // Behavioral Summaries
+  agentSummary: {
+    toneProfessionalism: string;
+    problemSolving: string;
+    empathyConnection: string;
+    deEscalation: string;
+    closure: string;
+  };
+
+  customerSummary: {
+    initialDisposition: string;
+    engagementCooperation: string;
+    toneEvolution: string;
+    satisfactionLevel: string;
+  };
+
+  // Insights
+  insights: {
+    relationalFlow: string;
+    conflictRecovery: string;
+    psychologicalCommentary: string;
+  };
+}
+
+export interface CommunicationQuality {
+  clarity: number;
+  empathy: number;
+  activeListening: number;
+  respectfulness: number;
+  emotionalRegulation: number;
+  responsiveness: number;
+}
+
+const communicationQuality = object<CommunicationQuality>({
+  clarity: scale1to5,
+  empathy: scale1to5,
+  activeListening: scale1to5,
+  respectfulness: scale1to5,
+  emotionalRegulation: scale1to5,
+  responsiveness: scale1to5,
+});
+
+const toneAt = object<{ tone: string; score: number }>({ tone: text, score: scale1to5 });
+const toneProgression = object({ start: toneAt, mid: toneAt, end: toneAt });
+
+export const callAnalysisSchema: Schema<CallAnalysis> = object<CallAnalysis>({
+  overallScores: object({
+    customerSatisfaction: scale1to5,
+    resolutionConfidence: scale1to5,
+    agentProfessionalism: scale1to5,
+    empathyConnection: scale1to5,
+    communicationClarity: scale1to5,
+    overallCallImpact: scale1to5,
+  }),
+  executiveSummary: object({
+    overview: string(),
+    reasonForContact: text,
+    mainActions: text,
+    resolutionOutcome: text,
+    emotionalTrajectory: text,
+  }),
+  keyInteractionPoints: textList,
+  followUpItems: array(
+    object<CallAnalysis['followUpItems'][number]>({
+      party: enumOf(['Agent', 'Customer', 'Back Office'] as const, {
+        aliases: { backoffice: 'Back Office', 'back-office': 'Back Office', both: 'Agent' },
+        default: 'Agent',
+      }),
+      action: string(),
+      context: text,
+      deadline: text,
+    }),
+    { optional: true }
+  ),
+  sentimentProgression: object({ customer: toneProgression, agent: toneProgression }),
+  communicationQuality: object({ customer: communicationQuality, agent: communicationQuality }),
+  agentSummary: object({
+    toneProfessionalism: text,
+    problemSolving: text,
+    empathyConnection: text,
+    deEscalation: text,
+    closure: text,
+  }),
+  customerSummary: object({
+    initialDisposition: text,
+    engagementCooperation: text,
+    toneEvolution: text,
+    satisfactionLevel: text,
+  }),
+  insights: object({
+    relationalFlow: text,
+    conflictRecovery: text,
+    psychologicalCommentary: text,
+  }),
+});
+
+// ---------------------------------------------------------------------------
+// Agent coaching profile (/api/agent-profile)
+// ---------------------------------------------------------------------------
+
+export interface AgentInsights {
+  strengths: string[];
+  areasForImprovement: string[];
+  recommendations: string[];
+  overallAssessment: string;
+}
+
+export const agentInsightsSchema: Schema<AgentInsights> = object<AgentInsights>({
+  strengths: array(string(), { minLength: 1 }),
+  areasForImprovement: array(string(), { minLength: 1 }),
+  recommendations: array(string(), { minLength: 1 }),
+  overallAssessment: string(),
+});
+
+// ---------------------------------------------------------------------------
+// Per-message sentiment (/api/sentiment)
+// ---------------------------------------------------------------------------
+
+export interface MessageSentiment {
+  score: number;      // -1.0 to +1.0
+  emotion: string;
+}
+
+export const sentimentTimelineSchema: Schema<MessageSentiment[]> = array(
+  object<MessageSentiment>({
+    score: number({ min: -1, max: 1 }),
+    emotion: string({ default: 'neutral' }),
+  })
+);
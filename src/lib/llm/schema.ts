@@ -0,0 +1,188 @@
+/**
+ * Response Schemas
+ * Small runtime validators for model JSON: clamp numbers into range,
+ * coerce enum spellings, and collect errors for anything unusable
+ *
+ * Fixable problems (a 6 on a 1-5 scale, "Positive" for "positive") are
+ * corrected and reported as warnings. Missing or unusable values are
+ * errors - the caller asks the model to repair them or rejects the response.
+ */
+
+export interface ValidationIssues {
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ValidationResult<T> extends ValidationIssues {
+  value: T | undefined;
+}
+
+/**
+ * A validator returns the cleaned value, or undefined after recording an error
+ */
+export type Schema<T> = (input: unknown, path: string, issues: ValidationIssues) => T | undefined;
+
+function describe(input: unknown): string {
+  if (input === null) return 'null';
+  if (Array.isArray(input)) return 'array';
+  return typeof input === 'string' ? `"${input.substring(0, 40)}"` : typeof input;
+}
+
+/**
+ * Number clamped to [min, max]; numeric strings are accepted
+ */
+export function number(options: { min: number; max: number; integer?: boolean; default?: number }): Schema<number> {
+  return (input, path, issues) => {
+    const parsed = typeof input === 'string' && input.trim() !== '' ? Number(input) : input;
+
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      if (options.default !== undefined) {
+        issues.warnings.push(`${path}: expected a number, got ${describe(input)} - used ${options.default}`);
+        return options.default;
+      }
+      issues.errors.push(`${path}: expected a number between ${options.min} and ${options.max}, got ${describe(input)}`);
+      return undefined;
+    }
+
+    let value = options.integer ? Math.round(parsed) : parsed;
+    if (value < options.min || value > options.max) {
+      const clamped = Math.max(options.min, Math.min(options.max, value));
+      issues.warnings.push(`${path}: ${value} clamped to ${clamped}`);
+      value = clamped;
+    }
+    return value;
+  };
+}
+
+/**
+ * String; numbers are stringified, null/missing falls back to the default if one is given
+ */
+export function string(options: { default?: string } = {}): Schema<string> {
+  return (input, path, issues) => {
+    if (typeof input === 'string') return input.trim();
+    if (typeof input === 'number' || typeof input === 'boolean') return String(input);
+    if (options.default !== undefined) {
+      if (input !== undefined && input !== null) {
+        issues.warnings.push(`${path}: expected a string, got ${describe(input)}`);
+      }
+      return options.default;
+    }
+    issues.errors.push(`${path}: expected a string, got ${describe(input)}`);
+    return undefined;
+  };
+}
+
+/**
+ * One of a fixed set of values, matched case-insensitively
+ *
+ * `aliases` maps other spellings (lowercased) onto allowed values, e.g.
+ * { mixed: 'neutral' }. A value containing exactly one allowed value
+ * ("mostly positive") is coerced to it.
+ */
+export function enumOf<T extends string>(
+  values: readonly T[],
+  options: { aliases?: Record<string, T>; default?: T } = {}
+): Schema<T> {
+  return (input, path, issues) => {
+    if (typeof input === 'string') {
+      const normalized = input.trim().toLowerCase();
+      const exact = values.find((v) => v === input);
+      if (exact) return exact;
+
+      const coerced =
+        values.find((v) => v.toLowerCase() === normalized) ??
+        options.aliases?.[normalized] ??
+        (() => {
+          const contained = values.filter((v) => normalized.includes(v.toLowerCase()));
+          return contained.length === 1 ? contained[0] : undefined;
+        })();
+
+      if (coerced) {
+        issues.warnings.push(`${path}: "${input}" coerced to "${coerced}"`);
+        return coerced;
+      }
+    }
+
+    if (options.default !== undefined) {
+      issues.warnings.push(`${path}: ${describe(input)} is not one of ${values.join('|')} - used "${options.default}"`);
+      return options.default;
+    }
+    issues.errors.push(`${path}: expected one of ${values.join('|')}, got ${describe(input)}`);
+    return undefined;
+  };
+}
+
+/**
+ * Array of items; invalid items are errors. A missing array falls back to [] when optional.
+ */
+export function array<T>(item: Schema<T>, options: { optional?: boolean; minLength?: number } = {}): Schema<T[]> {
+  return (input, path, issues) => {
+    if (input === undefined || input === null) {
+      if (options.optional) return [];
+      issues.errors.push(`${path}: expected an array, got ${describe(input)}`);
+      return undefined;
+    }
+    if (!Array.isArray(input)) {
+      issues.errors.push(`${path}: expected an array, got ${describe(input)}`);
+      return undefined;
+    }
+    if (options.minLength !== undefined && input.length < options.minLength) {
+      issues.errors.push(`${path}: expected at least ${options.minLength} item(s), got ${input.length}`);
+      return undefined;
+    }
+
+    const result: T[] = [];
+    let valid = true;
+    input.forEach((entry, index) => {
+      const value = item(entry, `${path}[${index}]`, issues);
+      if (value === undefined) valid = false;
+      else result.push(value);
+    });
+    return valid ? result : undefined;
+  };
+}
+
+/**
+ * Object with a fixed shape; unknown keys are dropped
+ */
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (input, path, issues) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      issues.errors.push(`${path || 'response'}: expected an object, got ${describe(input)}`);
+      return undefined;
+    }
+
+    const record = input as Record<string, unknown>;
+    const result = {} as T;
+    let valid = true;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const value = shape[key](record[key], path ? `${path}.${key}` : key, issues);
+      if (value === undefined) valid = false;
+      else result[key] = value;
+    }
+    return valid ? result : undefined;
+  };
+}
+
+/**
+ * Allow a field to be missing; the validator still runs when a value is present
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | null> {
+  return (input, path, issues) => {
+    if (input === undefined || input === null || input === '') return null;
+    const value = schema(input, path, issues);
+    return value === undefined ? undefined : value;
+  };
+}
+
+/**
+ * Run a schema against parsed model output
+ */
+export function validate<T>(schema: Schema<T>, input: unknown): ValidationResult<T> {
+  const issues: ValidationIssues = { errors: [], warnings: [] };
+  const value = schema(input, '', issues);
+  return {
+    value: issues.errors.length === 0 ? value : undefined,
+    ...issues,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * LLM Types
+ * Shared request/response shapes for every AI call in the app
+ */
+
+/**
+ * Every place the app calls a model - each gets its own model config
+ */
+export type LLMUseCase =
+  | 'analyze'             // Free-form "Ask AI" analysis (/api/analyze)
+  | 'callAnalysis'        // Full call scorecard (/api/call-analysis)
+  | 'agentProfile'        // Agent coaching profile (/api/agent-profile)
+  | 'sentiment'           // Per-message sentiment timeline (/api/sentiment)
+  | 'transcriptAnalysis'; // Sync/queue transcript analysis (analysis-queue)
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface UseCaseConfig {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs: number;
+  jsonMode?: boolean;   // Ask the provider for a JSON object response
+  title: string;        // Sent as X-Title so OpenRouter usage is broken down per feature
+}
+
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  jsonMode?: boolean;
+}
+
+export interface ProviderRequest {
+  useCase: LLMUseCase;
+  messages: ChatMessage[];
+  config: UseCaseConfig;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  provider: string;
+  usage: TokenUsage;
+  durationMs: number;
+}
+
+export interface JsonCompletionResult<T> extends CompletionResult {
+  data: T;
+}
+
+export interface ValidatedCompletionResult<T> extends JsonCompletionResult<T> {
+  warnings: string[];   // Values that were clamped or coerced
+  repaired: boolean;    // True when the repair round produced the accepted response
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: ProviderRequest): Promise<CompletionResult>;
+}
+
+/**
+ * Error from an AI call, with the HTTP status when there was one, or the
+ * schema errors when the response could not be validated
+ */
+export type LLMError = Error & { status?: number; retryAfterMs?: number; validationErrors?: string[] };
@@ -0,0 +1,102 @@
+/**
+ * LLM Token Accounting
+ * Per-use-case call and token totals, kept per UTC day in the llm_usage table
+ */
+
+import prisma from '@/lib/db';
+import type { LLMUseCase, TokenUsage } from './types';
+
+export interface UseCaseUsage extends TokenUsage {
+  calls: number;
+  errors: number;
+  totalDurationMs: number;
+}
+
+/**
+ * Add one call's numbers to today's row for the use case
+ *
+ * Accounting never fails the call it is counting - a write error is logged
+ * and dropped.
+ */
+async function addUsage(useCase: LLMUseCase, delta: UseCaseUsage): Promise<void> {
+  const day = new Date().toISOString().split('T')[0];
+
+  try {
+    await prisma.$executeRaw`
+      INSERT INTO llm_usage (day, use_case, calls, errors, prompt_tokens, completion_tokens, total_tokens, total_duration_ms, updated_at)
+      VALUES (${day}, ${useCase}, ${delta.calls}, ${delta.errors}, ${delta.promptTokens}, ${delta.completionTokens},
+              ${delta.totalTokens}, ${delta.totalDurationMs}, NOW())
+      ON CONFLICT (day, use_case) DO UPDATE SET
+        calls = llm_usage.calls + EXCLUDED.calls,
+        errors = llm_usage.errors + EXCLUDED.errors,
+        prompt_tokens = llm_usage.prompt_tokens + EXCLUDED.prompt_tokens,
+        completion_tokens = llm_usage.completion_tokens + EXCLUDED.completion_tokens,
+        total_tokens = llm_usage.total_tokens + EXCLUDED.total_tokens,
+        total_duration_ms = llm_usage.total_duration_ms + EXCLUDED.total_duration_ms,
+        updated_at = NOW()
+    `;
+  } catch (error) {
+    console.warn(`⚠️ [LLM] Failed to record usage for ${useCase}:`, error);
+  }
+}
+
+/**
+ * Record a successful call
+ */
+export async function recordUsage(useCase: LLMUseCase, usage: TokenUsage, durationMs: number): Promise<void> {
+  await addUsage(useCase, {
+    calls: 1,
+    errors: 0,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens: usage.totalTokens,
+    totalDurationMs: durationMs,
+  });
+}
+
+/**
+ * Record a failed call
+ */
+export async function recordError(useCase: LLMUseCase): Promise<void> {
+  await addUsage(useCase, {
+    calls: 0,
+    errors: 1,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    totalDurationMs: 0,
+  });
+}
+
+/**
+ * Per-use-case totals for the last `days` UTC days, today included
+ */
+export async function getLLMUsage(days: number = 7): Promise<Partial<Record<LLMUseCase, UseCaseUsage>>> {
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  const grouped = await prisma.llm_usage.groupBy({
+    by: ['use_case'],
+    where: { day: { gte: since } },
+    _sum: {
+      calls: true,
+      errors: true,
+      prompt_tokens: true,
+      completion_tokens: true,
+      total_tokens: true,
+      total_duration_ms: true,
+    },
+  });
+
+  const usage: Partial<Record<LLMUseCase, UseCaseUsage>> = {};
+  for (const row of grouped) {
+    usage[row.use_case as LLMUseCase] = {
+      calls: row._sum.calls || 0,
+      errors: row._sum.errors || 0,
+      promptTokens: row._sum.prompt_tokens || 0,
+      completionTokens: row._sum.completion_tokens || 0,
+      totalTokens: row._sum.total_tokens || 0,
+      totalDurationMs: row._sum.total_duration_ms || 0,
+    };
+  }
+  return usage;
+}
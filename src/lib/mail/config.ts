@@ -0,0 +1,31 @@
+/**
+ * Mail Configuration
+ * Transport selection, SMTP settings and notification recipients from the environment
+ */
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export const MAIL_CONFIG = {
+  // "smtp" (default), "file" to write mail to MAIL_FILE_DIR and the console, or "memory" for tests
+  TRANSPORT: (process.env.MAIL_TRANSPORT || 'smtp').toLowerCase(),
+  FILE_DIR: process.env.MAIL_FILE_DIR || '.mail',
+
+  SMTP_HOST: process.env.SMTP_HOST || 'smtp.gmail.com',
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || '587'),
+  SMTP_USER: process.env.SMTP_USER,
+  SMTP_PASS: process.env.SMTP_PASS,
+
+  FROM_NAME: 'Servicing Ticket Analysis',
+  FROM_ADDRESS: process.env.MAIL_FROM || process.env.SMTP_USER || 'no-reply@cmgfi.com',
+
+  // Who gets operational alerts (failed syncs) and the daily sync digest
+  ALERT_RECIPIENTS: parseList(process.env.MAIL_ALERT_RECIPIENTS),
+  DIGEST_RECIPIENTS: parseList(process.env.MAIL_DIGEST_RECIPIENTS),
+
+  APP_URL: process.env.APP_URL || 'https://servicing-ticket-analysis.vercel.app',
+};
@@ -0,0 +1,101 @@
+/**
+ * Mail
+ * Single entry point for outgoing email: transport selection, sender
+ * defaults, and helpers for alert and digest notifications
+ */
+
+import { MAIL_CONFIG } from './config';
+import { FileTransport } from './providers/file';
+import { MemoryTransport } from './providers/memory';
+import { SmtpTransport } from './providers/smtp';
+import { alertEmail, digestEmail, type AlertContent, type DigestContent } from './templates';
+import type { MailContent, MailMessage, MailTransport } from './types';
+
+export * from './types';
+export * from './templates';
+export { MAIL_CONFIG } from './config';
+export { FileTransport } from './providers/file';
+export { MemoryTransport } from './providers/memory';
+export { SmtpTransport } from './providers/smtp';
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * The transport selected by MAIL_TRANSPORT (smtp by default)
+ */
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    switch (MAIL_CONFIG.TRANSPORT) {
+      case 'smtp':
+        activeTransport = new SmtpTransport();
+        break;
+      case 'file':
+        activeTransport = new FileTransport(MAIL_CONFIG.FILE_DIR);
+        break;
+      case 'memory':
+        activeTransport = new MemoryTransport();
+        break;
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT: ${MAIL_CONFIG.TRANSPORT}`);
+    }
+  }
+  return activeTransport;
+}
+
+/**
+ * Swap the transport at runtime (tests, scripts); pass null to go back to the env default
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+  activeTransport = transport;
+}
+
+/**
+ * Send an email through the active transport. Throws if delivery fails.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const to = (Array.isArray(message.to) ? message.to : [message.to]).map((address) => address.trim().toLowerCase());
+  if (to.length === 0) {
+    throw new Error('Email has no recipients');
+  }
+
+  const transport = getMailTransport();
+  await transport.send({
+    to,
+    from: message.from || `"${MAIL_CONFIG.FROM_NAME}" <${MAIL_CONFIG.FROM_ADDRESS}>`,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+  });
+
+  console.log(`[Mail] "${message.subject}" sent to ${to.join(', ')} via ${transport.name}`);
+}
+
+/**
+ * Send a notification to a recipient list; never throws, so a mail outage
+ * cannot fail the job that triggered it. Returns whether anything was sent.
+ */
+async function notify(recipients: string[], content: MailContent): Promise<boolean> {
+  if (recipients.length === 0) return false;
+
+  try {
+    await sendMail({ to: recipients, ...content });
+    return true;
+  } catch (error) {
+    console.error(`[Mail] Failed to send "${content.subject}":`, error);
+    return false;
+  }
+}
+
+/**
+ * Email an operational alert to MAIL_ALERT_RECIPIENTS (no-op when unset)
+ */
+export async function sendAlert(alert: AlertContent): Promise<boolean> {
+  return notify(MAIL_CONFIG.ALERT_RECIPIENTS, alertEmail(alert));
+}
+
+/**
+ * Email a digest to MAIL_DIGEST_RECIPIENTS (no-op when unset)
+ */
+export async function sendDigest(digest: DigestContent): Promise<boolean> {
+  return notify(MAIL_CONFIG.DIGEST_RECIPIENTS, digestEmail(digest));
+}
@@ -0,0 +1,38 @@
+/**
+ * File Transport
+ * Local mail sink - writes each message to disk and prints it to the console
+ *
+ * Lets the login flow run without SMTP credentials: the OTP code shows up in
+ * the dev server log, and the HTML can be opened from MAIL_FILE_DIR.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { MailTransport, OutgoingMail } from '../types';
+
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(process.cwd(), dir);
+  }
+
+  async send(message: OutgoingMail): Promise<void> {
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+    const base = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}`);
+
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(`${base}.html`, message.html, 'utf-8');
+    await fs.promises.writeFile(
+      `${base}.txt`,
+      `From: ${message.from}\nTo: ${message.to.join(', ')}\nSubject: ${message.subject}\n\n${message.text}\n`,
+      'utf-8'
+    );
+
+    console.log(
+      `📧 [Mail] ${message.subject}\n   To: ${message.to.join(', ')}\n   Saved: ${base}.html\n\n${message.text}\n`
+    );
+  }
+}
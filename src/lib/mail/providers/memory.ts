@@ -0,0 +1,30 @@
+/**
+ * Memory Transport
+ * Keeps sent mail in an array so tests and scripts can inspect it
+ */
+
+import type { MailTransport, OutgoingMail } from '../types';
+
+export class MemoryTransport implements MailTransport {
+  readonly name = 'memory';
+
+  readonly sent: OutgoingMail[] = [];
+
+  async send(message: OutgoingMail): Promise<void> {
+    this.sent.push(message);
+  }
+
+  /**
+   * Most recent message, optionally the most recent one to a given address
+   */
+  last(to?: string): OutgoingMail | undefined {
+    const matches = to
+      ? this.sent.filter((message) => message.to.includes(to.toLowerCase()))
+      : this.sent;
+    return matches[matches.length - 1];
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * SMTP Transport
+ * Delivers mail through nodemailer (Gmail by default)
+ */
+
+import type { Transporter } from 'nodemailer';
+import { MAIL_CONFIG } from '../config';
+import type { MailTransport, OutgoingMail } from '../types';
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  private transporter: Transporter | null = null;
+
+  /**
+   * Pooled transporter, created on first send. nodemailer is imported lazily
+   * so it is only bundled into routes that actually send mail.
+   */
+  private async getTransporter(): Promise<Transporter> {
+    if (!MAIL_CONFIG.SMTP_USER || !MAIL_CONFIG.SMTP_PASS) {
+      throw new Error('SMTP credentials not configured');
+    }
+
+    if (!this.transporter) {
+      const nodemailer = await import('nodemailer');
+      this.transporter = nodemailer.createTransport({
+        host: MAIL_CONFIG.SMTP_HOST,
+        port: MAIL_CONFIG.SMTP_PORT,
+        secure: false, // Use STARTTLS
+        auth: {
+          user: MAIL_CONFIG.SMTP_USER,
+          pass: MAIL_CONFIG.SMTP_PASS,
+        },
+        pool: true,
+        maxConnections: 5,
+        maxMessages: 100,
+      });
+    }
+
+    return this.transporter;
+  }
+
+  async send(message: OutgoingMail): Promise<void> {
+    const transporter = await this.getTransporter();
+    await transporter.sendMail({
+      from: message.from,
+      to: message.to.join(', '),
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+  }
+}
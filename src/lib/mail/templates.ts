@@ -0,0 +1,219 @@
+/**
+ * Mail Templates
+ * Branded HTML and plain-text bodies for every email the app sends
+ *
+ * Each template returns { subject, html, text }. All of them share one
+ * layout, so new notifications only describe their content.
+ */
+
+import { AUTH_CONFIG } from '../auth/config';
+import { MAIL_CONFIG } from './config';
+import type { MailContent } from './types';
+
+export interface AlertContent {
+  title: string;
+  message: string;
+  details?: Record<string, string | number | null | undefined>;
+}
+
+export interface DigestSection {
+  heading: string;
+  rows: [label: string, value: string | number][];
+}
+
+export interface DigestContent {
+  title: string;
+  summary: string;
+  sections: DigestSection[];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wrap body HTML in the shared branded layout
+ */
+function renderLayout(options: { icon: string; heading: string; body: string }): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #0f172a; color: #f8fafc; margin: 0; padding: 0; }
+    .container { max-width: 600px; margin: 40px auto; background: linear-gradient(to bottom right, #1e293b, #0f172a); border-radius: 16px; border: 1px solid rgba(148, 163, 184, 0.1); overflow: hidden; }
+    .header { background: linear-gradient(135deg, #3b82f6 0%, #2563eb 100%); padding: 40px 30px; text-align: center; }
+    .header-icon { font-size: 48px; margin-bottom: 12px; }
+    .header h1 { margin: 0; color: white; font-size: 28px; font-weight: bold; }
+    .content { padding: 40px 30px; }
+    .content h2 { color: #3b82f6; margin-top: 0; font-size: 22px; }
+    .content p { line-height: 1.6; color: #cbd5e1; }
+    .code-box { background: rgba(59, 130, 246, 0.1); border: 2px solid #3b82f6; border-radius: 12px; padding: 24px; text-align: center; margin: 30px 0; }
+    .code { font-size: 42px; font-weight: bold; letter-spacing: 12px; color: #3b82f6; font-family: 'Courier New', monospace; }
+    .warning { background: rgba(239, 68, 68, 0.1); border-left: 4px solid #ef4444; padding: 16px; margin: 24px 0; border-radius: 6px; font-size: 14px; }
+    .meta-text { color: #94a3b8; font-size: 12px; margin: 10px 0; }
+    table { width: 100%; border-collapse: collapse; margin: 12px 0 24px 0; font-size: 14px; }
+    td { padding: 8px 0; border-bottom: 1px solid rgba(148, 163, 184, 0.1); color: #cbd5e1; }
+    td.value { text-align: right; color: #f8fafc; font-weight: 600; }
+    .footer { background: rgba(148, 163, 184, 0.05); padding: 24px; text-align: center; font-size: 12px; color: #94a3b8; border-top: 1px solid rgba(148, 163, 184, 0.1); }
+    a { color: #3b82f6; text-decoration: none; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="header-icon">${options.icon}</div>
+      <h1>Servicing Ticket Analysis</h1>
+    </div>
+    <div class="content">
+      <h2>${escapeHtml(options.heading)}</h2>
+      ${options.body}
+    </div>
+    <div class="footer">
+      <p style="margin: 0 0 8px 0; font-weight: 600;">CMG Financial | Servicing Ticket Analysis</p>
+      <p style="margin: 0;">AI-Powered Transcript Analytics & Insights</p>
+      <p style="margin: 16px 0 0 0; color: #64748b;">
+        This is an automated message. Please do not reply to this email.
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Plain-text footer shared by every template
+ */
+function textFooter(): string {
+  return `---
+Servicing Ticket Analysis - AI-Powered Transcript Analytics
+© ${new Date().getFullYear()} CMG Financial. All rights reserved.`;
+}
+
+function renderRows(rows: [string, string | number][]): string {
+  return `<table>${rows
+    .map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td class="value">${escapeHtml(String(value))}</td></tr>`)
+    .join('')}</table>`;
+}
+
+/**
+ * One-time sign-in code
+ */
+export function otpEmail(code: string): MailContent {
+  const body = `
+      <p>Hello! Someone requested access to the Servicing Ticket Analysis dashboard using this email address.</p>
+
+      <div class="code-box">
+        <div class="meta-text">VERIFICATION CODE</div>
+        <div class="code">${escapeHtml(code)}</div>
+        <div class="meta-text">Valid for ${AUTH_CONFIG.OTP_EXPIRY_MINUTES} minutes</div>
+      </div>
+
+      <p>Enter this code on the login page to access your ticket analysis dashboard.</p>
+
+      <div class="warning">
+        <strong style="color: #fca5a5;">⚠️ Security Notice:</strong><br>
+        <div style="margin-top: 8px; line-height: 1.6;">
+          • This code expires in ${AUTH_CONFIG.OTP_EXPIRY_MINUTES} minutes<br>
+          • You have ${AUTH_CONFIG.MAX_ATTEMPTS} attempts to enter it correctly<br>
+          • If you didn't request this code, please ignore this email<br>
+          • Never share this code with anyone
+        </div>
+      </div>
+
+      <p style="margin-top: 30px; color: #94a3b8; font-size: 14px;">
+        Questions? Contact your IT administrator.
+      </p>`;
+
+  const text = `
+Servicing Ticket Analysis - Access Verification
+
+Your verification code: ${code}
+
+This code is valid for ${AUTH_CONFIG.OTP_EXPIRY_MINUTES} minutes.
+
+Enter this code on the login page to access your account.
+
+If you didn't request this code, you can safely ignore this email.
+
+SECURITY NOTICE:
+• Never share this code with anyone
+• The code expires in ${AUTH_CONFIG.OTP_EXPIRY_MINUTES} minutes
+• You have ${AUTH_CONFIG.MAX_ATTEMPTS} attempts to enter it correctly
+
+${textFooter()}`.trim();
+
+  return {
+    subject: 'Your Servicing Ticket Analysis Access Code',
+    html: renderLayout({ icon: '🔐', heading: 'Your Access Code', body }),
+    text,
+  };
+}
+
+/**
+ * Operational alert (e.g. a failed sync)
+ */
+export function alertEmail(alert: AlertContent): MailContent {
+  const details = Object.entries(alert.details || {})
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([label, value]) => [label, value as string | number] as [string, string | number]);
+
+  const body = `
+      <div class="warning">${escapeHtml(alert.message)}</div>
+      ${details.length > 0 ? renderRows(details) : ''}
+      <p><a href="${MAIL_CONFIG.APP_URL}">Open the dashboard</a></p>`;
+
+  const text = `
+ALERT: ${alert.title}
+
+${alert.message}
+${details.length > 0 ? `\n${details.map(([label, value]) => `${label}: ${value}`).join('\n')}\n` : ''}
+${MAIL_CONFIG.APP_URL}
+
+${textFooter()}`.trim();
+
+  return {
+    subject: `[Alert] ${alert.title}`,
+    html: renderLayout({ icon: '🚨', heading: alert.title, body }),
+    text,
+  };
+}
+
+/**
+ * Periodic summary made of labelled sections
+ */
+export function digestEmail(digest: DigestContent): MailContent {
+  const body = `
+      <p>${escapeHtml(digest.summary)}</p>
+      ${digest.sections
+        .map((section) => `<p class="meta-text">${escapeHtml(section.heading.toUpperCase())}</p>${renderRows(section.rows)}`)
+        .join('\n')}
+      <p><a href="${MAIL_CONFIG.APP_URL}">Open the dashboard</a></p>`;
+
+  const text = `
+${digest.title}
+
+${digest.summary}
+
+${digest.sections
+    .map((section) => `${section.heading.toUpperCase()}\n${section.rows.map(([label, value]) => `  ${label}: ${value}`).join('\n')}`)
+    .join('\n\n')}
+
+${MAIL_CONFIG.APP_URL}
+
+${textFooter()}`.trim();
+
+  return {
+    subject: digest.title,
+    html: renderLayout({ icon: '📊', heading: digest.title, body }),
+    text,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Mail Types
+ * Shared contract for outgoing email, whatever delivers it
+ */
+
+/**
+ * Rendered email content (see templates.ts)
+ */
+export interface MailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * An email ready to send
+ */
+export interface MailMessage extends MailContent {
+  to: string | string[];
+  from?: string;             // Defaults to MAIL_CONFIG's sender
+}
+
+/**
+ * A message as handed to a transport, with the sender filled in
+ */
+export interface OutgoingMail extends MailContent {
+  to: string[];
+  from: string;
+}
+
+/**
+ * Something that can deliver email (SMTP, a local file sink, an in-memory sink, ...)
+ */
+export interface MailTransport {
+  /** Short identifier used in logs */
+  readonly name: string;
+
+  send(message: OutgoingMail): Promise<void>;
+}
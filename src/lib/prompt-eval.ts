@@ -0,0 +1,203 @@
+/**
+ * Prompt A/B Evaluation
+ * Runs two transcript-analysis prompt versions over a labeled sample and
+ * reports how often each agrees with the gold labels (and with each other)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import prisma from '@/lib/db';
+import { analyzeTranscript, type TranscriptAnalysisOutput } from '@/lib/analysis-queue';
+
+export const DEFAULT_GOLD_SET_PATH = 'data/fixtures/analysis-gold-set.json';
+
+const EVAL_FIELDS = ['agentSentiment', 'customerSentiment', 'topic', 'subcategory'] as const;
+export type EvalField = (typeof EVAL_FIELDS)[number];
+
+export type EvalLabels = Partial<Record<EvalField, string>>;
+
+export interface GoldSetItem {
+  vendorCallKey: string;
+  messages?: { speaker: string; text: string }[];   // Loaded from the transcripts table when omitted
+  expected: EvalLabels;
+}
+
+export interface EvalPrediction {
+  labels: EvalLabels | null;
+  matches: Partial<Record<EvalField, boolean>>;
+  error?: string;
+}
+
+export interface EvalItemResult {
+  vendorCallKey: string;
+  expected: EvalLabels;
+  predictions: Record<string, EvalPrediction>;
+}
+
+export interface VersionSummary {
+  version: string;
+  evaluated: number;
+  failed: number;
+  agreement: Record<EvalField, number | null>;   // % of labeled items that match the gold label
+}
+
+export interface EvalReport {
+  versions: [string, string];
+  sampleSize: number;
+  summaries: VersionSummary[];
+  versionAgreement: Record<EvalField, number | null>;   // % of items where A and B gave the same label
+  items: EvalItemResult[];
+}
+
+/**
+ * Compare labels ignoring case, punctuation and spacing ("Payment issue" = "payment-issue")
+ */
+export function normalizeLabel(value: string | null | undefined): string {
+  return (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function labelsMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = normalizeLabel(a);
+  return left !== '' && left === normalizeLabel(b);
+}
+
+function toLabels(analysis: TranscriptAnalysisOutput): EvalLabels {
+  return {
+    agentSentiment: analysis.agentSentiment,
+    customerSentiment: analysis.customerSentiment,
+    topic: analysis.aiDiscoveredTopic ?? undefined,
+    subcategory: analysis.aiDiscoveredSubcategory ?? undefined,
+  };
+}
+
+function percent(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : null;
+}
+
+/**
+ * Read a gold set file (a JSON array of GoldSetItem)
+ *
+ * Paths are resolved against the project root and must stay inside data/.
+ */
+export async function loadGoldSet(filePath: string = DEFAULT_GOLD_SET_PATH): Promise<GoldSetItem[]> {
+  const dataDir = path.resolve(process.cwd(), 'data');
+  const resolved = path.resolve(process.cwd(), filePath);
+  if (!resolved.startsWith(dataDir + path.sep)) {
+    throw new Error('Gold set must be a file under data/');
+  }
+
+  const items = JSON.parse(await fs.readFile(resolved, 'utf-8'));
+  if (!Array.isArray(items)) {
+    throw new Error('Gold set must be a JSON array');
+  }
+  return items as GoldSetItem[];
+}
+
+/**
+ * Fill in messages for gold items that only reference a vendorCallKey
+ */
+async function loadMessages(items: GoldSetItem[]): Promise<Map<string, unknown>> {
+  const messages = new Map<string, unknown>();
+  const missing: string[] = [];
+
+  for (const item of items) {
+    if (item.messages) messages.set(item.vendorCallKey, item.messages);
+    else missing.push(item.vendorCallKey);
+  }
+
+  if (missing.length > 0) {
+    const rows: { vendor_call_key: string; messages: unknown }[] = await prisma.transcripts.findMany({
+      where: { vendor_call_key: { in: missing } },
+      select: { vendor_call_key: true, messages: true },
+    });
+    for (const row of rows) {
+      messages.set(row.vendor_call_key, row.messages);
+    }
+  }
+
+  return messages;
+}
+
+async function predict(item: GoldSetItem, messages: unknown, version: string): Promise<EvalPrediction> {
+  try {
+    if (!messages) throw new Error('Transcript not found');
+    const labels = toLabels(await analyzeTranscript({ messages }, version));
+
+    const matches: EvalPrediction['matches'] = {};
+    for (const field of EVAL_FIELDS) {
+      if (item.expected[field]) {
+        matches[field] = labelsMatch(labels[field], item.expected[field]);
+      }
+    }
+    return { labels, matches };
+  } catch (error) {
+    return { labels: null, matches: {}, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+function summarize(version: string, items: EvalItemResult[]): VersionSummary {
+  const predictions = items.map((item) => item.predictions[version]);
+  const agreement = {} as Record<EvalField, number | null>;
+
+  for (const field of EVAL_FIELDS) {
+    const labeled = predictions.filter((p) => p.matches[field] !== undefined);
+    agreement[field] = percent(labeled.filter((p) => p.matches[field]).length, labeled.length);
+  }
+
+  return {
+    version,
+    evaluated: predictions.filter((p) => !p.error).length,
+    failed: predictions.filter((p) => p.error).length,
+    agreement,
+  };
+}
+
+/**
+ * Run prompt versions A and B over the gold set
+ */
+export async function evaluatePromptVersions(
+  versionA: string,
+  versionB: string,
+  goldSet: GoldSetItem[],
+  options: { limit?: number; concurrency?: number } = {}
+): Promise<EvalReport> {
+  const sample = goldSet.slice(0, options.limit ?? goldSet.length);
+  const concurrency = options.concurrency ?? 5;
+  const messages = await loadMessages(sample);
+  const items: EvalItemResult[] = [];
+
+  for (let i = 0; i < sample.length; i += concurrency) {
+    const batch = sample.slice(i, i + concurrency);
+    const results = await Promise.all(batch.map(async (item) => {
+      const callMessages = messages.get(item.vendorCallKey);
+      const [a, b] = await Promise.all([
+        predict(item, callMessages, versionA),
+        predict(item, callMessages, versionB),
+      ]);
+      return {
+        vendorCallKey: item.vendorCallKey,
+        expected: item.expected,
+        predictions: { [versionA]: a, [versionB]: b },
+      };
+    }));
+    items.push(...results);
+    console.log(`   [EVAL] ${items.length}/${sample.length} transcripts scored`);
+  }
+
+  const versionAgreement = {} as Record<EvalField, number | null>;
+  for (const field of EVAL_FIELDS) {
+    const both = items.filter((item) => item.predictions[versionA].labels && item.predictions[versionB].labels);
+    const same = both.filter((item) =>
+      labelsMatch(item.predictions[versionA].labels?.[field], item.predictions[versionB].labels?.[field])
+    );
+    versionAgreement[field] = percent(same.length, both.length);
+  }
+
+  return {
+    versions: [versionA, versionB],
+    sampleSize: sample.length,
+    summaries: [summarize(versionA, items), summarize(versionB, items)],
+    versionAgreement,
+    items,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * PII Redaction
+ * Masks loan numbers, SSNs, phone numbers, emails and street addresses in transcript text
+ *
+ * Transcripts are stored unredacted. Text is masked on the way out, per
+ * destination: every LLM prompt (see lib/llm), and transcript text shown to
+ * roles below REDACTION_CONFIG.UNREDACTED_ROLE.
+ */
+
+import { hasRole, isRole, type Role } from './auth/roles';
+
+export type PiiType = 'email' | 'ssn' | 'loanNumber' | 'phone' | 'address';
+export type RedactionDestination = 'llm' | 'display';
+
+// Applied in this order: bare 10-12 digit numbers are loan numbers, so loan
+// numbers run before phones and only formatted numbers count as phones
+export const PII_TYPES: PiiType[] = ['email', 'ssn', 'loanNumber', 'phone', 'address'];
+
+export const PII_PLACEHOLDERS: Record<PiiType, string> = {
+  email: '[EMAIL]',
+  ssn: '[SSN]',
+  loanNumber: '[LOAN_NUMBER]',
+  phone: '[PHONE]',
+  address: '[ADDRESS]',
+};
+
+/**
+ * Detection patterns (shared with extractNamedEntities in transcript-analysis.ts)
+ */
+export const PII_PATTERNS: Record<PiiType, RegExp[]> = {
+  email: [
+    /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
+  ],
+  ssn: [
+    /\b[0-9]{3}[-\s][0-9]{2}[-\s][0-9]{4}\b/g,                                         // 123-45-6789
+    /(?<=\b(?:ssn|social(?:\s+security)?(?:\s+number)?)\W{0,3}(?:is\s+)?)[0-9]{9}\b/gi, // "social is 123456789"
+  ],
+  loanNumber: [
+    /\b[0-9]{10,12}\b/g,                      // Standard 10-12 digit loan numbers
+    /\b[rR][a-zA-Z]{2}[0-9]{7,10}\b/g,        // Format: RXX1234567
+    /(?<=\bloan\s*#?\s*)[0-9]{7,12}\b/gi,     // "loan # 1234567"
+  ],
+  phone: [
+    /(?<!\w)(?:\+?1[-.\s]?)?(?:\([0-9]{3}\)\s?|[0-9]{3}[-.\s]?)[0-9]{3}[-.\s]?[0-9]{4}\b/g, // (555) 123-4567, +1 555 123 4567
+  ],
+  address: [
+    // House number, one to four name words, then a whole-word street suffix
+    /\b[0-9]+\s+(?:[A-Za-z]+\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Drive|Dr|Lane|Ln|Boulevard|Blvd|Way|Court|Ct)\b\.?/gi,
+  ],
+};
+
+export const REDACTION_CONFIG = {
+  // PII types masked per destination: a comma-separated list of PII_TYPES, "all" or "none"
+  DESTINATIONS: {
+    llm: parseTypes(process.env.PII_REDACT_LLM),
+    display: parseTypes(process.env.PII_REDACT_DISPLAY),
+  } as Record<RedactionDestination, PiiType[]>,
+  // Lowest role shown unredacted transcripts ("none" masks them for everyone)
+  UNREDACTED_ROLE: parseRole(process.env.PII_UNREDACTED_ROLE),
+};
+
+function parseRole(value: string | undefined): Role | 'none' {
+  const setting = (value || '').trim().toLowerCase();
+  if (setting === 'none') return 'none';
+  return isRole(setting) ? setting : 'supervisor';
+}
+
+function parseTypes(value: string | undefined): PiiType[] {
+  const setting = (value || 'all').trim().toLowerCase();
+  if (setting === 'all') return PII_TYPES;
+  if (setting === 'none') return [];
+
+  const requested = setting.split(',').map((type) => type.trim());
+  return PII_TYPES.filter((type) => requested.includes(type.toLowerCase()));
+}
+
+/**
+ * PII types to mask for a destination; display also depends on the viewer's role
+ */
+export function getRedactionTypes(destination: RedactionDestination, role?: Role | null): PiiType[] {
+  const types = REDACTION_CONFIG.DESTINATIONS[destination];
+  if (destination === 'display' && role && REDACTION_CONFIG.UNREDACTED_ROLE !== 'none' && hasRole(role, REDACTION_CONFIG.UNREDACTED_ROLE)) {
+    return [];
+  }
+  return types;
+}
+
+/**
+ * Replace PII in text with typed placeholders like [PHONE]
+ */
+export function redactText(text: string, types: PiiType[] = PII_TYPES): string {
+  if (!text || types.length === 0) return text;
+
+  let redacted = text;
+  for (const type of PII_TYPES) {
+    if (!types.includes(type)) continue;
+    for (const pattern of PII_PATTERNS[type]) {
+      redacted = redacted.replace(pattern, PII_PLACEHOLDERS[type]);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Redact the `text` of each conversation message
+ */
+export function redactMessages<T extends { text?: string }>(messages: T[], types: PiiType[] = PII_TYPES): T[] {
+  if (types.length === 0) return messages;
+  return messages.map((message) => (message.text ? { ...message, text: redactText(message.text, types) } : message));
+}
@@ -0,0 +1,206 @@
+/**
+ * Sentiment Timelines
+ * Stores the per-message sentiment series for each call and aggregates
+ * where in a call customer sentiment drops, by agent or by topic
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import { sentimentTimelineSchema, validate, type MessageSentiment } from '@/lib/llm';
+
+// A fall of this much between consecutive customer messages counts as a drop
+export const DROP_THRESHOLD = 0.3;
+
+// Drop positions are bucketed into fifths of the call
+const POSITION_BUCKETS = 5;
+
+export type DropGrouping = 'agent' | 'topic';
+
+export interface StoredTimeline {
+  sentiments: MessageSentiment[];
+  messageCount: number;
+  model: string | null;
+  generatedAt: string;
+}
+
+export interface TimelineSummary {
+  customerStartScore: number | null;
+  customerEndScore: number | null;
+  customerMinScore: number | null;
+  largestDrop: number | null;
+  dropPosition: number | null;
+}
+
+export interface SentimentDropGroup {
+  group: string;
+  calls: number;
+  callsWithDrop: number;
+  dropRate: number;              // % of calls with a drop >= DROP_THRESHOLD
+  avgLargestDrop: number;
+  avgDropPosition: number | null;
+  avgStartScore: number | null;
+  avgEndScore: number | null;
+  positionBuckets: number[];     // Drop counts per fifth of the call
+}
+
+interface DropRow {
+  group_name: string;
+  calls: number;
+  drops: number;
+  avg_drop: number | null;
+  avg_position: number | null;
+  avg_start: number | null;
+  avg_end: number | null;
+  bucket_0: number;
+  bucket_1: number;
+  bucket_2: number;
+  bucket_3: number;
+  bucket_4: number;
+}
+
+/**
+ * Summarize the customer side of a timeline
+ *
+ * System messages (IVR, hold) are skipped. The drop position is the
+ * message index where the largest fall landed, as a fraction of the call.
+ */
+export function summarizeTimeline(roles: string[], sentiments: MessageSentiment[]): TimelineSummary {
+  const customer = sentiments
+    .map((s, index) => ({ ...s, index }))
+    .filter((s) => roles[s.index] === 'customer' && s.emotion !== 'system');
+
+  if (customer.length === 0) {
+    return { customerStartScore: null, customerEndScore: null, customerMinScore: null, largestDrop: null, dropPosition: null };
+  }
+
+  let largestDrop = 0;
+  let dropIndex: number | null = null;
+  for (let i = 1; i < customer.length; i++) {
+    const drop = customer[i - 1].score - customer[i].score;
+    if (drop > largestDrop) {
+      largestDrop = drop;
+      dropIndex = customer[i].index;
+    }
+  }
+
+  return {
+    customerStartScore: customer[0].score,
+    customerEndScore: customer[customer.length - 1].score,
+    customerMinScore: Math.min(...customer.map((s) => s.score)),
+    largestDrop: Math.round(largestDrop * 100) / 100,
+    dropPosition: dropIndex !== null && sentiments.length > 1
+      ? Math.round((dropIndex / (sentiments.length - 1)) * 100) / 100
+      : null,
+  };
+}
+
+/**
+ * Sentiment summary for the call-analysis prompt, so the scorecard agrees
+ * with the message-level timeline
+ */
+export function describeTimeline(roles: string[], sentiments: MessageSentiment[]): string {
+  if (sentiments.length === 0) return '';
+
+  const average = (scores: number[]) => scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+  const label = (score: number) => score > 0.2 ? 'positive' : score < -0.2 ? 'negative' : 'neutral';
+
+  const customer = sentiments.filter((_, index) => roles[index] === 'customer');
+  const avgCustomer = average(customer.map((s) => s.score));
+  const avgAgent = average(sentiments.filter((_, index) => roles[index] === 'agent').map((s) => s.score));
+  const customerEmotions = [...new Set(customer.map((s) => s.emotion).filter((e) => e && e !== 'neutral'))];
+
+  return `
+IMPORTANT - Sentence-level sentiment already analyzed:
+- Customer average sentiment: ${avgCustomer.toFixed(2)} (${label(avgCustomer)})
+- Agent average sentiment: ${avgAgent.toFixed(2)} (${label(avgAgent)})
+- Customer emotions detected: ${customerEmotions.length > 0 ? customerEmotions.join(', ') : 'mostly neutral'}
+Your scores MUST be consistent with this analysis. If customer sentiment is negative, CSAT should be 1-2. If positive, CSAT should be 4-5.`;
+}
+
+/**
+ * Stored timeline for a transcript, or null if it has not been scored (or
+ * the stored series no longer fits the schema)
+ */
+export async function getTimeline(vendorCallKey: string): Promise<StoredTimeline | null> {
+  const row = await prisma.sentimentTimeline.findUnique({ where: { vendorCallKey } });
+  if (!row) return null;
+
+  const { value: sentiments, errors } = validate(sentimentTimelineSchema, row.sentiments);
+  if (!sentiments || errors.length > 0) return null;
+
+  return {
+    sentiments,
+    messageCount: row.messageCount,
+    model: row.model,
+    generatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Save (or replace) the timeline for a transcript
+ */
+export async function saveTimeline(
+  vendorCallKey: string,
+  roles: string[],
+  sentiments: MessageSentiment[],
+  model: string
+): Promise<void> {
+  const data = {
+    sentiments: sentiments as unknown as Prisma.InputJsonValue,
+    messageCount: sentiments.length,
+    model,
+    ...summarizeTimeline(roles, sentiments),
+  };
+
+  await prisma.sentimentTimeline.upsert({
+    where: { vendorCallKey },
+    create: { vendorCallKey, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Where in the call customer sentiment drops, grouped by agent or AI-discovered topic
+ */
+export async function getSentimentDrops(
+  groupBy: DropGrouping,
+  options: { minCalls?: number; limit?: number } = {}
+): Promise<SentimentDropGroup[]> {
+  const minCalls = options.minCalls ?? 1;
+  const limit = options.limit ?? 50;
+
+  const rows: DropRow[] = await prisma.$queryRaw`
+    SELECT
+      COALESCE(CASE WHEN ${groupBy}::text = 'agent' THEN t.agent_name ELSE ta."aiDiscoveredTopic" END, 'Unknown') AS group_name,
+      COUNT(*)::int AS calls,
+      COUNT(*) FILTER (WHERE st."largestDrop" >= ${DROP_THRESHOLD})::int AS drops,
+      AVG(st."largestDrop")::float AS avg_drop,
+      (AVG(st."dropPosition") FILTER (WHERE st."largestDrop" >= ${DROP_THRESHOLD}))::float AS avg_position,
+      AVG(st."customerStartScore")::float AS avg_start,
+      AVG(st."customerEndScore")::float AS avg_end,
+      COUNT(*) FILTER (WHERE st."largestDrop" >= ${DROP_THRESHOLD} AND st."dropPosition" < 0.2)::int AS bucket_0,
+      COUNT(*) FILTER (WHERE st."largestDrop" >= ${DROP_THRESHOLD} AND st."dropPosition" >= 0.2 AND st."dropPosition" < 0.4)::int AS bucket_1,
+      COUNT(*) FILTER (WHERE st."largestDrop" >= ${DROP_THRESHOLD} AND st."dropPosition" >= 0.4 AND st."dropPosition" < 0.6)::int AS bucket_2,
+      COUNT(*) FILTER (WHERE st."largestDrop" >= ${DROP_THRESHOLD} AND st."dropPosition" >= 0.6 AND st."dropPosition" < 0.8)::int AS bucket_3,
+      COUNT(*) FILTER (WHERE st."largestDrop" >= ${DROP_THRESHOLD} AND st."dropPosition" >= 0.8)::int AS bucket_4
+    FROM "SentimentTimeline" st
+    LEFT JOIN transcripts t ON t.vendor_call_key = st."vendorCallKey"
+    LEFT JOIN "TranscriptAnalysis" ta ON ta."vendorCallKey" = st."vendorCallKey"
+    GROUP BY 1
+    HAVING COUNT(*) >= ${minCalls}
+    ORDER BY drops DESC, calls DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    group: row.group_name,
+    calls: row.calls,
+    callsWithDrop: row.drops,
+    dropRate: row.calls > 0 ? Math.round((row.drops / row.calls) * 1000) / 10 : 0,
+    avgLargestDrop: Math.round((row.avg_drop ?? 0) * 100) / 100,
+    avgDropPosition: row.avg_position !== null ? Math.round(row.avg_position * 100) / 100 : null,
+    avgStartScore: row.avg_start !== null ? Math.round(row.avg_start * 100) / 100 : null,
+    avgEndScore: row.avg_end !== null ? Math.round(row.avg_end * 100) / 100 : null,
+    positionBuckets: Array.from({ length: POSITION_BUCKETS }, (_, i) => row[`bucket_${i}` as keyof DropRow] as number),
+  }));
+}
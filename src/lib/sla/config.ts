@@ -0,0 +1,57 @@
+/**
+ * SLA Configuration
+ * First-response and resolution targets per priority, with per-project overrides
+ *
+ * Override the defaults with JSON in the environment, e.g.
+ *   SLA_PRIORITY_TARGETS='{"Critical":{"firstResponseMinutes":30}}'
+ *   SLA_PROJECT_TARGETS='{"Servicing Escalations WG":{"High":{"resolutionMinutes":480}}}'
+ */
+
+export interface SlaTarget {
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+}
+
+type SlaTargetOverrides = Record<string, Partial<SlaTarget>>;
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+const DEFAULT_PRIORITY_TARGETS: Record<string, SlaTarget> = {
+  Critical: { firstResponseMinutes: 1 * HOUR, resolutionMinutes: 1 * DAY },
+  High: { firstResponseMinutes: 4 * HOUR, resolutionMinutes: 2 * DAY },
+  Medium: { firstResponseMinutes: 1 * DAY, resolutionMinutes: 5 * DAY },
+  Low: { firstResponseMinutes: 2 * DAY, resolutionMinutes: 10 * DAY },
+};
+
+function parseJson<T>(name: string, fallback: T): T {
+  const value = process.env[name];
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    console.warn(`[SLA] Ignoring ${name}: not valid JSON`);
+    return fallback;
+  }
+}
+
+function mergeTargets(base: Record<string, SlaTarget>, overrides: SlaTargetOverrides): Record<string, SlaTarget> {
+  const merged = { ...base };
+  for (const [priority, target] of Object.entries(overrides)) {
+    merged[priority] = { ...(merged[priority] || base.Medium), ...target };
+  }
+  return merged;
+}
+
+export const SLA_CONFIG = {
+  PRIORITY_TARGETS: mergeTargets(DEFAULT_PRIORITY_TARGETS, parseJson<SlaTargetOverrides>('SLA_PRIORITY_TARGETS', {})),
+
+  // Project name -> priority -> target fields that differ from PRIORITY_TARGETS
+  PROJECT_TARGETS: parseJson<Record<string, SlaTargetOverrides>>('SLA_PROJECT_TARGETS', {}),
+
+  // Tickets with no (or an unknown) priority use this priority's targets
+  DEFAULT_PRIORITY: 'Medium',
+
+  // An open ticket is at risk once this fraction of any pending target has elapsed
+  AT_RISK_THRESHOLD: parseFloat(process.env.SLA_AT_RISK_THRESHOLD || '0.75'),
+};
@@ -0,0 +1,384 @@
+/**
+ * SLA Monitoring
+ * Per-ticket SLA status (breached, at risk, on track, met) against the
+ * configured targets, plus breach-rate trends and about-to-breach lists
+ */
+
+import prisma from '@/lib/db';
+import { SERVICING_PROJECTS } from '@/lib/tickets';
+import { SLA_CONFIG, type SlaTarget } from './config';
+
+export * from './config';
+
+export type SlaStatus = 'breached' | 'at_risk' | 'on_track' | 'met';
+export type SlaBreachType = 'response' | 'resolution' | 'flagged';
+
+/**
+ * Ticket fields the SLA evaluation reads
+ */
+export interface SlaTicket {
+  ticketKey: string;
+  ticketTitle: string | null;
+  ticketStatus: string | null;
+  ticketPriority: string | null;
+  projectName: string | null;
+  assignedUserName: string | null;
+  ticketCreatedAtUtc: Date;
+  firstResponseSentUtc: Date | null;
+  timeToFirstResponseInMinutes: number | null;
+  dueDateUtc: Date | null;
+  slaEverBreached: boolean;
+  firstSlaBreachedAtUtc: Date | null;
+  isTicketComplete: boolean;
+  ticketCompletedAtUtc: Date | null;
+  timeToResolutionInMinutes: number | null;
+}
+
+export interface SlaEvaluation {
+  status: SlaStatus;
+  target: SlaTarget;
+  responseDueAt: Date;
+  resolutionDueAt: Date;
+  breachType: SlaBreachType | null;
+  breachedAt: Date | null;
+  minutesToBreach: number | null;    // Open, unbreached tickets only
+}
+
+export interface SlaBreakdown {
+  name: string;
+  total: number;
+  breached: number;
+  atRisk: number;
+  met: number;
+  breachRate: number;
+}
+
+export interface SlaTrendPoint {
+  week: string;                      // Sunday the week starts, YYYY-MM-DD
+  total: number;
+  breached: number;
+  met: number;
+  breachRate: number;
+}
+
+export interface SlaAtRiskTicket {
+  key: string;
+  title: string | null;
+  status: string | null;
+  priority: string | null;
+  project: string | null;
+  assignee: string | null;
+  created: string;
+  dueAt: string;
+  dueFor: 'response' | 'resolution';
+  minutesToBreach: number;
+}
+
+export interface SlaReport {
+  range: { start: string; end: string; days: number };
+  summary: Record<SlaStatus, number> & { total: number; breachRate: number; openBreached: number; openAtRisk: number };
+  trend: SlaTrendPoint[];
+  byPriority: SlaBreakdown[];
+  byProject: SlaBreakdown[];
+  atRisk: SlaAtRiskTicket[];
+}
+
+export interface SlaReportOptions {
+  days?: number;
+  projects?: string[];
+  priorities?: string[];
+  now?: Date;                        // Evaluate as of this time (uncached)
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const AT_RISK_LIMIT = 50;
+
+// How long reports are reused
+const CACHE_TTL_MS = 60 * 1000;
+
+// Most open, not-yet-breached tickets evaluated per report
+const OPEN_SCAN_LIMIT = 5000;
+
+const SLA_TICKET_SELECT = {
+  ticketKey: true,
+  ticketTitle: true,
+  ticketStatus: true,
+  ticketPriority: true,
+  projectName: true,
+  assignedUserName: true,
+  ticketCreatedAtUtc: true,
+  firstResponseSentUtc: true,
+  timeToFirstResponseInMinutes: true,
+  dueDateUtc: true,
+  slaEverBreached: true,
+  firstSlaBreachedAtUtc: true,
+  isTicketComplete: true,
+  ticketCompletedAtUtc: true,
+  timeToResolutionInMinutes: true,
+};
+
+/**
+ * Target for a project and priority: project overrides on top of the priority defaults
+ */
+export function getSlaTarget(project: string | null, priority: string | null): SlaTarget {
+  const key = priority && SLA_CONFIG.PRIORITY_TARGETS[priority] ? priority : SLA_CONFIG.DEFAULT_PRIORITY;
+  const override = project ? SLA_CONFIG.PROJECT_TARGETS[project]?.[key] : undefined;
+  return { ...SLA_CONFIG.PRIORITY_TARGETS[key], ...override };
+}
+
+// Longest resolution target any priority or project override allows
+function longestResolutionMinutes(): number {
+  const overrides = Object.values(SLA_CONFIG.PROJECT_TARGETS).flatMap((targets) => Object.values(targets));
+  return Math.max(
+    ...Object.values(SLA_CONFIG.PRIORITY_TARGETS).map((target) => target.resolutionMinutes),
+    ...overrides.map((target) => target.resolutionMinutes || 0)
+  );
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * MINUTE_MS);
+}
+
+/**
+ * Evaluate one ticket against its target.
+ *
+ * Response is due `firstResponseMinutes` after creation; resolution is due at
+ * the ticket's own due date, or `resolutionMinutes` after creation. A ticket
+ * is breached when either deadline passed first, or when the ticketing system
+ * flagged a breach. Open tickets are at risk once AT_RISK_THRESHOLD of a
+ * pending target has elapsed.
+ */
+export function evaluateSla(ticket: SlaTicket, now: Date = new Date()): SlaEvaluation {
+  const created = ticket.ticketCreatedAtUtc;
+  const target = getSlaTarget(ticket.projectName, ticket.ticketPriority);
+  const responseDueAt = addMinutes(created, target.firstResponseMinutes);
+  const resolutionDueAt = ticket.dueDateUtc || addMinutes(created, target.resolutionMinutes);
+
+  const respondedAt = ticket.firstResponseSentUtc
+    || (ticket.timeToFirstResponseInMinutes !== null ? addMinutes(created, ticket.timeToFirstResponseInMinutes) : null);
+  const completedAt = ticket.ticketCompletedAtUtc
+    || (ticket.timeToResolutionInMinutes !== null ? addMinutes(created, ticket.timeToResolutionInMinutes) : null);
+
+  // Every way the ticket missed its SLA, earliest first
+  const breaches: { type: SlaBreachType; at: Date }[] = [];
+  if (respondedAt ? respondedAt > responseDueAt : now > responseDueAt) {
+    breaches.push({ type: 'response', at: responseDueAt });
+  }
+  if (ticket.isTicketComplete ? !!completedAt && completedAt > resolutionDueAt : now > resolutionDueAt) {
+    breaches.push({ type: 'resolution', at: resolutionDueAt });
+  }
+  if (ticket.slaEverBreached) {
+    breaches.push({ type: 'flagged', at: ticket.firstSlaBreachedAtUtc || resolutionDueAt });
+  }
+  breaches.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const evaluation: SlaEvaluation = {
+    status: 'on_track',
+    target,
+    responseDueAt,
+    resolutionDueAt,
+    breachType: breaches[0]?.type || null,
+    breachedAt: breaches[0]?.at || null,
+    minutesToBreach: null,
+  };
+
+  if (breaches.length > 0) {
+    evaluation.status = 'breached';
+    return evaluation;
+  }
+  if (ticket.isTicketComplete) {
+    evaluation.status = 'met';
+    return evaluation;
+  }
+
+  const pending = [{ dueAt: resolutionDueAt }];
+  if (!respondedAt) pending.push({ dueAt: responseDueAt });
+
+  const elapsed = now.getTime() - created.getTime();
+  const atRisk = pending.some(({ dueAt }) => {
+    const allowed = dueAt.getTime() - created.getTime();
+    return allowed <= 0 || elapsed / allowed >= SLA_CONFIG.AT_RISK_THRESHOLD;
+  });
+
+  evaluation.status = atRisk ? 'at_risk' : 'on_track';
+  evaluation.minutesToBreach = Math.round(
+    Math.min(...pending.map(({ dueAt }) => dueAt.getTime() - now.getTime())) / MINUTE_MS
+  );
+  return evaluation;
+}
+
+// Week (starting Sunday, UTC) a date falls in
+function weekOf(date: Date): string {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - date.getUTCDay()));
+  return start.toISOString().slice(0, 10);
+}
+
+// Breached share of tickets whose outcome is known (breached or met)
+function breachRate(breached: number, met: number): number {
+  const decided = breached + met;
+  return decided > 0 ? Math.round((breached / decided) * 1000) / 10 : 0;
+}
+
+function breakdown(
+  evaluated: { ticket: SlaTicket; sla: SlaEvaluation }[],
+  groupOf: (ticket: SlaTicket) => string
+): SlaBreakdown[] {
+  const groups = new Map<string, SlaBreakdown>();
+  evaluated.forEach(({ ticket, sla }) => {
+    const name = groupOf(ticket);
+    const group = groups.get(name) || { name, total: 0, breached: 0, atRisk: 0, met: 0, breachRate: 0 };
+    group.total++;
+    if (sla.status === 'breached') group.breached++;
+    if (sla.status === 'at_risk') group.atRisk++;
+    if (sla.status === 'met') group.met++;
+    groups.set(name, group);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => ({ ...group, breachRate: breachRate(group.breached, group.met) }))
+    .sort((a, b) => b.total - a.total);
+}
+
+const cache = new Map<string, { expiresAt: number; value: Promise<SlaReport> }>();
+
+/**
+ * Drop cached reports, e.g. after tickets are ingested
+ */
+export function clearSlaReportCache(): void {
+  cache.clear();
+}
+
+/**
+ * SLA report for servicing tickets created in the last `days` days: status
+ * counts, weekly breach rate, breakdowns by priority and project, and the
+ * open tickets (of any age) closest to breaching.
+ *
+ * Reports for the current time are cached for CACHE_TTL_MS per filter;
+ * concurrent callers share the in-flight load and failures are not cached.
+ */
+export function getSlaReport(options: SlaReportOptions = {}): Promise<SlaReport> {
+  if (options.now) {
+    return loadSlaReport(options);
+  }
+
+  const key = JSON.stringify([options.days || 90, options.projects || [], options.priorities || []]);
+  const now = Date.now();
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > now) {
+    return hit.value;
+  }
+
+  const value = loadSlaReport(options).catch((error) => {
+    cache.delete(key);
+    throw error;
+  });
+  cache.set(key, { expiresAt: now + CACHE_TTL_MS, value });
+  return value;
+}
+
+async function loadSlaReport(options: SlaReportOptions): Promise<SlaReport> {
+  const now = options.now || new Date();
+  const days = options.days || 90;
+  const start = new Date(now.getTime() - days * DAY_MS);
+
+  const where = {
+    projectName: {
+      in: options.projects?.length
+        ? SERVICING_PROJECTS.filter((project) => options.projects!.includes(project))
+        : SERVICING_PROJECTS,
+    },
+    ...(options.priorities?.length ? { ticketPriority: { in: options.priorities } } : {}),
+  };
+
+  // Open tickets already past their resolution deadline (or flagged) are
+  // breached whatever their other fields say, so they are counted in SQL.
+  // Only the rest - open tickets that can still be at risk or on track - are
+  // loaded and evaluated.
+  const resolutionCutoff = addMinutes(now, -longestResolutionMinutes());
+  const settledBreach = {
+    OR: [
+      { slaEverBreached: true },
+      { dueDateUtc: { lt: now } },
+      { dueDateUtc: null, ticketCreatedAtUtc: { lt: resolutionCutoff } },
+    ],
+  };
+
+  const [recent, open, openSettledBreached]: [SlaTicket[], SlaTicket[], number] = await Promise.all([
+    prisma.ticket.findMany({
+      where: { ...where, ticketCreatedAtUtc: { gte: start, lte: now } },
+      select: SLA_TICKET_SELECT,
+    }),
+    prisma.ticket.findMany({
+      where: { ...where, isTicketComplete: false, NOT: settledBreach },
+      select: SLA_TICKET_SELECT,
+      orderBy: { ticketCreatedAtUtc: 'desc' },
+      take: OPEN_SCAN_LIMIT,
+    }),
+    prisma.ticket.count({
+      where: { ...where, isTicketComplete: false, ...settledBreach },
+    }),
+  ]);
+
+  if (open.length === OPEN_SCAN_LIMIT) {
+    console.warn(`⚠️ [SLA] Evaluated only the newest ${OPEN_SCAN_LIMIT} open tickets; open counts may be low`);
+  }
+
+  const evaluated = recent.map((ticket) => ({ ticket, sla: evaluateSla(ticket, now) }));
+  const evaluatedOpen = open.map((ticket) => ({ ticket, sla: evaluateSla(ticket, now) }));
+
+  const summary: SlaReport['summary'] = {
+    total: evaluated.length,
+    breached: 0,
+    at_risk: 0,
+    on_track: 0,
+    met: 0,
+    breachRate: 0,
+    openBreached: openSettledBreached + evaluatedOpen.filter(({ sla }) => sla.status === 'breached').length,
+    openAtRisk: evaluatedOpen.filter(({ sla }) => sla.status === 'at_risk').length,
+  };
+  evaluated.forEach(({ sla }) => summary[sla.status]++);
+  summary.breachRate = breachRate(summary.breached, summary.met);
+
+  const weeks = new Map<string, SlaTrendPoint>();
+  evaluated.forEach(({ ticket, sla }) => {
+    const week = weekOf(ticket.ticketCreatedAtUtc);
+    const point = weeks.get(week) || { week, total: 0, breached: 0, met: 0, breachRate: 0 };
+    point.total++;
+    if (sla.status === 'breached') point.breached++;
+    if (sla.status === 'met') point.met++;
+    weeks.set(week, point);
+  });
+
+  const atRisk = evaluatedOpen
+    .filter(({ sla }) => sla.status === 'at_risk')
+    .sort((a, b) => a.sla.minutesToBreach! - b.sla.minutesToBreach!)
+    .slice(0, AT_RISK_LIMIT)
+    .map(({ ticket, sla }) => {
+      const responsePending = !ticket.firstResponseSentUtc && ticket.timeToFirstResponseInMinutes === null;
+      const dueFor = responsePending && sla.responseDueAt <= sla.resolutionDueAt ? 'response' : 'resolution';
+      return {
+        key: ticket.ticketKey,
+        title: ticket.ticketTitle,
+        status: ticket.ticketStatus,
+        priority: ticket.ticketPriority,
+        project: ticket.projectName,
+        assignee: ticket.assignedUserName,
+        created: ticket.ticketCreatedAtUtc.toISOString(),
+        dueAt: (dueFor === 'response' ? sla.responseDueAt : sla.resolutionDueAt).toISOString(),
+        dueFor,
+        minutesToBreach: sla.minutesToBreach!,
+      } satisfies SlaAtRiskTicket;
+    });
+
+  return {
+    range: { start: start.toISOString(), end: now.toISOString(), days },
+    summary,
+    trend: Array.from(weeks.values())
+      .sort((a, b) => a.week.localeCompare(b.week))
+      .map((point) => ({ ...point, breachRate: breachRate(point.breached, point.met) })),
+    byPriority: breakdown(evaluated, (ticket) => ticket.ticketPriority || 'None'),
+    byProject: breakdown(evaluated, (ticket) => ticket.projectName || 'Unknown'),
+    atRisk,
+  };
+}
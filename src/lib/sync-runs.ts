@@ -0,0 +1,266 @@
+/**
+ * Sync Run Ledger
+ * Persists one row per daily sync run so ops can see what each run did
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import type { SyncStats } from '@/lib/sync-service';
+
+// Keep the failures column bounded when a run goes badly wrong
+const MAX_STORED_FAILURES = 500;
+
+export type SyncTrigger = 'cron' | 'manual' | 'script';
+
+export interface SyncFailure {
+  vendorCallKey: string | null;
+  stage: 'import' | 'analysis';
+  reason: string;
+}
+
+/**
+ * Where an unfinished run stopped
+ * - import: the first `processed` fetched records (ordered by call start) were imported
+ * - analyze: every fetched record was imported, analysis was still in progress
+ *
+ * `windowEnd` is the run's last day; a resumed run fetches the same window,
+ * so `processed` counts into the same records.
+ */
+export interface SyncCheckpoint {
+  phase: 'import' | 'analyze';
+  processed: number;
+  windowEnd: string;  // YYYY-MM-DD
+}
+
+export interface ResumableRun {
+  id: string;
+  windowStart: string;
+  windowEnd: string;
+  checkpoint: SyncCheckpoint;
+}
+
+export interface SyncRun {
+  id: string;
+  startedAt: string;
+  finishedAt: string | null;
+  status: string;
+  trigger: string | null;
+  source: string | null;
+  windowStart: string | null;
+  windowEnd: string | null;
+  fetched: number;
+  imported: number;
+  analyzed: number;
+  skipped: number;
+  errors: number;
+  failures: SyncFailure[];
+  failureCount: number;
+  error: string | null;
+  durationMs: number | null;
+  checkpoint: SyncCheckpoint | null;
+  resumedFrom: string | null;
+}
+
+interface SyncRunRow {
+  id: string;
+  started_at: Date;
+  finished_at: Date | null;
+  status: string;
+  trigger: string | null;
+  source: string | null;
+  window_start: string | null;
+  window_end: string | null;
+  fetched: number;
+  imported: number;
+  analyzed: number;
+  skipped: number;
+  errors: number;
+  failures: unknown;
+  error: string | null;
+  duration_ms: number | null;
+  checkpoint: unknown;
+  resumed_from: string | null;
+}
+
+/**
+ * Record the start of a run, returns the run id (null if the ledger is unavailable)
+ */
+export async function startSyncRun(
+  trigger: SyncTrigger,
+  resumedFrom: string | null = null
+): Promise<string | null> {
+  try {
+    const run = await prisma.sync_runs.create({
+      data: { trigger, status: 'running', resumed_from: resumedFrom },
+      select: { id: true },
+    });
+    return run.id;
+  } catch (error) {
+    console.warn('⚠️  Could not record sync run start:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Find the run a new sync should pick up from, if the last one did not finish
+ *
+ * Only call this while holding the sync lock: any run still marked "running"
+ * at that point was killed before it could record its result.
+ */
+export async function findResumableRun(): Promise<ResumableRun | null> {
+  try {
+    const last: SyncRunRow | null = await prisma.sync_runs.findFirst({
+      orderBy: { started_at: 'desc' },
+    });
+
+    if (!last || last.status === 'success' || !last.window_start || !last.checkpoint) {
+      return null;
+    }
+
+    // Checkpoints saved before windowEnd was recorded fall back to the run's window_end
+    const checkpoint = last.checkpoint as Partial<SyncCheckpoint>;
+    const windowEnd = checkpoint.windowEnd || last.window_end;
+    if (!windowEnd) {
+      return null;
+    }
+
+    return {
+      id: last.id,
+      windowStart: last.window_start,
+      windowEnd,
+      checkpoint: { phase: checkpoint.phase ?? 'import', processed: checkpoint.processed ?? 0, windowEnd },
+    };
+  } catch (error) {
+    console.warn('⚠️  Could not check for an unfinished sync run:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Persist progress so a run that is killed mid-way can be resumed
+ */
+export async function saveSyncCheckpoint(
+  runId: string | null,
+  stats: SyncStats,
+  checkpoint: SyncCheckpoint
+): Promise<void> {
+  if (!runId) return;
+
+  try {
+    await prisma.sync_runs.update({
+      where: { id: runId },
+      data: {
+        source: stats.source,
+        window_start: stats.syncStartDate,
+        window_end: stats.syncEndDate,
+        fetched: stats.fetched,
+        imported: stats.imported,
+        analyzed: stats.analyzed,
+        skipped: stats.skipped,
+        errors: stats.errors,
+        checkpoint: { ...checkpoint },
+      },
+    });
+  } catch (error) {
+    console.warn('⚠️  Could not save sync checkpoint:', (error as Error).message);
+  }
+}
+
+/**
+ * Record the outcome of a run
+ *
+ * A run that stopped at its deadline is "partial" and keeps its checkpoint;
+ * a failed run keeps the last checkpoint it saved.
+ */
+export async function finishSyncRun(
+  runId: string | null,
+  stats: SyncStats,
+  error?: Error,
+  checkpoint?: SyncCheckpoint
+): Promise<void> {
+  if (!runId) return;
+
+  const status = error ? 'failed' : checkpoint ? 'partial' : 'success';
+
+  try {
+    await prisma.sync_runs.update({
+      where: { id: runId },
+      data: {
+        finished_at: new Date(),
+        status,
+        source: stats.source,
+        window_start: stats.syncStartDate,
+        window_end: stats.syncEndDate,
+        fetched: stats.fetched,
+        imported: stats.imported,
+        analyzed: stats.analyzed,
+        skipped: stats.skipped,
+        errors: stats.errors,
+        failures: stats.failures
+          .slice(0, MAX_STORED_FAILURES)
+          .map(({ vendorCallKey, stage, reason }) => ({ vendorCallKey, stage, reason })) satisfies Prisma.InputJsonArray,
+        error: error ? error.message : null,
+        duration_ms: Date.now() - stats.startTime,
+        // Otherwise keep the last saved checkpoint (ignored once a run succeeds)
+        ...(checkpoint && !error ? { checkpoint: { ...checkpoint } } : {}),
+      },
+    });
+  } catch (err) {
+    console.warn('⚠️  Could not record sync run result:', (err as Error).message);
+  }
+}
+
+/**
+ * Map a database row to the API shape
+ */
+function toSyncRun(row: SyncRunRow, includeFailures: boolean): SyncRun {
+  const failures = Array.isArray(row.failures) ? (row.failures as SyncFailure[]) : [];
+
+  return {
+    id: row.id,
+    startedAt: row.started_at.toISOString(),
+    finishedAt: row.finished_at ? row.finished_at.toISOString() : null,
+    status: row.status,
+    trigger: row.trigger,
+    source: row.source,
+    windowStart: row.window_start,
+    windowEnd: row.window_end,
+    fetched: row.fetched,
+    imported: row.imported,
+    analyzed: row.analyzed,
+    skipped: row.skipped,
+    errors: row.errors,
+    failures: includeFailures ? failures : [],
+    failureCount: failures.length,
+    error: row.error,
+    durationMs: row.duration_ms,
+    checkpoint: (row.checkpoint as SyncCheckpoint | null) ?? null,
+    resumedFrom: row.resumed_from,
+  };
+}
+
+/**
+ * List the most recent runs, newest first
+ */
+export async function listSyncRuns(
+  limit: number = 30,
+  includeFailures: boolean = false
+): Promise<SyncRun[]> {
+  const rows: SyncRunRow[] = await prisma.sync_runs.findMany({
+    orderBy: { started_at: 'desc' },
+    take: limit,
+  });
+
+  return rows.map((row: SyncRunRow) => toSyncRun(row, includeFailures));
+}
+
+/**
+ * Get a single run with its failure details
+ */
+export async function getSyncRun(id: string): Promise<SyncRun | null> {
+  const row: SyncRunRow | null = await prisma.sync_runs.findUnique({
+    where: { id },
+  });
+
+  return row ? toSyncRun(row, true) : null;
+}
@@ -7,27 +7,29 @@
  * - Scripts
  */
 
+import { Prisma } from '@prisma/client';
 import prisma from '@/lib/db';
-
-// Types for DOMO records
-interface DomoRecord {
-  VendorCallKey: string;
-  CallStartDateTime: string;
-  CallEndDateTime?: string;
-  CallDurationInSeconds?: string | number;
-  CallDispositionServicing?: string;
-  NumberOfHolds?: string | number;
-  CustomerHoldDuration?: string | number;
-  Department?: string;
-  VoiceCallStatus?: string;
-  Name?: string;
-  UserRoleName?: string;
-  ProfileName?: string;
-  Email?: string;
-  Conversation?: string | any;
-}
-
-interface SyncStats {
+import {
+  getTranscriptSource,
+  type DomoConversation,
+  type DomoRecord,
+  type TranscriptSource
+} from '@/lib/transcript-sources';
+import {
+  startSyncRun,
+  finishSyncRun,
+  findResumableRun,
+  saveSyncCheckpoint,
+  type SyncCheckpoint,
+  type SyncFailure,
+  type SyncTrigger
+} from '@/lib/sync-runs';
+import { withAdvisoryLock, LOCK_KEYS } from '@/lib/db-lock';
+import { enqueueAnalysisJobs, drainAnalysisQueue } from '@/lib/analysis-queue';
+import { correlateTickets, CORRELATION_CONFIG } from '@/lib/correlation';
+import { sendAlert, sendDigest } from '@/lib/mail';
+
+export interface SyncStats {
   fetched: number;
   imported: number;
   analyzed: number;
@@ -36,11 +38,29 @@ interface SyncStats {
   startTime: number;
   syncStartDate: string | null;
   syncEndDate: string | null;
+  source: string | null;
+  failures: SyncFailure[];
+  queued: number;              // Analysis jobs added to the queue
+  linked: number;              // Ticket-call links rebuilt for recent tickets
+  completed: boolean;          // false when the run stopped at its deadline
+  resumedFrom: string | null;  // Run id this run picked up from
+}
+
+export interface SyncOptions {
+  /** Where to read transcripts from; defaults to the TRANSCRIPT_SOURCE env setting */
+  source?: TranscriptSource;
+  /** What started this run, recorded in the sync_runs ledger */
+  trigger?: SyncTrigger;
+  /** Epoch ms to stop by; an unfinished run leaves a checkpoint for the next one */
+  deadline?: number;
 }
 
 // BASELINE CUTOFF: Never sync data before this date
 const BASELINE_DATE = '2025-12-01';
 
+// Save a checkpoint (and check the deadline) every N imported records
+const CHECKPOINT_INTERVAL = 200;
+
 /**
  * Decode HTML entities in text
  */
@@ -60,21 +80,21 @@ function decodeHtmlEntities(text: string | null | undefined): string | null | un
 /**
  * Transform Domo record to match our transcripts schema
  */
-function transformDomoRecord(domoRecord: DomoRecord) {
+function transformDomoRecord(domoRecord: DomoRecord): Prisma.transcriptsCreateInput {
   // Parse Conversation JSON
-  let messages = null;
+  let messages: Prisma.InputJsonArray | null = null;
   const conversationStr = domoRecord.Conversation;
   if (conversationStr) {
     try {
-      const conversation = typeof conversationStr === 'string' ? JSON.parse(conversationStr) : conversationStr;
+      const conversation: DomoConversation = typeof conversationStr === 'string' ? JSON.parse(conversationStr) : conversationStr;
       if (conversation.conversationEntries && Array.isArray(conversation.conversationEntries)) {
-        messages = conversation.conversationEntries.map((entry: any) => ({
+        messages = conversation.conversationEntries.map((entry) => ({
           speaker: entry.sender?.role === 'Agent' ? 'agent' : 'customer',
-          text: decodeHtmlEntities(entry.messageText || ''),
+          text: decodeHtmlEntities(entry.messageText || '') || '',
           timestamp: entry.clientTimestamp || entry.serverReceivedTimestamp || null
         }));
       }
-    } catch (e) {
+    } catch {
       console.warn(`⚠️  Failed to parse conversation for ${domoRecord.VendorCallKey}`);
     }
   }
@@ -107,7 +127,7 @@ function transformDomoRecord(domoRecord: DomoRecord) {
     agent_role: domoRecord.UserRoleName || null,
     agent_profile: domoRecord.ProfileName || null,
     agent_email: domoRecord.Email || null,
-    messages: messages
+    messages: messages ?? Prisma.DbNull
   };
 }
 
@@ -146,7 +166,7 @@ async function getLastSyncDate(): Promise<string> {
 /**
  * Import transcript to database (upsert)
  */
-async function importTranscript(transcript: any, stats: SyncStats): Promise<boolean> {
+async function importTranscript(transcript: Prisma.transcriptsCreateInput, stats: SyncStats): Promise<boolean> {
   try {
     await prisma.transcripts.upsert({
       where: { vendor_call_key: transcript.vendor_call_key },
@@ -158,6 +178,11 @@ async function importTranscript(transcript: any, stats: SyncStats): Promise<bool
   } catch (error) {
     console.error(`❌ Error importing ${transcript.vendor_call_key}:`, (error as Error).message);
     stats.errors++;
+    stats.failures.push({
+      vendorCallKey: transcript.vendor_call_key,
+      stage: 'import',
+      reason: (error as Error).message
+    });
     return false;
   }
 }
@@ -172,143 +197,15 @@ async function isAlreadyAnalyzed(vendorCallKey: string): Promise<boolean> {
   return !!existing;
 }
 
-/**
- * Analyze a transcript using OpenRouter API
- */
-async function analyzeTranscript(transcript: any): Promise<any> {
-  const messages = transcript.messages as any[];
-  if (!messages || messages.length === 0) {
-    throw new Error('No conversation messages');
-  }
-
-  // Build conversation text
-  const conversationText = messages
-    .map((m: any) => `${m.speaker}: ${m.text}`)
-    .join('\n');
-
-  const prompt = `Analyze this customer service call transcript and extract the following information in JSON format:
-
-{
-  "agentSentiment": "positive|neutral|negative",
-  "agentSentimentScore": 0.0-1.0,
-  "agentSentimentReason": "brief explanation",
-  "customerSentiment": "positive|neutral|negative",
-  "customerSentimentScore": 0.0-1.0,
-  "customerSentimentReason": "brief explanation",
-  "aiDiscoveredTopic": "main topic",
-  "aiDiscoveredSubcategory": "subcategory if applicable",
-  "topicConfidence": 0.0-1.0,
-  "keyIssues": ["issue1", "issue2"],
-  "resolution": "how was it resolved",
-  "tags": ["tag1", "tag2"]
-}
-
-Transcript:
-${conversationText}`;
-
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-      'HTTP-Referer': 'https://servicing-tickets.cmgfinancial.ai',
-      'X-Title': 'CMG Servicing Tickets'
-    },
-    body: JSON.stringify({
-      model: 'anthropic/claude-3.5-sonnet',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' }
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenRouter API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices[0]?.message?.content;
-
-  if (!content) {
-    throw new Error('No content in response');
-  }
-
-  return JSON.parse(content);
-}
-
-/**
- * Analyze transcripts in batch with concurrency control
- */
-async function analyzeTranscriptBatch(
-  transcripts: any[],
-  maxConcurrent: number = 20,
-  onProgress?: (processed: number, total: number) => void
-): Promise<{ results: any[]; errors: any[] }> {
-  const results: any[] = [];
-  const errors: any[] = [];
-  let processed = 0;
-
-  // Process in chunks
-  for (let i = 0; i < transcripts.length; i += maxConcurrent) {
-    const chunk = transcripts.slice(i, i + maxConcurrent);
-
-    const promises = chunk.map(async (transcript) => {
-      try {
-        const analysis = await analyzeTranscript(transcript);
-
-        // Save to database
-        await prisma.transcriptAnalysis.upsert({
-          where: { vendorCallKey: transcript.vendor_call_key },
-          create: {
-            vendorCallKey: transcript.vendor_call_key,
-            agentName: transcript.agent_name,
-            ...analysis
-          },
-          update: analysis
-        });
-
-        return { success: true, vendorCallKey: transcript.vendor_call_key };
-      } catch (error) {
-        return {
-          success: false,
-          vendorCallKey: transcript.vendor_call_key,
-          error: (error as Error).message
-        };
-      }
-    });
-
-    const chunkResults = await Promise.all(promises);
-
-    chunkResults.forEach(result => {
-      if (result.success) {
-        results.push(result);
-      } else {
-        errors.push(result);
-      }
-    });
-
-    processed += chunk.length;
-    if (onProgress) {
-      onProgress(processed, transcripts.length);
-    }
-  }
-
-  return { results, errors };
-}
-
-/**
- * Fetch data from DOMO using their API
- */
-async function fetchFromDomo(startDate: string, endDate: string): Promise<DomoRecord[]> {
-  // This is a simplified version - you'll need to implement DOMO API client
-  // For now, return empty array and implement based on your DOMO API setup
-  console.log('⚠️  DOMO API integration needed - implement fetchFromDomo()');
-  return [];
-}
-
 /**
  * Main sync function - can be called from cron jobs, API endpoints, or scripts
+ *
+ * If the previous run did not finish, this run reuses its window and skips
+ * the records it already imported. With a deadline, the run stops cleanly
+ * before it and leaves a checkpoint for the next run. Use
+ * runDailySyncExclusive() wherever runs could overlap.
  */
-export async function runDailySync(): Promise<SyncStats> {
+export async function runDailySync(options: SyncOptions = {}): Promise<SyncStats> {
   const stats: SyncStats = {
     fetched: 0,
     imported: 0,
@@ -317,37 +214,86 @@ export async function runDailySync(): Promise<SyncStats> {
     errors: 0,
     startTime: Date.now(),
     syncStartDate: null,
-    syncEndDate: null
+    syncEndDate: null,
+    source: null,
+    failures: [],
+    queued: 0,
+    linked: 0,
+    completed: false,
+    resumedFrom: null
   };
 
+  const pastDeadline = () => options.deadline !== undefined && Date.now() >= options.deadline;
+
+  const resumable = await findResumableRun();
+  const runId = await startSyncRun(options.trigger ?? 'script', resumable?.id ?? null);
+
+  // End date is today, unless resuming (the checkpoint offset only holds for the same window)
+  const endDate = resumable ? resumable.windowEnd : new Date().toISOString().split('T')[0];
+  let checkpoint: SyncCheckpoint = { phase: 'import', processed: 0, windowEnd: endDate };
+
   try {
     console.log('🔄 Starting daily delta sync...');
 
-    // Step 1: Determine start date
-    const startDate = await getLastSyncDate();
+    // Step 1: Determine start date (resume an unfinished run's window if there is one)
+    let startDate: string;
+    if (resumable) {
+      startDate = resumable.windowStart;
+      checkpoint = resumable.checkpoint;
+      stats.resumedFrom = resumable.id;
+      console.log(`⏯️  Resuming run ${resumable.id} (${checkpoint.phase}, ${checkpoint.processed} processed)`);
+    } else {
+      startDate = await getLastSyncDate();
+    }
     stats.syncStartDate = startDate;
-
-    // End date is today
-    const today = new Date();
-    const endDate = today.toISOString().split('T')[0];
     stats.syncEndDate = endDate;
 
     console.log(`📅 Sync range: ${startDate} to ${endDate}`);
 
-    // Step 2: Fetch from DOMO
-    console.log('📥 Fetching from DOMO...');
-    const domoRecords = await fetchFromDomo(startDate, endDate);
+    const source = options.source ?? getTranscriptSource();
+    stats.source = source.name;
+    await saveSyncCheckpoint(runId, stats, checkpoint);
+
+    // Step 2: Fetch from the transcript source
+    console.log(`📥 Fetching from ${source.name}...`);
+    const domoRecords: DomoRecord[] = await source.fetchRecords({ startDate, endDate });
     stats.fetched = domoRecords.length;
     console.log(`✅ Fetched ${stats.fetched} records`);
 
     if (stats.fetched === 0) {
       console.log('✨ No new records - database is up to date!');
+      stats.completed = true;
+      await finishSyncRun(runId, stats);
+      await sendSyncDigest(stats);
       return stats;
     }
 
+    // Stable order so a checkpoint offset means the same records next time
+    domoRecords.sort((a, b) =>
+      a.CallStartDateTime === b.CallStartDateTime
+        ? String(a.VendorCallKey).localeCompare(String(b.VendorCallKey))
+        : String(a.CallStartDateTime).localeCompare(String(b.CallStartDateTime))
+    );
+
     // Step 3: Import to database
+    const importFrom = checkpoint.phase === 'import' ? Math.min(checkpoint.processed, domoRecords.length) : domoRecords.length;
+    if (importFrom > 0) {
+      console.log(`⏭️  Skipping ${importFrom} records imported by the previous run`);
+    }
+
     console.log('💾 Importing transcripts...');
-    for (const domoRecord of domoRecords) {
+    for (let i = importFrom; i < domoRecords.length; i++) {
+      if (i > importFrom && (i - importFrom) % CHECKPOINT_INTERVAL === 0) {
+        checkpoint = { phase: 'import', processed: i, windowEnd: endDate };
+        if (pastDeadline()) {
+          console.log(`⏸️  Deadline reached after importing ${i}/${domoRecords.length} records`);
+          await finishSyncRun(runId, stats, undefined, checkpoint);
+          return stats;
+        }
+        await saveSyncCheckpoint(runId, stats, checkpoint);
+      }
+
+      const domoRecord = domoRecords[i];
       if (!domoRecord.VendorCallKey) {
         stats.skipped++;
         continue;
@@ -358,18 +304,27 @@ export async function runDailySync(): Promise<SyncStats> {
     }
     console.log(`✅ Imported ${stats.imported} transcripts`);
 
-    // Step 4: Analyze new transcripts
+    // Step 4: Link the new calls to tickets about the same customer
+    if (!pastDeadline()) {
+      await linkRecentTickets(startDate, stats, options.deadline);
+    }
+
+    checkpoint = { phase: 'analyze', processed: domoRecords.length, windowEnd: endDate };
+    await saveSyncCheckpoint(runId, stats, checkpoint);
+
+    // Step 5: Analyze new transcripts
     console.log('🤖 Running AI analysis...');
-    const transcriptsToAnalyze = await prisma.transcripts.findMany({
+    const transcriptsToAnalyze: { vendor_call_key: string }[] = await prisma.transcripts.findMany({
       where: {
         vendor_call_key: {
           in: domoRecords.map(r => r.VendorCallKey).filter(Boolean)
         }
-      }
+      },
+      select: { vendor_call_key: true }
     });
 
-    // Filter out already analyzed
-    const needsAnalysis: any[] = [];
+    // Filter out already analyzed (this is also what makes the analyze phase resumable)
+    const needsAnalysis: { vendor_call_key: string }[] = [];
     for (const transcript of transcriptsToAnalyze) {
       if (await isAlreadyAnalyzed(transcript.vendor_call_key)) {
         stats.skipped++;
@@ -379,18 +334,31 @@ export async function runDailySync(): Promise<SyncStats> {
     }
 
     if (needsAnalysis.length > 0) {
-      const { results, errors } = await analyzeTranscriptBatch(
-        needsAnalysis,
-        20,
-        (processed, total) => {
-          if (processed % 50 === 0 || processed === total) {
-            console.log(`   Analyzed ${processed}/${total}...`);
-          }
-        }
-      );
+      // Queue first so nothing is lost if this run dies, then work the queue down
+      stats.queued = await enqueueAnalysisJobs(needsAnalysis.map((t) => t.vendor_call_key));
+      console.log(`📬 Queued ${stats.queued} transcripts for analysis`);
+
+      const drained = await drainAnalysisQueue({
+        limit: needsAnalysis.length,
+        deadline: options.deadline
+      });
+
+      stats.analyzed = drained.done;
+      stats.errors += drained.retried + drained.failed;
+      for (const result of drained.results) {
+        if (result.outcome === 'done') continue;
+        stats.failures.push({
+          vendorCallKey: result.vendorCallKey,
+          stage: 'analysis',
+          reason: result.outcome === 'retry' ? `Retry scheduled: ${result.error}` : result.error || 'Unknown error'
+        });
+      }
 
-      stats.analyzed = results.length;
-      stats.errors += errors.length;
+      if (drained.stopped) {
+        console.log(`⏸️  Deadline reached after analyzing ${stats.analyzed}/${needsAnalysis.length} transcripts`);
+        await finishSyncRun(runId, stats, undefined, checkpoint);
+        return stats;
+      }
     }
 
     console.log(`✅ Analyzed ${stats.analyzed} transcripts`);
@@ -398,10 +366,103 @@ export async function runDailySync(): Promise<SyncStats> {
     const elapsed = ((Date.now() - stats.startTime) / 1000).toFixed(1);
     console.log(`⏱️  Completed in ${elapsed}s`);
 
+    stats.completed = true;
+    await finishSyncRun(runId, stats);
+    await sendSyncDigest(stats);
     return stats;
 
   } catch (error) {
     console.error('❌ Sync failed:', error);
+    await finishSyncRun(runId, stats, error as Error);
+    await sendSyncFailureAlert(stats, error);
     throw error;
   }
 }
+
+/**
+ * Rebuild the call links of tickets created close enough to the sync window
+ * to match a newly imported call. Failures are logged and do not fail the run.
+ * Linking stops at the run's deadline; /api/cron/link-tickets can finish it.
+ */
+async function linkRecentTickets(startDate: string, stats: SyncStats, deadline?: number): Promise<void> {
+  try {
+    const windowMs = CORRELATION_CONFIG.WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const linked = await correlateTickets({
+      from: new Date(new Date(startDate).getTime() - windowMs),
+      to: new Date(),
+      deadline
+    });
+    stats.linked = linked.links;
+    if (linked.stopped) {
+      console.warn(`⚠️  Ticket-call linking stopped at the deadline after ${linked.tickets} tickets`);
+    } else {
+      console.log(`✅ Linked ${linked.linkedTickets} tickets to calls`);
+    }
+  } catch (error) {
+    console.warn('⚠️  Ticket-call linking failed:', (error as Error).message);
+  }
+}
+
+/**
+ * Email the run summary to MAIL_DIGEST_RECIPIENTS
+ */
+async function sendSyncDigest(stats: SyncStats): Promise<void> {
+  const elapsed = ((Date.now() - stats.startTime) / 1000).toFixed(1);
+  await sendDigest({
+    title: `Daily sync: ${stats.imported} transcripts imported`,
+    summary: `The daily sync from ${stats.source ?? 'the transcript source'} finished in ${elapsed}s.`,
+    sections: [
+      {
+        heading: 'Transcripts',
+        rows: [
+          ['Window', `${stats.syncStartDate} to ${stats.syncEndDate}`],
+          ['Fetched', stats.fetched],
+          ['Imported', stats.imported],
+          ['Skipped', stats.skipped],
+          ['Ticket links', stats.linked],
+        ],
+      },
+      {
+        heading: 'Analysis',
+        rows: [
+          ['Queued', stats.queued],
+          ['Analyzed', stats.analyzed],
+          ['Errors', stats.errors],
+        ],
+      },
+    ],
+  });
+}
+
+/**
+ * Email MAIL_ALERT_RECIPIENTS that a run failed
+ */
+async function sendSyncFailureAlert(stats: SyncStats, error: unknown): Promise<void> {
+  await sendAlert({
+    title: 'Daily sync failed',
+    message: error instanceof Error ? error.message : String(error),
+    details: {
+      Source: stats.source,
+      Window: stats.syncStartDate ? `${stats.syncStartDate} to ${stats.syncEndDate}` : null,
+      Fetched: stats.fetched,
+      Imported: stats.imported,
+      'Resumed from': stats.resumedFrom,
+    },
+  });
+}
+
+/**
+ * Run the daily sync while holding the sync advisory lock
+ *
+ * Returns null without doing anything if another sync is already running.
+ */
+export async function runDailySyncExclusive(options: SyncOptions = {}): Promise<SyncStats | null> {
+  const lock = await withAdvisoryLock(LOCK_KEYS.DAILY_SYNC, () => runDailySync(options));
+
+  if (!lock.acquired) {
+    console.log('🔒 Another sync is already running - skipping');
+    return null;
+  }
+
+  return lock.result;
+}
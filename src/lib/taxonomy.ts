@@ -0,0 +1,423 @@
+/**
+ * Category Taxonomy
+ * Versioned, admin-edited rules for the keyword categorizer
+ *
+ * Each version is a snapshot of CategoryDefinition[] in category_taxonomies.
+ * Admins edit a single draft, preview how it would move existing tickets and
+ * transcripts, then publish it, which retires the active version. Published
+ * versions never change, and their activatedAt / retiredAt say when each was
+ * in use. Until a version is published the built-in CATEGORY_DEFINITIONS
+ * apply, reported as version 0.
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import {
+  CATEGORY_DEFINITIONS,
+  categorizeText,
+  getRulesVersion,
+  type CategoryDefinition,
+} from '@/lib/categorization';
+
+export type TaxonomyStatus = 'draft' | 'active' | 'retired';
+
+export interface Taxonomy {
+  version: number;                   // 0 = built-in CATEGORY_DEFINITIONS
+  status: TaxonomyStatus;
+  rulesVersion: string;
+  definitions: CategoryDefinition[];
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  activatedAt: string | null;
+  activatedBy: string | null;
+  retiredAt: string | null;
+}
+
+export interface TaxonomyMove {
+  from: string;                      // "Category / Subcategory"
+  to: string;
+  count: number;
+}
+
+export interface TaxonomyPreviewExample {
+  id: string;                        // Ticket key or vendor call key
+  text: string;
+  from: string;
+  to: string;
+}
+
+export interface TaxonomyPreviewSet {
+  checked: number;
+  moved: number;                     // Category or subcategory changed
+  subcategoryMoved: number;          // Of those, same category, different subcategory
+  byCategory: { name: string; current: number; proposed: number }[];
+  moves: TaxonomyMove[];             // Largest first
+  examples: TaxonomyPreviewExample[];
+}
+
+export interface TaxonomyPreview {
+  rulesVersion: string;
+  // Moves from each ticket's stored category
+  tickets: TaxonomyPreviewSet;
+  // Moves from the active rules, over the most recent transcripts
+  transcripts: TaxonomyPreviewSet & { limit: number };
+}
+
+interface TaxonomyRow {
+  version: number;
+  status: string;
+  rulesVersion: string;
+  definitions: unknown;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  activatedAt: Date | null;
+  activatedBy: string | null;
+  retiredAt: Date | null;
+}
+
+const ACTIVE_CACHE_MS = 60 * 1000;
+const PREVIEW_BATCH_SIZE = 1000;
+const TRANSCRIPT_PREVIEW_LIMIT = 2000;
+const PREVIEW_MOVE_LIMIT = 50;
+const PREVIEW_EXAMPLE_LIMIT = 20;
+
+// Lowest weight, highest weight a subcategory can have
+const WEIGHT_RANGE = [0, 100];
+
+const BUILT_IN_TAXONOMY: Taxonomy = {
+  version: 0,
+  status: 'active',
+  rulesVersion: getRulesVersion(CATEGORY_DEFINITIONS),
+  definitions: CATEGORY_DEFINITIONS,
+  note: 'Built-in rules (src/lib/categorization.ts)',
+  createdBy: null,
+  createdAt: null,
+  updatedAt: null,
+  activatedAt: null,
+  activatedBy: null,
+  retiredAt: null,
+};
+
+let activeCache: { taxonomy: Taxonomy; loadedAt: number } | null = null;
+
+function toTaxonomy(row: TaxonomyRow): Taxonomy {
+  return {
+    version: row.version,
+    status: row.status as TaxonomyStatus,
+    rulesVersion: row.rulesVersion,
+    definitions: row.definitions as CategoryDefinition[],
+    note: row.note,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    activatedAt: row.activatedAt ? row.activatedAt.toISOString() : null,
+    activatedBy: row.activatedBy,
+    retiredAt: row.retiredAt ? row.retiredAt.toISOString() : null,
+  };
+}
+
+function isKeywordList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((keyword) => typeof keyword === 'string');
+}
+
+function cleanKeywords(keywords: string[]): string[] {
+  return Array.from(new Set(keywords.map((keyword) => keyword.trim()).filter(Boolean)));
+}
+
+/**
+ * Check and normalize proposed definitions (trimmed names, de-duplicated
+ * keywords). Returns the problems found, or the definitions when there are none.
+ */
+export function validateDefinitions(value: unknown): { definitions: CategoryDefinition[] } | { errors: string[] } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { errors: ['definitions must be a non-empty list of categories'] };
+  }
+
+  const errors: string[] = [];
+  const categoryNames = new Set<string>();
+
+  const definitions = value.map((category, i): CategoryDefinition => {
+    const name = typeof category?.name === 'string' ? category.name.trim() : '';
+    const label = name || `Category ${i + 1}`;
+
+    if (!name) errors.push(`${label}: name is required`);
+    else if (name.toLowerCase() === 'other') errors.push(`${label}: "Other" is reserved for tickets no category matches`);
+    else if (categoryNames.has(name.toLowerCase())) errors.push(`${label}: duplicate category name`);
+    categoryNames.add(name.toLowerCase());
+
+    const keywords = isKeywordList(category?.keywords) ? cleanKeywords(category.keywords) : [];
+    if (keywords.length === 0) errors.push(`${label}: at least one category keyword is required`);
+
+    const subcategories = Array.isArray(category?.subcategories) ? category.subcategories : [];
+    if (subcategories.length === 0) errors.push(`${label}: at least one subcategory is required`);
+
+    const subcategoryNames = new Set<string>();
+    return {
+      name,
+      keywords,
+      subcategories: subcategories.map((subcategory: Record<string, unknown>, j: number) => {
+        const subName = typeof subcategory?.name === 'string' ? subcategory.name.trim() : '';
+        const subLabel = `${label} / ${subName || `Subcategory ${j + 1}`}`;
+
+        if (!subName) errors.push(`${subLabel}: name is required`);
+        else if (subcategoryNames.has(subName.toLowerCase())) errors.push(`${subLabel}: duplicate subcategory name`);
+        subcategoryNames.add(subName.toLowerCase());
+
+        const subKeywords = isKeywordList(subcategory?.keywords) ? cleanKeywords(subcategory.keywords) : [];
+        if (subKeywords.length === 0) errors.push(`${subLabel}: at least one keyword is required`);
+
+        const weight = subcategory?.weight;
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < WEIGHT_RANGE[0] || weight > WEIGHT_RANGE[1]) {
+          errors.push(`${subLabel}: weight must be a number from ${WEIGHT_RANGE[0]} to ${WEIGHT_RANGE[1]}`);
+        }
+
+        return { name: subName, keywords: subKeywords, weight: typeof weight === 'number' ? weight : 0 };
+      }),
+    };
+  });
+
+  return errors.length > 0 ? { errors } : { definitions };
+}
+
+/**
+ * The taxonomy the categorizer uses now, cached for a minute per process
+ */
+export async function getActiveTaxonomy(): Promise<Taxonomy> {
+  if (activeCache && Date.now() - activeCache.loadedAt < ACTIVE_CACHE_MS) {
+    return activeCache.taxonomy;
+  }
+
+  const row: TaxonomyRow | null = await prisma.categoryTaxonomy.findFirst({ where: { status: 'active' } });
+  const taxonomy = row ? toTaxonomy(row) : BUILT_IN_TAXONOMY;
+  activeCache = { taxonomy, loadedAt: Date.now() };
+  return taxonomy;
+}
+
+export function clearTaxonomyCache(): void {
+  activeCache = null;
+}
+
+/**
+ * Every stored version, newest first, with the built-in rules last
+ */
+export async function listTaxonomies(): Promise<Taxonomy[]> {
+  const rows: TaxonomyRow[] = await prisma.categoryTaxonomy.findMany({ orderBy: { version: 'desc' } });
+  const taxonomies = rows.map(toTaxonomy);
+
+  // The built-in rules were active until the first version was published
+  const published = taxonomies.filter((taxonomy) => taxonomy.activatedAt);
+  const first = published[published.length - 1];
+  return [
+    ...taxonomies,
+    { ...BUILT_IN_TAXONOMY, status: first ? 'retired' : 'active', retiredAt: first?.activatedAt ?? null },
+  ];
+}
+
+export async function getTaxonomy(version: number): Promise<Taxonomy | null> {
+  if (version === 0) return BUILT_IN_TAXONOMY;
+  const row: TaxonomyRow | null = await prisma.categoryTaxonomy.findUnique({ where: { version } });
+  return row ? toTaxonomy(row) : null;
+}
+
+/**
+ * The taxonomy that was active at `date`, for reports over past periods
+ */
+export async function getTaxonomyAt(date: Date): Promise<Taxonomy> {
+  const row: TaxonomyRow | null = await prisma.categoryTaxonomy.findFirst({
+    where: {
+      activatedAt: { lte: date },
+      OR: [{ retiredAt: null }, { retiredAt: { gt: date } }],
+    },
+    orderBy: { activatedAt: 'desc' },
+  });
+  return row ? toTaxonomy(row) : BUILT_IN_TAXONOMY;
+}
+
+export async function getDraftTaxonomy(): Promise<Taxonomy | null> {
+  const row: TaxonomyRow | null = await prisma.categoryTaxonomy.findFirst({ where: { status: 'draft' } });
+  return row ? toTaxonomy(row) : null;
+}
+
+/**
+ * Create or replace the draft. The draft takes the next version number.
+ */
+export async function saveDraftTaxonomy(
+  definitions: CategoryDefinition[],
+  options: { note?: string | null; savedBy?: string | null } = {}
+): Promise<Taxonomy> {
+  const data = {
+    definitions: definitions as unknown as Prisma.InputJsonValue,
+    rulesVersion: getRulesVersion(definitions),
+    note: options.note ?? null,
+  };
+
+  const draft: TaxonomyRow | null = await prisma.categoryTaxonomy.findFirst({ where: { status: 'draft' } });
+  if (draft) {
+    const row: TaxonomyRow = await prisma.categoryTaxonomy.update({ where: { version: draft.version }, data });
+    return toTaxonomy(row);
+  }
+
+  const latest: { version: number } | null = await prisma.categoryTaxonomy.findFirst({
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+  const row: TaxonomyRow = await prisma.categoryTaxonomy.create({
+    data: { ...data, version: (latest?.version ?? 0) + 1, status: 'draft', createdBy: options.savedBy ?? null },
+  });
+  console.log(`[Taxonomy] Draft version ${row.version} created by ${options.savedBy || 'unknown'}`);
+  return toTaxonomy(row);
+}
+
+/**
+ * Delete the draft. Returns false when there is none.
+ */
+export async function discardDraftTaxonomy(): Promise<boolean> {
+  const deleted = await prisma.categoryTaxonomy.deleteMany({ where: { status: 'draft' } });
+  return deleted.count > 0;
+}
+
+/**
+ * Make the draft the active taxonomy and retire the previous one. Returns
+ * null when there is no draft. Tickets keep their categories until
+ * recategorizeTickets (src/lib/tickets.ts) runs.
+ */
+export async function publishDraftTaxonomy(publishedBy: string | null): Promise<Taxonomy | null> {
+  const draft: TaxonomyRow | null = await prisma.categoryTaxonomy.findFirst({ where: { status: 'draft' } });
+  if (!draft) return null;
+
+  const now = new Date();
+  const [, row]: [unknown, TaxonomyRow] = await prisma.$transaction([
+    prisma.categoryTaxonomy.updateMany({
+      where: { status: 'active' },
+      data: { status: 'retired', retiredAt: now },
+    }),
+    prisma.categoryTaxonomy.update({
+      where: { version: draft.version },
+      data: { status: 'active', activatedAt: now, activatedBy: publishedBy },
+    }),
+  ]);
+
+  clearTaxonomyCache();
+  console.log(`[Taxonomy] Version ${row.version} (${row.rulesVersion}) published by ${publishedBy || 'unknown'}`);
+  return toTaxonomy(row);
+}
+
+interface Placement {
+  category: string;
+  subcategory: string;
+}
+
+// Tallies current -> proposed category / subcategory pairs for one kind of
+// record. byCategory counts categories only; moves and examples use the pair,
+// so a new subcategory under an existing category shows up as a move.
+function createTally() {
+  const current = new Map<string, number>();
+  const proposed = new Map<string, number>();
+  const moves = new Map<string, TaxonomyMove>();
+  const examples: TaxonomyPreviewExample[] = [];
+  let checked = 0;
+  let moved = 0;
+  let subcategoryMoved = 0;
+
+  return {
+    add(id: string, text: string, fromPlacement: Placement, toPlacement: Placement) {
+      checked++;
+      current.set(fromPlacement.category, (current.get(fromPlacement.category) || 0) + 1);
+      proposed.set(toPlacement.category, (proposed.get(toPlacement.category) || 0) + 1);
+
+      const from = `${fromPlacement.category} / ${fromPlacement.subcategory}`;
+      const to = `${toPlacement.category} / ${toPlacement.subcategory}`;
+      if (from === to) return;
+
+      moved++;
+      if (fromPlacement.category === toPlacement.category) subcategoryMoved++;
+      const key = `${from}\u0000${to}`;
+      const move = moves.get(key) || { from, to, count: 0 };
+      move.count++;
+      moves.set(key, move);
+      if (examples.length < PREVIEW_EXAMPLE_LIMIT) {
+        examples.push({ id, text: text.slice(0, 160), from, to });
+      }
+    },
+
+    result(): TaxonomyPreviewSet {
+      const names = new Set([...current.keys(), ...proposed.keys()]);
+      return {
+        checked,
+        moved,
+        subcategoryMoved,
+        byCategory: Array.from(names)
+          .map((name) => ({ name, current: current.get(name) || 0, proposed: proposed.get(name) || 0 }))
+          .sort((a, b) => b.proposed - a.proposed),
+        moves: Array.from(moves.values()).sort((a, b) => b.count - a.count).slice(0, PREVIEW_MOVE_LIMIT),
+        examples,
+      };
+    },
+  };
+}
+
+/**
+ * How `definitions` would re-categorize existing records: every ticket
+ * against its stored category, and the most recent transcripts against the
+ * active rules (transcripts are not categorized by keyword when stored).
+ */
+export async function previewTaxonomy(definitions: CategoryDefinition[]): Promise<TaxonomyPreview> {
+  const active = await getActiveTaxonomy();
+
+  const tickets = createTally();
+  let cursor: bigint | undefined;
+  for (;;) {
+    const batch: {
+      id: bigint;
+      ticketKey: string;
+      ticketTitle: string | null;
+      ticketDescription: string | null;
+      category: string | null;
+      subcategory: string | null;
+    }[] = await prisma.ticket.findMany({
+      where: cursor === undefined ? {} : { id: { gt: cursor } },
+      select: { id: true, ticketKey: true, ticketTitle: true, ticketDescription: true, category: true, subcategory: true },
+      orderBy: { id: 'asc' },
+      take: PREVIEW_BATCH_SIZE,
+    });
+    if (batch.length === 0) break;
+    cursor = batch[batch.length - 1].id;
+
+    batch.forEach((ticket) => {
+      const to = categorizeText(ticket.ticketDescription || '', ticket.ticketTitle || '', definitions);
+      const from = { category: ticket.category || 'Other', subcategory: ticket.subcategory || 'Uncategorized' };
+      tickets.add(ticket.ticketKey, ticket.ticketTitle || '', from, to);
+    });
+  }
+
+  const transcripts = createTally();
+  for (let skip = 0; skip < TRANSCRIPT_PREVIEW_LIMIT; skip += PREVIEW_BATCH_SIZE) {
+    const batch: { vendor_call_key: string; messages: unknown }[] = await prisma.transcripts.findMany({
+      select: { vendor_call_key: true, messages: true },
+      orderBy: { call_start: 'desc' },
+      skip,
+      take: Math.min(PREVIEW_BATCH_SIZE, TRANSCRIPT_PREVIEW_LIMIT - skip),
+    });
+    if (batch.length === 0) break;
+
+    batch.forEach((transcript) => {
+      const messages = Array.isArray(transcript.messages) ? (transcript.messages as { text?: string }[]) : [];
+      const text = messages.map((message) => message.text || '').join('\n');
+      if (!text.trim()) return;
+
+      const from = categorizeText(text, undefined, active.definitions);
+      const to = categorizeText(text, undefined, definitions);
+      transcripts.add(transcript.vendor_call_key, text, from, to);
+    });
+  }
+
+  return {
+    rulesVersion: getRulesVersion(definitions),
+    tickets: tickets.result(),
+    transcripts: { ...transcripts.result(), limit: TRANSCRIPT_PREVIEW_LIMIT },
+  };
+}
@@ -0,0 +1,342 @@
+/**
+ * Tickets
+ * Normalizes ticketing-system export rows into Ticket records and stores them
+ *
+ * Rows arrive as CSV (every value a string) or JSON, using the export's
+ * snake_case column names (see src/types/ticket.ts).
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import { categorizeText, detectAllIssues } from '@/lib/categorization';
+import { getActiveTaxonomy, type Taxonomy } from '@/lib/taxonomy';
+import type { Ticket } from '@/types/ticket';
+
+// Only servicing projects are stored and shown
+export const SERVICING_PROJECTS = [
+  'Servicing Help',
+  'Servicing Escalations WG',
+  'ServApp Support',
+  'CMG Servicing Oversight',
+];
+
+/**
+ * One export row; CSV gives strings, JSON may give numbers and booleans
+ */
+export type TicketInput = Partial<Record<keyof Ticket | 'ticket_id', string | number | boolean | null>>;
+
+export type TicketIngestMode = 'append' | 'replace';
+
+export interface TicketCategorization {
+  category: string;
+  subcategory: string;
+  allIssues: string;                 // Pipe-separated
+  categorizationConfidence: number;
+  categoryVersion: string;
+}
+
+export interface RecategorizeStats {
+  version: string;             // Rules version the tickets now carry
+  taxonomyVersion: number;
+  checked: number;
+  updated: number;
+  changed: number;             // Updated rows whose category differs from before
+  remaining: number;           // Rows still categorized under another version
+  errors: string[];
+}
+
+export interface TicketIngestStats {
+  recordsProcessed: number;
+  recordsAdded: number;
+  recordsUpdated: number;
+  recordsSkipped: number;      // Not a servicing project
+  totalRecords: number;
+  errors: string[];
+}
+
+// Upsert this many rows per transaction
+const BATCH_SIZE = 200;
+
+function toText(value: TicketInput[keyof TicketInput]): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function toDate(value: TicketInput[keyof TicketInput]): Date | null {
+  const text = toText(value);
+  if (!text) return null;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toInt(value: TicketInput[keyof TicketInput]): number | null {
+  const text = toText(value);
+  if (!text) return null;
+  const n = Number(text);
+  return isNaN(n) ? null : Math.round(n);
+}
+
+function toBool(value: TicketInput[keyof TicketInput]): boolean {
+  return value === true || ['true', '1', 'yes'].includes(String(value ?? '').trim().toLowerCase());
+}
+
+/**
+ * Categorize a ticket from its title and description under a taxonomy
+ * (normally getActiveTaxonomy()). The one categorizer for tickets: ingestion,
+ * the Data tab and category grouping all read its result from the ticket row.
+ */
+export function categorizeTicket(
+  title: string | null,
+  description: string | null,
+  taxonomy: Pick<Taxonomy, 'definitions' | 'rulesVersion'>
+): TicketCategorization {
+  const result = categorizeText(description || '', title || '', taxonomy.definitions);
+  return {
+    category: result.category,
+    subcategory: result.subcategory,
+    allIssues: detectAllIssues(`${title || ''} ${description || ''}`, taxonomy.definitions).join('|'),
+    categorizationConfidence: result.confidence,
+    categoryVersion: taxonomy.rulesVersion,
+  };
+}
+
+/**
+ * Map an export row to Ticket fields, with keyword categorization
+ *
+ * Throws when the row has no key or no valid creation time.
+ */
+export function toTicketData(
+  row: TicketInput,
+  taxonomy: Pick<Taxonomy, 'definitions' | 'rulesVersion'>
+): Prisma.TicketCreateInput {
+  const ticketKey = toText(row.ticket_key) || toText(row.ticket_uuid) || toText(row.ticket_id);
+  if (!ticketKey) {
+    throw new Error('Missing ticket_key or ticket_uuid');
+  }
+
+  const ticketCreatedAtUtc = toDate(row.ticket_created_at_utc);
+  if (!ticketCreatedAtUtc) {
+    throw new Error('Missing or invalid ticket_created_at_utc');
+  }
+
+  const title = toText(row.ticket_title);
+  const description = toText(row.ticket_description);
+
+  return {
+    ticketKey,
+    ticketUuid: toText(row.ticket_uuid),
+    ticketTitle: title,
+    ticketDescription: description,
+    ticketPriority: toText(row.ticket_priority),
+    ticketStatus: toText(row.ticket_status),
+    ticketType: toText(row.ticket_type),
+
+    orgId: toText(row.org_id),
+    orgName: toText(row.org_name),
+    orgStatusId: toText(row.org_status_id),
+    orgStatusName: toText(row.org_status_name),
+    projectName: toText(row.project_name),
+
+    ticketReporterEmail: toText(row.ticket_reporter_email),
+    ticketReporterName: toText(row.ticket_reporter_name),
+    assignedUserName: toText(row.assigned_user_name),
+    assignedUserEmail: toText(row.assigned_user_email),
+
+    firstResponseSentUtc: toDate(row.first_response_sent_utc),
+    timeToFirstResponseInMinutes: toInt(row.time_to_first_response_in_minutes),
+    firstResponderEmail: toText(row.first_responder_email),
+    firstResponderName: toText(row.first_responder_name),
+    latestResponseSentUtc: toDate(row.latest_response_sent_utc),
+    latestResponderEmail: toText(row.latest_responder_email),
+    latestResponderName: toText(row.latest_responder_name),
+
+    dueDateUtc: toDate(row.due_date_utc),
+    slaEverBreached: toBool(row.sla_ever_breached),
+    firstSlaBreachedAtUtc: toDate(row.first_sla_breached_at_utc),
+    latestSlaBreachedAtUtc: toDate(row.latest_sla_breached_at_utc),
+
+    deletedAt: toDate(row.deleted_at),
+    deleteReasonName: toText(row.delete_reason_name),
+
+    isTicketComplete: toBool(row.is_ticket_complete),
+    ticketCompletedAtUtc: toDate(row.ticket_completed_at_utc),
+    timeToResolutionInMinutes: toInt(row.time_to_resolution_in_minutes),
+    assignedUserEmailWhenTicketCompleted: toText(row.assigned_user_email_when_ticket_completed),
+    assignedUserNameWhenTicketCompleted: toText(row.assigned_user_name_when_ticket_completed),
+
+    ticketTags: toText(row.ticket_tags),
+    customFields: toText(row.custom_fields),
+
+    ...categorizeTicket(title, description, taxonomy),
+
+    ticketCreatedAtUtc,
+    ticketUpdatedAtUtc: toDate(row.ticket_updated_at_utc),
+  };
+}
+
+/**
+ * Upsert export rows by ticket key. Rows outside SERVICING_PROJECTS are
+ * skipped. Bad rows are reported in `errors` and do not stop the rest.
+ *
+ * `replace` then deletes the tickets the export no longer has, and only when
+ * every row went in: a run with errors deletes nothing, so a failed batch
+ * never leaves the table (or its ticket-call links) partly empty.
+ */
+export async function ingestTickets(rows: TicketInput[], mode: TicketIngestMode = 'append'): Promise<TicketIngestStats> {
+  const stats: TicketIngestStats = {
+    recordsProcessed: 0,
+    recordsAdded: 0,
+    recordsUpdated: 0,
+    recordsSkipped: 0,
+    totalRecords: 0,
+    errors: [],
+  };
+
+  const taxonomy = await getActiveTaxonomy();
+  const tickets: Prisma.TicketCreateInput[] = [];
+  rows.forEach((row, index) => {
+    stats.recordsProcessed++;
+
+    const project = toText(row.project_name);
+    if (project && !SERVICING_PROJECTS.includes(project)) {
+      stats.recordsSkipped++;
+      return;
+    }
+
+    try {
+      tickets.push(toTicketData(row, taxonomy));
+    } catch (error) {
+      stats.errors.push(`Row ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  for (let i = 0; i < tickets.length; i += BATCH_SIZE) {
+    const batch = tickets.slice(i, i + BATCH_SIZE);
+    const existing = await prisma.ticket.findMany({
+      where: { ticketKey: { in: batch.map((ticket) => ticket.ticketKey) } },
+      select: { ticketKey: true },
+    });
+    const existingKeys = new Set(existing.map((ticket: { ticketKey: string }) => ticket.ticketKey));
+
+    try {
+      await prisma.$transaction(
+        batch.map((ticket) =>
+          prisma.ticket.upsert({
+            where: { ticketKey: ticket.ticketKey },
+            update: ticket,
+            create: ticket,
+          })
+        )
+      );
+      stats.recordsUpdated += batch.filter((ticket) => existingKeys.has(ticket.ticketKey)).length;
+      stats.recordsAdded += batch.filter((ticket) => !existingKeys.has(ticket.ticketKey)).length;
+    } catch (error) {
+      stats.errors.push(
+        `Rows for ${batch[0].ticketKey}..${batch[batch.length - 1].ticketKey}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  if (mode === 'replace') {
+    if (stats.errors.length > 0) {
+      console.warn(`[Tickets] Replace mode - ${stats.errors.length} errors, kept tickets missing from the export`);
+    } else {
+      await removeTicketsNotIn(new Set(tickets.map((ticket) => ticket.ticketKey)));
+    }
+  }
+
+  stats.totalRecords = await prisma.ticket.count();
+  console.log(
+    `[Tickets] Ingested ${stats.recordsProcessed} rows: ${stats.recordsAdded} added, ${stats.recordsUpdated} updated, ` +
+    `${stats.recordsSkipped} skipped, ${stats.errors.length} errors`
+  );
+  return stats;
+}
+
+// Delete every ticket whose key is not in `keep`, in batches
+async function removeTicketsNotIn(keep: Set<string>): Promise<void> {
+  const stored: { ticketKey: string }[] = await prisma.ticket.findMany({ select: { ticketKey: true } });
+  const stale = stored.map((ticket) => ticket.ticketKey).filter((key) => !keep.has(key));
+
+  let removed = 0;
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    const deleted = await prisma.ticket.deleteMany({ where: { ticketKey: { in: stale.slice(i, i + BATCH_SIZE) } } });
+    removed += deleted.count;
+  }
+  console.log(`[Tickets] Replace mode - removed ${removed} tickets missing from the export`);
+}
+
+// Rows categorized under other rules, or never categorized
+function staleCategoryWhere(rulesVersion: string) {
+  return { OR: [{ categoryVersion: null }, { categoryVersion: { not: rulesVersion } }] };
+}
+
+/**
+ * Number of tickets not yet categorized under the active taxonomy
+ */
+export async function countStaleCategorizations(): Promise<number> {
+  const taxonomy = await getActiveTaxonomy();
+  return prisma.ticket.count({ where: staleCategoryWhere(taxonomy.rulesVersion) });
+}
+
+/**
+ * Re-run categorizeTicket over tickets categorized under rules other than the
+ * active taxonomy's, up to `limit` rows, in batches. Stops at the first failed batch
+ * so a later run can pick up where this one left off.
+ */
+export async function recategorizeTickets(options: { limit?: number } = {}): Promise<RecategorizeStats> {
+  const limit = options.limit ?? Infinity;
+  const taxonomy = await getActiveTaxonomy();
+  const stats: RecategorizeStats = {
+    version: taxonomy.rulesVersion,
+    taxonomyVersion: taxonomy.version,
+    checked: 0,
+    updated: 0,
+    changed: 0,
+    remaining: 0,
+    errors: [],
+  };
+
+  while (stats.checked < limit) {
+    const batch: {
+      id: bigint;
+      ticketKey: string;
+      ticketTitle: string | null;
+      ticketDescription: string | null;
+      category: string | null;
+    }[] = await prisma.ticket.findMany({
+      where: staleCategoryWhere(taxonomy.rulesVersion),
+      select: { id: true, ticketKey: true, ticketTitle: true, ticketDescription: true, category: true },
+      orderBy: { id: 'asc' },
+      take: Math.min(BATCH_SIZE, limit - stats.checked),
+    });
+    if (batch.length === 0) break;
+    stats.checked += batch.length;
+
+    const updates = batch.map((ticket) => ({
+      ticket,
+      data: categorizeTicket(ticket.ticketTitle, ticket.ticketDescription, taxonomy),
+    }));
+
+    try {
+      await prisma.$transaction(
+        updates.map(({ ticket, data }) => prisma.ticket.update({ where: { id: ticket.id }, data }))
+      );
+      stats.updated += updates.length;
+      stats.changed += updates.filter(({ ticket, data }) => ticket.category !== data.category).length;
+    } catch (error) {
+      stats.errors.push(
+        `Rows for ${batch[0].ticketKey}..${batch[batch.length - 1].ticketKey}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      break;
+    }
+  }
+
+  stats.remaining = await prisma.ticket.count({ where: staleCategoryWhere(taxonomy.rulesVersion) });
+  console.log(
+    `[Tickets] Recategorized ${stats.updated} of ${stats.checked} tickets under taxonomy v${taxonomy.version} (${taxonomy.rulesVersion}): ` +
+    `${stats.changed} changed category, ${stats.remaining} remaining, ${stats.errors.length} errors`
+  );
+  return stats;
+}
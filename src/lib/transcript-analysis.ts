@@ -9,6 +9,8 @@
  * - Escalation detection
  */
 
+import { PII_PATTERNS } from './redaction';
+
 export interface ConversationMessage {
   role: 'agent' | 'customer';
   text: string;
@@ -562,14 +564,8 @@ export function extractNamedEntities(transcriptText: string): {
   amounts: string[];
 } {
   // Loan number patterns (common formats in mortgage servicing)
-  const loanNumberPatterns = [
-    /\b[0-9]{10,12}\b/g, // Standard 10-12 digit loan numbers
-    /\b[rR][a-zA-Z]{2}[0-9]{7,10}\b/g, // Format: RXX1234567
-    /\bloan\s*#?\s*([0-9]{7,12})\b/gi, // "loan # 1234567"
-  ];
-
   const loanNumbers: Set<string> = new Set();
-  for (const pattern of loanNumberPatterns) {
+  for (const pattern of PII_PATTERNS.loanNumber) {
     const matches = transcriptText.match(pattern);
     if (matches) {
       matches.forEach(match => {
@@ -597,12 +593,10 @@ export function extractNamedEntities(transcriptText: string): {
   });
 
   // Email addresses
-  const emailPattern = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
-  const emailAddresses = Array.from(new Set(transcriptText.match(emailPattern) || []));
+  const emailAddresses = Array.from(new Set(transcriptText.match(PII_PATTERNS.email[0]) || []));
 
   // Phone numbers (various formats)
-  const phonePattern = /\b(?:\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})\b/g;
-  const phoneNumbers = Array.from(new Set((transcriptText.match(phonePattern) || []).map(p => p.replace(/\D/g, ''))));
+  const phoneNumbers = Array.from(new Set((transcriptText.match(PII_PATTERNS.phone[0]) || []).map(p => p.replace(/\D/g, ''))));
 
   // Dollar amounts
   const amountPattern = /\$\s*([0-9]{1,3}(?:,?[0-9]{3})*(?:\.[0-9]{2})?)\b/g;
@@ -623,8 +617,7 @@ export function extractNamedEntities(transcriptText: string): {
   }
 
   // Addresses (simplified - look for street/zip patterns)
-  const addressPattern = /\b[0-9]+\s+[A-Za-z\s]+(?:Street|St|Avenue|Ave|Road|Rd|Drive|Dr|Lane|Ln|Boulevard|Blvd|Way|Court|Ct)\.?\b/gi;
-  const addresses = Array.from(new Set(transcriptText.match(addressPattern) || []));
+  const addresses = Array.from(new Set(transcriptText.match(PII_PATTERNS.address[0]) || []));
 
   return {
     loanNumbers: Array.from(loanNumbers),
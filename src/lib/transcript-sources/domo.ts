@@ -0,0 +1,143 @@
+/**
+ * DOMO Transcript Source
+ * Pulls call records from the DOMO dataset via OAuth client credentials + paged SQL
+ */
+
+import { getWindowEndExclusive, type DomoRecord, type SyncWindow, type TranscriptSource } from './types';
+
+const DOMO_API_BASE = 'https://api.domo.com';
+
+export const DOMO_CONFIG = {
+  clientId: process.env.DOMO_CLIENT_ID || '',
+  clientSecret: process.env.DOMO_CLIENT_SECRET || '',
+  datasetId: process.env.DOMO_DATASET_ID || '',
+  pageSize: parseInt(process.env.DOMO_PAGE_SIZE || '10000'),
+  // Refresh the token this long before DOMO says it expires
+  tokenRefreshMarginMs: 60 * 1000,
+};
+
+export interface DomoSourceOptions {
+  clientId?: string;
+  clientSecret?: string;
+  datasetId?: string;
+  pageSize?: number;
+}
+
+interface DomoQueryResponse {
+  columns?: string[];
+  rows?: unknown[][];
+}
+
+/**
+ * DOMO dataset adapter
+ */
+export class DomoTranscriptSource implements TranscriptSource {
+  readonly name = 'domo';
+
+  private clientId: string;
+  private clientSecret: string;
+  private datasetId: string;
+  private pageSize: number;
+  private accessToken: string | null = null;
+  private tokenExpiry = 0;
+
+  constructor(options: DomoSourceOptions = {}) {
+    this.clientId = options.clientId ?? DOMO_CONFIG.clientId;
+    this.clientSecret = options.clientSecret ?? DOMO_CONFIG.clientSecret;
+    this.datasetId = options.datasetId ?? DOMO_CONFIG.datasetId;
+    this.pageSize = options.pageSize ?? DOMO_CONFIG.pageSize;
+
+    if (!this.clientId || !this.clientSecret || !this.datasetId) {
+      throw new Error('DOMO source requires DOMO_CLIENT_ID, DOMO_CLIENT_SECRET and DOMO_DATASET_ID');
+    }
+  }
+
+  /**
+   * Get an access token, re-authenticating when the cached one is about to expire
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiry - DOMO_CONFIG.tokenRefreshMarginMs) {
+      return this.accessToken;
+    }
+
+    const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+    const response = await fetch(`${DOMO_API_BASE}/oauth/token?grant_type=client_credentials`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`DOMO authentication failed: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json();
+    this.accessToken = data.access_token as string;
+    this.tokenExpiry = Date.now() + (data.expires_in * 1000);
+
+    console.log('✅ Authenticated with DOMO API');
+    return this.accessToken;
+  }
+
+  /**
+   * Run one SQL query against the dataset and map rows to records
+   */
+  private async query(sql: string): Promise<DomoRecord[]> {
+    const token = await this.getAccessToken();
+
+    const response = await fetch(`${DOMO_API_BASE}/v1/datasets/query/execute/${this.datasetId}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ sql })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`DOMO query failed: ${response.status} - ${error}`);
+    }
+
+    const data: DomoQueryResponse = await response.json();
+    const columns = data.columns || [];
+
+    return (data.rows || []).map((row: unknown[]) => {
+      const record: Record<string, unknown> = {};
+      columns.forEach((col: string, idx: number) => {
+        record[col] = row[idx];
+      });
+      return record as unknown as DomoRecord;
+    });
+  }
+
+  /**
+   * Fetch every record in the window, one page at a time
+   */
+  async fetchRecords(window: SyncWindow): Promise<DomoRecord[]> {
+    const endExclusive = getWindowEndExclusive(window.endDate);
+    const records: DomoRecord[] = [];
+    let offset = 0;
+
+    while (true) {
+      // Ascending order keeps paging stable while new calls land in the dataset
+      const sql = `SELECT * FROM table` +
+        ` WHERE \`CallStartDateTime\` >= '${window.startDate}'` +
+        ` AND \`CallStartDateTime\` < '${endExclusive}'` +
+        ` ORDER BY \`CallStartDateTime\` ASC, \`VendorCallKey\` ASC` +
+        ` LIMIT ${this.pageSize} OFFSET ${offset}`;
+
+      const page = await this.query(sql);
+      records.push(...page);
+      console.log(`   DOMO page at offset ${offset}: ${page.length} records`);
+
+      if (page.length < this.pageSize) break;
+      offset += this.pageSize;
+    }
+
+    return records;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * File Transcript Source
+ * Replays a recorded DOMO export (JSON or CSV) so the sync can run offline
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Papa from 'papaparse';
+import { isInWindow, type DomoRecord, type SyncWindow, type TranscriptSource } from './types';
+
+/**
+ * Local file / fixture adapter
+ *
+ * Accepts either a JSON array of records, a raw DOMO query response
+ * ({ columns, rows }), or a CSV export with a header row.
+ */
+export class FileTranscriptSource implements TranscriptSource {
+  readonly name = 'file';
+
+  private filePath: string;
+
+  constructor(filePath: string) {
+    if (!filePath) {
+      throw new Error('File source requires a path (set TRANSCRIPT_SOURCE_FILE)');
+    }
+    this.filePath = path.resolve(process.cwd(), filePath);
+  }
+
+  /**
+   * Load and normalize every record in the file
+   */
+  private loadRecords(): DomoRecord[] {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`Transcript source file not found: ${this.filePath}`);
+    }
+
+    const content = fs.readFileSync(this.filePath, 'utf-8');
+
+    if (this.filePath.toLowerCase().endsWith('.csv')) {
+      const result = Papa.parse<DomoRecord>(content, { header: true, skipEmptyLines: true });
+      return result.data;
+    }
+
+    const data = JSON.parse(content);
+
+    if (Array.isArray(data)) {
+      return data as DomoRecord[];
+    }
+
+    if (data && Array.isArray(data.columns) && Array.isArray(data.rows)) {
+      return data.rows.map((row: unknown[]) => {
+        const record: Record<string, unknown> = {};
+        data.columns.forEach((col: string, idx: number) => {
+          record[col] = row[idx];
+        });
+        return record as unknown as DomoRecord;
+      });
+    }
+
+    throw new Error(`Unrecognized transcript export format: ${this.filePath}`);
+  }
+
+  /**
+   * Return the records whose call start falls inside the window
+   */
+  async fetchRecords(window: SyncWindow): Promise<DomoRecord[]> {
+    const records = this.loadRecords().filter((record: DomoRecord) => isInWindow(record, window));
+    console.log(`   Loaded ${records.length} records from ${path.basename(this.filePath)}`);
+    return records;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Transcript Sources
+ * Picks the adapter the daily sync reads from
+ */
+
+import { DomoTranscriptSource } from './domo';
+import { FileTranscriptSource } from './file';
+import type { TranscriptSource } from './types';
+
+export * from './types';
+export { DomoTranscriptSource, DOMO_CONFIG } from './domo';
+export { FileTranscriptSource } from './file';
+
+/**
+ * Build the configured source
+ *
+ * TRANSCRIPT_SOURCE=domo (default) or TRANSCRIPT_SOURCE=file with
+ * TRANSCRIPT_SOURCE_FILE pointing at a recorded export.
+ */
+export function getTranscriptSource(): TranscriptSource {
+  const kind = (process.env.TRANSCRIPT_SOURCE || 'domo').toLowerCase();
+
+  switch (kind) {
+    case 'domo':
+      return new DomoTranscriptSource();
+    case 'file':
+      return new FileTranscriptSource(process.env.TRANSCRIPT_SOURCE_FILE || '');
+    default:
+      throw new Error(`Unknown TRANSCRIPT_SOURCE: ${kind}`);
+  }
+}
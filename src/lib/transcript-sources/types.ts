@@ -0,0 +1,83 @@
+/**
+ * Transcript Source Types
+ * Shared contract for anything that can feed call transcripts into the sync
+ */
+
+/**
+ * One message of a DOMO conversation
+ */
+export interface DomoConversationEntry {
+  sender?: { role?: string };
+  messageText?: string;
+  clientTimestamp?: string | number;
+  serverReceivedTimestamp?: string | number;
+}
+
+/**
+ * The Conversation column, as a JSON string or already parsed
+ */
+export interface DomoConversation {
+  conversationEntries?: DomoConversationEntry[];
+}
+
+/**
+ * Raw call record as exported by the DOMO call-log dataset
+ */
+export interface DomoRecord {
+  VendorCallKey: string;
+  CallStartDateTime: string;
+  CallEndDateTime?: string;
+  CallDurationInSeconds?: string | number;
+  CallDispositionServicing?: string;
+  NumberOfHolds?: string | number;
+  CustomerHoldDuration?: string | number;
+  Department?: string;
+  VoiceCallStatus?: string;
+  Name?: string;
+  UserRoleName?: string;
+  ProfileName?: string;
+  Email?: string;
+  Conversation?: string | DomoConversation;
+}
+
+/**
+ * Date window to fetch, both ends inclusive (YYYY-MM-DD)
+ */
+export interface SyncWindow {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * A place transcripts can be fetched from (DOMO, a recorded export, ...)
+ */
+export interface TranscriptSource {
+  /** Short identifier used in logs and sync stats */
+  readonly name: string;
+
+  /** Fetch every record whose CallStartDateTime falls inside the window */
+  fetchRecords(window: SyncWindow): Promise<DomoRecord[]>;
+}
+
+/**
+ * Exclusive upper bound for a window: the day after endDate (YYYY-MM-DD)
+ */
+export function getWindowEndExclusive(endDate: string): string {
+  const next = new Date(`${endDate}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+}
+
+/**
+ * Check whether a record's call start falls inside the window
+ */
+export function isInWindow(record: DomoRecord, window: SyncWindow): boolean {
+  if (!record.CallStartDateTime) return false;
+
+  const callStart = new Date(record.CallStartDateTime);
+  if (isNaN(callStart.getTime())) return false;
+
+  const start = new Date(`${window.startDate}T00:00:00Z`);
+  const end = new Date(`${getWindowEndExclusive(window.endDate)}T00:00:00Z`);
+  return callStart >= start && callStart < end;
+}
@@ -1,6 +1,9 @@
 /**
  * Authentication Middleware
- * Protects routes by verifying JWT token from cookie
+ * Protects routes by verifying JWT token from cookie against the sessions table
+ * and enforcing the minimum role for each route (see lib/auth/roles.ts)
+ * Machine clients may instead send a scoped API key as `Authorization: Bearer` (see lib/auth/api-keys.ts)
+ * Records authenticated API calls and denied requests in the audit trail
  * Redirects unauthenticated users to /login
  */
 
@@ -8,18 +11,23 @@
 export const runtime = 'nodejs';
 
 import { NextResponse } from 'next/server';
-import type { NextRequest } from 'next/server';
+import type { NextFetchEvent, NextRequest } from 'next/server';
 import { verifyAuthToken } from '@/lib/auth/jwt';
 import { AUTH_CONFIG } from '@/lib/auth/config';
+import { hasRole, requiredRole, requiredScope } from '@/lib/auth/roles';
+import { getBearerToken, verifyApiKey } from '@/lib/auth/api-keys';
+import { recordAuditEvent } from '@/lib/audit';
 
 // Routes that don't require authentication
 const PUBLIC_ROUTES = [
   '/login',
   '/api/auth/send-otp',
   '/api/auth/verify-otp',
+  '/api/auth/logout', // Must clear the cookie even when the session is already revoked
+  '/api/cron/', // Cron routes check CRON_SECRET or a sync:run API key themselves
 ];
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
   const { pathname } = request.nextUrl;
 
   console.log('[Middleware] Checking path:', pathname);
@@ -39,12 +47,50 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Machine clients authenticate with an API key instead of the cookie
+  const apiKeyToken = pathname.startsWith('/api/') ? getBearerToken(request) : null;
+  if (apiKeyToken) {
+    const apiKey = await verifyApiKey(apiKeyToken).catch((error) => {
+      console.error('[Middleware] API key lookup failed:', error);
+      return null;
+    });
+    if (!apiKey) {
+      console.log('[Middleware] Invalid API key');
+      return NextResponse.json(
+        { error: 'Invalid or expired API key' },
+        { status: 401 }
+      );
+    }
+
+    const actor = `api-key:${apiKey.name}`;
+    const scope = requiredScope(pathname, request.method);
+    if (!scope || !apiKey.scopes.includes(scope)) {
+      console.log(`[Middleware] API key "${apiKey.name}" lacks ${scope || 'access'} for ${request.method} ${pathname}`);
+      event.waitUntil(recordAuditEvent(request, {
+        action: 'access.denied',
+        resource: pathname,
+        details: { method: request.method, apiKeyId: apiKey.id, requiredScope: scope },
+      }, actor));
+      return NextResponse.json(
+        { error: 'Forbidden', requiredScope: scope },
+        { status: 403 }
+      );
+    }
+
+    event.waitUntil(recordAuditEvent(request, {
+      action: 'api.request',
+      resource: pathname,
+      details: { method: request.method, query: request.nextUrl.search || undefined, apiKeyId: apiKey.id },
+    }, actor));
+    return NextResponse.next();
+  }
+
   // Get auth token from cookie
   const token = request.cookies.get(AUTH_CONFIG.COOKIE_NAME)?.value;
   console.log('[Middleware] Token present:', !!token);
 
-  // Check if token exists and is valid
-  const session = token ? verifyAuthToken(token) : null;
+  // Check if token exists and its server-side session is live (not revoked or idle)
+  const session = token ? await verifyAuthToken(token) : null;
   console.log('[Middleware] Session valid:', !!session);
 
   // If not authenticated
@@ -64,6 +110,33 @@ export function middleware(request: NextRequest) {
     return NextResponse.redirect(loginUrl);
   }
 
+  // Check the route's minimum role
+  const required = requiredRole(pathname, request.method, request.nextUrl.searchParams);
+  if (required && !hasRole(session.role, required)) {
+    console.log(`[Middleware] ${session.email} (${session.role}) lacks ${required} role for ${pathname}`);
+    event.waitUntil(recordAuditEvent(request, {
+      action: 'access.denied',
+      resource: pathname,
+      details: { method: request.method, role: session.role, requiredRole: required },
+    }, session.email));
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json(
+        { error: 'Forbidden', requiredRole: required },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  // Session endpoints are too chatty to be worth auditing
+  if (pathname.startsWith('/api/') && !pathname.startsWith('/api/auth/')) {
+    event.waitUntil(recordAuditEvent(request, {
+      action: 'api.request',
+      resource: pathname,
+      details: { method: request.method, query: request.nextUrl.search || undefined },
+    }, session.email));
+  }
+
   console.log('[Middleware] Authenticated, allowing request');
   // Authenticated - allow request
   return NextResponse.next();